@@ -0,0 +1,432 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Landmark, Plus, Edit, Trash2, Save, X, Eye } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { getCurrentUser } from "@/lib/auth"
+import { useETrikeToast } from "@/components/ui/toast-container"
+import {
+  calculateAmortization,
+  deleteFinancingPlan,
+  getFinancingApplications,
+  getFinancingPlans,
+  saveFinancingPlan,
+  type FinancingApplication,
+  type FinancingApplicationStatus,
+  type FinancingPlan,
+} from "@/lib/financing"
+
+type PlanForm = {
+  id?: number
+  name: string
+  term_months: string
+  down_payment_percent: string
+  annual_interest_rate: string
+  min_amount: string
+  description: string
+  is_active: boolean
+}
+
+const emptyPlanForm: PlanForm = {
+  name: "",
+  term_months: "12",
+  down_payment_percent: "20",
+  annual_interest_rate: "0",
+  min_amount: "",
+  description: "",
+  is_active: true,
+}
+
+// Sample price used to preview the monthly payment while editing a plan
+const PREVIEW_PRICE = 100000
+
+export default function AdminFinancingPage() {
+  const router = useRouter()
+  const toast = useETrikeToast()
+  const [plans, setPlans] = useState<FinancingPlan[]>([])
+  const [applications, setApplications] = useState<FinancingApplication[]>([])
+  const [statusFilter, setStatusFilter] = useState<FinancingApplicationStatus | "all">("pending")
+  const [planForm, setPlanForm] = useState<PlanForm | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const user = getCurrentUser()
+    if (!user || user.role !== "admin") {
+      router.push("/login")
+      return
+    }
+
+    fetchPlans()
+  }, [router])
+
+  useEffect(() => {
+    fetchApplications()
+  }, [statusFilter])
+
+  const fetchPlans = async () => {
+    setLoading(true)
+    setPlans(await getFinancingPlans(true))
+    setLoading(false)
+  }
+
+  const fetchApplications = async () => {
+    setApplications(await getFinancingApplications(statusFilter === "all" ? undefined : { status: statusFilter }))
+  }
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-PH", {
+      style: "currency",
+      currency: "PHP",
+    }).format(price)
+  }
+
+  const editPlan = (plan: FinancingPlan) => {
+    setPlanForm({
+      id: plan.id,
+      name: plan.name,
+      term_months: String(plan.term_months),
+      down_payment_percent: String(plan.down_payment_percent),
+      annual_interest_rate: String(plan.annual_interest_rate),
+      min_amount: plan.min_amount ? String(plan.min_amount) : "",
+      description: plan.description || "",
+      is_active: plan.is_active,
+    })
+  }
+
+  const handleSavePlan = async () => {
+    if (!planForm) return
+
+    try {
+      setSaving(true)
+      await saveFinancingPlan({
+        id: planForm.id,
+        name: planForm.name.trim(),
+        term_months: Number(planForm.term_months),
+        down_payment_percent: Number(planForm.down_payment_percent),
+        annual_interest_rate: Number(planForm.annual_interest_rate),
+        min_amount: planForm.min_amount ? Number(planForm.min_amount) : null,
+        description: planForm.description.trim() || null,
+        is_active: planForm.is_active,
+      })
+      toast.success("Plan Saved", `${planForm.name} has been saved`)
+      setPlanForm(null)
+      fetchPlans()
+    } catch (error) {
+      toast.error("Error", error instanceof Error ? error.message : "Failed to save financing plan")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeletePlan = async (plan: FinancingPlan) => {
+    if (!confirm(`Delete the "${plan.name}" financing plan?`)) return
+
+    if (await deleteFinancingPlan(plan.id)) {
+      toast.success("Plan Deleted", `${plan.name} has been removed`)
+      fetchPlans()
+    } else {
+      toast.error("Error", "Failed to delete financing plan")
+    }
+  }
+
+  const getStatusColor = (status: FinancingApplicationStatus) => {
+    switch (status) {
+      case "approved":
+        return "bg-green-100 text-green-800 border-green-200"
+      case "rejected":
+        return "bg-red-100 text-red-800 border-red-200"
+      case "cancelled":
+        return "bg-gray-100 text-gray-800 border-gray-200"
+      default:
+        return "bg-yellow-100 text-yellow-800 border-yellow-200"
+    }
+  }
+
+  const preview = planForm
+    ? calculateAmortization(PREVIEW_PRICE, {
+        id: 0,
+        name: planForm.name,
+        term_months: Number(planForm.term_months) || 1,
+        down_payment_percent: Number(planForm.down_payment_percent) || 0,
+        annual_interest_rate: Number(planForm.annual_interest_rate) || 0,
+        is_active: true,
+      })
+    : null
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3 mt-12">
+              <div className="p-2 bg-gradient-to-r from-orange-500 to-red-500 rounded-lg">
+                <Landmark className="w-6 h-6 text-white" />
+              </div>
+              Financing
+            </h1>
+            <Button
+              onClick={() => setPlanForm({ ...emptyPlanForm })}
+              className="bg-orange-500 hover:bg-orange-600 flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              New Plan
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Plan Editor */}
+        {planForm && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{planForm.id ? "Edit Plan" : "New Plan"}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-3">
+                  <label htmlFor="plan-name" className="block text-sm font-medium text-gray-700 mb-1">
+                    Name
+                  </label>
+                  <Input
+                    id="plan-name"
+                    value={planForm.name}
+                    onChange={(e) => setPlanForm({ ...planForm, name: e.target.value })}
+                    placeholder="e.g. 12 Months 0% Interest"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="plan-term" className="block text-sm font-medium text-gray-700 mb-1">
+                    Term (months)
+                  </label>
+                  <Input
+                    id="plan-term"
+                    type="number"
+                    min="1"
+                    max="60"
+                    value={planForm.term_months}
+                    onChange={(e) => setPlanForm({ ...planForm, term_months: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="plan-down" className="block text-sm font-medium text-gray-700 mb-1">
+                    Down Payment (%)
+                  </label>
+                  <Input
+                    id="plan-down"
+                    type="number"
+                    min="0"
+                    max="99"
+                    value={planForm.down_payment_percent}
+                    onChange={(e) => setPlanForm({ ...planForm, down_payment_percent: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="plan-rate" className="block text-sm font-medium text-gray-700 mb-1">
+                    Annual Interest Rate (%)
+                  </label>
+                  <Input
+                    id="plan-rate"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={planForm.annual_interest_rate}
+                    onChange={(e) => setPlanForm({ ...planForm, annual_interest_rate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="plan-min" className="block text-sm font-medium text-gray-700 mb-1">
+                    Minimum Amount (optional)
+                  </label>
+                  <Input
+                    id="plan-min"
+                    type="number"
+                    min="0"
+                    value={planForm.min_amount}
+                    onChange={(e) => setPlanForm({ ...planForm, min_amount: e.target.value })}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label htmlFor="plan-description" className="block text-sm font-medium text-gray-700 mb-1">
+                    Description (optional)
+                  </label>
+                  <Input
+                    id="plan-description"
+                    value={planForm.description}
+                    onChange={(e) => setPlanForm({ ...planForm, description: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={planForm.is_active}
+                  onChange={(e) => setPlanForm({ ...planForm, is_active: e.target.checked })}
+                  className="text-orange-500 focus:ring-orange-500"
+                />
+                Offer this plan to customers
+              </label>
+
+              {preview && (
+                <p className="text-sm text-gray-600 bg-orange-50 rounded-lg p-3">
+                  On a {formatPrice(PREVIEW_PRICE)} order: {formatPrice(preview.downPayment)} down, then{" "}
+                  <span className="font-semibold">{formatPrice(preview.monthlyPayment)}/month</span> for{" "}
+                  {planForm.term_months} months ({formatPrice(preview.totalPayable)} total).
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <Button onClick={handleSavePlan} disabled={saving} className="bg-orange-500 hover:bg-orange-600">
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? "Saving..." : "Save Plan"}
+                </Button>
+                <Button variant="outline" onClick={() => setPlanForm(null)} disabled={saving}>
+                  <X className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Plans */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Financing Plans</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500" />
+              </div>
+            ) : plans.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">
+                No plans configured yet. Checkout falls back to the default 12, 24 and 36 month plans.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4">Plan</th>
+                      <th className="py-2 pr-4">Term</th>
+                      <th className="py-2 pr-4">Down Payment</th>
+                      <th className="py-2 pr-4">Interest</th>
+                      <th className="py-2 pr-4">Status</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plans.map((plan) => (
+                      <tr key={plan.id} className="border-b last:border-0">
+                        <td className="py-3 pr-4 font-medium text-gray-900">{plan.name}</td>
+                        <td className="py-3 pr-4">{plan.term_months} months</td>
+                        <td className="py-3 pr-4">{plan.down_payment_percent}%</td>
+                        <td className="py-3 pr-4">{plan.annual_interest_rate}% p.a.</td>
+                        <td className="py-3 pr-4">
+                          <Badge
+                            className={
+                              plan.is_active
+                                ? "bg-green-100 text-green-800 border-green-200"
+                                : "bg-gray-100 text-gray-600 border-gray-200"
+                            }
+                          >
+                            {plan.is_active ? "Active" : "Inactive"}
+                          </Badge>
+                        </td>
+                        <td className="py-3 text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => editPlan(plan)}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeletePlan(plan)}
+                            className="text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Applications */}
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <CardTitle>Applications</CardTitle>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as FinancingApplicationStatus | "all")}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="pending">Pending</option>
+              <option value="approved">Approved</option>
+              <option value="rejected">Rejected</option>
+              <option value="cancelled">Cancelled</option>
+              <option value="all">All</option>
+            </select>
+          </CardHeader>
+          <CardContent>
+            {applications.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No financing applications found.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4">Order</th>
+                      <th className="py-2 pr-4">Plan</th>
+                      <th className="py-2 pr-4">Amount</th>
+                      <th className="py-2 pr-4">Monthly</th>
+                      <th className="py-2 pr-4">Income</th>
+                      <th className="py-2 pr-4">Status</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {applications.map((application) => (
+                      <tr key={application.id} className="border-b last:border-0">
+                        <td className="py-3 pr-4 font-medium text-gray-900">#{application.order_id}</td>
+                        <td className="py-3 pr-4">{application.plan?.name || `${application.term_months} months`}</td>
+                        <td className="py-3 pr-4">{formatPrice(application.amount)}</td>
+                        <td className="py-3 pr-4">{formatPrice(application.monthly_payment)}</td>
+                        <td className="py-3 pr-4">{formatPrice(application.monthly_income)}</td>
+                        <td className="py-3 pr-4">
+                          <Badge className={`${getStatusColor(application.status)} capitalize`}>
+                            {application.status}
+                          </Badge>
+                        </td>
+                        <td className="py-3 text-right">
+                          <Link href={`/admin/orders/${application.order_id}`}>
+                            <Button variant="ghost" size="sm">
+                              <Eye className="w-4 h-4 mr-1" />
+                              Review
+                            </Button>
+                          </Link>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
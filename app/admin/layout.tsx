@@ -4,6 +4,7 @@ import type React from "react"
 import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import AdminSidebar from "@/components/layout/admin-sidebar"
+import NotificationDropdown from "@/components/notification-dropdown"
 import { getCurrentUser } from "@/lib/auth"
 import type { User } from "@/lib/types"
 import ETrikeLoader from "@/components/ui/etrike-loader"
@@ -45,7 +46,13 @@ export default function AdminLayout({
   return (
     <div className="min-h-screen bg-gray-50 flex">
       <AdminSidebar />
-      <main className="flex-1 overflow-auto">{children}</main>
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Staff notifications, e.g. mentions in internal order notes */}
+        <div className="flex justify-end border-b bg-white px-4 py-2">
+          <NotificationDropdown />
+        </div>
+        <main className="flex-1 overflow-auto">{children}</main>
+      </div>
     </div>
   )
 }
@@ -18,14 +18,34 @@ import {
   AlertCircle,
   Edit3,
   DollarSign,
+  RefreshCw,
+  RotateCcw,
+  Landmark,
+  Store,
+  FileText,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
 import ETrikeLoader from "@/components/ui/etrike-loader"
+import { OrderNotes } from "@/components/admin/order-notes"
 import { getCurrentUser } from "@/lib/auth"
+import { getManualPaymentStatuses, getPaymentMethodLabel, isOnlinePayment } from "@/lib/payments/methods"
+import { getFinancingApplications, reviewFinancingApplication, type FinancingApplication } from "@/lib/financing"
+import {
+  checkOrderTransition,
+  getAllowedTransitions,
+  getOrderStatusLabel,
+  type StatusHistoryEntry,
+} from "@/lib/order-status"
+import { getServiceCenter } from "@/lib/service-centers"
+import { COURIERS, getCourierName } from "@/lib/couriers/options"
+import { computeVat, downloadInvoice, isInvoiceAvailable, type InvoiceBuyer } from "@/lib/invoice"
 
 interface OrderItem {
   id: number
@@ -33,6 +53,8 @@ interface OrderItem {
   quantity: number
   price: number
   color: string | null
+  option?: string | null
+  sku?: string | null
   total: number
   product: {
     id: number
@@ -44,14 +66,47 @@ interface OrderItem {
   }
 }
 
+interface PaymentEvent {
+  id: number
+  event_id: string
+  type: string
+  provider?: string
+  intent_id: string
+  payment_status: string
+  previous_payment_status?: string
+  applied: boolean
+  amount?: number
+  amount_refunded?: number
+  occurred_at: string
+  created_at: string
+}
+
 interface OrderDetails {
   id: number
   order_number: string
   status: string
   payment_status?: string
+  payment_provider?: string | null
+  payment_reference?: string | null
+  amount_refunded?: number
   total: number
   subtotal: number
   shipping_fee: number
+  shipping_zone?: string | null
+  fulfillment_method?: string | null
+  pickup_center_id?: string | null
+  pickup_date?: string | null
+  courier?: string | null
+  tracking_number?: string | null
+  shipment_status?: string | null
+  label_url?: string | null
+  estimated_delivery?: string | null
+  voucher_code?: string | null
+  discount_amount?: number
+  vatable_sales?: number | null
+  vat_amount?: number | null
+  invoice_number?: string | null
+  invoice_info?: InvoiceBuyer | null
   created_at: string
   updated_at: string
   shipped_at: string | null
@@ -63,7 +118,9 @@ interface OrderDetails {
   phone: string
   address: string
   city: string
+  barangay?: string | null
   province: string
+  region?: string | null
   zip_code: string
   payment_method: string
   user: {
@@ -108,7 +165,16 @@ export default function AdminOrderDetailsPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [updatingStatus, setUpdatingStatus] = useState(false)
+  const [downloadingInvoice, setDownloadingInvoice] = useState(false)
   const [updatingPaymentStatus, setUpdatingPaymentStatus] = useState(false)
+  const [updatingShipment, setUpdatingShipment] = useState(false)
+  const [paymentEvents, setPaymentEvents] = useState<PaymentEvent[]>([])
+  const [statusHistory, setStatusHistory] = useState<StatusHistoryEntry[]>([])
+  const [statusNote, setStatusNote] = useState("")
+  const [financingApplication, setFinancingApplication] = useState<FinancingApplication | null>(null)
+  const [financingNote, setFinancingNote] = useState("")
+  const [downPaymentReceived, setDownPaymentReceived] = useState("")
+  const [reviewingFinancing, setReviewingFinancing] = useState(false)
 
   useEffect(() => {
     const user = getCurrentUser()
@@ -134,6 +200,15 @@ export default function AdminOrderDetailsPage() {
       const data = await response.json()
       if (data.success) {
         setOrder(data.data)
+        fetchStatusHistory()
+        if (isOnlinePayment(data.data.payment_method)) {
+          fetchPaymentEvents()
+        }
+        if (data.data.payment_method === "financing") {
+          const applications = await getFinancingApplications({ order_id: orderId })
+          setFinancingApplication(applications[0] || null)
+          setDownPaymentReceived(applications[0] ? String(applications[0].down_payment) : "")
+        }
       } else {
         throw new Error(data.message || "Failed to fetch order details")
       }
@@ -145,6 +220,68 @@ export default function AdminOrderDetailsPage() {
     }
   }
 
+  const fetchStatusHistory = async () => {
+    try {
+      const token = getAuthToken()
+      const response = await fetch(`/api/orders/${orderId}/status`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      const data = await response.json()
+      if (data.success && Array.isArray(data.data)) {
+        setStatusHistory(data.data)
+      }
+    } catch (error) {
+      console.error("Error fetching status history:", error)
+    }
+  }
+
+  const fetchPaymentEvents = async () => {
+    try {
+      const token = getAuthToken()
+      const response = await fetch(`/api/orders/${orderId}/payment-events`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      const data = await response.json()
+      if (data.success && Array.isArray(data.data)) {
+        setPaymentEvents(data.data)
+      }
+    } catch (error) {
+      console.error("Error fetching payment events:", error)
+    }
+  }
+
+  const handleFinancingReview = async (status: "approved" | "rejected") => {
+    if (!financingApplication) return
+
+    if (status === "rejected" && !financingNote.trim()) {
+      setError("Please add a note explaining why the financing application is rejected.")
+      return
+    }
+
+    try {
+      setReviewingFinancing(true)
+      const application = await reviewFinancingApplication(
+        financingApplication.id,
+        status,
+        financingNote.trim() || undefined,
+        status === "approved" ? Number(downPaymentReceived) : undefined,
+      )
+      setFinancingApplication(application)
+      setFinancingNote("")
+      setError(null)
+      await fetchOrderDetails()
+    } catch (error) {
+      console.error("Error reviewing financing application:", error)
+      setError(error instanceof Error ? error.message : "Failed to update financing application.")
+    } finally {
+      setReviewingFinancing(false)
+    }
+  }
+
   const getAuthToken = () => {
     try {
       const sessionData = localStorage.getItem("session")
@@ -168,18 +305,21 @@ export default function AdminOrderDetailsPage() {
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, note: statusNote.trim() || undefined }),
       })
       const data = await response.json()
       if (data.success) {
         await fetchOrderDetails() // Refresh order details
-        setError(null)
+        setStatusNote("")
+        // The status changed, but a follow-up such as the refund needs staff attention
+        setError(data.warnings?.length ? data.warnings.join(" ") : null)
       } else {
         throw new Error(data.message || "Failed to update status")
       }
     } catch (error) {
       console.error("Error updating order status:", error)
-      setError("Failed to update order status. Please try again.")
+      // Rejected transitions come back as a 409 with the reason in the message
+      setError(error instanceof Error ? error.message : "Failed to update order status. Please try again.")
     } finally {
       setUpdatingStatus(false)
     }
@@ -208,12 +348,102 @@ export default function AdminOrderDetailsPage() {
       }
     } catch (error) {
       console.error("Error updating payment status:", error)
-      setError("Failed to update payment status. Please try again.")
+      setError(error instanceof Error ? error.message : "Failed to update payment status. Please try again.")
     } finally {
       setUpdatingPaymentStatus(false)
     }
   }
 
+  // Online payments are driven by the provider; staff can only reconcile, capture or refund
+  const handlePaymentAction = async (action: "sync" | "capture" | "refund") => {
+    if (!order) return
+
+    let body: Record<string, any> = { action, scope: "admin" }
+
+    if (action === "refund") {
+      const input = window.prompt(
+        `Refund amount (leave blank to refund the full ${formatPrice(order.total - (order.amount_refunded || 0))})`,
+        "",
+      )
+      if (input === null) return
+
+      const reason = window.prompt("Reason for the refund", "") || undefined
+      body = { ...body, amount: input.trim() ? Number(input) : undefined, reason }
+    }
+
+    try {
+      setUpdatingPaymentStatus(true)
+      const token = getAuthToken()
+      const response = await fetch(`/api/orders/${order.id}/payment-status`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (data.success) {
+        await fetchOrderDetails()
+        setError(null)
+      } else {
+        throw new Error(data.message || "Payment action failed")
+      }
+    } catch (error) {
+      console.error(`Error running payment action ${action}:`, error)
+      setError(error instanceof Error ? error.message : "Payment action failed. Please try again.")
+    } finally {
+      setUpdatingPaymentStatus(false)
+    }
+  }
+
+  // Waybills are booked, synced and voided with the carrier; the order keeps the tracking number
+  const handleShipmentAction = async (action: "create" | "sync" | "cancel", courier?: string) => {
+    if (!order) return
+    if (action === "cancel" && !window.confirm(`Cancel waybill ${order.tracking_number}?`)) return
+
+    try {
+      setUpdatingShipment(true)
+      const token = getAuthToken()
+      const response = await fetch(`/api/admin/orders/${order.id}/shipment`, {
+        method: action === "create" ? "POST" : action === "sync" ? "PUT" : "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: action === "create" ? JSON.stringify({ courier }) : undefined,
+      })
+      const data = await response.json()
+      if (data.success) {
+        await fetchOrderDetails()
+        setError(null)
+      } else {
+        throw new Error(data.message || "Shipment action failed")
+      }
+    } catch (error) {
+      console.error(`Error running shipment action ${action}:`, error)
+      setError(error instanceof Error ? error.message : "Shipment action failed. Please try again.")
+    } finally {
+      setUpdatingShipment(false)
+    }
+  }
+
+  const handleDownloadInvoice = async () => {
+    if (!order) return
+
+    try {
+      setDownloadingInvoice(true)
+      await downloadInvoice(order.id, "admin")
+      // The first download assigns the invoice number
+      if (!order.invoice_number) await fetchOrderDetails()
+    } catch (error) {
+      console.error("Error downloading invoice:", error)
+      setError(error instanceof Error ? error.message : "Failed to download invoice. Please try again.")
+    } finally {
+      setDownloadingInvoice(false)
+    }
+  }
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat("en-PH", {
       style: "currency",
@@ -233,6 +463,8 @@ export default function AdminOrderDetailsPage() {
         return "bg-purple-100 text-purple-800 border-purple-200"
       case "shipped":
         return "bg-orange-100 text-orange-800 border-orange-200"
+      case "ready_for_pickup":
+        return "bg-teal-100 text-teal-800 border-teal-200"
       case "delivered":
         return "bg-green-100 text-green-800 border-green-200"
       case "cancelled":
@@ -269,6 +501,8 @@ export default function AdminOrderDetailsPage() {
         return <Package className="w-3 h-3 sm:w-4 sm:h-4" />
       case "shipped":
         return <Truck className="w-3 h-3 sm:w-4 sm:h-4" />
+      case "ready_for_pickup":
+        return <Store className="w-3 h-3 sm:w-4 sm:h-4" />
       case "delivered":
         return <CheckCircle className="w-3 h-3 sm:w-4 sm:h-4" />
       case "cancelled":
@@ -295,8 +529,9 @@ export default function AdminOrderDetailsPage() {
     }
   }
 
-  const statuses = ["pending", "confirmed", "processing", "shipped", "delivered", "cancelled"]
-  const paymentStatuses = ["pending", "paid", "failed", "refunded", "cancelled"]
+  const nextStatuses = order ? getAllowedTransitions(order) : []
+  const transitionOrder = order && { ...order, financing_status: financingApplication?.status }
+  const manualPaymentStatuses = order ? getManualPaymentStatuses(order) : []
 
   if (loading) {
     return (
@@ -363,7 +598,7 @@ export default function AdminOrderDetailsPage() {
                   className={`${getStatusColor(order.status)} flex items-center space-x-1 px-2 py-1 w-fit text-xs`}
                 >
                   {getStatusIcon(order.status)}
-                  <span className="font-medium capitalize">{order.status}</span>
+                  <span className="font-medium">{getOrderStatusLabel(order.status, order.fulfillment_method)}</span>
                 </Badge>
               </div>
               <div className="flex flex-col space-y-1">
@@ -410,7 +645,7 @@ export default function AdminOrderDetailsPage() {
                 <span className="text-xs sm:text-sm text-white/80">Order Status:</span>
                 <Badge className={`${getStatusColor(order.status)} flex items-center space-x-2 px-3 py-2`}>
                   {getStatusIcon(order.status)}
-                  <span className="font-medium capitalize">{order.status}</span>
+                  <span className="font-medium">{getOrderStatusLabel(order.status, order.fulfillment_method)}</span>
                 </Badge>
               </div>
               <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-2 space-y-1 sm:space-y-0">
@@ -477,6 +712,8 @@ export default function AdminOrderDetailsPage() {
                         </h4>
                         <p className="text-xs sm:text-sm text-gray-600 line-clamp-2">{item.product.description}</p>
                         {item.color && <p className="text-xs sm:text-sm text-gray-500">Color: {item.color}</p>}
+                        {item.option && <p className="text-xs sm:text-sm text-gray-500">Option: {item.option}</p>}
+                        {item.sku && <p className="text-xs text-gray-400">SKU: {item.sku}</p>}
                         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mt-2 space-y-1 sm:space-y-0">
                           <span className="text-xs sm:text-sm text-gray-600">
                             Qty: {item.quantity} × {formatPrice(item.price)}
@@ -501,29 +738,90 @@ export default function AdminOrderDetailsPage() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-2 sm:flex sm:flex-wrap gap-2">
-                  {statuses.map((status) => (
-                    <Button
-                      key={status}
-                      onClick={() => handleStatusUpdate(status)}
-                      disabled={updatingStatus || order.status === status}
-                      variant={order.status === status ? "default" : "outline"}
-                      size="sm"
-                      className={`${
-                        order.status === status
-                          ? "bg-orange-500 hover:bg-orange-600"
-                          : "border-orange-200 text-orange-600 hover:bg-orange-50"
-                      } text-xs sm:text-sm`}
-                    >
-                      {getStatusIcon(status)}
-                      <span className="ml-1 sm:ml-2 capitalize">{status}</span>
-                    </Button>
-                  ))}
-                </div>
+                {nextStatuses.length === 0 ? (
+                  <p className="text-xs sm:text-sm text-gray-500">
+                    This order is {getOrderStatusLabel(order.status, order.fulfillment_method).toLowerCase()} and can no
+                    longer change status.
+                  </p>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 sm:flex sm:flex-wrap gap-2">
+                      {nextStatuses.map((status) => {
+                        const blockedReason = checkOrderTransition(transitionOrder!, status)
+                        return (
+                          <Button
+                            key={status}
+                            onClick={() => handleStatusUpdate(status)}
+                            disabled={updatingStatus || !!blockedReason}
+                            title={blockedReason || undefined}
+                            variant="outline"
+                            size="sm"
+                            className="border-orange-200 text-orange-600 hover:bg-orange-50 text-xs sm:text-sm"
+                          >
+                            {getStatusIcon(status)}
+                            <span className="ml-1 sm:ml-2">
+                              {getOrderStatusLabel(status, order.fulfillment_method)}
+                            </span>
+                          </Button>
+                        )
+                      })}
+                    </div>
+                    {nextStatuses.some((status) => checkOrderTransition(transitionOrder!, status)) && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Shipping and hand-over unlock once the order is paid, or its financing approved.
+                      </p>
+                    )}
+                    <Textarea
+                      value={statusNote}
+                      onChange={(e) => setStatusNote(e.target.value)}
+                      placeholder="Note for the status history (optional)"
+                      aria-label="Status change note"
+                      maxLength={500}
+                      rows={2}
+                      className="mt-3 text-sm"
+                    />
+                  </>
+                )}
                 {updatingStatus && <p className="text-xs sm:text-sm text-gray-600 mt-2">Updating status...</p>}
               </CardContent>
             </Card>
 
+            {/* Status History */}
+            <Card>
+              <CardHeader className="pb-3 sm:pb-6">
+                <CardTitle className="flex items-center space-x-2 text-base sm:text-lg">
+                  <Clock className="w-4 h-4 sm:w-5 sm:h-5" />
+                  <span>Status History</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {statusHistory.length === 0 ? (
+                  <p className="text-xs sm:text-sm text-gray-500">No status changes recorded yet.</p>
+                ) : (
+                  <div className="space-y-2 sm:space-y-3">
+                    {statusHistory.map((entry) => (
+                      <div key={entry.id} className="p-3 border rounded-lg text-xs sm:text-sm">
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+                          <span className="font-medium">
+                            {entry.from_status
+                              ? `${getOrderStatusLabel(entry.from_status, order.fulfillment_method)} → `
+                              : ""}
+                            {getOrderStatusLabel(entry.to_status, order.fulfillment_method)}
+                          </span>
+                          <span className="text-gray-500">{new Date(entry.created_at).toLocaleString("en-PH")}</span>
+                        </div>
+                        <p className="text-gray-600 mt-1">
+                          by {entry.actor_name || "System"}
+                          {entry.actor_role ? ` (${entry.actor_role})` : ""}
+                        </p>
+                        {entry.note && <p className="text-gray-700 mt-1 whitespace-pre-line">{entry.note}</p>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Payment Status Update */}
             <Card>
               <CardHeader className="pb-3 sm:pb-6">
@@ -542,30 +840,221 @@ export default function AdminOrderDetailsPage() {
                     <span className="font-medium capitalize">{order.payment_status || "pending"}</span>
                   </Badge>
                 </div>
-                <div className="grid grid-cols-2 sm:flex sm:flex-wrap gap-2">
-                  {paymentStatuses.map((status) => (
-                    <Button
-                      key={status}
-                      onClick={() => handlePaymentStatusUpdate(status)}
-                      disabled={updatingPaymentStatus || (order.payment_status || "pending") === status}
-                      variant={(order.payment_status || "pending") === status ? "default" : "outline"}
-                      size="sm"
-                      className={`${
-                        (order.payment_status || "pending") === status
-                          ? "bg-orange-500 hover:bg-orange-600"
-                          : "border-orange-200 text-orange-600 hover:bg-orange-50"
-                      } text-xs sm:text-sm`}
-                    >
-                      {getPaymentStatusIcon(status)}
-                      <span className="ml-1 sm:ml-2 capitalize">{status}</span>
-                    </Button>
-                  ))}
-                </div>
+                {isOnlinePayment(order.payment_method) ? (
+                  <div className="space-y-3">
+                    <p className="text-xs sm:text-sm text-gray-600">
+                      Paid through {getPaymentMethodLabel(order.payment_method)}. The status follows the payment
+                      provider.
+                    </p>
+                    {order.payment_reference && (
+                      <p className="text-xs text-gray-500 break-all">Reference: {order.payment_reference}</p>
+                    )}
+                    <div className="grid grid-cols-2 sm:flex sm:flex-wrap gap-2">
+                      <Button
+                        onClick={() => handlePaymentAction("sync")}
+                        disabled={updatingPaymentStatus || !order.payment_reference}
+                        variant="outline"
+                        size="sm"
+                        className="border-orange-200 text-orange-600 hover:bg-orange-50 text-xs sm:text-sm"
+                      >
+                        <RefreshCw className="w-3 h-3 sm:w-4 sm:h-4" />
+                        <span className="ml-1 sm:ml-2">Sync with Provider</span>
+                      </Button>
+                      <Button
+                        onClick={() => handlePaymentAction("refund")}
+                        disabled={updatingPaymentStatus || order.payment_status !== "paid"}
+                        variant="outline"
+                        size="sm"
+                        className="border-orange-200 text-orange-600 hover:bg-orange-50 text-xs sm:text-sm"
+                      >
+                        <RotateCcw className="w-3 h-3 sm:w-4 sm:h-4" />
+                        <span className="ml-1 sm:ml-2">Refund</span>
+                      </Button>
+                    </div>
+                    {!!order.amount_refunded && (
+                      <p className="text-xs sm:text-sm text-gray-600">Refunded: {formatPrice(order.amount_refunded)}</p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <p className="text-xs sm:text-sm text-gray-600">
+                      {order.payment_method === "financing"
+                        ? "Installments are collected by the lender, so this stays unpaid. Approving the application releases the order."
+                        : "Record the cash once the rider or branch has collected it."}
+                    </p>
+                    {manualPaymentStatuses.length > 0 && (
+                      <div className="grid grid-cols-2 sm:flex sm:flex-wrap gap-2">
+                        {manualPaymentStatuses.map((status) => (
+                          <Button
+                            key={status}
+                            onClick={() => handlePaymentStatusUpdate(status)}
+                            disabled={updatingPaymentStatus}
+                            variant="outline"
+                            size="sm"
+                            className="border-orange-200 text-orange-600 hover:bg-orange-50 text-xs sm:text-sm"
+                          >
+                            {getPaymentStatusIcon(status)}
+                            <span className="ml-1 sm:ml-2">Mark as {status}</span>
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
                 {updatingPaymentStatus && (
                   <p className="text-xs sm:text-sm text-gray-600 mt-2">Updating payment status...</p>
                 )}
               </CardContent>
             </Card>
+
+            {/* Shipment */}
+            {order.fulfillment_method !== "pickup" && (
+              <Card>
+                <CardHeader className="pb-3 sm:pb-6">
+                  <CardTitle className="flex items-center space-x-2 text-base sm:text-lg">
+                    <Truck className="w-4 h-4 sm:w-5 sm:h-5" />
+                    <span>Shipment</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {order.tracking_number && order.shipment_status !== "cancelled" ? (
+                    <>
+                      <div className="text-xs sm:text-sm space-y-1">
+                        <p>
+                          <span className="text-gray-600">Courier:</span> {getCourierName(order.courier)}
+                        </p>
+                        <p className="break-all">
+                          <span className="text-gray-600">Tracking Number:</span>{" "}
+                          <span className="font-mono">{order.tracking_number}</span>
+                        </p>
+                        {order.shipment_status && (
+                          <p>
+                            <span className="text-gray-600">Carrier Status:</span>{" "}
+                            <span className="capitalize">{order.shipment_status.replace(/_/g, " ")}</span>
+                          </p>
+                        )}
+                        {order.estimated_delivery && (
+                          <p>
+                            <span className="text-gray-600">Estimated Delivery:</span>{" "}
+                            {new Date(order.estimated_delivery).toLocaleDateString("en-PH", { dateStyle: "medium" })}
+                          </p>
+                        )}
+                        {order.label_url && (
+                          <a
+                            href={order.label_url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-orange-600 hover:underline"
+                          >
+                            Print waybill label
+                          </a>
+                        )}
+                      </div>
+                      {COURIERS.find((courier) => courier.code === order.courier)?.integrated && (
+                        <div className="grid grid-cols-2 sm:flex sm:flex-wrap gap-2">
+                          <Button
+                            onClick={() => handleShipmentAction("sync")}
+                            disabled={updatingShipment}
+                            variant="outline"
+                            size="sm"
+                            className="border-orange-200 text-orange-600 hover:bg-orange-50 text-xs sm:text-sm"
+                          >
+                            <RefreshCw className="w-3 h-3 sm:w-4 sm:h-4" />
+                            <span className="ml-1 sm:ml-2">Sync Tracking</span>
+                          </Button>
+                          <Button
+                            onClick={() => handleShipmentAction("cancel")}
+                            disabled={updatingShipment || order.status === "shipped" || order.status === "delivered"}
+                            variant="outline"
+                            size="sm"
+                            className="border-red-200 text-red-600 hover:bg-red-50 text-xs sm:text-sm"
+                          >
+                            <XCircle className="w-3 h-3 sm:w-4 sm:h-4" />
+                            <span className="ml-1 sm:ml-2">Cancel Waybill</span>
+                          </Button>
+                        </div>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        Checkpoints sync from the carrier automatically and move the order to shipped and delivered.
+                      </p>
+                    </>
+                  ) : ["confirmed", "processing"].includes(order.status) ? (
+                    <>
+                      <p className="text-xs sm:text-sm text-gray-600">
+                        Book a waybill to hand this order to a courier.
+                      </p>
+                      <div className="grid grid-cols-2 sm:flex sm:flex-wrap gap-2">
+                        {COURIERS.filter((courier) => courier.integrated).map((courier) => (
+                          <Button
+                            key={courier.code}
+                            onClick={() => handleShipmentAction("create", courier.code)}
+                            disabled={updatingShipment}
+                            variant="outline"
+                            size="sm"
+                            className="border-orange-200 text-orange-600 hover:bg-orange-50 text-xs sm:text-sm"
+                          >
+                            <Truck className="w-3 h-3 sm:w-4 sm:h-4" />
+                            <span className="ml-1 sm:ml-2">{courier.name}</span>
+                          </Button>
+                        ))}
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-xs sm:text-sm text-gray-600">
+                      {order.courier ? `Handled by ${getCourierName(order.courier)}.` : "No waybill for this order."}
+                    </p>
+                  )}
+                  {updatingShipment && <p className="text-xs sm:text-sm text-gray-600">Contacting courier...</p>}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Payment Event Log */}
+            {isOnlinePayment(order.payment_method) && (
+              <Card>
+                <CardHeader className="pb-3 sm:pb-6">
+                  <CardTitle className="flex items-center space-x-2 text-base sm:text-lg">
+                    <Clock className="w-4 h-4 sm:w-5 sm:h-5" />
+                    <span>Payment Events ({paymentEvents.length})</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {paymentEvents.length === 0 ? (
+                    <p className="text-xs sm:text-sm text-gray-500">No provider events received yet.</p>
+                  ) : (
+                    <div className="space-y-2 sm:space-y-3">
+                      {paymentEvents.map((event) => (
+                        <div key={event.id} className="p-3 border rounded-lg text-xs sm:text-sm">
+                          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+                            <span className="font-medium">{event.type}</span>
+                            <span className="text-gray-500">
+                              {new Date(event.occurred_at || event.created_at).toLocaleString("en-PH")}
+                            </span>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-2 mt-1 text-gray-600">
+                            <span className="capitalize">
+                              {event.previous_payment_status || "pending"} → {event.payment_status}
+                            </span>
+                            {!event.applied && (
+                              <Badge className="bg-gray-100 text-gray-700 border-gray-200 text-xs">Not applied</Badge>
+                            )}
+                            {event.amount !== undefined && event.amount !== null && (
+                              <span>{formatPrice(event.amount)}</span>
+                            )}
+                          </div>
+                          <p className="text-gray-400 break-all mt-1">
+                            {event.event_id} · {event.intent_id}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Internal Notes */}
+            <OrderNotes orderId={order.id} />
           </div>
 
           {/* Right Column - Customer & Payment Info */}
@@ -600,11 +1089,32 @@ export default function AdminOrderDetailsPage() {
                     <Phone className="w-3 h-3 sm:w-4 sm:h-4 text-gray-400 flex-shrink-0" />
                     <span className="text-xs sm:text-sm">{order.phone}</span>
                   </div>
+                  {order.fulfillment_method === "pickup" && (
+                    <div className="flex items-start space-x-3">
+                      <Store className="w-3 h-3 sm:w-4 sm:h-4 text-gray-400 mt-0.5 flex-shrink-0" />
+                      <div className="text-xs sm:text-sm">
+                        <p className="font-medium">
+                          Pickup at {getServiceCenter(order.pickup_center_id)?.name || order.pickup_center_id}
+                        </p>
+                        {order.pickup_date && (
+                          <p className="text-gray-600">
+                            {new Date(`${order.pickup_date}T00:00:00`).toLocaleDateString("en-PH", {
+                              weekday: "long",
+                              year: "numeric",
+                              month: "long",
+                              day: "numeric",
+                            })}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )}
                   <div className="flex items-start space-x-3">
                     <MapPin className="w-3 h-3 sm:w-4 sm:h-4 text-gray-400 mt-0.5 flex-shrink-0" />
                     <div className="text-xs sm:text-sm">
                       <p>{order.address}</p>
                       <p>
+                        {order.barangay ? `${order.barangay}, ` : ""}
                         {order.city}, {order.province} {order.zip_code}
                       </p>
                     </div>
@@ -631,7 +1141,7 @@ export default function AdminOrderDetailsPage() {
                         : "bg-green-100 text-green-800 border-green-200"
                     } text-xs w-fit`}
                   >
-                    {order.payment_method === "cod" ? "Cash on Delivery" : "Card Payment"}
+                    {getPaymentMethodLabel(order.payment_method)}
                   </Badge>
                 </div>
                 <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center space-y-1 sm:space-y-0">
@@ -649,8 +1159,16 @@ export default function AdminOrderDetailsPage() {
                     <span className="text-xs sm:text-sm text-gray-600">Subtotal:</span>
                     <span className="text-xs sm:text-sm">{formatPrice(order.subtotal)}</span>
                   </div>
+                  {!!order.discount_amount && (
+                    <div className="flex justify-between">
+                      <span className="text-xs sm:text-sm text-gray-600">Discount ({order.voucher_code}):</span>
+                      <span className="text-xs sm:text-sm text-green-600">-{formatPrice(order.discount_amount)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
-                    <span className="text-xs sm:text-sm text-gray-600">Shipping Fee:</span>
+                    <span className="text-xs sm:text-sm text-gray-600">
+                      Shipping Fee{order.shipping_zone ? ` (${order.shipping_zone})` : ""}:
+                    </span>
                     <span className="text-xs sm:text-sm">{formatPrice(order.shipping_fee)}</span>
                   </div>
                   <Separator />
@@ -658,10 +1176,182 @@ export default function AdminOrderDetailsPage() {
                     <span className="font-semibold text-sm sm:text-base">Total:</span>
                     <span className="font-bold text-orange-600 text-sm sm:text-base">{formatPrice(order.total)}</span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-xs text-gray-500">VATable Sales:</span>
+                    <span className="text-xs text-gray-500">
+                      {formatPrice(order.vatable_sales ?? computeVat(order.total).vatable_sales)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-xs text-gray-500">VAT (12%):</span>
+                    <span className="text-xs text-gray-500">
+                      {formatPrice(order.vat_amount ?? computeVat(order.total).vat_amount)}
+                    </span>
+                  </div>
                 </div>
+                {order.invoice_info && (
+                  <>
+                    <Separator />
+                    <div className="text-xs sm:text-sm space-y-1">
+                      <p className="font-medium">Invoice to: {order.invoice_info.business_name}</p>
+                      <p className="text-gray-600">TIN: {order.invoice_info.tin}</p>
+                      <p className="text-gray-600">{order.invoice_info.business_address}</p>
+                    </div>
+                  </>
+                )}
+                {isInvoiceAvailable(order) && (
+                  <Button
+                    onClick={handleDownloadInvoice}
+                    disabled={downloadingInvoice}
+                    variant="outline"
+                    size="sm"
+                    className="w-full border-orange-200 text-orange-600 hover:bg-orange-50 text-xs sm:text-sm"
+                  >
+                    <FileText className="w-3 h-3 sm:w-4 sm:h-4 mr-2" />
+                    {downloadingInvoice
+                      ? "Preparing invoice..."
+                      : order.invoice_number
+                        ? `Download Invoice ${order.invoice_number}`
+                        : "Issue & Download Invoice"}
+                  </Button>
+                )}
               </CardContent>
             </Card>
 
+            {/* Financing Application */}
+            {order.payment_method === "financing" && (
+              <Card>
+                <CardHeader className="pb-3 sm:pb-6">
+                  <CardTitle className="flex items-center space-x-2 text-base sm:text-lg">
+                    <Landmark className="w-4 h-4 sm:w-5 sm:h-5" />
+                    <span>Financing Application</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 sm:space-y-4">
+                  {!financingApplication ? (
+                    <p className="text-xs sm:text-sm text-gray-500">
+                      No financing application was filed for this order.
+                    </p>
+                  ) : (
+                    <>
+                      <div className="flex justify-between items-center">
+                        <span className="text-xs sm:text-sm text-gray-600">Status:</span>
+                        <Badge
+                          className={`${
+                            financingApplication.status === "approved"
+                              ? "bg-green-100 text-green-800 border-green-200"
+                              : financingApplication.status === "rejected"
+                                ? "bg-red-100 text-red-800 border-red-200"
+                                : financingApplication.status === "cancelled"
+                                  ? "bg-gray-100 text-gray-800 border-gray-200"
+                                  : "bg-yellow-100 text-yellow-800 border-yellow-200"
+                          } text-xs w-fit capitalize`}
+                        >
+                          {financingApplication.status}
+                        </Badge>
+                      </div>
+                      <div className="space-y-2 text-xs sm:text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Plan:</span>
+                          <span>
+                            {financingApplication.plan?.name ||
+                              `${financingApplication.term_months} months @ ${financingApplication.annual_interest_rate}%`}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Down Payment:</span>
+                          <span>{formatPrice(financingApplication.down_payment)}</span>
+                        </div>
+                        {financingApplication.down_payment_received != null && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Down Payment Received:</span>
+                            <span>{formatPrice(financingApplication.down_payment_received)}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Monthly:</span>
+                          <span className="font-semibold">
+                            {formatPrice(financingApplication.monthly_payment)} × {financingApplication.term_months}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Total Payable:</span>
+                          <span>{formatPrice(financingApplication.total_payable)}</span>
+                        </div>
+                        <Separator />
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Employment:</span>
+                          <span>{financingApplication.employment_status}</span>
+                        </div>
+                        {financingApplication.employer && (
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Employer:</span>
+                            <span className="text-right">{financingApplication.employer}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-gray-600">Monthly Income:</span>
+                          <span>{formatPrice(financingApplication.monthly_income)}</span>
+                        </div>
+                      </div>
+                      {financingApplication.admin_note && (
+                        <p className="text-xs sm:text-sm text-gray-600 bg-gray-50 rounded-lg p-2">
+                          {financingApplication.admin_note}
+                        </p>
+                      )}
+                      {financingApplication.status === "pending" && (
+                        <div className="space-y-2">
+                          <Textarea
+                            value={financingNote}
+                            onChange={(e) => setFinancingNote(e.target.value)}
+                            placeholder="Note for the customer (required when rejecting)"
+                            className="text-xs sm:text-sm"
+                            rows={2}
+                          />
+                          <div className="space-y-1">
+                            <Label htmlFor="down-payment-received" className="text-xs sm:text-sm text-gray-600">
+                              Down payment received
+                            </Label>
+                            <Input
+                              id="down-payment-received"
+                              type="number"
+                              min={0}
+                              max={financingApplication.down_payment}
+                              step="0.01"
+                              value={downPaymentReceived}
+                              onChange={(e) => setDownPaymentReceived(e.target.value)}
+                              className="text-xs sm:text-sm"
+                            />
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <Button
+                              onClick={() => handleFinancingReview("approved")}
+                              disabled={reviewingFinancing}
+                              size="sm"
+                              className="bg-green-600 hover:bg-green-700 text-xs sm:text-sm"
+                            >
+                              <CheckCircle className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+                              Approve
+                            </Button>
+                            <Button
+                              onClick={() => handleFinancingReview("rejected")}
+                              disabled={reviewingFinancing}
+                              size="sm"
+                              variant="outline"
+                              className="border-red-200 text-red-600 hover:bg-red-50 text-xs sm:text-sm"
+                            >
+                              <XCircle className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+                              Reject
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Order Timeline */}
             <Card>
               <CardHeader className="pb-3 sm:pb-6">
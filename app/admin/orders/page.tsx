@@ -13,6 +13,11 @@ import {
   Calendar,
   ChevronLeft,
   ChevronRight,
+  FileText,
+  ClipboardList,
+  CheckCircle,
+  XCircle,
+  X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -22,6 +27,22 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import ETrikeLoader from "@/components/ui/etrike-loader";
 import OrderTrackingModal from "@/components/order-tracking-modal";
 import { getCurrentUser } from "@/lib/auth";
+import { getPaymentMethodLabel } from "@/lib/payments/methods";
+import { COURIERS } from "@/lib/couriers/options";
+import {
+  bulkUpdateOrders,
+  downloadOrderExport,
+  downloadPackingDocument,
+  type BulkOrderResult,
+} from "@/lib/order-bulk";
+import {
+  ORDER_STATUSES,
+  checkOrderTransition,
+  getAllowedTransitions,
+  getOrderStatusLabel,
+} from "@/lib/order-status";
+import { matchesOrderFilters } from "@/lib/order-filters";
+import type { OrderExportFormat } from "@/lib/order-export";
 
 interface Order {
   id: number;
@@ -39,6 +60,8 @@ interface Order {
   province: string;
   zip_code: string;
   payment_method: string;
+  payment_status?: string;
+  fulfillment_method?: string | null;
   items_count: number;
   user: {
     id: number;
@@ -53,9 +76,22 @@ export default function AdminOrdersPage() {
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [exporting, setExporting] = useState<OrderExportFormat | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [updatingStatus, setUpdatingStatus] = useState<number | null>(null);
 
+  // Bulk actions state
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [bulkStatus, setBulkStatus] = useState("");
+  const [bulkCourier, setBulkCourier] = useState("");
+  const [bulkRunning, setBulkRunning] = useState(false);
+  const [bulkResults, setBulkResults] = useState<{
+    title: string;
+    results: BulkOrderResult[];
+  } | null>(null);
+
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
@@ -134,12 +170,67 @@ export default function AdminOrdersPage() {
       }
     } catch (error) {
       console.error("Error updating order status:", error);
-      setError("Failed to update order status. Please try again.");
+      setError(
+        error instanceof Error
+          ? error.message
+          : "Failed to update order status. Please try again."
+      );
     } finally {
       setUpdatingStatus(null);
     }
   };
 
+  const toggleSelected = (orderId: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(orderId)
+        ? prev.filter((id) => id !== orderId)
+        : [...prev, orderId]
+    );
+  };
+
+  const runBulkAction = async (
+    title: string,
+    action: () => Promise<{ results: BulkOrderResult[]; message?: string }>
+  ) => {
+    try {
+      setBulkRunning(true);
+      setError(null);
+      const { results, message } = await action();
+      setBulkResults({ title: message || title, results });
+      // Keep the failed orders selected so they can be fixed and retried
+      setSelectedIds(
+        results.filter((result) => !result.success).map((result) => result.order_id)
+      );
+      await fetchOrders();
+    } catch (error) {
+      console.error("Bulk action error:", error);
+      setError(error instanceof Error ? error.message : "Bulk action failed");
+    } finally {
+      setBulkRunning(false);
+    }
+  };
+
+  const handleBulkStatus = () =>
+    runBulkAction(`Status change to ${getOrderStatusLabel(bulkStatus)}`, async () => ({
+      results: await bulkUpdateOrders(selectedIds, {
+        action: "status",
+        status: bulkStatus,
+      }),
+    }));
+
+  const handleBulkCourier = () =>
+    runBulkAction("Courier assignment", async () => ({
+      results: await bulkUpdateOrders(selectedIds, {
+        action: "assign_courier",
+        courier: bulkCourier,
+      }),
+    }));
+
+  const handlePrint = (type: "packing_slips" | "pick_list") =>
+    runBulkAction(type === "pick_list" ? "Pick list" : "Packing slips", () =>
+      downloadPackingDocument(type, selectedIds)
+    );
+
   const handleTrackOrder = (orderId: number) => {
     setSelectedOrderId(orderId);
     setTrackingModalOpen(true);
@@ -149,40 +240,25 @@ export default function AdminOrdersPage() {
     fetchOrders();
   };
 
-  const handleExport = () => {
-    const headers = [
-      "Order Number",
-      "Customer",
-      "Email",
-      "Status",
-      "Total",
-      "Date",
-      "Payment Method",
-    ];
-    const csvContent = [
-      headers.join(","),
-      ...filteredOrders.map((order) =>
-        [
-          `"${order.order_number}"`,
-          `"${order.first_name} ${order.last_name}"`,
-          `"${order.email}"`,
-          `"${order.status}"`,
-          order.total,
-          `"${new Date(order.created_at).toLocaleDateString()}"`,
-          `"${order.payment_method}"`,
-        ].join(",")
-      ),
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `orders-${new Date().toISOString().split("T")[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
+  // The server export walks every order matching the filters, not just the loaded page
+  const handleExport = async (format: OrderExportFormat) => {
+    try {
+      setExporting(format);
+      await downloadOrderExport(format, {
+        search: searchTerm,
+        status: statusFilter,
+        from: dateFrom,
+        to: dateTo,
+      });
+      setError(null);
+    } catch (error) {
+      console.error("Error exporting orders:", error);
+      setError(
+        error instanceof Error ? error.message : "Failed to export orders"
+      );
+    } finally {
+      setExporting(null);
+    }
   };
 
   const formatPrice = (price: number) => {
@@ -204,6 +280,8 @@ export default function AdminOrdersPage() {
         return "bg-purple-100 text-purple-800 border-purple-200";
       case "shipped":
         return "bg-orange-100 text-orange-800 border-orange-200";
+      case "ready_for_pickup":
+        return "bg-teal-100 text-teal-800 border-teal-200";
       case "delivered":
         return "bg-green-100 text-green-800 border-green-200";
       case "cancelled":
@@ -213,16 +291,14 @@ export default function AdminOrdersPage() {
     }
   };
 
-  const filteredOrders = orders.filter((order) => {
-    const matchesSearch =
-      order.order_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      order.first_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      order.last_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      order.email.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus =
-      statusFilter === "all" || order.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+  const filteredOrders = orders.filter((order) =>
+    matchesOrderFilters(order, {
+      search: searchTerm,
+      status: statusFilter,
+      from: dateFrom,
+      to: dateTo,
+    })
+  );
 
   // Pagination calculations
   const totalPages = Math.ceil(filteredOrders.length / itemsPerPage);
@@ -242,17 +318,9 @@ export default function AdminOrdersPage() {
   // Reset pagination when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, statusFilter]);
-
-  const statuses = [
-    "all",
-    "pending",
-    "confirmed",
-    "processing",
-    "shipped",
-    "delivered",
-    "cancelled",
-  ];
+  }, [searchTerm, statusFilter, dateFrom, dateTo]);
+
+  const statuses = ["all", ...ORDER_STATUSES];
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -315,12 +383,29 @@ export default function AdminOrdersPage() {
               >
                 {statuses.map((status) => (
                   <option key={status} value={status}>
-                    {status === "all"
-                      ? "All Status"
-                      : status.charAt(0).toUpperCase() + status.slice(1)}
+                    {status === "all" ? "All Status" : getOrderStatusLabel(status)}
                   </option>
                 ))}
               </select>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  aria-label="Orders from"
+                  value={dateFrom}
+                  max={dateTo || undefined}
+                  onChange={(e) => setDateFrom(e.target.value)}
+                  className="h-10 rounded-lg border-2 border-orange-200 focus:border-orange-500"
+                />
+                <span className="text-sm text-gray-500">to</span>
+                <Input
+                  type="date"
+                  aria-label="Orders to"
+                  value={dateTo}
+                  min={dateFrom || undefined}
+                  onChange={(e) => setDateTo(e.target.value)}
+                  className="h-10 rounded-lg border-2 border-orange-200 focus:border-orange-500"
+                />
+              </div>
               <Button
                 onClick={handleSearch}
                 variant="outline"
@@ -335,11 +420,20 @@ export default function AdminOrdersPage() {
               <Button
                 variant="outline"
                 className="border-orange-500 text-orange-600 hover:bg-orange-50"
-                onClick={handleExport}
-                disabled={filteredOrders.length === 0}
+                onClick={() => handleExport("csv")}
+                disabled={exporting !== null}
               >
                 <Download className="w-4 h-4 mr-2" />
-                Export
+                {exporting === "csv" ? "Exporting..." : "CSV"}
+              </Button>
+              <Button
+                variant="outline"
+                className="border-orange-500 text-orange-600 hover:bg-orange-50"
+                onClick={() => handleExport("xlsx")}
+                disabled={exporting !== null}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {exporting === "xlsx" ? "Exporting..." : "Excel"}
               </Button>
               <Badge className="bg-orange-100 text-orange-600 border-orange-200">
                 {filteredOrders.length} Order
@@ -400,10 +494,175 @@ export default function AdminOrdersPage() {
                 </p>
               </CardHeader>
               <CardContent>
+                {/* Bulk Actions */}
+                {selectedIds.length > 0 && (
+                  <div className="mb-4 p-4 rounded-lg border-2 border-orange-200 bg-orange-50 flex flex-col lg:flex-row lg:items-center gap-3">
+                    <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                      {selectedIds.length} selected
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSelectedIds([])}
+                        aria-label="Clear selection"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <select
+                        value={bulkStatus}
+                        onChange={(e) => setBulkStatus(e.target.value)}
+                        aria-label="Bulk status"
+                        className="h-9 rounded-lg border-2 border-gray-200 focus:border-orange-500 px-3 bg-white text-sm"
+                      >
+                        <option value="">Change status…</option>
+                        {ORDER_STATUSES.map((status) => (
+                          <option key={status} value={status}>
+                            {getOrderStatusLabel(status)}
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        size="sm"
+                        onClick={handleBulkStatus}
+                        disabled={!bulkStatus || bulkRunning}
+                        className="bg-orange-500 hover:bg-orange-600"
+                      >
+                        Apply
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <select
+                        value={bulkCourier}
+                        onChange={(e) => setBulkCourier(e.target.value)}
+                        aria-label="Bulk courier"
+                        className="h-9 rounded-lg border-2 border-gray-200 focus:border-orange-500 px-3 bg-white text-sm"
+                      >
+                        <option value="">Assign courier…</option>
+                        {COURIERS.map((courier) => (
+                          <option key={courier.code} value={courier.code}>
+                            {courier.name}
+                          </option>
+                        ))}
+                      </select>
+                      <Button
+                        size="sm"
+                        onClick={handleBulkCourier}
+                        disabled={!bulkCourier || bulkRunning}
+                        className="bg-orange-500 hover:bg-orange-600"
+                      >
+                        <Truck className="w-4 h-4 mr-1" />
+                        Assign
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 lg:ml-auto">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handlePrint("packing_slips")}
+                        disabled={bulkRunning}
+                        className="border-orange-500 text-orange-600 hover:bg-orange-50"
+                      >
+                        <FileText className="w-4 h-4 mr-1" />
+                        Packing Slips
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handlePrint("pick_list")}
+                        disabled={bulkRunning}
+                        className="border-orange-500 text-orange-600 hover:bg-orange-50"
+                      >
+                        <ClipboardList className="w-4 h-4 mr-1" />
+                        Pick List
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Bulk Results */}
+                {bulkResults && (
+                  <div className="mb-4 p-4 rounded-lg border bg-white">
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="text-sm font-semibold text-gray-900">
+                        {bulkResults.title}:{" "}
+                        {bulkResults.results.filter((result) => result.success).length}{" "}
+                        of {bulkResults.results.length} succeeded
+                      </p>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setBulkResults(null)}
+                        aria-label="Dismiss results"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <ul className="space-y-1 text-sm max-h-48 overflow-y-auto">
+                      {bulkResults.results.map((result) => (
+                        <li
+                          key={result.order_id}
+                          className="flex items-start gap-2"
+                        >
+                          {result.success ? (
+                            <CheckCircle className="w-4 h-4 text-green-600 mt-0.5 flex-shrink-0" />
+                          ) : (
+                            <XCircle className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+                          )}
+                          <span className="font-medium">
+                            #
+                            {result.order_number ||
+                              orders.find((order) => order.id === result.order_id)
+                                ?.order_number ||
+                              result.order_id}
+                          </span>
+                          <span
+                            className={
+                              result.success ? "text-gray-600" : "text-red-700"
+                            }
+                          >
+                            {result.message}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="overflow-x-auto">
                   <table className="w-full">
                     <thead>
                       <tr className="border-b-2 border-gray-200">
+                        <th className="py-4 pl-4 bg-gray-50 w-8">
+                          <input
+                            type="checkbox"
+                            aria-label="Select all orders on this page"
+                            checked={
+                              currentOrders.length > 0 &&
+                              currentOrders.every((order) =>
+                                selectedIds.includes(order.id)
+                              )
+                            }
+                            onChange={(e) =>
+                              setSelectedIds((prev) =>
+                                e.target.checked
+                                  ? Array.from(
+                                      new Set([
+                                        ...prev,
+                                        ...currentOrders.map((order) => order.id),
+                                      ])
+                                    )
+                                  : prev.filter(
+                                      (id) =>
+                                        !currentOrders.some(
+                                          (order) => order.id === id
+                                        )
+                                    )
+                              )
+                            }
+                            className="w-4 h-4 accent-orange-500"
+                          />
+                        </th>
                         <th className="text-left py-4 px-4 font-semibold text-gray-900 bg-gray-50">
                           Order #
                         </th>
@@ -431,8 +690,19 @@ export default function AdminOrdersPage() {
                       {currentOrders.map((order) => (
                         <tr
                           key={order.id}
-                          className="border-b border-gray-100 hover:bg-gray-50"
+                          className={`border-b border-gray-100 hover:bg-gray-50 ${
+                            selectedIds.includes(order.id) ? "bg-orange-50" : ""
+                          }`}
                         >
+                          <td className="py-4 pl-4">
+                            <input
+                              type="checkbox"
+                              aria-label={`Select order ${order.order_number}`}
+                              checked={selectedIds.includes(order.id)}
+                              onChange={() => toggleSelected(order.id)}
+                              className="w-4 h-4 accent-orange-500"
+                            />
+                          </td>
                           <td className="py-4 px-4">
                             <div className="font-medium text-gray-900">
                               #{order.order_number}
@@ -467,12 +737,24 @@ export default function AdminOrdersPage() {
                                 updatingStatus === order.id ? "opacity-50" : ""
                               }`}
                             >
-                              <option value="pending">Pending</option>
-                              <option value="confirmed">Confirmed</option>
-                              <option value="processing">Processing</option>
-                              <option value="shipped">Shipped</option>
-                              <option value="delivered">Delivered</option>
-                              <option value="cancelled">Cancelled</option>
+                              <option value={order.status}>
+                                {getOrderStatusLabel(
+                                  order.status,
+                                  order.fulfillment_method
+                                )}
+                              </option>
+                              {getAllowedTransitions(order).map((status) => (
+                                <option
+                                  key={status}
+                                  value={status}
+                                  disabled={!!checkOrderTransition(order, status)}
+                                >
+                                  {getOrderStatusLabel(
+                                    status,
+                                    order.fulfillment_method
+                                  )}
+                                </option>
+                              ))}
                             </select>
                           </td>
                           <td className="py-4 px-4">
@@ -503,9 +785,7 @@ export default function AdminOrdersPage() {
                                   : "bg-green-100 text-green-800 border-green-200"
                               }
                             >
-                              {order.payment_method === "cod"
-                                ? "Cash on Delivery"
-                                : "Card Payment"}
+                              {getPaymentMethodLabel(order.payment_method)}
                             </Badge>
                           </td>
                           <td className="py-4 px-4">
@@ -9,7 +9,9 @@ import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import ETrikeLoader from "@/components/ui/etrike-loader"
+import { ProductInventory } from "@/components/admin/product-inventory"
 import { productApi, type ProductData } from "@/lib/api"
+import { isProductInStock } from "@/lib/variants"
 
 export default function ProductViewPage() {
   const router = useRouter()
@@ -299,12 +301,12 @@ export default function ProductViewPage() {
                 <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-4 mb-6 space-y-2 sm:space-y-0">
                   <Badge
                     className={`${
-                      product.in_stock
+                      isProductInStock(product)
                         ? "bg-green-100 text-green-600 border-green-200"
                         : "bg-red-100 text-red-600 border-red-200"
                     } text-xs sm:text-sm w-fit`}
                   >
-                    {product.in_stock ? "✓ In Stock" : "✗ Out of Stock"}
+                    {isProductInStock(product) ? "✓ In Stock" : "✗ Out of Stock"}
                   </Badge>
                   {product.featured && (
                     <Badge className="bg-yellow-100 text-yellow-600 border-yellow-200 text-xs sm:text-sm w-fit">
@@ -439,6 +441,11 @@ export default function ProductViewPage() {
             </Card>
           )}
 
+          <ProductInventory
+            product={product}
+            onAdjusted={() => productApi.getProduct(Number(id)).then(setProduct).catch(console.error)}
+          />
+
           {/* Service Highlights */}
           <Card className="mt-6 sm:mt-8">
             <CardHeader className="pb-3 sm:pb-6">
@@ -0,0 +1,325 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { RotateCcw, X, Check, PackageCheck, Banknote, Eye } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+import { getCurrentUser } from "@/lib/auth"
+import { useETrikeToast } from "@/components/ui/toast-container"
+import { getPaymentMethodLabel } from "@/lib/payments/methods"
+import {
+  canTransitionReturn,
+  getReasonLabel,
+  getReturnRequests,
+  updateReturnRequest,
+  type ReturnRequest,
+  type ReturnStatus,
+} from "@/lib/returns"
+
+const STATUS_FILTERS: (ReturnStatus | "all")[] = ["requested", "approved", "received", "refunded", "rejected", "all"]
+
+const STATUS_COLORS: Record<ReturnStatus, string> = {
+  requested: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  approved: "bg-blue-100 text-blue-800 border-blue-200",
+  received: "bg-purple-100 text-purple-800 border-purple-200",
+  refunded: "bg-green-100 text-green-800 border-green-200",
+  rejected: "bg-red-100 text-red-800 border-red-200",
+}
+
+export default function AdminReturnsPage() {
+  const router = useRouter()
+  const toast = useETrikeToast()
+  const [returns, setReturns] = useState<ReturnRequest[]>([])
+  const [statusFilter, setStatusFilter] = useState<ReturnStatus | "all">("requested")
+  const [selected, setSelected] = useState<ReturnRequest | null>(null)
+  const [adminNote, setAdminNote] = useState("")
+  const [refundAmount, setRefundAmount] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const user = getCurrentUser()
+    if (!user || user.role !== "admin") {
+      router.push("/login")
+      return
+    }
+
+    fetchReturns(statusFilter)
+  }, [router, statusFilter])
+
+  const fetchReturns = async (status: ReturnStatus | "all") => {
+    setLoading(true)
+    setReturns(await getReturnRequests(status))
+    setLoading(false)
+  }
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-PH", {
+      style: "currency",
+      currency: "PHP",
+    }).format(price)
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    })
+  }
+
+  const openRequest = (request: ReturnRequest) => {
+    setSelected(request)
+    setAdminNote(request.admin_note || "")
+    setRefundAmount(request.order_total != null ? String(request.order_total) : "")
+  }
+
+  const handleUpdate = async (status: ReturnStatus) => {
+    if (!selected) return
+
+    if (status === "refunded" && !confirm(`Refund ${formatPrice(Number(refundAmount))} to the customer?`)) return
+
+    try {
+      setSaving(true)
+      const updated = await updateReturnRequest(selected.id, {
+        status,
+        admin_note: adminNote.trim() || undefined,
+        refund_amount: status === "refunded" && refundAmount ? Number(refundAmount) : undefined,
+      })
+      toast.success(
+        "Return Updated",
+        `Return for ${selected.order_number || `order #${selected.order_id}`} is now ${status}`,
+      )
+      setSelected(updated)
+      fetchReturns(statusFilter)
+    } catch (error) {
+      toast.error("Error", error instanceof Error ? error.message : "Failed to update return")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3 mt-12">
+              <div className="p-2 bg-gradient-to-r from-orange-500 to-red-500 rounded-lg">
+                <RotateCcw className="w-6 h-6 text-white" />
+              </div>
+              Returns &amp; Refunds
+            </h1>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ReturnStatus | "all")}
+              className="h-10 rounded-lg border-2 border-gray-200 focus:border-orange-500 px-3 bg-white text-sm"
+              aria-label="Filter by status"
+            >
+              {STATUS_FILTERS.map((status) => (
+                <option key={status} value={status}>
+                  {status === "all" ? "All Returns" : status.charAt(0).toUpperCase() + status.slice(1)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Queue */}
+        <Card>
+          <CardHeader>
+            <CardTitle>RMA Queue</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500" />
+              </div>
+            ) : returns.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No return requests here.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4">Order</th>
+                      <th className="py-2 pr-4">Customer</th>
+                      <th className="py-2 pr-4">Reason</th>
+                      <th className="py-2 pr-4">Photos</th>
+                      <th className="py-2 pr-4">Requested</th>
+                      <th className="py-2 pr-4">Status</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {returns.map((request) => (
+                      <tr key={request.id} className="border-b last:border-0">
+                        <td className="py-3 pr-4">
+                          <Link href={`/admin/orders/${request.order_id}`} className="text-orange-600 hover:underline">
+                            {request.order_number || `#${request.order_id}`}
+                          </Link>
+                        </td>
+                        <td className="py-3 pr-4">{request.customer_name || "—"}</td>
+                        <td className="py-3 pr-4">{getReasonLabel(request.reason)}</td>
+                        <td className="py-3 pr-4">{request.photos.length}</td>
+                        <td className="py-3 pr-4 whitespace-nowrap">{formatDate(request.created_at)}</td>
+                        <td className="py-3 pr-4">
+                          <Badge className={STATUS_COLORS[request.status]}>{request.status}</Badge>
+                        </td>
+                        <td className="py-3 text-right">
+                          <Button variant="ghost" size="sm" onClick={() => openRequest(request)}>
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Request Detail */}
+        {selected && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>
+                Return for {selected.order_number || `order #${selected.order_id}`}{" "}
+                <Badge className={`${STATUS_COLORS[selected.status]} ml-2`}>{selected.status}</Badge>
+              </CardTitle>
+              <Button variant="ghost" size="sm" onClick={() => setSelected(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Reason</p>
+                  <p className="font-medium text-gray-900">{getReasonLabel(selected.reason)}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Order Total</p>
+                  <p className="font-medium text-gray-900">
+                    {selected.order_total != null ? formatPrice(selected.order_total) : "—"}
+                  </p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Payment</p>
+                  <p className="font-medium text-gray-900">
+                    {selected.payment_method ? getPaymentMethodLabel(selected.payment_method) : "—"}
+                  </p>
+                </div>
+              </div>
+
+              {selected.details && <p className="text-sm text-gray-700 whitespace-pre-line">{selected.details}</p>}
+
+              {selected.photos.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {selected.photos.map((photo, index) => (
+                    <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={photo}
+                        alt={`Return evidence ${index + 1}`}
+                        className="w-24 h-24 object-cover rounded-lg border hover:opacity-80"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              {selected.status === "refunded" && selected.refund_amount != null && (
+                <p className="text-sm text-green-700">Refunded {formatPrice(selected.refund_amount)}</p>
+              )}
+
+              {!["refunded", "rejected"].includes(selected.status) && (
+                <>
+                  <div>
+                    <label htmlFor="return-note" className="block text-sm font-medium text-gray-700 mb-1">
+                      Note to customer
+                    </label>
+                    <Textarea
+                      id="return-note"
+                      value={adminNote}
+                      onChange={(e) => setAdminNote(e.target.value)}
+                      rows={3}
+                      placeholder="e.g. Please bring the unit to our Makati service center with the original box"
+                    />
+                  </div>
+
+                  {canTransitionReturn(selected.status, "refunded") && (
+                    <div className="max-w-xs">
+                      <label htmlFor="return-refund" className="block text-sm font-medium text-gray-700 mb-1">
+                        Refund Amount (₱)
+                      </label>
+                      <Input
+                        id="return-refund"
+                        type="number"
+                        min="0"
+                        value={refundAmount}
+                        onChange={(e) => setRefundAmount(e.target.value)}
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {canTransitionReturn(selected.status, "approved") && (
+                      <Button
+                        onClick={() => handleUpdate("approved")}
+                        disabled={saving}
+                        className="bg-orange-500 hover:bg-orange-600"
+                      >
+                        <Check className="w-4 h-4 mr-2" />
+                        Approve
+                      </Button>
+                    )}
+                    {canTransitionReturn(selected.status, "received") && (
+                      <Button
+                        onClick={() => handleUpdate("received")}
+                        disabled={saving}
+                        className="bg-orange-500 hover:bg-orange-600"
+                      >
+                        <PackageCheck className="w-4 h-4 mr-2" />
+                        Mark Item Received
+                      </Button>
+                    )}
+                    {canTransitionReturn(selected.status, "refunded") && (
+                      <Button
+                        onClick={() => handleUpdate("refunded")}
+                        disabled={saving || !(Number(refundAmount) > 0)}
+                        className="bg-green-600 hover:bg-green-700"
+                      >
+                        <Banknote className="w-4 h-4 mr-2" />
+                        Refund
+                      </Button>
+                    )}
+                    {canTransitionReturn(selected.status, "rejected") && (
+                      <Button
+                        variant="outline"
+                        onClick={() => handleUpdate("rejected")}
+                        disabled={saving || !adminNote.trim()}
+                        className="border-red-200 text-red-600 hover:bg-red-50"
+                      >
+                        <X className="w-4 h-4 mr-2" />
+                        Reject
+                      </Button>
+                    )}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
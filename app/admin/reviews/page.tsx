@@ -0,0 +1,291 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { StarHalf, X, Check, Eye, BadgeCheck, EyeOff } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+import StarRating from "@/components/product/star-rating"
+import { getCurrentUser } from "@/lib/auth"
+import { useETrikeToast } from "@/components/ui/toast-container"
+import {
+  canTransitionReview,
+  getAdminReviews,
+  moderateReview,
+  REVIEW_STATUS_LABELS,
+  type ProductReview,
+  type ReviewStatus,
+} from "@/lib/reviews"
+
+const STATUS_FILTERS: (ReviewStatus | "all")[] = ["pending", "approved", "rejected", "all"]
+
+const STATUS_COLORS: Record<ReviewStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  approved: "bg-green-100 text-green-800 border-green-200",
+  rejected: "bg-red-100 text-red-800 border-red-200",
+}
+
+export default function AdminReviewsPage() {
+  const router = useRouter()
+  const toast = useETrikeToast()
+  const [reviews, setReviews] = useState<ProductReview[]>([])
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | "all">("pending")
+  const [selected, setSelected] = useState<ProductReview | null>(null)
+  const [adminNote, setAdminNote] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const user = getCurrentUser()
+    if (!user || user.role !== "admin") {
+      router.push("/login")
+      return
+    }
+
+    fetchReviews(statusFilter)
+  }, [router, statusFilter])
+
+  const fetchReviews = async (status: ReviewStatus | "all") => {
+    setLoading(true)
+    setReviews(await getAdminReviews(status))
+    setLoading(false)
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    })
+  }
+
+  const openReview = (review: ProductReview) => {
+    setSelected(review)
+    setAdminNote(review.admin_note || "")
+  }
+
+  const handleUpdate = async (status: ReviewStatus) => {
+    if (!selected) return
+
+    try {
+      setSaving(true)
+      const updated = await moderateReview(selected.id, {
+        status,
+        admin_note: adminNote.trim() || undefined,
+      })
+      toast.success("Review Updated", `"${selected.title}" is now ${REVIEW_STATUS_LABELS[status].toLowerCase()}`)
+      setSelected(updated)
+      fetchReviews(statusFilter)
+    } catch (error) {
+      toast.error("Error", error instanceof Error ? error.message : "Failed to update review")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3 mt-12">
+              <div className="p-2 bg-gradient-to-r from-orange-500 to-red-500 rounded-lg">
+                <StarHalf className="w-6 h-6 text-white" />
+              </div>
+              Product Reviews
+            </h1>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ReviewStatus | "all")}
+              className="h-10 rounded-lg border-2 border-gray-200 focus:border-orange-500 px-3 bg-white text-sm"
+              aria-label="Filter by status"
+            >
+              {STATUS_FILTERS.map((status) => (
+                <option key={status} value={status}>
+                  {status === "all" ? "All Reviews" : REVIEW_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Queue */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Moderation Queue</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500" />
+              </div>
+            ) : reviews.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No reviews here.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4">Product</th>
+                      <th className="py-2 pr-4">Reviewer</th>
+                      <th className="py-2 pr-4">Rating</th>
+                      <th className="py-2 pr-4">Title</th>
+                      <th className="py-2 pr-4">Photos</th>
+                      <th className="py-2 pr-4">Submitted</th>
+                      <th className="py-2 pr-4">Status</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reviews.map((review) => (
+                      <tr key={review.id} className="border-b last:border-0">
+                        <td className="py-3 pr-4">
+                          <Link
+                            href={`/products/${review.product_id}`}
+                            target="_blank"
+                            className="text-orange-600 hover:underline"
+                          >
+                            {review.product_name || `#${review.product_id}`}
+                          </Link>
+                        </td>
+                        <td className="py-3 pr-4">
+                          <span className="flex items-center gap-1">
+                            {review.reviewer_name}
+                            {review.verified_purchase && (
+                              <BadgeCheck className="w-4 h-4 text-green-600" aria-label="Verified purchase" />
+                            )}
+                          </span>
+                        </td>
+                        <td className="py-3 pr-4">
+                          <StarRating rating={review.rating} />
+                        </td>
+                        <td className="py-3 pr-4 max-w-xs truncate">{review.title}</td>
+                        <td className="py-3 pr-4">{(review.photos || []).length}</td>
+                        <td className="py-3 pr-4 whitespace-nowrap">{formatDate(review.created_at)}</td>
+                        <td className="py-3 pr-4">
+                          <Badge className={STATUS_COLORS[review.status]}>{review.status}</Badge>
+                        </td>
+                        <td className="py-3 text-right">
+                          <Button variant="ghost" size="sm" onClick={() => openReview(review)}>
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Review Detail */}
+        {selected && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>
+                Review of {selected.product_name || `product #${selected.product_id}`}{" "}
+                <Badge className={`${STATUS_COLORS[selected.status]} ml-2`}>{selected.status}</Badge>
+              </CardTitle>
+              <Button variant="ghost" size="sm" onClick={() => setSelected(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Reviewer</p>
+                  <p className="font-medium text-gray-900">{selected.reviewer_name}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Rating</p>
+                  <StarRating rating={selected.rating} />
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Purchase</p>
+                  {selected.verified_purchase && selected.order_id ? (
+                    <Link
+                      href={`/admin/orders/${selected.order_id}`}
+                      className="font-medium text-green-700 hover:underline"
+                    >
+                      Verified, order #{selected.order_id}
+                    </Link>
+                  ) : (
+                    <p className="font-medium text-gray-900">No delivered order found</p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="font-semibold text-gray-900">{selected.title}</h3>
+                <p className="mt-1 text-sm text-gray-700 whitespace-pre-line">{selected.body}</p>
+              </div>
+
+              {(selected.photos || []).length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {selected.photos.map((photo, index) => (
+                    <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={photo}
+                        alt={`Review attachment ${index + 1}`}
+                        className="w-24 h-24 object-cover rounded-lg border hover:opacity-80"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="review-note" className="block text-sm font-medium text-gray-700 mb-1">
+                  Note to reviewer
+                </label>
+                <Textarea
+                  id="review-note"
+                  value={adminNote}
+                  onChange={(e) => setAdminNote(e.target.value)}
+                  rows={3}
+                  placeholder="Required when rejecting, e.g. Reviews can't include phone numbers or links"
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {canTransitionReview(selected.status, "approved") && (
+                  <Button
+                    onClick={() => handleUpdate("approved")}
+                    disabled={saving}
+                    className="bg-orange-500 hover:bg-orange-600"
+                  >
+                    <Check className="w-4 h-4 mr-2" />
+                    {selected.status === "rejected" ? "Reinstate" : "Publish"}
+                  </Button>
+                )}
+                {canTransitionReview(selected.status, "rejected") && (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleUpdate("rejected")}
+                    disabled={saving || !adminNote.trim()}
+                    className="border-red-200 text-red-600 hover:bg-red-50"
+                  >
+                    {selected.status === "approved" ? (
+                      <EyeOff className="w-4 h-4 mr-2" />
+                    ) : (
+                      <X className="w-4 h-4 mr-2" />
+                    )}
+                    {selected.status === "approved" ? "Unpublish" : "Reject"}
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
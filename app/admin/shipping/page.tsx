@@ -0,0 +1,376 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { Truck, Plus, Trash2, Save, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { getCurrentUser } from "@/lib/auth"
+import { productApi, type ProductData } from "@/lib/api"
+import { useETrikeToast } from "@/components/ui/toast-container"
+import {
+  DEFAULT_SHIPPING_RULES,
+  FREIGHT_CLASSES,
+  getShippingRules,
+  saveShippingRules,
+  validateShippingRules,
+  type FreightClass,
+  type ShippingRules,
+  type ShippingZone,
+} from "@/lib/shipping"
+
+const CATEGORIES = ["E-Bike", "E-Trike", "E-Scooter", "E-Motorcycle", "E-Dump"]
+
+export default function AdminShippingPage() {
+  const router = useRouter()
+  const toast = useETrikeToast()
+  const [rules, setRules] = useState<ShippingRules | null>(null)
+  const [products, setProducts] = useState<ProductData[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const user = getCurrentUser()
+    if (!user || user.role !== "admin") {
+      router.push("/login")
+      return
+    }
+
+    getShippingRules().then(setRules)
+    productApi
+      .getProducts()
+      .then(setProducts)
+      .catch((error) => console.error("Error fetching products:", error))
+  }, [router])
+
+  const updateZone = (index: number, changes: Partial<ShippingZone>) => {
+    if (!rules) return
+    setRules({
+      ...rules,
+      zones: rules.zones.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)),
+    })
+  }
+
+  const addZone = () => {
+    if (!rules) return
+    setRules({
+      ...rules,
+      zones: [
+        ...rules.zones,
+        {
+          id: `zone-${Date.now()}`,
+          name: "New Zone",
+          provinces: [],
+          rates: { small: 0, standard: 0, oversize: 0 },
+          per_kg_rate: 0,
+          free_shipping_threshold: null,
+        },
+      ],
+    })
+  }
+
+  const removeZone = (index: number) => {
+    if (!rules || !confirm(`Remove the "${rules.zones[index].name}" zone?`)) return
+    setRules({ ...rules, zones: rules.zones.filter((_, i) => i !== index) })
+  }
+
+  const setProductProfile = (productId: number, freightClass: FreightClass | "", weight?: string) => {
+    if (!rules) return
+
+    const others = rules.products.filter((p) => p.product_id !== productId)
+    const existing = rules.products.find((p) => p.product_id === productId)
+
+    if (!freightClass) {
+      setRules({ ...rules, products: others })
+      return
+    }
+
+    setRules({
+      ...rules,
+      products: [
+        ...others,
+        {
+          product_id: productId,
+          freight_class: freightClass,
+          weight_kg: weight !== undefined ? (weight ? Number(weight) : null) : existing?.weight_kg,
+        },
+      ],
+    })
+  }
+
+  const handleSave = async () => {
+    if (!rules) return
+
+    const validationError = validateShippingRules(rules)
+    if (validationError) {
+      toast.error("Invalid Rules", validationError)
+      return
+    }
+
+    try {
+      setSaving(true)
+      setRules(await saveShippingRules(rules))
+      toast.success("Shipping Rules Saved", "Checkout will use the new rates right away")
+    } catch (error) {
+      toast.error("Error", error instanceof Error ? error.message : "Failed to save shipping rules")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!rules) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3 mt-12">
+              <div className="p-2 bg-gradient-to-r from-orange-500 to-red-500 rounded-lg">
+                <Truck className="w-6 h-6 text-white" />
+              </div>
+              Shipping Rates
+            </h1>
+            <div className="flex items-center gap-3">
+              <Button
+                variant="outline"
+                onClick={() =>
+                  confirm("Reset all zones and classes to the defaults?") && setRules(DEFAULT_SHIPPING_RULES)
+                }
+                className="flex items-center gap-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Defaults
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={saving}
+                className="bg-orange-500 hover:bg-orange-600 flex items-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                {saving ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Zones */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>Zones</CardTitle>
+            <Button variant="outline" size="sm" onClick={addZone}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Zone
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <p className="text-sm text-gray-500">
+              Each unit is charged the zone rate for its freight class plus the per-kg rate on its weight. Leave
+              provinces empty on one zone to cover every other address.
+            </p>
+            {rules.zones.map((zone, index) => (
+              <div key={zone.id} className="border rounded-xl p-4 space-y-4">
+                <div className="flex items-center gap-3">
+                  <Input
+                    value={zone.name}
+                    onChange={(e) => updateZone(index, { name: e.target.value })}
+                    className="font-semibold"
+                    aria-label="Zone name"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeZone(index)}
+                    className="text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <div>
+                  <label htmlFor={`provinces-${zone.id}`} className="block text-sm font-medium text-gray-700 mb-1">
+                    Provinces (one per line)
+                  </label>
+                  <Textarea
+                    id={`provinces-${zone.id}`}
+                    rows={3}
+                    value={zone.provinces.join("\n")}
+                    onChange={(e) =>
+                      updateZone(index, {
+                        provinces: e.target.value.split("\n"),
+                      })
+                    }
+                    onBlur={() => updateZone(index, { provinces: zone.provinces.map((p) => p.trim()).filter(Boolean) })}
+                    placeholder="Leave empty for the catch-all zone"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                  {FREIGHT_CLASSES.map((freightClass) => (
+                    <div key={freightClass.value}>
+                      <label
+                        htmlFor={`${zone.id}-${freightClass.value}`}
+                        className="block text-xs font-medium text-gray-700 mb-1 capitalize"
+                      >
+                        {freightClass.value} rate (₱)
+                      </label>
+                      <Input
+                        id={`${zone.id}-${freightClass.value}`}
+                        type="number"
+                        min="0"
+                        value={zone.rates[freightClass.value]}
+                        onChange={(e) =>
+                          updateZone(index, { rates: { ...zone.rates, [freightClass.value]: Number(e.target.value) } })
+                        }
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <label htmlFor={`${zone.id}-per-kg`} className="block text-xs font-medium text-gray-700 mb-1">
+                      Per kg (₱)
+                    </label>
+                    <Input
+                      id={`${zone.id}-per-kg`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={zone.per_kg_rate}
+                      onChange={(e) => updateZone(index, { per_kg_rate: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor={`${zone.id}-free`} className="block text-xs font-medium text-gray-700 mb-1">
+                      Free over (₱)
+                    </label>
+                    <Input
+                      id={`${zone.id}-free`}
+                      type="number"
+                      min="0"
+                      value={zone.free_shipping_threshold ?? ""}
+                      placeholder="Never"
+                      onChange={(e) =>
+                        updateZone(index, {
+                          free_shipping_threshold: e.target.value === "" ? null : Number(e.target.value),
+                        })
+                      }
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Category defaults */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Freight Class by Category</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+            {CATEGORIES.map((category) => (
+              <div key={category}>
+                <label htmlFor={`category-${category}`} className="block text-sm font-medium text-gray-700 mb-1">
+                  {category}
+                </label>
+                <select
+                  id={`category-${category}`}
+                  value={rules.category_classes[category] || "standard"}
+                  onChange={(e) =>
+                    setRules({
+                      ...rules,
+                      category_classes: { ...rules.category_classes, [category]: e.target.value as FreightClass },
+                    })
+                  }
+                  className="h-10 w-full rounded-lg border-2 border-gray-200 focus:border-orange-500 px-3 bg-white text-sm"
+                >
+                  {FREIGHT_CLASSES.map((freightClass) => (
+                    <option key={freightClass.value} value={freightClass.value}>
+                      {freightClass.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Product overrides */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Per-Product Overrides</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {products.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No products found.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4">Product</th>
+                      <th className="py-2 pr-4">Category</th>
+                      <th className="py-2 pr-4">Freight Class</th>
+                      <th className="py-2">Weight (kg)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {products.map((product) => {
+                      const productId = Number(product.id)
+                      const profile = rules.products.find((p) => p.product_id === productId)
+
+                      return (
+                        <tr key={productId} className="border-b last:border-0">
+                          <td className="py-3 pr-4 font-medium text-gray-900">{product.name}</td>
+                          <td className="py-3 pr-4 text-gray-600">{product.category}</td>
+                          <td className="py-3 pr-4">
+                            <select
+                              value={profile?.freight_class || ""}
+                              onChange={(e) => setProductProfile(productId, e.target.value as FreightClass | "")}
+                              className="h-9 rounded-lg border-2 border-gray-200 focus:border-orange-500 px-2 bg-white text-sm"
+                              aria-label={`Freight class for ${product.name}`}
+                            >
+                              <option value="">Category default</option>
+                              {FREIGHT_CLASSES.map((freightClass) => (
+                                <option key={freightClass.value} value={freightClass.value}>
+                                  {freightClass.label}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="py-3">
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.1"
+                              value={profile?.weight_kg ?? ""}
+                              disabled={!profile}
+                              onChange={(e) =>
+                                profile && setProductProfile(productId, profile.freight_class, e.target.value)
+                              }
+                              className="h-9 w-28"
+                              aria-label={`Weight for ${product.name}`}
+                            />
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
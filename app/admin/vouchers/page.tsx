@@ -0,0 +1,566 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Tag, Plus, Edit, Trash2, Save, X, Receipt } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { getCurrentUser } from "@/lib/auth"
+import { productApi, type ProductData } from "@/lib/api"
+import { useETrikeToast } from "@/components/ui/toast-container"
+import {
+  deleteVoucher,
+  getVoucherRedemptions,
+  getVouchers,
+  saveVoucher,
+  validateVoucherInput,
+  type Voucher,
+  type VoucherDiscountType,
+  type VoucherRedemption,
+} from "@/lib/vouchers"
+
+const CATEGORIES = ["E-Bike", "E-Trike", "E-Scooter", "E-Motorcycle", "E-Dump"]
+
+type VoucherForm = {
+  id?: number
+  code: string
+  description: string
+  discount_type: VoucherDiscountType
+  discount_value: string
+  max_discount: string
+  min_spend: string
+  categories: string[]
+  product_ids: number[]
+  usage_limit: string
+  per_user_limit: string
+  starts_at: string
+  ends_at: string
+  is_active: boolean
+}
+
+const emptyVoucherForm: VoucherForm = {
+  code: "",
+  description: "",
+  discount_type: "percent",
+  discount_value: "",
+  max_discount: "",
+  min_spend: "",
+  categories: [],
+  product_ids: [],
+  usage_limit: "",
+  per_user_limit: "1",
+  starts_at: "",
+  ends_at: "",
+  is_active: true,
+}
+
+const toOptionalNumber = (value: string) => (value === "" ? null : Number(value))
+
+// <input type="datetime-local"> wants "YYYY-MM-DDTHH:mm" in local time
+const toDateTimeInput = (value?: string | null) => {
+  if (!value) return ""
+  const date = new Date(value)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+export default function AdminVouchersPage() {
+  const router = useRouter()
+  const toast = useETrikeToast()
+  const [vouchers, setVouchers] = useState<Voucher[]>([])
+  const [products, setProducts] = useState<ProductData[]>([])
+  const [form, setForm] = useState<VoucherForm | null>(null)
+  const [selectedVoucher, setSelectedVoucher] = useState<Voucher | null>(null)
+  const [redemptions, setRedemptions] = useState<VoucherRedemption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const user = getCurrentUser()
+    if (!user || user.role !== "admin") {
+      router.push("/login")
+      return
+    }
+
+    fetchVouchers()
+    productApi
+      .getProducts()
+      .then(setProducts)
+      .catch((error) => console.error("Error fetching products:", error))
+  }, [router])
+
+  const fetchVouchers = async () => {
+    setLoading(true)
+    setVouchers(await getVouchers())
+    setLoading(false)
+  }
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-PH", {
+      style: "currency",
+      currency: "PHP",
+    }).format(price)
+  }
+
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return "—"
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    })
+  }
+
+  const getVoucherState = (voucher: Voucher) => {
+    const now = new Date()
+    if (!voucher.is_active) return { label: "Inactive", color: "bg-gray-100 text-gray-600 border-gray-200" }
+    if (voucher.ends_at && new Date(voucher.ends_at) < now) {
+      return { label: "Expired", color: "bg-red-100 text-red-800 border-red-200" }
+    }
+    if (voucher.starts_at && new Date(voucher.starts_at) > now) {
+      return { label: "Scheduled", color: "bg-blue-100 text-blue-800 border-blue-200" }
+    }
+    if (voucher.usage_limit && (voucher.times_redeemed || 0) >= voucher.usage_limit) {
+      return { label: "Used Up", color: "bg-yellow-100 text-yellow-800 border-yellow-200" }
+    }
+    return { label: "Active", color: "bg-green-100 text-green-800 border-green-200" }
+  }
+
+  const editVoucher = (voucher: Voucher) => {
+    setForm({
+      id: voucher.id,
+      code: voucher.code,
+      description: voucher.description || "",
+      discount_type: voucher.discount_type,
+      discount_value: String(voucher.discount_value),
+      max_discount: voucher.max_discount != null ? String(voucher.max_discount) : "",
+      min_spend: voucher.min_spend != null ? String(voucher.min_spend) : "",
+      categories: voucher.categories || [],
+      product_ids: voucher.product_ids || [],
+      usage_limit: voucher.usage_limit != null ? String(voucher.usage_limit) : "",
+      per_user_limit: voucher.per_user_limit != null ? String(voucher.per_user_limit) : "",
+      starts_at: toDateTimeInput(voucher.starts_at),
+      ends_at: toDateTimeInput(voucher.ends_at),
+      is_active: voucher.is_active,
+    })
+  }
+
+  const toggleListValue = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((item) => item !== value) : [...list, value]
+
+  const handleSave = async () => {
+    if (!form) return
+
+    const payload = {
+      id: form.id,
+      code: form.code.trim().toUpperCase(),
+      description: form.description.trim() || null,
+      discount_type: form.discount_type,
+      discount_value: Number(form.discount_value),
+      max_discount: form.discount_type === "percent" ? toOptionalNumber(form.max_discount) : null,
+      min_spend: toOptionalNumber(form.min_spend),
+      categories: form.categories,
+      product_ids: form.product_ids,
+      usage_limit: toOptionalNumber(form.usage_limit),
+      per_user_limit: toOptionalNumber(form.per_user_limit),
+      starts_at: form.starts_at ? new Date(form.starts_at).toISOString() : null,
+      ends_at: form.ends_at ? new Date(form.ends_at).toISOString() : null,
+      is_active: form.is_active,
+    }
+
+    const validationError = validateVoucherInput(payload)
+    if (validationError) {
+      toast.error("Invalid Voucher", validationError)
+      return
+    }
+
+    try {
+      setSaving(true)
+      await saveVoucher(payload)
+      toast.success("Voucher Saved", `${payload.code} has been saved`)
+      setForm(null)
+      fetchVouchers()
+    } catch (error) {
+      toast.error("Error", error instanceof Error ? error.message : "Failed to save voucher")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (voucher: Voucher) => {
+    if (!confirm(`Delete promo code ${voucher.code}? Past redemptions stay on their orders.`)) return
+
+    if (await deleteVoucher(voucher.id)) {
+      toast.success("Voucher Deleted", `${voucher.code} has been removed`)
+      if (selectedVoucher?.id === voucher.id) setSelectedVoucher(null)
+      fetchVouchers()
+    } else {
+      toast.error("Error", "Failed to delete voucher")
+    }
+  }
+
+  const showRedemptions = async (voucher: Voucher) => {
+    setSelectedVoucher(voucher)
+    setRedemptions(await getVoucherRedemptions(voucher.id))
+  }
+
+  const describeDiscount = (voucher: Voucher) =>
+    voucher.discount_type === "percent"
+      ? `${voucher.discount_value}% off${voucher.max_discount ? ` (max ${formatPrice(voucher.max_discount)})` : ""}`
+      : `${formatPrice(voucher.discount_value)} off`
+
+  const totalDiscountGiven = redemptions.reduce((sum, r) => sum + Number(r.discount_amount), 0)
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3 mt-12">
+              <div className="p-2 bg-gradient-to-r from-orange-500 to-red-500 rounded-lg">
+                <Tag className="w-6 h-6 text-white" />
+              </div>
+              Vouchers
+            </h1>
+            <Button
+              onClick={() => setForm({ ...emptyVoucherForm })}
+              className="bg-orange-500 hover:bg-orange-600 flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              New Voucher
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {/* Voucher Editor */}
+        {form && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{form.id ? `Edit ${form.code}` : "New Voucher"}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="voucher-code" className="block text-sm font-medium text-gray-700 mb-1">
+                    Code
+                  </label>
+                  <Input
+                    id="voucher-code"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                    placeholder="e.g. ETRIKE10"
+                    className="uppercase"
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label htmlFor="voucher-description" className="block text-sm font-medium text-gray-700 mb-1">
+                    Description (optional)
+                  </label>
+                  <Input
+                    id="voucher-description"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="voucher-type" className="block text-sm font-medium text-gray-700 mb-1">
+                    Discount Type
+                  </label>
+                  <select
+                    id="voucher-type"
+                    value={form.discount_type}
+                    onChange={(e) => setForm({ ...form, discount_type: e.target.value as VoucherDiscountType })}
+                    className="h-10 w-full rounded-lg border-2 border-gray-200 focus:border-orange-500 px-3 bg-white text-sm"
+                  >
+                    <option value="percent">Percent off</option>
+                    <option value="fixed">Fixed amount off</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="voucher-value" className="block text-sm font-medium text-gray-700 mb-1">
+                    {form.discount_type === "percent" ? "Percent (%)" : "Amount (₱)"}
+                  </label>
+                  <Input
+                    id="voucher-value"
+                    type="number"
+                    min="0"
+                    value={form.discount_value}
+                    onChange={(e) => setForm({ ...form, discount_value: e.target.value })}
+                  />
+                </div>
+                {form.discount_type === "percent" && (
+                  <div>
+                    <label htmlFor="voucher-max" className="block text-sm font-medium text-gray-700 mb-1">
+                      Max Discount (₱, optional)
+                    </label>
+                    <Input
+                      id="voucher-max"
+                      type="number"
+                      min="0"
+                      value={form.max_discount}
+                      onChange={(e) => setForm({ ...form, max_discount: e.target.value })}
+                    />
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="voucher-min-spend" className="block text-sm font-medium text-gray-700 mb-1">
+                    Minimum Spend (₱, optional)
+                  </label>
+                  <Input
+                    id="voucher-min-spend"
+                    type="number"
+                    min="0"
+                    value={form.min_spend}
+                    onChange={(e) => setForm({ ...form, min_spend: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="voucher-usage-limit" className="block text-sm font-medium text-gray-700 mb-1">
+                    Total Uses (blank = unlimited)
+                  </label>
+                  <Input
+                    id="voucher-usage-limit"
+                    type="number"
+                    min="0"
+                    value={form.usage_limit}
+                    onChange={(e) => setForm({ ...form, usage_limit: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="voucher-user-limit" className="block text-sm font-medium text-gray-700 mb-1">
+                    Uses per Customer (blank = unlimited)
+                  </label>
+                  <Input
+                    id="voucher-user-limit"
+                    type="number"
+                    min="0"
+                    value={form.per_user_limit}
+                    onChange={(e) => setForm({ ...form, per_user_limit: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="voucher-starts" className="block text-sm font-medium text-gray-700 mb-1">
+                    Starts
+                  </label>
+                  <Input
+                    id="voucher-starts"
+                    type="datetime-local"
+                    value={form.starts_at}
+                    onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="voucher-ends" className="block text-sm font-medium text-gray-700 mb-1">
+                    Ends
+                  </label>
+                  <Input
+                    id="voucher-ends"
+                    type="datetime-local"
+                    value={form.ends_at}
+                    onChange={(e) => setForm({ ...form, ends_at: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  Limit to categories or products (leave all unchecked for the whole cart)
+                </p>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {CATEGORIES.map((category) => (
+                    <button
+                      key={category}
+                      type="button"
+                      onClick={() => setForm({ ...form, categories: toggleListValue(form.categories, category) })}
+                      className={`px-3 py-1 rounded-full border text-sm ${
+                        form.categories.includes(category)
+                          ? "bg-orange-500 border-orange-500 text-white"
+                          : "border-gray-300 text-gray-700 hover:border-orange-300"
+                      }`}
+                    >
+                      {category}
+                    </button>
+                  ))}
+                </div>
+                {products.length > 0 && (
+                  <div className="max-h-40 overflow-y-auto border rounded-lg p-2 grid grid-cols-1 sm:grid-cols-2 gap-1">
+                    {products.map((product) => (
+                      <label key={product.id} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={form.product_ids.includes(Number(product.id))}
+                          onChange={() =>
+                            setForm({ ...form, product_ids: toggleListValue(form.product_ids, Number(product.id)) })
+                          }
+                          className="text-orange-500 focus:ring-orange-500"
+                        />
+                        {product.name}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                  className="text-orange-500 focus:ring-orange-500"
+                />
+                Active
+              </label>
+
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={saving} className="bg-orange-500 hover:bg-orange-600">
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? "Saving..." : "Save Voucher"}
+                </Button>
+                <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+                  <X className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Vouchers */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Promo Codes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500" />
+              </div>
+            ) : vouchers.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">No promo codes yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4">Code</th>
+                      <th className="py-2 pr-4">Discount</th>
+                      <th className="py-2 pr-4">Min Spend</th>
+                      <th className="py-2 pr-4">Valid</th>
+                      <th className="py-2 pr-4">Redeemed</th>
+                      <th className="py-2 pr-4">Status</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {vouchers.map((voucher) => {
+                      const state = getVoucherState(voucher)
+
+                      return (
+                        <tr key={voucher.id} className="border-b last:border-0">
+                          <td className="py-3 pr-4">
+                            <div className="font-mono font-semibold text-gray-900">{voucher.code}</div>
+                            {voucher.description && <div className="text-xs text-gray-500">{voucher.description}</div>}
+                          </td>
+                          <td className="py-3 pr-4">{describeDiscount(voucher)}</td>
+                          <td className="py-3 pr-4">{voucher.min_spend ? formatPrice(voucher.min_spend) : "—"}</td>
+                          <td className="py-3 pr-4 whitespace-nowrap">
+                            {formatDate(voucher.starts_at)} – {formatDate(voucher.ends_at)}
+                          </td>
+                          <td className="py-3 pr-4">
+                            {voucher.times_redeemed || 0}
+                            {voucher.usage_limit ? ` / ${voucher.usage_limit}` : ""}
+                          </td>
+                          <td className="py-3 pr-4">
+                            <Badge className={state.color}>{state.label}</Badge>
+                          </td>
+                          <td className="py-3 text-right whitespace-nowrap">
+                            <Button variant="ghost" size="sm" onClick={() => showRedemptions(voucher)}>
+                              <Receipt className="w-4 h-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => editVoucher(voucher)}>
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(voucher)}
+                              className="text-red-600 hover:bg-red-50"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Redemptions */}
+        {selectedVoucher && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Redemptions for {selectedVoucher.code}</CardTitle>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedVoucher(null)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Orders</p>
+                  <p className="text-xl font-bold text-gray-900">{redemptions.length}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Total Discount Given</p>
+                  <p className="text-xl font-bold text-orange-600">{formatPrice(totalDiscountGiven)}</p>
+                </div>
+              </div>
+              {redemptions.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4">This code hasn&apos;t been used yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-600">
+                        <th className="py-2 pr-4">Order</th>
+                        <th className="py-2 pr-4">Customer</th>
+                        <th className="py-2 pr-4">Discount</th>
+                        <th className="py-2">Date</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {redemptions.map((redemption) => (
+                        <tr key={redemption.id} className="border-b last:border-0">
+                          <td className="py-3 pr-4">
+                            <Link
+                              href={`/admin/orders/${redemption.order_id}`}
+                              className="text-orange-600 hover:underline"
+                            >
+                              {redemption.order_number || `#${redemption.order_id}`}
+                            </Link>
+                          </td>
+                          <td className="py-3 pr-4">{redemption.customer_name || "—"}</td>
+                          <td className="py-3 pr-4">{formatPrice(redemption.discount_amount)}</td>
+                          <td className="py-3">{formatDate(redemption.created_at)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { findLowStockCrossings, InventoryError, notifyLowStock, recordStockAdjustment } from "@/lib/inventory"
+import { STOCK_ADJUSTMENT_REASONS } from "@/lib/stock"
+
+// Manual change to on-hand stock: a delivery, a return put back on the shelf, or a count correction.
+// Reserved units can't be adjusted away; Laravel rejects a change that would leave on-hand below reserved.
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const productId = Number(body.product_id)
+    const variantId = body.variant_id ? Number(body.variant_id) : null
+    const quantity = Number(body.quantity)
+
+    if (!Number.isInteger(productId) || productId < 1) {
+      return NextResponse.json({ success: false, message: "Choose a product" }, { status: 422 })
+    }
+
+    if (!STOCK_ADJUSTMENT_REASONS.some((reason) => reason.code === body.reason)) {
+      return NextResponse.json({ success: false, message: "Choose a reason for the adjustment" }, { status: 422 })
+    }
+
+    if (!Number.isInteger(quantity) || quantity === 0 || Math.abs(quantity) > 10000) {
+      return NextResponse.json(
+        { success: false, message: "Enter a whole number of units to add or remove" },
+        { status: 422 },
+      )
+    }
+
+    if (body.reason !== "adjust" && quantity < 0) {
+      return NextResponse.json(
+        { success: false, message: "Deliveries and returns add stock. Use a count correction to remove units." },
+        { status: 422 },
+      )
+    }
+
+    const level = await recordStockAdjustment(
+      {
+        product_id: productId,
+        variant_id: variantId,
+        quantity,
+        reason: body.reason,
+        note: body.note ? String(body.note).trim().slice(0, 500) : undefined,
+      },
+      authHeader,
+    )
+
+    if (quantity < 0) {
+      await notifyLowStock(
+        findLowStockCrossings([level], [{ product_id: productId, variant_id: variantId, quantity: -quantity }]),
+      ).catch((error) => console.error("Low stock alert error:", error))
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Stock ${quantity > 0 ? "increased" : "reduced"} by ${Math.abs(quantity)}`,
+      data: level,
+    })
+  } catch (error) {
+    if (error instanceof InventoryError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    console.error("Stock adjustment POST error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
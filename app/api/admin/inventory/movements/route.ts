@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Stock movement ledger for a product, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const productId = request.nextUrl.searchParams.get("product_id")
+    if (!productId) {
+      return NextResponse.json({ success: false, message: "product_id is required" }, { status: 422 })
+    }
+
+    const params = new URLSearchParams({ product_id: productId, per_page: "100" })
+    const variantId = request.nextUrl.searchParams.get("variant_id")
+    if (variantId) params.set("variant_id", variantId)
+
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/admin/inventory/movements?${params.toString()}`, {
+      method: "GET",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+      },
+      cache: "no-store",
+    })
+
+    const data = await response.json()
+
+    if (!response.ok || !data.success) {
+      return NextResponse.json(data, { status: response.status })
+    }
+
+    return NextResponse.json({ success: true, data: Array.isArray(data.data) ? data.data : data.data?.data || [] })
+  } catch (error) {
+    console.error("Stock movements GET error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
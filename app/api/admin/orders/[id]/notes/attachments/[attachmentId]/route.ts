@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Streams a note attachment from Laravel's private disk. Laravel checks that the caller is an admin.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string; attachmentId: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id, attachmentId } = await params
+    const response = await fetch(
+      `${NEXT_PUBLIC_LARAVEL_API_URL}/admin/orders/${id}/notes/attachments/${attachmentId}`,
+      {
+        method: "GET",
+        headers: { Authorization: authHeader },
+        cache: "no-store",
+      },
+    )
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({ success: false, message: "Attachment not found" }))
+      return NextResponse.json(data, { status: response.status })
+    }
+
+    return new NextResponse(response.body, {
+      headers: {
+        "Content-Type": response.headers.get("content-type") || "application/octet-stream",
+        "Content-Disposition": response.headers.get("content-disposition") || "attachment",
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Order note attachment GET error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
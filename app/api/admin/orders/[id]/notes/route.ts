@@ -0,0 +1,115 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import {
+  fetchStaff,
+  findMentionedStaff,
+  isAllowedNoteAttachment,
+  MAX_NOTE_ATTACHMENT_BYTES,
+  MAX_NOTE_ATTACHMENTS,
+  MAX_NOTE_LENGTH,
+} from "@/lib/order-notes"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/admin/orders/${id}/notes`, {
+      method: "GET",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+      },
+      cache: "no-store",
+    })
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error("Order notes GET error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Adds a note with optional attachments. Mentions are resolved here against the admin list, so only real
+// admins whose "@Name" is still in the text get notified.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const formData = await request.formData()
+    const body = String(formData.get("body") || "").trim()
+    const files = formData.getAll("attachments[]").filter((value): value is File => value instanceof File)
+
+    if (!body && files.length === 0) {
+      return NextResponse.json({ success: false, message: "Write a note or attach a file" }, { status: 422 })
+    }
+
+    if (body.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { success: false, message: `Notes can be at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 422 },
+      )
+    }
+
+    if (files.length > MAX_NOTE_ATTACHMENTS) {
+      return NextResponse.json(
+        { success: false, message: `Attach at most ${MAX_NOTE_ATTACHMENTS} files per note` },
+        { status: 422 },
+      )
+    }
+
+    if (files.some((file) => !isAllowedNoteAttachment(file) || file.size > MAX_NOTE_ATTACHMENT_BYTES)) {
+      return NextResponse.json(
+        { success: false, message: "Attachments must be images or PDFs no larger than 10 MB each" },
+        { status: 422 },
+      )
+    }
+
+    // A failed staff lookup only costs the note its notifications
+    const mentions = body.includes("@")
+      ? findMentionedStaff(
+          body,
+          await fetchStaff(authHeader).catch((error) => {
+            console.error("Order note staff lookup failed:", error)
+            return []
+          }),
+        )
+      : []
+
+    // The files go with the note itself, so Laravel stores them on its private disk rather than the public
+    // upload folder
+    const noteData = new FormData()
+    noteData.append("body", body)
+    mentions.forEach((member) => noteData.append("mentions[]", String(member.id)))
+    files.forEach((file) => noteData.append("attachments[]", file))
+
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/admin/orders/${id}/notes`, {
+      method: "POST",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+      },
+      body: noteData,
+    })
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error("Order notes POST error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
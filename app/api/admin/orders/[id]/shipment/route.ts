@@ -0,0 +1,70 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { CourierError } from "@/lib/couriers"
+import { OrderActionError } from "@/lib/order-actions"
+import { cancelOrderWaybill, createOrderWaybill, fetchShipmentOrder, syncOrderShipment } from "@/lib/shipments"
+
+function errorResponse(error: unknown, context: string) {
+  if (error instanceof OrderActionError || error instanceof CourierError) {
+    return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+  }
+
+  console.error(`${context} error:`, error)
+  return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+}
+
+// Books a waybill with the chosen carrier and stores the tracking number on the order
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { id } = await params
+    const { waybill } = await createOrderWaybill(id, String(body.courier || ""), authHeader)
+
+    return NextResponse.json({ success: true, message: `Waybill ${waybill.trackingNumber} created`, data: waybill })
+  } catch (error) {
+    return errorResponse(error, "Waybill create")
+  }
+}
+
+// Pulls the latest checkpoints now instead of waiting for the scheduled sync
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const order = await fetchShipmentOrder(id, authHeader)
+    const { tracking, status_changes } = await syncOrderShipment(order, authHeader)
+
+    return NextResponse.json({ success: true, message: "Tracking synced", data: { ...tracking, status_changes } })
+  } catch (error) {
+    return errorResponse(error, "Shipment sync")
+  }
+}
+
+// Voids the waybill with the carrier; only possible before the parcel is picked up
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id } = await params
+    await cancelOrderWaybill(id, authHeader)
+
+    return NextResponse.json({ success: true, message: "Waybill cancelled" })
+  } catch (error) {
+    return errorResponse(error, "Waybill cancel")
+  }
+}
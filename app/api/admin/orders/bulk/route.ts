@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { assignOrderCourier, changeOrderStatus, MAX_BULK_ORDERS, parseOrderIds, runBulk } from "@/lib/order-actions"
+import { getCourierName } from "@/lib/couriers"
+import { getOrderStatusLabel, isOrderStatus } from "@/lib/order-status"
+
+// Applies one action to many orders. Each order goes through the same checks as the single-order
+// routes and gets its own result, so one bad order doesn't block the rest of the batch.
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const orderIds = parseOrderIds(body.order_ids)
+
+    if (!orderIds) {
+      return NextResponse.json(
+        { success: false, message: `Select between 1 and ${MAX_BULK_ORDERS} orders` },
+        { status: 422 },
+      )
+    }
+
+    let results
+    if (body.action === "status") {
+      if (!isOrderStatus(body.status)) {
+        return NextResponse.json({ success: false, message: "Choose a status to apply" }, { status: 422 })
+      }
+      const note = body.note ? String(body.note) : undefined
+      results = await runBulk(
+        orderIds,
+        (orderId) => changeOrderStatus(orderId, body.status, note, authHeader),
+        `Moved to ${getOrderStatusLabel(body.status)}`,
+      )
+    } else if (body.action === "assign_courier") {
+      results = await runBulk(
+        orderIds,
+        (orderId) => assignOrderCourier(orderId, String(body.courier || ""), authHeader),
+        `Assigned to ${getCourierName(body.courier)}`,
+      )
+    } else {
+      return NextResponse.json({ success: false, message: "Unknown bulk action" }, { status: 422 })
+    }
+
+    const succeeded = results.filter((result) => result.success).length
+
+    return NextResponse.json({
+      success: true,
+      message: `${succeeded} of ${results.length} orders updated`,
+      data: results,
+    })
+  } catch (error) {
+    console.error("Bulk order action error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
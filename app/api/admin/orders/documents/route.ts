@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { MAX_BULK_ORDERS, parseOrderIds } from "@/lib/order-actions"
+import {
+  fetchPackingOrders,
+  PACKING_DOCUMENT_TYPES,
+  renderPackingSlips,
+  renderPickList,
+  type PackingDocumentType,
+} from "@/lib/packing-documents"
+
+// Packing slips or a pick list for the selected orders as a single PDF. Orders left out of the
+// document are listed in the X-Order-Results header so the admin page can show why.
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const type = body.type as PackingDocumentType
+    const orderIds = parseOrderIds(body.order_ids)
+
+    if (!PACKING_DOCUMENT_TYPES.includes(type)) {
+      return NextResponse.json({ success: false, message: "Unknown document type" }, { status: 422 })
+    }
+    if (!orderIds) {
+      return NextResponse.json(
+        { success: false, message: `Select between 1 and ${MAX_BULK_ORDERS} orders` },
+        { status: 422 },
+      )
+    }
+
+    const { orders, failures } = await fetchPackingOrders(orderIds, authHeader)
+
+    if (orders.length === 0) {
+      return NextResponse.json(
+        { success: false, message: "None of the selected orders can be printed", data: failures },
+        { status: 422 },
+      )
+    }
+
+    const pdf = type === "pick_list" ? renderPickList(orders) : renderPackingSlips(orders)
+    const results = [
+      ...orders.map((order) => ({
+        order_id: order.id,
+        order_number: order.order_number,
+        success: true,
+        message: "Printed",
+      })),
+      ...failures,
+    ]
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${type === "pick_list" ? "pick-list" : "packing-slips"}-${new Date().toISOString().split("T")[0]}.pdf"`,
+        "Cache-Control": "private, no-store",
+        "X-Order-Results": encodeURIComponent(JSON.stringify(results)),
+      },
+    })
+  } catch (error) {
+    console.error("Packing documents error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
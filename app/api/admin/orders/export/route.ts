@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import {
+  createOrderExportStream,
+  ORDER_EXPORT_CONTENT_TYPES,
+  ORDER_EXPORT_FORMATS,
+  OrderExportError,
+  type OrderExportFormat,
+} from "@/lib/order-export"
+import { parseOrderFilterParams } from "@/lib/order-filters"
+
+// Streams every order matching the orders page filters (search, status, from, to) as CSV or XLSX
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const format = (searchParams.get("format") || "csv") as OrderExportFormat
+
+    if (!ORDER_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ success: false, message: "Format must be csv or xlsx" }, { status: 422 })
+    }
+
+    const stream = await createOrderExportStream(format, parseOrderFilterParams(searchParams), authHeader)
+    const date = new Date().toLocaleDateString("en-CA", { timeZone: "Asia/Manila" })
+
+    return new NextResponse(stream, {
+      headers: {
+        "Content-Type": ORDER_EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="orders-${date}.${format}"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    if (error instanceof OrderExportError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    console.error("Order export error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,107 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { fetchOrder, getRefundableAmount, reverseOrderPayment } from "@/lib/payments/orders"
+import { PaymentProviderError } from "@/lib/payments/types"
+import { canTransitionReturn, getReasonLabel, type ReturnRequest, type ReturnStatus } from "@/lib/returns"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const nextStatus = body.status as ReturnStatus
+    const headers = {
+      Authorization: authHeader,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    }
+
+    const currentResponse = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/admin/returns/${id}`, {
+      method: "GET",
+      headers,
+      cache: "no-store",
+    })
+    const current = await currentResponse.json()
+
+    if (!currentResponse.ok || !current.success) {
+      return NextResponse.json(current, { status: currentResponse.status })
+    }
+
+    const returnRequest: ReturnRequest = current.data
+
+    if (!canTransitionReturn(returnRequest.status, nextStatus)) {
+      return NextResponse.json(
+        { success: false, message: `A ${returnRequest.status} return can't be moved to ${nextStatus}` },
+        { status: 409 },
+      )
+    }
+
+    if (nextStatus === "rejected" && !String(body.admin_note || "").trim()) {
+      return NextResponse.json(
+        { success: false, message: "Please tell the customer why the return was rejected" },
+        { status: 422 },
+      )
+    }
+
+    let refundAmount: number | undefined
+    if (nextStatus === "refunded") {
+      const order = await fetchOrder(returnRequest.order_id, authHeader, "admin")
+      // Earlier partial refunds (another return, a staff refund) count against the order total
+      const refundable = getRefundableAmount(order)
+      refundAmount = body.refund_amount === undefined ? refundable : Number(body.refund_amount)
+
+      if (!(refundAmount > 0) || refundAmount > refundable) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: `Refund amount must be more than zero and at most the ₱${refundable.toLocaleString("en-PH", { minimumFractionDigits: 2 })} not yet refunded`,
+          },
+          { status: 422 },
+        )
+      }
+
+      if (order.payment_status !== "paid") {
+        return NextResponse.json(
+          { success: false, message: "This order has no recorded payment to refund" },
+          { status: 409 },
+        )
+      }
+
+      // Refund first so a failed refund leaves the return in "received" for a retry
+      await reverseOrderPayment(
+        order,
+        { amount: refundAmount, reason: `Return: ${getReasonLabel(returnRequest.reason)}` },
+        authHeader,
+      )
+    }
+
+    // Laravel records the change and notifies the customer
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/admin/returns/${id}`, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify({
+        status: nextStatus,
+        admin_note: body.admin_note ? String(body.admin_note).slice(0, 1000) : undefined,
+        refund_amount: refundAmount,
+      }),
+    })
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    console.error("Admin return update error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
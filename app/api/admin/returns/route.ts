@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// RMA queue across all orders, optionally filtered by status
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const status = request.nextUrl.searchParams.get("status")
+    const query = status ? `?status=${encodeURIComponent(status)}` : ""
+
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/admin/returns${query}`, {
+      method: "GET",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+    })
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error("Admin returns GET error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
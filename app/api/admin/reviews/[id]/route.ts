@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { canTransitionReview, type ProductReview, type ReviewStatus } from "@/lib/reviews"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Publish or reject a review. Rejections need a note, which Laravel sends to the reviewer.
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const nextStatus = body.status as ReviewStatus
+    const headers = {
+      Authorization: authHeader,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    }
+
+    const currentResponse = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/admin/reviews/${id}`, {
+      method: "GET",
+      headers,
+      cache: "no-store",
+    })
+    const current = await currentResponse.json()
+
+    if (!currentResponse.ok || !current.success) {
+      return NextResponse.json(current, { status: currentResponse.status })
+    }
+
+    const review: ProductReview = current.data
+
+    if (!canTransitionReview(review.status, nextStatus)) {
+      return NextResponse.json(
+        { success: false, message: `A ${review.status} review can't be moved to ${nextStatus}` },
+        { status: 409 },
+      )
+    }
+
+    if (nextStatus === "rejected" && !String(body.admin_note || "").trim()) {
+      return NextResponse.json(
+        { success: false, message: "Please tell the reviewer why the review was rejected" },
+        { status: 422 },
+      )
+    }
+
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/admin/reviews/${id}`, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify({
+        status: nextStatus,
+        admin_note: body.admin_note ? String(body.admin_note).slice(0, 1000) : undefined,
+      }),
+    })
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error("Admin review update error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { fetchStaff, OrderNoteError } from "@/lib/order-notes"
+
+// Admin accounts, for @mentions in internal order notes
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    return NextResponse.json({ success: true, data: await fetchStaff(authHeader) })
+  } catch (error) {
+    if (error instanceof OrderNoteError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    console.error("Staff GET error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
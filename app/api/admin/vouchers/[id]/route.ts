@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { normalizeVoucherCode, validateVoucherInput } from "@/lib/vouchers"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validationError = validateVoucherInput(body)
+
+    if (validationError) {
+      return NextResponse.json({ success: false, message: validationError }, { status: 422 })
+    }
+
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/admin/vouchers/${id}`, {
+      method: "PUT",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...body, code: normalizeVoucherCode(body.code) }),
+    })
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error("Admin voucher PUT error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/admin/vouchers/${id}`, {
+      method: "DELETE",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+      },
+    })
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error("Admin voucher DELETE error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
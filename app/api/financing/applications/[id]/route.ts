@@ -0,0 +1,86 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Admin approval or rejection of a financing application. The order's payment stays unpaid: only the down
+// payment is collected up front, so an approved application (financing_status) is what releases the order.
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { id } = await params
+    const headers = {
+      Authorization: authHeader,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    }
+
+    if (body.status !== "approved" && body.status !== "rejected") {
+      return NextResponse.json(
+        { success: false, message: "Status must be either approved or rejected" },
+        { status: 400 },
+      )
+    }
+
+    if (body.status === "rejected" && !String(body.admin_note || "").trim()) {
+      return NextResponse.json(
+        { success: false, message: "Please give a reason when rejecting an application" },
+        { status: 400 },
+      )
+    }
+
+    const currentResponse = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/financing-applications/${id}`, {
+      method: "GET",
+      headers,
+      cache: "no-store",
+    })
+    const current = await currentResponse.json()
+
+    if (!currentResponse.ok || !current.success) {
+      return NextResponse.json(current, { status: currentResponse.status })
+    }
+
+    if (current.data.status !== "pending") {
+      return NextResponse.json(
+        { success: false, message: `This application was already ${current.data.status}` },
+        { status: 409 },
+      )
+    }
+
+    // Recorded so a later cancellation refunds what was actually collected
+    const downPaymentReceived = body.status === "approved" ? Number(body.down_payment_received) : null
+    if (
+      downPaymentReceived !== null &&
+      !(downPaymentReceived >= 0 && downPaymentReceived <= Number(current.data.down_payment))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Down payment received must be between ₱0 and the ₱${Number(current.data.down_payment).toLocaleString("en-PH", { minimumFractionDigits: 2 })} due`,
+        },
+        { status: 422 },
+      )
+    }
+
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/financing-applications/${id}`, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify({
+        status: body.status,
+        admin_note: body.admin_note || null,
+        down_payment_received: downPaymentReceived,
+      }),
+    })
+
+    const data = await response.json()
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error("Financing application PUT error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Admin listing, optionally filtered by order_id or status. Applications are filed with the order itself
+// (see /api/orders), so there is no POST here.
+export async function GET(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const params = new URLSearchParams()
+    searchParams.forEach((value, key) => {
+      params.append(key, value)
+    })
+
+    const response = await fetch(
+      `${NEXT_PUBLIC_LARAVEL_API_URL}/financing-applications${params.toString() ? `?${params.toString()}` : ""}`,
+      {
+        method: "GET",
+        headers: {
+          Authorization: authHeader,
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+      },
+    )
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error("Financing applications GET error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
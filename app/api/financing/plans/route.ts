@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { validateFinancingPlan } from "@/lib/financing"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const authHeader = request.headers.get("authorization")
+
+    const headers: HeadersInit = {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    }
+
+    // Admins see inactive plans too
+    if (authHeader) {
+      headers["Authorization"] = authHeader
+    }
+
+    const params = new URLSearchParams()
+    searchParams.forEach((value, key) => {
+      params.append(key, value)
+    })
+
+    const response = await fetch(
+      `${NEXT_PUBLIC_LARAVEL_API_URL}/financing-plans${params.toString() ? `?${params.toString()}` : ""}`,
+      {
+        method: "GET",
+        headers,
+        cache: "no-store",
+      },
+    )
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error("Financing plans GET error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validationError = validateFinancingPlan(body)
+
+    if (validationError) {
+      return NextResponse.json({ success: false, message: validationError }, { status: 422 })
+    }
+
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/financing-plans`, {
+      method: "POST",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    })
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error("Financing plans POST error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
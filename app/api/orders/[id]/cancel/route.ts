@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { notifyStockWriteFailed, releaseOrderStock } from "@/lib/inventory"
+import { fetchOrder, reverseOrderPayment } from "@/lib/payments/orders"
+import { PaymentProviderError } from "@/lib/payments/types"
+import { canCancelOrder, CANCEL_REASONS, getReasonLabel } from "@/lib/returns"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Customer cancellation before the order ships
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    if (!CANCEL_REASONS.some((reason) => reason.code === body.reason)) {
+      return NextResponse.json({ success: false, message: "Please choose a reason for cancelling" }, { status: 422 })
+    }
+
+    const order = await fetchOrder(id, authHeader)
+
+    if (!canCancelOrder(order)) {
+      return NextResponse.json(
+        { success: false, message: "This order has already shipped and can no longer be cancelled" },
+        { status: 409 },
+      )
+    }
+
+    // Laravel sets the status and notifies the customer
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/orders/${id}/cancel`, {
+      method: "POST",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ reason: body.reason, note: body.note ? String(body.note).slice(0, 500) : undefined }),
+    })
+
+    const data = await response.json()
+
+    if (!response.ok || !data.success) {
+      return NextResponse.json(data, { status: response.status })
+    }
+
+    // Nothing the customer can act on, so staff are told instead
+    try {
+      await releaseOrderStock(id, "Cancelled by customer")
+    } catch (error) {
+      console.error("Cancel stock release error:", error)
+      await notifyStockWriteFailed(id, order.order_number, "released").catch((notifyError) =>
+        console.error("Stock failure notification error:", notifyError),
+      )
+    }
+
+    // The order stays cancelled even if the refund fails; staff retry it from the order page
+    let paymentStatus = order.payment_status
+    try {
+      paymentStatus = await reverseOrderPayment(
+        order,
+        { reason: `Cancelled by customer: ${getReasonLabel(body.reason, CANCEL_REASONS)}` },
+        authHeader,
+      )
+    } catch (error) {
+      console.error("Cancel refund error:", error)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message:
+        paymentStatus === "refunded"
+          ? "Your order has been cancelled and your payment refunded"
+          : order.payment_status === "paid"
+            ? "Your order has been cancelled. Our team will process your refund shortly."
+            : "Your order has been cancelled",
+      data: { status: "cancelled", payment_status: paymentStatus },
+    })
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    console.error("Order cancel error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { InvoiceError, issueInvoice, renderInvoicePdf } from "@/lib/invoice-pdf"
+
+// Official sales invoice PDF for the customer's own order
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const order = await issueInvoice(id, authHeader)
+    const pdf = renderInvoicePdf(order)
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${order.invoice_number}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    console.error("Invoice GET error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,7 +1,18 @@
 import { type NextRequest, NextResponse } from "next/server"
 
+import { getManualPaymentStatuses, isOnlinePayment, PaymentProviderError } from "@/lib/payments"
+import {
+  captureOrderPayment,
+  fetchOrder,
+  refundOrderPayment,
+  syncOrderPayment,
+  updateOrderPaymentStatus,
+} from "@/lib/payments/orders"
+
 const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
 
+// Staff recording a cash payment by hand. Only offline methods, and only moves the payment table allows;
+// online payments follow the provider through POST below.
 export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const authHeader = request.headers.get("authorization")
@@ -11,21 +22,30 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
     }
 
     const body = await request.json()
-    const { id } = await params // Await params Promise
+    const { id } = await params
 
-    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/orders/${id}/payment-status`, {
-      method: "PUT",
-      headers: {
-        Authorization: authHeader,
-        Accept: "application/json",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(body),
-    })
+    const order = await fetchOrder(id, authHeader, "admin")
 
-    const data = await response.json()
-    return NextResponse.json(data, { status: response.status })
+    if (!getManualPaymentStatuses(order).includes(body?.payment_status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: isOnlinePayment(order.payment_method)
+            ? "Online payments follow the payment provider. Use Sync with Provider or Refund instead."
+            : `Payment status can't be changed from ${order.payment_status || "pending"} to ${body?.payment_status}`,
+        },
+        { status: 409 },
+      )
+    }
+
+    await updateOrderPaymentStatus(order.id, { payment_status: body.payment_status }, authHeader)
+
+    return NextResponse.json({ success: true, data: { payment_status: body.payment_status } })
   } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
     console.error("Payment status update error:", error)
     return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
   }
@@ -59,3 +79,61 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
   }
 }
+
+// POST method to drive payment_status from the payment provider
+// - sync: customer or admin, reconciles with the provider; authorized cards are captured on order confirmation
+// - capture / refund: admin only, the order is loaded through the admin endpoint
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { id } = await params
+    const action = body.action || "sync"
+
+    let result
+
+    if (action === "sync") {
+      const order = await fetchOrder(id, authHeader, body.scope === "admin" ? "admin" : "customer")
+      result = await syncOrderPayment(order, authHeader)
+    } else if (action === "capture") {
+      const order = await fetchOrder(id, authHeader, "admin")
+      result = await captureOrderPayment(order, authHeader)
+    } else if (action === "refund") {
+      const amount = body.amount !== undefined ? Number(body.amount) : undefined
+
+      if (amount !== undefined && (isNaN(amount) || amount <= 0)) {
+        return NextResponse.json(
+          { success: false, message: "Refund amount must be greater than zero" },
+          { status: 400 },
+        )
+      }
+
+      const order = await fetchOrder(id, authHeader, "admin")
+      result = await refundOrderPayment(order, { amount, reason: body.reason }, authHeader)
+    } else {
+      return NextResponse.json({ success: false, message: `Unknown payment action: ${action}` }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        payment_status: result.payment_status,
+        intent_status: result.intent.status,
+        amount_refunded: result.intent.amountRefunded,
+      },
+    })
+  } catch (error) {
+    console.error("Payment action error:", error)
+
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { checkReorderItems } from "@/lib/order-items"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Lines of a past order checked against today's catalog, for "Buy again"
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/orders/${id}`, {
+      method: "GET",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      cache: "no-store",
+    })
+
+    const data = await response.json()
+
+    if (!response.ok || !data.success) {
+      return NextResponse.json(
+        { success: false, message: data.message || "Order not found" },
+        { status: response.ok ? 404 : response.status },
+      )
+    }
+
+    const items = Array.isArray(data.data.items) ? data.data.items : []
+    if (items.length === 0) {
+      return NextResponse.json({ success: false, message: "This order has no items to buy again" }, { status: 422 })
+    }
+
+    return NextResponse.json({ success: true, data: await checkReorderItems(items) })
+  } catch (error) {
+    console.error("Reorder check error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
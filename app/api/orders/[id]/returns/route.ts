@@ -0,0 +1,141 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { fetchOrder } from "@/lib/payments/orders"
+import { PaymentProviderError } from "@/lib/payments/types"
+import {
+  canRequestReturn,
+  MAX_RETURN_PHOTO_BYTES,
+  MAX_RETURN_PHOTOS,
+  RETURN_REASONS,
+  RETURN_WINDOW_DAYS,
+  type ReturnRequest,
+} from "@/lib/returns"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+async function fetchOrderReturns(id: string, authHeader: string): Promise<ReturnRequest[]> {
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/orders/${id}/returns`, {
+    method: "GET",
+    headers: {
+      Authorization: authHeader,
+      Accept: "application/json",
+    },
+    cache: "no-store",
+  })
+
+  const data = await response.json()
+  return response.ok && Array.isArray(data.data) ? data.data : []
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const returns = await fetchOrderReturns(id, authHeader)
+
+    return NextResponse.json({ success: true, data: returns })
+  } catch (error) {
+    console.error("Order returns GET error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
+
+// Return request with photos of the problem. Photos go through the shared Laravel upload endpoint
+// first and only their URLs are stored on the request.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const formData = await request.formData()
+    const reason = String(formData.get("reason") || "")
+    const details = String(formData.get("details") || "").trim()
+    const photos = formData.getAll("photos[]").filter((value): value is File => value instanceof File)
+
+    if (!RETURN_REASONS.some((option) => option.code === reason)) {
+      return NextResponse.json({ success: false, message: "Please choose a reason for the return" }, { status: 422 })
+    }
+
+    if (details.length < 10) {
+      return NextResponse.json(
+        { success: false, message: "Please describe the problem in a few words" },
+        { status: 422 },
+      )
+    }
+
+    if (photos.length === 0 || photos.length > MAX_RETURN_PHOTOS) {
+      return NextResponse.json(
+        { success: false, message: `Please attach 1 to ${MAX_RETURN_PHOTOS} photos of the item` },
+        { status: 422 },
+      )
+    }
+
+    if (photos.some((photo) => !photo.type.startsWith("image/") || photo.size > MAX_RETURN_PHOTO_BYTES)) {
+      return NextResponse.json(
+        { success: false, message: "Photos must be images no larger than 5 MB each" },
+        { status: 422 },
+      )
+    }
+
+    const [order, existingReturns] = await Promise.all([fetchOrder(id, authHeader), fetchOrderReturns(id, authHeader)])
+
+    if (!canRequestReturn(order, existingReturns)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Returns can be requested once per order within ${RETURN_WINDOW_DAYS} days of delivery`,
+        },
+        { status: 409 },
+      )
+    }
+
+    const uploadData = new FormData()
+    photos.forEach((photo) => uploadData.append("images[]", photo))
+
+    const uploadResponse = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/upload`, {
+      method: "POST",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+      },
+      body: uploadData,
+    })
+
+    const uploaded = await uploadResponse.json()
+
+    if (!uploadResponse.ok || !Array.isArray(uploaded.urls)) {
+      console.error("Return photo upload failed:", uploaded)
+      return NextResponse.json({ success: false, message: "Failed to upload photos" }, { status: 502 })
+    }
+
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/orders/${id}/returns`, {
+      method: "POST",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ reason, details: details.slice(0, 2000), photos: uploaded.urls }),
+    })
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    console.error("Order returns POST error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,8 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server"
 
+import { changeOrderStatus, OrderActionError } from "@/lib/order-actions"
+import { PaymentProviderError } from "@/lib/payments/types"
+
 const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
 
-export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const authHeader = request.headers.get("authorization")
 
@@ -10,24 +13,55 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
     }
 
-    const body = await request.json()
-    const { id } = await params // Add this line to await params
+    const { id } = await params
 
-    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/orders/${id}/status`, {
-      method: "PUT",
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/orders/${id}/status-history`, {
+      method: "GET",
       headers: {
         Authorization: authHeader,
         Accept: "application/json",
         "Content-Type": "application/json",
       },
-      body: JSON.stringify(body),
+      cache: "no-store",
     })
 
     const data = await response.json()
 
     return NextResponse.json(data, { status: response.status })
   } catch (error) {
+    console.error("Order status history error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { id } = await params
+
+    const { data, warnings } = await changeOrderStatus(
+      id,
+      body.status,
+      body.note ? String(body.note) : undefined,
+      authHeader,
+    )
+
+    return NextResponse.json(warnings.length > 0 ? { ...data, warnings } : data)
+  } catch (error) {
+    if (error instanceof OrderActionError) {
+      return NextResponse.json({ success: false, message: error.message, data: error.data }, { status: error.status })
+    }
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
     console.error("Order status update error:", error)
     return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,8 @@
 import { type NextRequest, NextResponse } from "next/server"
 
+import type { StatusHistoryEntry } from "@/lib/order-status"
+import { buildOrderTracking } from "@/lib/order-tracking"
+
 const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -9,16 +12,21 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     }
 
     const { id } = await params
-    const token = authHeader.substring(7)
-
-    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/orders/${id}/track`, {
-      method: "GET",
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-    })
+    const headers = {
+      Authorization: authHeader,
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    }
+
+    // Order details and courier checkpoints come from the track endpoint, status changes from the history
+    const [response, historyResponse] = await Promise.all([
+      fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/orders/${id}/track`, { method: "GET", headers, cache: "no-store" }),
+      fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/orders/${id}/status-history`, {
+        method: "GET",
+        headers,
+        cache: "no-store",
+      }),
+    ])
 
     if (!response.ok) {
       const errorData = await response.text()
@@ -30,7 +38,23 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     }
 
     const data = await response.json()
-    return NextResponse.json(data)
+    if (!data.success || !data.data) {
+      return NextResponse.json({ success: false, message: data.message || "Tracking not available" }, { status: 404 })
+    }
+
+    // A missing history still leaves a usable timeline built from the order dates
+    let history: StatusHistoryEntry[] = []
+    if (historyResponse.ok) {
+      const historyData = await historyResponse.json()
+      history = Array.isArray(historyData.data) ? historyData.data : []
+    } else {
+      console.error("Laravel status history error:", historyResponse.status)
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: buildOrderTracking(data.data, history, Array.isArray(data.data.events) ? data.data.events : []),
+    })
   } catch (error) {
     console.error("API route error:", error)
     return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import {
+  findOrderByNumber,
+  GuestOrderError,
+  loadGuestTracking,
+  toGuestOrder,
+  verifyOrderAccessToken,
+} from "@/lib/guest-order-access"
+
+// Full order details for the signed link emailed by the guest lookup
+export async function GET(request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params
+    const access = verifyOrderAccessToken(decodeURIComponent(token))
+
+    if (!access) {
+      return NextResponse.json(
+        { success: false, message: "This link is invalid or has expired. Look up your order again for a new one." },
+        { status: 401 },
+      )
+    }
+
+    const order = await findOrderByNumber(access.number)
+
+    if (!order || order.id !== access.id) {
+      return NextResponse.json({ success: false, message: "Order not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { order: toGuestOrder(order), tracking: await loadGuestTracking(order) },
+    })
+  } catch (error) {
+    if (error instanceof GuestOrderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    console.error("Guest order link error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
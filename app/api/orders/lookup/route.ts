@@ -0,0 +1,100 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { emailService } from "@/lib/email-service"
+import {
+  checkClientRateLimit,
+  checkOrderLookupLock,
+  createOrderAccessToken,
+  findOrderByNumber,
+  getClientKey,
+  getGuestOrderSummary,
+  GuestOrderError,
+  matchesOrderContact,
+  recordFailedLookup,
+} from "@/lib/guest-order-access"
+import { maskEmail, type GuestOrder } from "@/lib/guest-orders"
+
+// The full order goes to the inbox on file, never back to whoever filled in the form
+async function sendOrderLink(order: GuestOrder, origin: string): Promise<boolean> {
+  const token = createOrderAccessToken(order)
+  if (!token) {
+    console.error("GUEST_ORDER_LINK_SECRET is not set; skipping order link email")
+    return false
+  }
+
+  const result = await emailService.sendOrderAccessLink(order, `${origin}/track-order/${token}`)
+  return result.success
+}
+
+// Public lookup for guest orders. A wrong order number and a wrong contact get the same answer,
+// so the form can't be used to find out which order numbers exist.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return NextResponse.json({ success: false, message: "Invalid request body" }, { status: 400 })
+    }
+
+    const orderNumber = typeof body.order_number === "string" ? body.order_number.trim().replace(/^#/, "") : ""
+    const contact = typeof body.contact === "string" ? body.contact.trim() : ""
+
+    if (!orderNumber || !contact) {
+      return NextResponse.json(
+        { success: false, message: "Enter your order number and the email or phone used at checkout" },
+        { status: 422 },
+      )
+    }
+
+    const retryAfter = await checkClientRateLimit(getClientKey(request.headers))
+    if (retryAfter) {
+      return NextResponse.json(
+        { success: false, message: "Too many lookups. Please wait a few minutes and try again." },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } },
+      )
+    }
+
+    const lockedFor = await checkOrderLookupLock(orderNumber)
+    const order = await findOrderByNumber(orderNumber)
+    const matches = !!order && matchesOrderContact(order, contact)
+
+    // Too many wrong guesses for this order: the answer no longer says whether the details match, but the
+    // owner still gets their link by email
+    if (lockedFor) {
+      if (matches) await sendOrderLink(order, request.nextUrl.origin)
+      return NextResponse.json(
+        {
+          success: false,
+          message:
+            "Too many attempts for this order. If the details are right, we've emailed a link to the address on the order.",
+        },
+        { status: 429, headers: { "Retry-After": String(lockedFor) } },
+      )
+    }
+
+    if (!matches) {
+      await recordFailedLookup(orderNumber)
+      return NextResponse.json(
+        { success: false, message: "We couldn't find an order with those details" },
+        { status: 404 },
+      )
+    }
+
+    const linkSent = await sendOrderLink(order, request.nextUrl.origin)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        summary: await getGuestOrderSummary(order),
+        link_sent: linkSent,
+        masked_email: maskEmail(order.email),
+      },
+    })
+  } catch (error) {
+    if (error instanceof GuestOrderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    console.error("Guest order lookup error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
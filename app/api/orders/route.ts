@@ -1,5 +1,33 @@
 import { type NextRequest, NextResponse } from "next/server"
 
+import {
+  buildFinancingApplication,
+  fetchFinancingPlan,
+  isPlanAvailable,
+  validateFinancingApplicant,
+} from "@/lib/financing"
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  IDEMPOTENCY_HEADER,
+  isValidIdempotencyKey,
+  releaseIdempotencyKey,
+  requestFingerprint,
+} from "@/lib/idempotency"
+import {
+  findLowStockCrossings,
+  InventoryError,
+  notifyLowStock,
+  releaseReservation,
+  reserveStock,
+  type StockReservation,
+} from "@/lib/inventory"
+import { formatTin, validateInvoiceBuyer } from "@/lib/invoice"
+import { findPriceChanges, findTotalMismatches, OrderPricingError, priceOrder } from "@/lib/order-pricing"
+import { validatePhAddress } from "@/lib/ph-address"
+import { getServiceCenter } from "@/lib/service-centers"
+import { VOUCHER_LIMIT_MESSAGES, type VoucherLimit } from "@/lib/vouchers"
+
 const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
 
 export async function GET(request: NextRequest) {
@@ -30,10 +58,49 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  // Set once this request owns the idempotency key, so every exit path can settle it
+  let idempotencyKey: string | null = null
+  // Held from pricing until Laravel creates the order, then attached to it
+  let reservation: StockReservation | null = null
+
   try {
     const authHeader = request.headers.get("authorization")
     const body = await request.json()
 
+    // A retried or double-clicked submission with the same key gets the original order back
+    const requestKey = request.headers.get(IDEMPOTENCY_HEADER)
+    if (requestKey !== null) {
+      if (!isValidIdempotencyKey(requestKey)) {
+        return NextResponse.json({ success: false, message: "Invalid idempotency key" }, { status: 400 })
+      }
+
+      const claim = await claimIdempotencyKey(requestKey, requestFingerprint(authHeader, body))
+      if (claim.state === "replay") {
+        return NextResponse.json(claim.response.body, {
+          status: claim.response.status,
+          headers: { "Idempotent-Replayed": "true" },
+        })
+      }
+      if (claim.state === "in_progress") {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "This order is already being placed. Please wait a moment.",
+            data: { in_progress: true },
+          },
+          { status: 409 },
+        )
+      }
+      if (claim.state === "mismatch") {
+        return NextResponse.json(
+          { success: false, message: "This idempotency key was already used for a different order" },
+          { status: 422 },
+        )
+      }
+
+      idempotencyKey = requestKey
+    }
+
     // Orders can be created by both authenticated and guest users
     const headers: HeadersInit = {
       Accept: "application/json",
@@ -45,6 +112,101 @@ export async function POST(request: NextRequest) {
       headers["Authorization"] = authHeader
     }
 
+    // Passed through so Laravel can also refuse a second order for the same key
+    if (idempotencyKey) {
+      headers["Idempotency-Key"] = idempotencyKey
+    }
+
+    if (body.fulfillment_method === "pickup") {
+      // Pickup orders are addressed to the branch so Laravel and the packing slip have a full address.
+      // An unknown branch is rejected by priceOrder below.
+      const pickupCenter = getServiceCenter(body.pickup_center_id)
+      if (pickupCenter) {
+        body.shipping_info = {
+          ...body.shipping_info,
+          address: pickupCenter.address,
+          region: pickupCenter.region,
+          province: pickupCenter.province,
+          city: pickupCenter.city,
+          barangay: "",
+          zipCode: pickupCenter.zipCode,
+        }
+      }
+    } else {
+      // Couriers reject addresses whose city, province and ZIP don't line up, so catch it before Laravel
+      const addressError = validatePhAddress(body.shipping_info || {})
+      if (addressError) {
+        throw new OrderPricingError(addressError)
+      }
+    }
+
+    if (body.invoice_info) {
+      const invoiceError = validateInvoiceBuyer(body.invoice_info)
+      if (invoiceError) {
+        throw new OrderPricingError(invoiceError)
+      }
+      body.invoice_info = {
+        business_name: body.invoice_info.business_name.trim(),
+        tin: formatTin(body.invoice_info.tin),
+        business_address: body.invoice_info.business_address.trim(),
+      }
+    }
+
+    // Every amount is recomputed from the catalog, shipping rules and voucher. Changed item prices
+    // are sent back for the customer to review; tampered totals are replaced and logged.
+    const priced = await priceOrder(body, authHeader)
+    const clientItems = Array.isArray(body.items) ? body.items : []
+
+    const priceChanges = findPriceChanges(clientItems, priced)
+    if (priceChanges.length > 0) {
+      throw new OrderPricingError(
+        "Some prices in your cart have changed. Please review your order before placing it.",
+        409,
+        { price_changes: priceChanges },
+      )
+    }
+
+    const mismatches = findTotalMismatches(body, priced)
+    if (mismatches.length > 0) {
+      console.warn("Order totals corrected:", {
+        fields: mismatches,
+        email: body.shipping_info?.email,
+      })
+    }
+
+    // Laravel records the voucher redemption against the order when it sees voucher_code. It re-checks the
+    // usage and per-customer caps under a lock on the voucher in the same transaction, so two checkouts can't
+    // both take the last use.
+    Object.assign(body, priced)
+
+    // Laravel creates the application in the same transaction as the order, so a financed order never
+    // exists without one
+    if (body.payment_method === "financing") {
+      const applicant = body.financing_application
+      const applicantError = validateFinancingApplicant(applicant)
+      if (applicantError) {
+        throw new OrderPricingError(applicantError)
+      }
+
+      const plan = await fetchFinancingPlan(applicant.plan_id)
+      if (!plan || !isPlanAvailable(plan, priced.total)) {
+        throw new OrderPricingError("The selected financing plan is not available for this order")
+      }
+
+      body.financing_application = buildFinancingApplication(priced.total, plan, applicant)
+    } else {
+      delete body.financing_application
+    }
+
+    // The catalog check above can race another checkout; the reservation can't, as Laravel takes it under
+    // a lock. Laravel moves the reservation onto the order when it sees stock_reservation_id. Orders with no
+    // stock-counted line have nothing to hold.
+    const countedItems = priced.items.filter((item) => item.stock_counted)
+    if (countedItems.length > 0) {
+      reservation = await reserveStock(countedItems, idempotencyKey || crypto.randomUUID())
+      body.stock_reservation_id = reservation.id
+    }
+
     console.log("Creating order:", {
       hasAuth: !!authHeader,
       isGuest: body.is_guest,
@@ -59,14 +221,60 @@ export async function POST(request: NextRequest) {
 
     const data = await response.json()
 
+    // The cap was reached by another checkout after pricing; the customer can order without the code
+    const voucherLimit: VoucherLimit | undefined = data.data?.voucher_limit
+    if (response.status === 409 && voucherLimit && Object.keys(VOUCHER_LIMIT_MESSAGES).includes(voucherLimit)) {
+      data.message = VOUCHER_LIMIT_MESSAGES[voucherLimit]
+    }
+
     console.log("Order creation response:", {
       status: response.status,
       success: data.success,
       message: data.message,
     })
 
+    // Settled here either way; a failed alert or release mustn't change what the customer sees
+    const heldStock = reservation
+    reservation = null
+    if (heldStock && response.ok && data.success) {
+      await notifyLowStock(findLowStockCrossings(heldStock.levels, countedItems)).catch((error) =>
+        console.error("Low stock alert error:", error),
+      )
+    } else if (heldStock) {
+      await releaseReservation(heldStock.id).catch((error) => console.error("Stock reservation release error:", error))
+    }
+
+    if (idempotencyKey) {
+      // Only a created order is replayed; anything else can be retried with the same key
+      const settledKey = idempotencyKey
+      idempotencyKey = null
+      await (
+        response.ok && data.success
+          ? completeIdempotencyKey(settledKey, { status: response.status, body: data })
+          : releaseIdempotencyKey(settledKey)
+      ).catch((error) => console.error("Idempotency key update error:", error))
+    }
+
     return NextResponse.json(data, { status: response.status })
   } catch (error) {
+    if (idempotencyKey) {
+      await releaseIdempotencyKey(idempotencyKey).catch((releaseError) =>
+        console.error("Idempotency key release error:", releaseError),
+      )
+    }
+    if (reservation) {
+      await releaseReservation(reservation.id).catch((releaseError) =>
+        console.error("Stock reservation release error:", releaseError),
+      )
+    }
+
+    if (error instanceof OrderPricingError || error instanceof InventoryError) {
+      return NextResponse.json(
+        { success: false, message: error.message, data: error.details },
+        { status: error.status },
+      )
+    }
+
     console.error("Orders POST error:", error)
     return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
   }
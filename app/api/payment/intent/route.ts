@@ -0,0 +1,95 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { canTransitionPaymentStatus, getPaymentProvider, PaymentProviderError } from "@/lib/payments"
+import { fetchOrder, updateOrderPaymentStatus } from "@/lib/payments/orders"
+
+// Order statuses that can still take a payment. Released orders are paid already, and cancelled ones are closed.
+const PAYABLE_ORDER_STATUSES = ["pending", "confirmed", "processing"]
+
+// Start an online payment for an order that was just placed
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { orderId } = body
+
+    if (!orderId) {
+      return NextResponse.json({ success: false, message: "Order ID is required" }, { status: 400 })
+    }
+
+    // Amount and method always come from the stored order, never from the browser
+    const order = await fetchOrder(orderId, authHeader)
+    const provider = getPaymentProvider(order.payment_method)
+
+    if (!provider) {
+      return NextResponse.json(
+        { success: false, message: "This order does not use an online payment method" },
+        { status: 400 },
+      )
+    }
+
+    if (order.payment_status === "paid" || order.payment_status === "refunded") {
+      return NextResponse.json({ success: false, message: "This order has already been paid" }, { status: 409 })
+    }
+
+    if (
+      !PAYABLE_ORDER_STATUSES.includes(order.status || "") ||
+      !canTransitionPaymentStatus(order.payment_status, "pending")
+    ) {
+      return NextResponse.json({ success: false, message: "This order can no longer be paid" }, { status: 409 })
+    }
+
+    const origin = request.nextUrl.origin
+    const returnParams = new URLSearchParams({
+      orderId: String(order.id),
+      orderNumber: order.order_number,
+    })
+
+    const intent = await provider.createIntent({
+      orderId: order.id,
+      orderNumber: order.order_number,
+      amount: Number(order.total),
+      currency: "PHP",
+      description: `YAMAARAW Order #${order.order_number}`,
+      customer: {
+        name: `${order.first_name} ${order.last_name}`.trim(),
+        email: order.email,
+        phone: order.phone,
+      },
+      returnUrl: `${origin}/order-success?${returnParams.toString()}&payment=return`,
+      cancelUrl: `${origin}/order-success?${returnParams.toString()}&payment=cancelled`,
+    })
+
+    await updateOrderPaymentStatus(
+      order.id,
+      {
+        payment_status: "pending",
+        payment_provider: intent.provider,
+        payment_reference: intent.id,
+      },
+      authHeader,
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        intent_id: intent.id,
+        status: intent.status,
+        redirect_url: intent.redirectUrl,
+      },
+    })
+  } catch (error) {
+    console.error("Payment intent error:", error)
+
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { isMockPaymentGateway, PaymentProviderError } from "@/lib/payments"
+import { completeMockPayment, type MockOutcome } from "@/lib/payments/mock-provider"
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from "@/lib/payments/webhooks"
+
+const OUTCOMES: MockOutcome[] = ["approve", "decline", "cancel"]
+
+const OUTCOME_EVENTS: Record<MockOutcome, string> = {
+  approve: "payment.succeeded",
+  decline: "payment.failed",
+  cancel: "payment.cancelled",
+}
+
+// Used by /payment/mock-checkout to play the customer's part on the mock gateway
+export async function POST(request: NextRequest) {
+  try {
+    if (!isMockPaymentGateway()) {
+      return NextResponse.json({ success: false, message: "Mock gateway is disabled" }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const { intentId, outcome } = body
+
+    if (!intentId || !OUTCOMES.includes(outcome)) {
+      return NextResponse.json({ success: false, message: "Intent ID and a valid outcome are required" }, { status: 400 })
+    }
+
+    const intent = completeMockPayment(intentId, outcome)
+
+    // Deliver a signed webhook like the real gateway would, so the webhook path gets exercised in dev
+    const secret = process.env.PAYMENT_WEBHOOK_SECRET
+    if (secret) {
+      const payload = JSON.stringify({
+        id: `mock_evt_${Math.random().toString(36).slice(2, 14)}${Date.now().toString(36)}`,
+        type: intent.status === "authorized" ? "payment.authorized" : OUTCOME_EVENTS[outcome as MockOutcome],
+        created_at: new Date().toISOString(),
+        data: {
+          intent_id: intent.id,
+          order_id: intent.metadata?.order_id,
+          provider: intent.provider,
+          amount: intent.amount,
+        },
+      })
+
+      fetch(`${request.nextUrl.origin}/api/payment/webhook`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(payload, secret),
+        },
+        body: payload,
+      }).catch((error) => console.error("Failed to deliver mock webhook:", error))
+    }
+
+    return NextResponse.json({ success: true, data: intent })
+  } catch (error) {
+    console.error("Mock payment error:", error)
+
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
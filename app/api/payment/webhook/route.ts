@@ -0,0 +1,130 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { getPaymentProvider, PaymentProviderError, type OrderPaymentStatus } from "@/lib/payments"
+import {
+  applyIntent,
+  fetchOrder,
+  findPaymentEvent,
+  getServiceAuthHeader,
+  recordPaymentEvent,
+} from "@/lib/payments/orders"
+import {
+  getEventIntentStatus,
+  hasProcessedEvent,
+  markEventProcessed,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  type PaymentWebhookEvent,
+} from "@/lib/payments/webhooks"
+
+// Receives payment provider callbacks. Always answers 2xx once the event is safely
+// handled (or known to be a duplicate) so the provider stops retrying.
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.PAYMENT_WEBHOOK_SECRET
+    const serviceAuth = getServiceAuthHeader()
+
+    if (!secret || !serviceAuth) {
+      console.error("Payment webhook received but PAYMENT_WEBHOOK_SECRET or LARAVEL_SERVICE_TOKEN is not set")
+      return NextResponse.json({ success: false, message: "Webhook not configured" }, { status: 500 })
+    }
+
+    // The signature covers the exact bytes sent, so read the raw body before parsing
+    const rawBody = await request.text()
+
+    if (!verifyWebhookSignature(rawBody, request.headers.get(WEBHOOK_SIGNATURE_HEADER), secret)) {
+      return NextResponse.json({ success: false, message: "Invalid signature" }, { status: 401 })
+    }
+
+    let event: PaymentWebhookEvent
+    try {
+      event = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json({ success: false, message: "Invalid JSON payload" }, { status: 400 })
+    }
+
+    if (!event?.id || !event.type || !event.data?.intent_id) {
+      return NextResponse.json({ success: false, message: "Malformed event" }, { status: 400 })
+    }
+
+    if (hasProcessedEvent(event.id) || (await findPaymentEvent(event.id))) {
+      return NextResponse.json({ success: true, duplicate: true })
+    }
+
+    const eventStatus = getEventIntentStatus(event.type)
+    if (!eventStatus) {
+      // Acknowledge event types we don't act on so they aren't redelivered
+      markEventProcessed(event.id)
+      return NextResponse.json({ success: true, ignored: true })
+    }
+
+    if (!event.data.order_id) {
+      return NextResponse.json({ success: false, message: "Event is not linked to an order" }, { status: 400 })
+    }
+
+    const order = await fetchOrder(event.data.order_id, serviceAuth, "admin")
+
+    if (order.payment_reference && order.payment_reference !== event.data.intent_id) {
+      // An older attempt (e.g. before "Retry Payment") - log it but leave the order alone
+      await recordPaymentEvent(order.id, {
+        event_id: event.id,
+        type: event.type,
+        provider: event.data.provider,
+        intent_id: event.data.intent_id,
+        payment_status: (order.payment_status || "pending") as OrderPaymentStatus,
+        previous_payment_status: order.payment_status,
+        applied: false,
+        payload: event,
+        occurred_at: event.created_at,
+      })
+      markEventProcessed(event.id)
+      return NextResponse.json({ success: true, applied: false })
+    }
+
+    // Events can arrive out of order, so the provider's current state is the source of truth. A payment
+    // landing on a cancelled order is refunded by applyIntent, never applied.
+    const provider = getPaymentProvider(order.payment_method, order.payment_provider || event.data.provider)
+    if (!provider) {
+      return NextResponse.json({ success: false, message: "Order does not use an online payment" }, { status: 400 })
+    }
+
+    const intent = await provider.getStatus(event.data.intent_id)
+    const result = await applyIntent(
+      { ...order, payment_reference: intent.id },
+      intent,
+      serviceAuth,
+      eventStatus === "partially_refunded",
+    )
+
+    const { duplicate } = await recordPaymentEvent(order.id, {
+      event_id: event.id,
+      type: event.type,
+      provider: intent.provider,
+      intent_id: intent.id,
+      payment_status: result.payment_status,
+      previous_payment_status: order.payment_status,
+      applied: result.applied,
+      amount: intent.amount,
+      amount_refunded: result.intent.amountRefunded,
+      payload: event,
+      occurred_at: event.created_at,
+    })
+
+    markEventProcessed(event.id)
+
+    return NextResponse.json({
+      success: true,
+      duplicate,
+      applied: result.applied,
+      payment_status: result.payment_status,
+    })
+  } catch (error) {
+    console.error("Payment webhook error:", error)
+
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
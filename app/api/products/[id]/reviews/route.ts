@@ -0,0 +1,149 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import {
+  MAX_REVIEW_PHOTO_BYTES,
+  MAX_REVIEW_PHOTOS,
+  MAX_REVIEW_TITLE_LENGTH,
+  MIN_REVIEW_BODY_LENGTH,
+  parseReviewSort,
+  sortReviews,
+  summarizeRatings,
+  type ProductReview,
+} from "@/lib/reviews"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Published reviews with the rating summary. Filtered again here in case Laravel returns unmoderated ones.
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const sort = parseReviewSort(request.nextUrl.searchParams.get("sort"))
+
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/products/${id}/reviews?status=approved`, {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      cache: "no-store",
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      return NextResponse.json(data, { status: response.status })
+    }
+
+    const list: ProductReview[] = Array.isArray(data.data) ? data.data : data.data?.data || []
+    const reviews = list
+      .filter((review) => review.status === "approved")
+      .map((review) => ({ ...review, photos: Array.isArray(review.photos) ? review.photos : [] }))
+
+    return NextResponse.json({ success: true, data: sortReviews(reviews, sort), summary: summarizeRatings(reviews) })
+  } catch (error) {
+    console.error("Product reviews GET error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
+
+// New review, held for moderation. Photos go through the shared Laravel upload endpoint first and only their
+// URLs are stored on the review.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const { id } = await params
+    const formData = await request.formData()
+    const rating = Number(formData.get("rating"))
+    const title = String(formData.get("title") || "").trim()
+    const body = String(formData.get("body") || "").trim()
+    const photos = formData.getAll("photos[]").filter((value): value is File => value instanceof File)
+
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return NextResponse.json(
+        { success: false, message: "Please rate the product from 1 to 5 stars" },
+        { status: 422 },
+      )
+    }
+
+    if (!title || title.length > MAX_REVIEW_TITLE_LENGTH) {
+      return NextResponse.json(
+        { success: false, message: `Please add a title of up to ${MAX_REVIEW_TITLE_LENGTH} characters` },
+        { status: 422 },
+      )
+    }
+
+    if (body.length < MIN_REVIEW_BODY_LENGTH) {
+      return NextResponse.json(
+        { success: false, message: `Please write at least ${MIN_REVIEW_BODY_LENGTH} characters about the product` },
+        { status: 422 },
+      )
+    }
+
+    if (photos.length > MAX_REVIEW_PHOTOS) {
+      return NextResponse.json(
+        { success: false, message: `Please attach at most ${MAX_REVIEW_PHOTOS} photos` },
+        { status: 422 },
+      )
+    }
+
+    if (photos.some((photo) => !photo.type.startsWith("image/") || photo.size > MAX_REVIEW_PHOTO_BYTES)) {
+      return NextResponse.json(
+        { success: false, message: "Photos must be images no larger than 5 MB each" },
+        { status: 422 },
+      )
+    }
+
+    let photoUrls: string[] = []
+    if (photos.length > 0) {
+      const uploadData = new FormData()
+      photos.forEach((photo) => uploadData.append("images[]", photo))
+
+      const uploadResponse = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/upload`, {
+        method: "POST",
+        headers: {
+          Authorization: authHeader,
+          Accept: "application/json",
+        },
+        body: uploadData,
+      })
+
+      const uploaded = await uploadResponse.json()
+
+      if (!uploadResponse.ok || !Array.isArray(uploaded.urls)) {
+        console.error("Review photo upload failed:", uploaded)
+        return NextResponse.json({ success: false, message: "Failed to upload photos" }, { status: 502 })
+      }
+
+      photoUrls = uploaded.urls
+    }
+
+    // Laravel keeps one review per customer and product and stores it as pending. It also marks the review as
+    // a verified purchase from the reviewer's own delivered orders, so neither can be set from here.
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/products/${id}/reviews`, {
+      method: "POST",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        rating,
+        title,
+        body: body.slice(0, 5000),
+        photos: photoUrls,
+      }),
+    })
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error("Product reviews POST error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
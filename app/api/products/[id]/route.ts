@@ -1,5 +1,8 @@
+import { revalidateTag } from "next/cache"
 import { type NextRequest, NextResponse } from "next/server"
 
+import { PRODUCTS_CACHE_TAG } from "@/lib/product-list"
+
 const API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
@@ -134,6 +137,8 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
       })
     }
 
+    revalidateTag(PRODUCTS_CACHE_TAG)
+
     // Try to parse JSON response
     let data
     try {
@@ -297,6 +302,8 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       })
     }
 
+    revalidateTag(PRODUCTS_CACHE_TAG)
+
     // Try to parse JSON response
     let data
     try {
@@ -365,6 +372,8 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
       return NextResponse.json(errorData, { status: response.status })
     }
 
+    revalidateTag(PRODUCTS_CACHE_TAG)
+
     const data = await response.json()
     return NextResponse.json({ success: true, message: data.message || "Product deleted successfully" })
   } catch (error) {
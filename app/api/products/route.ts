@@ -1,5 +1,41 @@
+import { revalidateTag } from "next/cache"
 import { type NextRequest, NextResponse } from "next/server"
 
+import { buildFacets, FACET_PARAM_KEYS, filterByFacets, hasFacetFilters, parseFacetFilters } from "@/lib/product-facets"
+import {
+  matchesProductSearch,
+  paginate,
+  parsePagination,
+  PRODUCTS_CACHE_SECONDS,
+  PRODUCTS_CACHE_TAG,
+  sortProducts,
+} from "@/lib/product-list"
+
+async function fetchProducts(apiUrl: string, params: URLSearchParams, init: RequestInit) {
+  const response = await fetch(`${apiUrl}/products${params.toString() ? `?${params.toString()}` : ""}`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+    },
+    ...init,
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`)
+  }
+
+  return response.json()
+}
+
+// Every product matching the category and search, for spec filters and facet counts. Cached for a minute so
+// paging through a filtered catalog doesn't pull the whole list for each page; product writes drop the cache.
+const fetchCatalog = (apiUrl: string, params: URLSearchParams) =>
+  fetchProducts(apiUrl, params, { next: { revalidate: PRODUCTS_CACHE_SECONDS, tags: [PRODUCTS_CACHE_TAG] } })
+
+const isLaravelPage = (data: any) => !Array.isArray(data) && Array.isArray(data?.data) && data.current_page != null
+
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
@@ -9,30 +45,76 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ success: false, message: "API URL not configured" }, { status: 500 })
     }
 
-    // Forward all query parameters to Laravel
+    const facetFilters = parseFacetFilters(searchParams)
+    const withFacets = searchParams.get("with_facets") === "1"
+    const pagination = parsePagination(searchParams)
+    const filtering = hasFacetFilters(facetFilters)
+
+    // Spec facets are applied here; everything else is forwarded to Laravel
     const params = new URLSearchParams()
     searchParams.forEach((value, key) => {
+      if (["with_facets", "page", "per_page"].includes(key) || FACET_PARAM_KEYS.includes(key)) return
       params.append(key, value)
     })
+    const sortBy = params.get("sort_by")
+    const sortOrder = params.get("sort_order")
+    const catalogParams = new URLSearchParams(params)
+    catalogParams.delete("sort_by")
+    catalogParams.delete("sort_order")
+
+    // Without facets or paging, Laravel's response goes back untouched
+    if (!filtering && !withFacets && !pagination) {
+      return NextResponse.json(await fetchProducts(apiUrl, params, { cache: "no-store" }))
+    }
 
-    const fullUrl = `${apiUrl}/products${params.toString() ? `?${params.toString()}` : ""}`
+    // Search again here in case Laravel ignores it, so facet counts and pages agree with the search box
+    const searchCatalog = (data: any): any[] =>
+      (Array.isArray(data) ? data : data.data).filter((product: any) =>
+        matchesProductSearch(product, params.get("search")),
+      )
+
+    // Without spec filters Laravel sorts and pages the list, so only one page crosses the wire. A Laravel that
+    // sends the whole list instead falls through to paging here.
+    if (pagination && !filtering) {
+      const pageParams = new URLSearchParams(params)
+      pageParams.set("page", String(pagination.page))
+      pageParams.set("per_page", String(pagination.perPage))
+
+      const data = await fetchProducts(apiUrl, pageParams, { cache: "no-store" })
+      if (isLaravelPage(data)) {
+        const facets = withFacets
+          ? buildFacets(searchCatalog(await fetchCatalog(apiUrl, catalogParams)), facetFilters)
+          : undefined
+        return NextResponse.json({ ...data, facets })
+      }
+    }
 
-    const response = await fetch(fullUrl, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-        Accept: "application/json",
-      },
-      cache: "no-store",
-    })
+    const data = await fetchCatalog(apiUrl, catalogParams)
+    const products = Array.isArray(data) ? data : data.data
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(`HTTP error! status: ${response.status}, body: ${errorText}`)
+    // Responses that aren't a plain list go back untouched
+    if (!Array.isArray(products)) {
+      return NextResponse.json(data)
     }
 
-    const data = await response.json()
-    return NextResponse.json(data)
+    const matching = searchCatalog(data)
+    const filtered = filterByFacets(matching, facetFilters)
+    const facets = withFacets ? buildFacets(matching, facetFilters) : undefined
+
+    if (pagination) {
+      return NextResponse.json({
+        ...(Array.isArray(data) ? { success: true } : data),
+        ...paginate(sortProducts(filtered, sortBy, sortOrder), pagination.page, pagination.perPage),
+        facets,
+      })
+    }
+
+    return NextResponse.json({
+      ...(Array.isArray(data) ? { success: true } : data),
+      data: sortProducts(filtered, sortBy, sortOrder),
+      total: filtering ? filtered.length : (data.total ?? filtered.length),
+      facets,
+    })
   } catch (error) {
     console.error("Error fetching products:", error)
     return NextResponse.json(
@@ -159,6 +241,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(errorData, { status: response.status })
     }
 
+    revalidateTag(PRODUCTS_CACHE_TAG)
+
     const data = await response.json()
     return NextResponse.json(data)
   } catch (error) {
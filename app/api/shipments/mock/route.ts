@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { CourierError, isMockCourier } from "@/lib/couriers"
+import { advanceMockShipment } from "@/lib/couriers/mock-adapter"
+
+// Moves a mock parcel to its next scan so testers don't have to wait for the timer
+export async function POST(request: NextRequest) {
+  try {
+    if (!isMockCourier()) {
+      return NextResponse.json({ success: false, message: "Mock carrier is disabled" }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const trackingNumber = String(body.tracking_number || "")
+
+    if (!trackingNumber.startsWith("MOCK")) {
+      return NextResponse.json({ success: false, message: "A mock tracking number is required" }, { status: 400 })
+    }
+
+    const status = advanceMockShipment(trackingNumber, Math.max(1, Number(body.steps) || 1))
+
+    return NextResponse.json({ success: true, data: { tracking_number: trackingNumber, status } })
+  } catch (error) {
+    if (error instanceof CourierError) {
+      return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+    }
+
+    console.error("Mock shipment error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { getServiceAuthHeader } from "@/lib/payments/orders"
+import { syncActiveShipments } from "@/lib/shipments"
+
+// Called every 15 minutes by the Vercel cron in vercel.json, which sends `Authorization: Bearer $CRON_SECRET`.
+// Pulls carrier scans for every order with a live waybill, which is what keeps /api/orders/[id]/track current.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+    const serviceAuth = getServiceAuthHeader()
+
+    if (!secret || !serviceAuth) {
+      console.error("Shipment sync called but CRON_SECRET or LARAVEL_SERVICE_TOKEN is not set")
+      return NextResponse.json({ success: false, message: "Shipment sync not configured" }, { status: 500 })
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ success: false, message: "Unauthorized" }, { status: 401 })
+    }
+
+    const results = await syncActiveShipments(serviceAuth)
+    const failed = results.filter((result) => !result.success).length
+
+    return NextResponse.json({
+      success: true,
+      message: `Synced ${results.length - failed} of ${results.length} shipments`,
+      data: results,
+    })
+  } catch (error) {
+    console.error("Shipment sync error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { loadShippingRules, validateShippingRules } from "@/lib/shipping"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+export async function GET() {
+  try {
+    const rules = await loadShippingRules()
+
+    return NextResponse.json({ success: true, data: rules })
+  } catch (error) {
+    console.error("Shipping rules GET error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Authentication required" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validationError = validateShippingRules(body)
+
+    if (validationError) {
+      return NextResponse.json({ success: false, message: validationError }, { status: 422 })
+    }
+
+    const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/shipping-rules`, {
+      method: "PUT",
+      headers: {
+        Authorization: authHeader,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        zones: body.zones,
+        category_classes: body.category_classes || {},
+        products: body.products || [],
+      }),
+    })
+
+    const data = await response.json()
+
+    return NextResponse.json(data, { status: response.status })
+  } catch (error) {
+    console.error("Shipping rules PUT error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
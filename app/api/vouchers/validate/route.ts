@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+import { resolveOrderItems } from "@/lib/order-items"
+import { checkVoucher } from "@/lib/vouchers"
+
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get("authorization")
+
+    // Per-customer usage caps need to know who is asking
+    if (!authHeader) {
+      return NextResponse.json({ success: false, message: "Please sign in to use a promo code" }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    if (!body.code || !String(body.code).trim()) {
+      return NextResponse.json({ success: false, message: "Promo code is required" }, { status: 400 })
+    }
+
+    if (!Array.isArray(body.items) || body.items.length === 0) {
+      return NextResponse.json({ success: false, message: "Your cart is empty" }, { status: 400 })
+    }
+
+    // Only products that still exist count, priced at their current catalog price
+    const items = (await resolveOrderItems(body.items)).filter((item) => item.found)
+    const result = await checkVoucher(String(body.code), items, authHeader)
+
+    return NextResponse.json({ success: result.valid, message: result.message, data: result })
+  } catch (error) {
+    console.error("Voucher validate error:", error)
+    return NextResponse.json({ success: false, message: "Internal server error" }, { status: 500 })
+  }
+}
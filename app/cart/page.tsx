@@ -252,6 +252,8 @@ export default function CartPage() {
                           {item.product.category}
                         </Badge>
                         {item.color && <p className="text-sm text-gray-500">Color: {item.color}</p>}
+                        {item.option && <p className="text-sm text-gray-500">Option: {item.option}</p>}
+                        {item.sku && <p className="text-xs text-gray-400">SKU: {item.sku}</p>}
                       </div>
                       <Button
                         variant="ghost"
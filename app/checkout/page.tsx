@@ -3,10 +3,26 @@
 export const dynamic = "force-dynamic"
 
 import type React from "react"
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { useRouter } from "next/navigation"
 import Image from "next/image"
-import { ArrowLeft, CreditCard, Truck, Shield, MapPin, Phone, Mail, User, UserPlus, Lock } from "lucide-react"
+import {
+  ArrowLeft,
+  CreditCard,
+  Truck,
+  Shield,
+  MapPin,
+  Phone,
+  Mail,
+  User,
+  UserPlus,
+  Lock,
+  Wallet,
+  Landmark,
+  Tag,
+  X,
+  Store,
+} from "lucide-react"
 import Header from "@/components/layout/header"
 import Footer from "@/components/layout/footer"
 import { Button } from "@/components/ui/button"
@@ -19,9 +35,31 @@ import { useCart } from "@/contexts/cart-context"
 import { useNotifications } from "@/contexts/notification-context"
 import { useClientToast } from "@/hooks/use-client-toast"
 import type { CartItem } from "@/lib/cart"
+import { paymentMethods, isOnlinePayment } from "@/lib/payments/methods"
+import { EMPLOYMENT_STATUSES } from "@/lib/financing"
+import { AmortizationCalculator } from "@/components/financing/amortization-calculator"
+import { calculateShipping, DEFAULT_SHIPPING_RULES, getShippingRules, type ShippingRules } from "@/lib/shipping"
+import { validateVoucherCode, type VoucherResult } from "@/lib/vouchers"
+import { validatePhAddress } from "@/lib/ph-address"
+import { PhAddressFields } from "@/components/checkout/ph-address-fields"
+import { getPickupCenters, getPickupDates, getServiceCenter } from "@/lib/service-centers"
+import type { FulfillmentMethod } from "@/lib/order-status"
+import { computeVat, validateInvoiceBuyer, VAT_RATE, type InvoiceBuyer } from "@/lib/invoice"
+import type { PriceChange } from "@/lib/order-pricing"
 
 type CheckoutMode = "login" | "register" | "authenticated"
 
+// randomUUID only exists on HTTPS and localhost; getRandomValues works on plain HTTP too
+function createIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID()
+  }
+  if (typeof crypto !== "undefined" && typeof crypto.getRandomValues === "function") {
+    return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, "0")).join("")
+  }
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`
+}
+
 export default function CheckoutPage() {
   const router = useRouter()
   const { refreshCart } = useCart()
@@ -40,8 +78,10 @@ export default function CheckoutPage() {
     email: "",
     phone: "",
     address: "",
-    city: "",
+    region: "",
     province: "",
+    city: "",
+    barangay: "",
     zipCode: "",
   })
 
@@ -53,6 +93,27 @@ export default function CheckoutPage() {
   })
 
   const [paymentMethod, setPaymentMethod] = useState("cod")
+  const [financingPlanId, setFinancingPlanId] = useState<number | null>(null)
+  const [financingInfo, setFinancingInfo] = useState({
+    employment_status: "",
+    employer: "",
+    monthly_income: "",
+  })
+  const [shippingRules, setShippingRules] = useState<ShippingRules>(DEFAULT_SHIPPING_RULES)
+  const [voucherCode, setVoucherCode] = useState("")
+  const [appliedVoucher, setAppliedVoucher] = useState<VoucherResult | null>(null)
+  const [isApplyingVoucher, setIsApplyingVoucher] = useState(false)
+  const [fulfillmentMethod, setFulfillmentMethod] = useState<FulfillmentMethod>("delivery")
+  const [pickupCenterId, setPickupCenterId] = useState("")
+  const [pickupDate, setPickupDate] = useState("")
+  const [needsBusinessInvoice, setNeedsBusinessInvoice] = useState(false)
+  const [invoiceInfo, setInvoiceInfo] = useState<InvoiceBuyer>({ business_name: "", tin: "", business_address: "" })
+  // One key per checkout attempt so double-clicks and network retries can't create a second order
+  const idempotencyKeyRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    getShippingRules().then(setShippingRules)
+  }, [])
 
   useEffect(() => {
     const user = getCurrentUser()
@@ -108,18 +169,6 @@ export default function CheckoutPage() {
         ...shippingInfo,
         [name]: lettersOnly,
       })
-    } else if (name === "zipCode") {
-      const numbersOnly = value.replace(/\D/g, "")
-      setShippingInfo({
-        ...shippingInfo,
-        [name]: numbersOnly,
-      })
-    } else if (name === "city" || name === "province") {
-      const lettersOnly = value.replace(/[^a-zA-Z\s'-]/g, "")
-      setShippingInfo({
-        ...shippingInfo,
-        [name]: lettersOnly,
-      })
     } else {
       setShippingInfo({
         ...shippingInfo,
@@ -199,7 +248,7 @@ export default function CheckoutPage() {
   }
 
   const validateForm = () => {
-    const requiredFields = ["firstName", "lastName", "email", "phone", "address", "city", "province", "zipCode"]
+    const requiredFields = ["firstName", "lastName", "email", "phone", "address"]
 
     for (const field of requiredFields) {
       if (!shippingInfo[field as keyof typeof shippingInfo].trim()) {
@@ -225,6 +274,49 @@ export default function CheckoutPage() {
       return false
     }
 
+    if (fulfillmentMethod === "pickup") {
+      if (!pickupCenter) {
+        toast.error("Validation Error", "Please choose a pickup branch")
+        return false
+      }
+
+      if (!pickupDate) {
+        toast.error("Validation Error", "Please choose a pickup date")
+        return false
+      }
+    } else {
+      const addressError = validatePhAddress(shippingInfo)
+      if (addressError) {
+        toast.error("Validation Error", addressError)
+        return false
+      }
+
+      if (!shippingQuote.zone) {
+        toast.error("Validation Error", "We don't deliver to this province yet. Please contact us for a quote.")
+        return false
+      }
+    }
+
+    if (needsBusinessInvoice) {
+      const invoiceError = validateInvoiceBuyer(invoiceInfo)
+      if (invoiceError) {
+        toast.error("Validation Error", invoiceError)
+        return false
+      }
+    }
+
+    if (paymentMethod === "financing") {
+      if (!financingPlanId) {
+        toast.error("Validation Error", "Please choose a financing plan")
+        return false
+      }
+
+      if (!financingInfo.employment_status || !(Number(financingInfo.monthly_income) > 0)) {
+        toast.error("Validation Error", "Please provide your employment status and monthly income for financing")
+        return false
+      }
+    }
+
     return true
   }
 
@@ -244,10 +336,26 @@ export default function CheckoutPage() {
           quantity: item.quantity,
           price: item.price,
           color: item.color,
+          variant_id: item.variant_id,
         })),
         shipping_info: shippingInfo,
+        fulfillment_method: fulfillmentMethod,
+        pickup_center_id: fulfillmentMethod === "pickup" ? pickupCenterId : undefined,
+        pickup_date: fulfillmentMethod === "pickup" ? pickupDate : undefined,
+        invoice_info: needsBusinessInvoice ? invoiceInfo : undefined,
         payment_method: paymentMethod,
+        financing_application:
+          paymentMethod === "financing"
+            ? {
+                plan_id: financingPlanId,
+                employment_status: financingInfo.employment_status,
+                employer: financingInfo.employer || undefined,
+                monthly_income: Number(financingInfo.monthly_income),
+              }
+            : undefined,
+        voucher_code: appliedVoucher?.code,
         subtotal: subtotal,
+        discount_amount: discount,
         shipping_fee: shipping,
         total: total,
         is_guest: false, // Always false since we require authentication
@@ -263,15 +371,30 @@ export default function CheckoutPage() {
         headers.Authorization = `Bearer ${token}`
       }
 
+      if (!idempotencyKeyRef.current) {
+        idempotencyKeyRef.current = createIdempotencyKey()
+      }
+
       const response = await fetch("/api/orders", {
         method: "POST",
-        headers,
+        headers: { ...headers, "Idempotency-Key": idempotencyKeyRef.current },
         body: JSON.stringify(orderData),
       })
 
       const result = await response.json()
 
+      // Any answer but "still in progress" settles this attempt; the next submit is a new one
+      if (!result.data?.in_progress) {
+        idempotencyKeyRef.current = null
+      }
+
       if (result.success) {
+        // Online payments continue on the provider's page; the order stays pending until it reports back
+        let paymentRedirectUrl: string | null = null
+        if (isOnlinePayment(paymentMethod)) {
+          paymentRedirectUrl = await startOnlinePayment(result.data.id, headers)
+        }
+
         const cartCleared = await clearCartAfterCheckout()
         if (cartCleared) {
           await refreshCart()
@@ -280,11 +403,33 @@ export default function CheckoutPage() {
           }, 1000)
           window.dispatchEvent(new CustomEvent("orderPlaced"))
           toast.orderPlaced(result.data.order_number)
-          router.push(`/order-success?orderId=${result.data.id}&orderNumber=${result.data.order_number}`)
         } else {
           toast.warning("Order Placed", "Order successful but cart may need manual refresh")
+        }
+
+        if (paymentRedirectUrl) {
+          window.location.href = paymentRedirectUrl
+        } else {
           router.push(`/order-success?orderId=${result.data.id}&orderNumber=${result.data.order_number}`)
         }
+      } else if (result.data?.price_changes) {
+        // Show the current prices so the customer can review the new total and place the order again
+        const changes: PriceChange[] = result.data.price_changes
+        setCart((prev) =>
+          prev.map((item) => {
+            const change = changes.find(
+              (c) =>
+                String(c.product_id) === String(item.product_id) &&
+                String(c.variant_id ?? "") === String(item.variant_id ?? ""),
+            )
+            return change ? { ...item, price: change.current_price, total: change.current_price * item.quantity } : item
+          }),
+        )
+        setAppliedVoucher(null)
+        toast.warning("Prices Updated", result.message)
+      } else if (result.data?.voucher_limit) {
+        setAppliedVoucher(null)
+        toast.warning("Promo Code Removed", `${result.message}. Please review your total and place the order again.`)
       } else {
         throw new Error(result.message || "Order failed")
       }
@@ -297,6 +442,27 @@ export default function CheckoutPage() {
     }
   }
 
+  const startOnlinePayment = async (orderId: number, headers: HeadersInit): Promise<string | null> => {
+    try {
+      const response = await fetch("/api/payment/intent", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ orderId }),
+      })
+      const data = await response.json()
+
+      if (data.success && data.data?.redirect_url) {
+        return data.data.redirect_url
+      }
+
+      throw new Error(data.message || "Could not start payment")
+    } catch (error) {
+      console.error("Error starting online payment:", error)
+      toast.warning("Payment Not Started", "Your order was placed. You can retry the payment from your order page.")
+      return null
+    }
+  }
+
   const getAuthToken = () => {
     try {
       const sessionData = localStorage.getItem("session")
@@ -330,8 +496,40 @@ export default function CheckoutPage() {
   }
 
   const subtotal = calculateSafeTotal(cart)
-  const shipping = subtotal > 50000 ? 0 : 500
-  const total = subtotal + shipping
+  const shippingQuote = calculateShipping(
+    shippingRules,
+    cart.map((item) => ({
+      product_id: item.product_id,
+      quantity: Number(item.quantity) || 0,
+      price: Number(item.price) || 0,
+      category: item.product?.category,
+    })),
+    shippingInfo.province,
+  )
+  const pickupCenter = getServiceCenter(pickupCenterId)
+  const pickupDates = pickupCenter ? getPickupDates(pickupCenter) : []
+  const shipping = fulfillmentMethod === "pickup" ? 0 : shippingQuote.fee
+  const discount = appliedVoucher?.discount || 0
+  const total = subtotal - discount + shipping
+
+  const handleApplyVoucher = async () => {
+    if (!voucherCode.trim()) return
+
+    setIsApplyingVoucher(true)
+    const result = await validateVoucherCode(
+      voucherCode,
+      cart.map((item) => ({ product_id: item.product_id, quantity: item.quantity, price: item.price })),
+    )
+    setIsApplyingVoucher(false)
+
+    if (result.valid) {
+      setAppliedVoucher(result)
+      toast.success("Promo Code Applied", result.message)
+    } else {
+      setAppliedVoucher(null)
+      toast.error("Promo Code", result.message)
+    }
+  }
 
   if (loading) {
     return (
@@ -658,62 +856,170 @@ export default function CheckoutPage() {
                     </div>
 
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Address <span className="text-red-500">*</span>
-                      </label>
-                      <div className="relative">
-                        <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                        <Input
-                          name="address"
-                          value={shippingInfo.address}
-                          onChange={handleInputChange}
-                          required
-                          className="pl-10 h-12"
-                          placeholder="Street address, building, apartment"
-                        />
+                      <p className="block text-sm font-medium text-gray-700 mb-1">
+                        How would you like to get your order? <span className="text-red-500">*</span>
+                      </p>
+                      <div className="grid grid-cols-2 gap-3">
+                        {(["delivery", "pickup"] as const).map((method) => (
+                          <button
+                            key={method}
+                            type="button"
+                            onClick={() => setFulfillmentMethod(method)}
+                            className={`flex items-center justify-center gap-2 h-12 rounded-xl border-2 text-sm font-medium ${
+                              fulfillmentMethod === method
+                                ? "border-orange-300 bg-orange-50 text-orange-700"
+                                : "border-gray-200 text-gray-600 hover:border-orange-200"
+                            }`}
+                          >
+                            {method === "delivery" ? <Truck className="w-4 h-4" /> : <Store className="w-4 h-4" />}
+                            {method === "delivery" ? "Deliver to me" : "Pick up at branch"}
+                          </button>
+                        ))}
                       </div>
                     </div>
 
-                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Province <span className="text-red-500">*</span>
-                        </label>
-                        <Input
-                          name="province"
-                          value={shippingInfo.province}
-                          onChange={handleInputChange}
-                          required
-                          className="h-12"
-                          placeholder="Province"
-                        />
+                    {fulfillmentMethod === "pickup" ? (
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="pickupCenter" className="block text-sm font-medium text-gray-700 mb-1">
+                            Pickup Branch <span className="text-red-500">*</span>
+                          </label>
+                          <select
+                            id="pickupCenter"
+                            value={pickupCenterId}
+                            onChange={(e) => {
+                              setPickupCenterId(e.target.value)
+                              setPickupDate("")
+                            }}
+                            className="h-12 w-full rounded-lg border-2 border-gray-200 focus:border-orange-500 px-3 bg-white text-sm"
+                          >
+                            <option value="">Select a branch</option>
+                            {getPickupCenters().map((center) => (
+                              <option key={center.id} value={center.id}>
+                                {center.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label htmlFor="pickupDate" className="block text-sm font-medium text-gray-700 mb-1">
+                            Pickup Date <span className="text-red-500">*</span>
+                          </label>
+                          <select
+                            id="pickupDate"
+                            value={pickupDate}
+                            onChange={(e) => setPickupDate(e.target.value)}
+                            disabled={!pickupCenter}
+                            className="h-12 w-full rounded-lg border-2 border-gray-200 focus:border-orange-500 px-3 bg-white text-sm disabled:bg-gray-50"
+                          >
+                            <option value="">Select a date</option>
+                            {pickupDates.map((date) => (
+                              <option key={date} value={date}>
+                                {new Date(`${date}T00:00:00`).toLocaleDateString("en-PH", {
+                                  weekday: "short",
+                                  month: "short",
+                                  day: "numeric",
+                                })}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        {pickupCenter && (
+                          <div className="sm:col-span-2 p-3 bg-gray-50 rounded-lg text-sm text-gray-600">
+                            <div className="flex items-start gap-2">
+                              <MapPin className="w-4 h-4 mt-0.5 text-orange-500 flex-shrink-0" />
+                              <div>
+                                <p>{pickupCenter.address}</p>
+                                <p className="text-xs text-gray-500 mt-1">
+                                  {pickupCenter.hours} · {pickupCenter.phone}
+                                </p>
+                              </div>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-2">
+                              Bring a valid ID and your order number. We&apos;ll let you know when your order is ready
+                              for pickup.
+                            </p>
+                          </div>
+                        )}
                       </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          City <span className="text-red-500">*</span>
-                        </label>
-                        <Input
-                          name="city"
-                          value={shippingInfo.city}
-                          onChange={handleInputChange}
-                          required
-                          className="h-12"
-                          placeholder="City"
+                    ) : (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Address <span className="text-red-500">*</span>
+                          </label>
+                          <div className="relative">
+                            <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                            <Input
+                              name="address"
+                              value={shippingInfo.address}
+                              onChange={handleInputChange}
+                              required
+                              className="pl-10 h-12"
+                              placeholder="House no., street, building, subdivision"
+                            />
+                          </div>
+                        </div>
+
+                        <PhAddressFields
+                          value={shippingInfo}
+                          onChange={(address) => setShippingInfo((prev) => ({ ...prev, ...address }))}
                         />
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          ZIP Code <span className="text-red-500">*</span>
-                        </label>
-                        <Input
-                          name="zipCode"
-                          value={shippingInfo.zipCode}
-                          onChange={handleInputChange}
-                          required
-                          className="h-12"
-                          placeholder="ZIP"
+                      </>
+                    )}
+
+                    <div className="pt-2">
+                      <label className="flex items-center gap-2 text-sm font-medium text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={needsBusinessInvoice}
+                          onChange={(e) => setNeedsBusinessInvoice(e.target.checked)}
                         />
-                      </div>
+                        Issue the invoice to my business (with TIN)
+                      </label>
+                      {needsBusinessInvoice && (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-3">
+                          <div>
+                            <label htmlFor="businessName" className="block text-sm font-medium text-gray-700 mb-1">
+                              Registered Business Name <span className="text-red-500">*</span>
+                            </label>
+                            <Input
+                              id="businessName"
+                              value={invoiceInfo.business_name}
+                              onChange={(e) => setInvoiceInfo((prev) => ({ ...prev, business_name: e.target.value }))}
+                              className="h-12"
+                              placeholder="Business name"
+                            />
+                          </div>
+                          <div>
+                            <label htmlFor="businessTin" className="block text-sm font-medium text-gray-700 mb-1">
+                              TIN <span className="text-red-500">*</span>
+                            </label>
+                            <Input
+                              id="businessTin"
+                              value={invoiceInfo.tin}
+                              onChange={(e) => setInvoiceInfo((prev) => ({ ...prev, tin: e.target.value }))}
+                              maxLength={18}
+                              className="h-12"
+                              placeholder="123-456-789-000"
+                            />
+                          </div>
+                          <div className="sm:col-span-2">
+                            <label htmlFor="businessAddress" className="block text-sm font-medium text-gray-700 mb-1">
+                              Registered Business Address <span className="text-red-500">*</span>
+                            </label>
+                            <Input
+                              id="businessAddress"
+                              value={invoiceInfo.business_address}
+                              onChange={(e) =>
+                                setInvoiceInfo((prev) => ({ ...prev, business_address: e.target.value }))
+                              }
+                              className="h-12"
+                              placeholder="Address as shown on your BIR registration"
+                            />
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </form>
                 </CardContent>
@@ -731,31 +1037,103 @@ export default function CheckoutPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
-                    <label className="flex items-center p-3 sm:p-4 border-2 border-orange-300 bg-orange-50 rounded-xl cursor-pointer">
-                      <input
-                        type="radio"
-                        name="payment"
-                        value="cod"
-                        checked={paymentMethod === "cod"}
-                        onChange={(e) => setPaymentMethod(e.target.value)}
-                        className="mr-3"
+                    {paymentMethods.map((method) => {
+                      const selected = paymentMethod === method.code
+                      const Icon =
+                        method.flow === "offline"
+                          ? Truck
+                          : method.flow === "card"
+                            ? CreditCard
+                            : method.flow === "financing"
+                              ? Landmark
+                              : Wallet
+
+                      return (
+                        <label
+                          key={method.code}
+                          className={`flex items-center p-3 sm:p-4 border-2 rounded-xl cursor-pointer ${
+                            selected ? "border-orange-300 bg-orange-50" : "border-gray-200 hover:border-orange-200"
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name="payment"
+                            value={method.code}
+                            checked={selected}
+                            onChange={(e) => setPaymentMethod(e.target.value)}
+                            className="mr-3"
+                          />
+                          <Icon className={`w-5 h-5 mr-3 ${selected ? "text-orange-600" : "text-gray-600"}`} />
+                          <div>
+                            <span className={`font-medium ${selected ? "text-orange-800" : ""}`}>{method.label}</span>
+                            <p className={`text-sm ${selected ? "text-orange-600" : "text-gray-500"}`}>
+                              {method.description}
+                            </p>
+                          </div>
+                        </label>
+                      )
+                    })}
+                  </div>
+
+                  {paymentMethod === "financing" && (
+                    <div className="mt-4 space-y-4">
+                      <AmortizationCalculator
+                        price={total}
+                        selectedPlanId={financingPlanId}
+                        onPlanChange={(plan) => setFinancingPlanId(plan.id)}
                       />
-                      <Truck className="w-5 h-5 mr-3 text-orange-600" />
-                      <div>
-                        <span className="font-medium text-orange-800">Cash on Delivery</span>
-                        <p className="text-sm text-orange-600">Pay when you receive your order</p>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="employment_status" className="block text-sm font-medium text-gray-700 mb-1">
+                            Employment Status <span className="text-red-500">*</span>
+                          </label>
+                          <select
+                            id="employment_status"
+                            value={financingInfo.employment_status}
+                            onChange={(e) => setFinancingInfo({ ...financingInfo, employment_status: e.target.value })}
+                            className="w-full h-12 px-3 rounded-md border border-input bg-white text-sm"
+                          >
+                            <option value="">Select...</option>
+                            {EMPLOYMENT_STATUSES.map((status) => (
+                              <option key={status} value={status}>
+                                {status}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label htmlFor="monthly_income" className="block text-sm font-medium text-gray-700 mb-1">
+                            Monthly Income (₱) <span className="text-red-500">*</span>
+                          </label>
+                          <Input
+                            id="monthly_income"
+                            type="number"
+                            min={0}
+                            value={financingInfo.monthly_income}
+                            onChange={(e) => setFinancingInfo({ ...financingInfo, monthly_income: e.target.value })}
+                            className="h-12"
+                            placeholder="e.g. 35000"
+                          />
+                        </div>
                       </div>
-                    </label>
-
-                    <label className="flex items-center p-3 sm:p-4 border-2 border-gray-200 rounded-xl cursor-not-allowed opacity-50">
-                      <input type="radio" name="payment" value="card" disabled className="mr-3" />
-                      <CreditCard className="w-5 h-5 mr-3 text-gray-600" />
                       <div>
-                        <span className="font-medium">Credit/Debit Card</span>
-                        <p className="text-sm text-gray-500">Coming soon</p>
+                        <label htmlFor="employer" className="block text-sm font-medium text-gray-700 mb-1">
+                          Employer / Business Name
+                        </label>
+                        <Input
+                          id="employer"
+                          value={financingInfo.employer}
+                          onChange={(e) => setFinancingInfo({ ...financingInfo, employer: e.target.value })}
+                          className="h-12"
+                          placeholder="Company or business name"
+                        />
                       </div>
-                    </label>
-                  </div>
+                      <p className="text-xs text-gray-500">
+                        Your order is held until our team reviews the application. We&apos;ll notify you once it is
+                        approved.
+                      </p>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             )}
@@ -784,6 +1162,7 @@ export default function CheckoutPage() {
                         <h4 className="font-semibold text-gray-900 text-sm line-clamp-1">{item.product.name}</h4>
                         <p className="text-sm text-gray-600">{item.product.model}</p>
                         {item.color && <p className="text-xs text-gray-500">Color: {item.color}</p>}
+                        {item.option && <p className="text-xs text-gray-500">Option: {item.option}</p>}
                         <div className="flex items-center justify-between mt-1">
                           <span className="text-sm text-gray-600">Qty: {item.quantity}</span>
                           <span className="font-semibold text-orange-600">
@@ -798,13 +1177,74 @@ export default function CheckoutPage() {
                   ))}
                 </div>
 
-                <div className="border-t pt-4 mt-6 space-y-3">
+                <div className="border-t pt-4 mt-6">
+                  {appliedVoucher ? (
+                    <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-lg">
+                      <div className="flex items-center gap-2 text-sm text-green-700">
+                        <Tag className="w-4 h-4" />
+                        <span className="font-medium">{appliedVoucher.code}</span>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setAppliedVoucher(null)
+                          setVoucherCode("")
+                        }}
+                        className="text-gray-500 hover:text-gray-700"
+                        aria-label="Remove promo code"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        value={voucherCode}
+                        onChange={(e) => setVoucherCode(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.preventDefault()
+                            handleApplyVoucher()
+                          }
+                        }}
+                        placeholder="Promo code"
+                        className="h-10 uppercase"
+                        aria-label="Promo code"
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleApplyVoucher}
+                        disabled={isApplyingVoucher || !voucherCode.trim() || checkoutMode !== "authenticated"}
+                        className="h-10"
+                      >
+                        {isApplyingVoucher ? "Checking..." : "Apply"}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="border-t pt-4 mt-4 space-y-3">
                   <div className="flex justify-between text-sm">
                     <span>Subtotal ({cart.length} items)</span>
                     <span>{formatPrice(subtotal)}</span>
                   </div>
+                  {discount > 0 && (
+                    <div className="flex justify-between text-sm text-green-600">
+                      <span>Discount ({appliedVoucher?.code})</span>
+                      <span>-{formatPrice(discount)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
-                    <span>Shipping Fee</span>
+                    <span>
+                      Shipping Fee
+                      {fulfillmentMethod === "pickup" ? (
+                        <span className="text-gray-500"> (Branch pickup)</span>
+                      ) : (
+                        shippingInfo.province &&
+                        shippingQuote.zone && <span className="text-gray-500"> ({shippingQuote.zone.name})</span>
+                      )}
+                    </span>
                     <span className={shipping === 0 ? "text-green-600 font-medium" : ""}>
                       {shipping === 0 ? "Free" : formatPrice(shipping)}
                     </span>
@@ -814,6 +1254,9 @@ export default function CheckoutPage() {
                       <span>Total</span>
                       <span className="text-orange-600">{formatPrice(total)}</span>
                     </div>
+                    <p className="text-xs text-gray-500 text-right mt-1">
+                      Includes {formatPrice(computeVat(total).vat_amount)} VAT ({Math.round(VAT_RATE * 100)}%)
+                    </p>
                   </div>
                 </div>
 
@@ -850,7 +1293,11 @@ export default function CheckoutPage() {
                   </div>
                   <div className="flex items-center justify-center gap-2">
                     <Truck className="w-4 h-4 text-orange-500" />
-                    <span>Free shipping on orders over ₱50,000</span>
+                    <span>
+                      {shippingQuote.freeShippingThreshold
+                        ? `Free shipping on orders over ${formatPrice(shippingQuote.freeShippingThreshold)}`
+                        : "Shipping rates depend on your province"}
+                    </span>
                   </div>
                   <div className="flex items-center justify-center gap-2">
                     <User className="w-4 h-4 text-blue-500" />
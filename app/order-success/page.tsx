@@ -3,13 +3,16 @@ export const dynamic = "force-dynamic";
 import { useState, useEffect } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Image from "next/image";
-import { CheckCircle, Package, Truck, Calendar, ArrowRight } from 'lucide-react';
+import { CheckCircle, Package, Truck, Calendar, ArrowRight, AlertCircle } from 'lucide-react';
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { getCurrentUser } from "@/lib/auth";
+import { getPaymentMethodLabel, isOnlinePayment } from "@/lib/payments/methods";
+import { getOrderStatusLabel } from "@/lib/order-status";
+import { getServiceCenter } from "@/lib/service-centers";
 
 interface Order {
   id: number;
@@ -32,17 +35,25 @@ interface Order {
   phone: string;
   address: string;
   city: string;
+  barangay?: string | null;
   province: string;
+  region?: string | null;
   zip_code: string;
   payment_method: string;
+  payment_status?: string;
+  fulfillment_method?: string | null;
+  pickup_center_id?: string | null;
+  pickup_date?: string | null;
 }
 
 export default function OrderSuccessPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const orderId = searchParams.get("orderId");
+  const paymentReturn = searchParams.get("payment");
   const [order, setOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
+  const [retryingPayment, setRetryingPayment] = useState(false);
 
   useEffect(() => {
     const user = getCurrentUser();
@@ -65,6 +76,11 @@ export default function OrderSuccessPage() {
         return;
       }
 
+      // Coming back from the payment provider: reconcile before showing the order
+      if (paymentReturn) {
+        await syncPayment(token);
+      }
+
       console.log("Fetching order:", orderId);
 
       const response = await fetch(`/api/orders/${orderId}`, {
@@ -102,6 +118,49 @@ export default function OrderSuccessPage() {
     }
   };
 
+  const syncPayment = async (token: string) => {
+    try {
+      await fetch(`/api/orders/${orderId}/payment-status`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ action: "sync" }),
+      });
+    } catch (error) {
+      console.error("Error syncing payment status:", error);
+    }
+  };
+
+  const retryPayment = async () => {
+    const token = getAuthToken();
+    if (!token || !order) return;
+
+    try {
+      setRetryingPayment(true);
+      const response = await fetch("/api/payment/intent", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ orderId: order.id }),
+      });
+      const data = await response.json();
+
+      if (data.success && data.data?.redirect_url) {
+        window.location.href = data.data.redirect_url;
+        return;
+      }
+
+      throw new Error(data.message || "Could not start payment");
+    } catch (error) {
+      console.error("Error retrying payment:", error);
+      setRetryingPayment(false);
+    }
+  };
+
   const getAuthToken = () => {
     try {
       const sessionData = localStorage.getItem("session");
@@ -132,6 +191,8 @@ export default function OrderSuccessPage() {
         return "bg-red-100 text-red-800 border-red-200";
       case "shipped":
         return "bg-orange-100 text-orange-800 border-orange-200";
+      case "ready_for_pickup":
+        return "bg-teal-100 text-teal-800 border-teal-200";
       case "delivered":
         return "bg-green-100 text-green-800 border-green-200";
       default:
@@ -170,6 +231,37 @@ export default function OrderSuccessPage() {
           </p>
         </div>
 
+        {order &&
+          isOnlinePayment(order.payment_method) &&
+          order.payment_status !== "paid" && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-xl flex flex-col sm:flex-row sm:items-center gap-4">
+              <AlertCircle className="w-6 h-6 text-yellow-600 flex-shrink-0" />
+              <div className="flex-1">
+                <h3 className="font-semibold text-yellow-900">
+                  {order.payment_status === "failed"
+                    ? "Your payment did not go through"
+                    : paymentReturn === "cancelled"
+                      ? "Payment was cancelled"
+                      : "Waiting for payment confirmation"}
+                </h3>
+                <p className="text-sm text-yellow-800">
+                  Your order is reserved but will only be processed once{" "}
+                  {getPaymentMethodLabel(order.payment_method)} confirms the
+                  payment.
+                </p>
+              </div>
+              {order.payment_status !== "pending" || paymentReturn === "cancelled" ? (
+                <Button
+                  onClick={retryPayment}
+                  disabled={retryingPayment}
+                  className="bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700"
+                >
+                  {retryingPayment ? "Redirecting..." : "Retry Payment"}
+                </Button>
+              ) : null}
+            </div>
+          )}
+
         {order && (
           <div className="space-y-6">
             {/* Order Summary Card */}
@@ -178,8 +270,10 @@ export default function OrderSuccessPage() {
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-xl">Order Details</CardTitle>
                   <Badge className={getStatusColor(order.status)}>
-                    {order.status.charAt(0).toUpperCase() +
-                      order.status.slice(1)}
+                    {getOrderStatusLabel(
+                      order.status,
+                      order.fulfillment_method
+                    )}
                   </Badge>
                 </div>
               </CardHeader>
@@ -211,8 +305,8 @@ export default function OrderSuccessPage() {
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600">Payment Method:</span>
-                        <span className="font-medium capitalize">
-                          {order.payment_method}
+                        <span className="font-medium">
+                          {getPaymentMethodLabel(order.payment_method)}
                         </span>
                       </div>
                       <div className="flex justify-between">
@@ -226,14 +320,36 @@ export default function OrderSuccessPage() {
 
                   <div>
                     <h3 className="font-semibold text-gray-900 mb-3">
-                      Shipping Address
+                      {order.fulfillment_method === "pickup"
+                        ? "Pickup Branch"
+                        : "Shipping Address"}
                     </h3>
                     <div className="text-sm text-gray-600">
                       <p className="font-medium text-gray-900">
                         {order.first_name} {order.last_name}
                       </p>
+                      {order.fulfillment_method === "pickup" && (
+                        <>
+                          <p className="font-medium text-gray-900">
+                            {getServiceCenter(order.pickup_center_id)?.name}
+                          </p>
+                          {order.pickup_date && (
+                            <p>
+                              Pickup on{" "}
+                              {new Date(
+                                `${order.pickup_date}T00:00:00`
+                              ).toLocaleDateString("en-PH", {
+                                weekday: "long",
+                                month: "long",
+                                day: "numeric",
+                              })}
+                            </p>
+                          )}
+                        </>
+                      )}
                       <p>{order.address}</p>
                       <p>
+                        {order.barangay ? `${order.barangay}, ` : ""}
                         {order.city}, {order.province} {order.zip_code}
                       </p>
                       <p className="mt-2">
@@ -3,7 +3,7 @@
 import { useState, useEffect } from "react"
 import { useRouter, useParams } from "next/navigation"
 import Image from "next/image"
-import { Package, Truck, MapPin, ArrowLeft, CheckCircle, Clock, User, Phone, Mail, CreditCard, Share2, ChevronDown, ChevronUp } from 'lucide-react'
+import { Package, Truck, MapPin, ArrowLeft, CheckCircle, Clock, User, Phone, Mail, CreditCard, Share2, ChevronDown, ChevronUp, Store, FileText, XCircle, RotateCcw } from 'lucide-react'
 import Header from "@/components/layout/header"
 import Footer from "@/components/layout/footer"
 import { Button } from "@/components/ui/button"
@@ -11,14 +11,40 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import ETrikeLoader from "@/components/ui/etrike-loader"
 import { getCurrentUser } from "@/lib/auth"
+import { getPaymentMethodLabel } from "@/lib/payments/methods"
+import { getOrderStatusLabel } from "@/lib/order-status"
+import { getServiceCenter } from "@/lib/service-centers"
+import { computeVat, downloadInvoice, isInvoiceAvailable } from "@/lib/invoice"
+import { useClientToast } from "@/hooks/use-client-toast"
+import { useNotifications } from "@/contexts/notification-context"
+import { CancelOrderDialog } from "@/components/orders/cancel-order-dialog"
+import { ReturnRequestDialog } from "@/components/orders/return-request-dialog"
+import { BuyAgainButton } from "@/components/orders/buy-again-button"
+import {
+  canCancelOrder,
+  canRequestReturn,
+  getOrderReturns,
+  getReasonLabel,
+  RETURN_STATUS_LABELS,
+  type ReturnRequest,
+} from "@/lib/returns"
 
 interface OrderDetail {
   id: number
   order_number: string
   status: string
+  payment_status?: string
+  subtotal?: number
+  shipping_fee?: number
+  discount_amount?: number
+  voucher_code?: string | null
   total: number
+  vatable_sales?: number | null
+  vat_amount?: number | null
+  invoice_number?: string | null
   created_at: string
   updated_at: string
+  delivered_at?: string | null
   items: Array<{
     id: number
     product: {
@@ -39,6 +65,9 @@ interface OrderDetail {
   city: string
   postal_code: string
   payment_method: string
+  fulfillment_method?: string | null
+  pickup_center_id?: string | null
+  pickup_date?: string | null
   tracking_number?: string
   estimated_delivery?: string
   order_notes?: string
@@ -98,6 +127,12 @@ export default function OrderDetailPage() {
   const [order, setOrder] = useState<OrderDetail | null>(null)
   const [tracking, setTracking] = useState<TrackingEvent[]>([])
   const [loading, setLoading] = useState(true)
+  const [downloadingInvoice, setDownloadingInvoice] = useState(false)
+  const [returns, setReturns] = useState<ReturnRequest[]>([])
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false)
+  const [returnDialogOpen, setReturnDialogOpen] = useState(false)
+  const toast = useClientToast()
+  const { refreshNotifications } = useNotifications()
 
   useEffect(() => {
     const user = getCurrentUser()
@@ -108,6 +143,7 @@ export default function OrderDetailPage() {
 
     fetchOrderDetail()
     fetchTrackingInfo()
+    getOrderReturns(orderId).then(setReturns)
   }, [orderId, router])
 
   const fetchOrderDetail = async () => {
@@ -140,6 +176,32 @@ export default function OrderDetailPage() {
     }
   }
 
+  const handleDownloadInvoice = async () => {
+    if (!order) return
+
+    setDownloadingInvoice(true)
+    try {
+      await downloadInvoice(order.id)
+    } catch (error) {
+      toast.error("Invoice unavailable", error instanceof Error ? error.message : "Please try again.")
+    } finally {
+      setDownloadingInvoice(false)
+    }
+  }
+
+  const handleCancelled = (message: string) => {
+    toast.success("Order cancelled", message)
+    fetchOrderDetail()
+    fetchTrackingInfo()
+    refreshNotifications()
+  }
+
+  const handleReturnSubmitted = (request: ReturnRequest) => {
+    toast.success("Return requested", "We'll review your request within 1-2 business days")
+    setReturns((prev) => [request, ...prev])
+    refreshNotifications()
+  }
+
   const fetchTrackingInfo = async () => {
     try {
       const token = getAuthToken()
@@ -198,6 +260,8 @@ export default function OrderDetailPage() {
         return "bg-red-100 text-red-800 border-red-200"
       case "shipped":
         return "bg-orange-100 text-orange-800 border-orange-200"
+      case "ready_for_pickup":
+        return "bg-teal-100 text-teal-800 border-teal-200"
       case "delivered":
         return "bg-green-100 text-green-800 border-green-200"
       case "cancelled":
@@ -213,6 +277,8 @@ export default function OrderDetailPage() {
         return <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5 text-green-600" />
       case "shipped":
         return <Truck className="w-4 h-4 sm:w-5 sm:h-5 text-orange-600" />
+      case "ready_for_pickup":
+        return <Store className="w-4 h-4 sm:w-5 sm:h-5 text-teal-600" />
       case "processing":
         return <Package className="w-4 h-4 sm:w-5 sm:h-5 text-red-600" />
       default:
@@ -283,7 +349,7 @@ export default function OrderDetailPage() {
               <Badge
                 className={`${getStatusColor(order.status)} text-sm sm:text-base lg:text-lg px-3 py-1 sm:px-4 sm:py-2`}
               >
-                {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                {getOrderStatusLabel(order.status, order.fulfillment_method)}
               </Badge>
             </div>
           </div>
@@ -436,20 +502,113 @@ export default function OrderDetailPage() {
               <CardContent className="pt-0 space-y-3 sm:space-y-4">
                 <div className="flex justify-between text-sm sm:text-base">
                   <span>Subtotal:</span>
-                  <span>{formatPrice(order.total * 0.9)}</span>
+                  <span>
+                    {formatPrice(
+                      order.subtotal ?? order.items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+                    )}
+                  </span>
                 </div>
+                {!!order.discount_amount && (
+                  <div className="flex justify-between text-sm sm:text-base text-green-600">
+                    <span>Discount{order.voucher_code ? ` (${order.voucher_code})` : ""}:</span>
+                    <span>-{formatPrice(order.discount_amount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-sm sm:text-base">
                   <span>Shipping:</span>
-                  <span>{formatPrice(order.total * 0.1)}</span>
+                  <span>{order.shipping_fee ? formatPrice(order.shipping_fee) : "Free"}</span>
                 </div>
                 <hr className="my-3 sm:my-4" />
                 <div className="flex justify-between font-semibold text-base sm:text-lg">
                   <span>Total:</span>
                   <span className="text-orange-600">{formatPrice(order.total)}</span>
                 </div>
+                <div className="space-y-1 text-xs sm:text-sm text-gray-500">
+                  <div className="flex justify-between">
+                    <span>VATable Sales:</span>
+                    <span>{formatPrice(order.vatable_sales ?? computeVat(order.total).vatable_sales)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>VAT (12%):</span>
+                    <span>{formatPrice(order.vat_amount ?? computeVat(order.total).vat_amount)}</span>
+                  </div>
+                </div>
+                {isInvoiceAvailable(order) && (
+                  <Button
+                    onClick={handleDownloadInvoice}
+                    disabled={downloadingInvoice}
+                    variant="outline"
+                    className="w-full border-orange-200 text-orange-600 hover:bg-orange-50"
+                  >
+                    <FileText className="w-4 h-4 mr-2" />
+                    {downloadingInvoice ? "Preparing invoice..." : "Download Invoice (PDF)"}
+                  </Button>
+                )}
+                {order.items.length > 0 && (
+                  <BuyAgainButton
+                    orderId={order.id}
+                    className="w-full border-orange-200 text-orange-600 hover:bg-orange-50"
+                  />
+                )}
+                {canCancelOrder(order) && (
+                  <Button
+                    onClick={() => setCancelDialogOpen(true)}
+                    variant="outline"
+                    className="w-full border-red-200 text-red-600 hover:bg-red-50"
+                  >
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Cancel Order
+                  </Button>
+                )}
+                {canRequestReturn(order, returns) && (
+                  <Button
+                    onClick={() => setReturnDialogOpen(true)}
+                    variant="outline"
+                    className="w-full border-orange-200 text-orange-600 hover:bg-orange-50"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Request Return / Refund
+                  </Button>
+                )}
               </CardContent>
             </Card>
 
+            {/* Return Requests */}
+            {returns.length > 0 && (
+              <Card>
+                <CardHeader className="pb-3 sm:pb-6">
+                  <CardTitle className="text-lg sm:text-xl">Return Requests</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-0 space-y-4">
+                  {returns.map((request) => (
+                    <div key={request.id} className="space-y-2 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{getReasonLabel(request.reason)}</span>
+                        <Badge
+                          className={
+                            request.status === "rejected"
+                              ? "bg-red-100 text-red-800 border-red-200"
+                              : request.status === "refunded"
+                                ? "bg-green-100 text-green-800 border-green-200"
+                                : "bg-orange-100 text-orange-800 border-orange-200"
+                          }
+                        >
+                          {RETURN_STATUS_LABELS[request.status]}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Requested {new Date(request.created_at).toLocaleDateString("en-PH")}
+                      </p>
+                      {request.admin_note && <p className="text-gray-600">{request.admin_note}</p>}
+                      {request.status === "refunded" && request.refund_amount != null && (
+                        <p className="text-green-600">Refunded {formatPrice(request.refund_amount)}</p>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Customer Information */}
             <Card>
               <CardHeader className="pb-3 sm:pb-6">
@@ -473,6 +632,25 @@ export default function OrderDetailPage() {
                   <Phone className="w-4 h-4 text-gray-500 flex-shrink-0" />
                   <span>{order.phone}</span>
                 </div>
+                {order.fulfillment_method === "pickup" && (
+                  <div className="flex items-start gap-2 text-sm sm:text-base">
+                    <Store className="w-4 h-4 text-gray-500 flex-shrink-0 mt-0.5" />
+                    <div className="min-w-0">
+                      <p className="break-words font-medium">
+                        Pickup at {getServiceCenter(order.pickup_center_id)?.name || order.pickup_center_id}
+                      </p>
+                      {order.pickup_date && (
+                        <p className="text-gray-600">
+                          {new Date(`${order.pickup_date}T00:00:00`).toLocaleDateString("en-PH", {
+                            weekday: "long",
+                            month: "long",
+                            day: "numeric",
+                          })}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )}
                 <div className="flex items-start gap-2 text-sm sm:text-base">
                   <MapPin className="w-4 h-4 text-gray-500 flex-shrink-0 mt-0.5" />
                   <div className="min-w-0">
@@ -497,7 +675,7 @@ export default function OrderDetailPage() {
                 <div className="space-y-2 sm:space-y-3 text-sm sm:text-base">
                   <div className="flex justify-between">
                     <span>Method:</span>
-                    <span className="capitalize font-medium">{order.payment_method}</span>
+                    <span className="font-medium">{getPaymentMethodLabel(order.payment_method)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span>Order Date:</span>
@@ -538,6 +716,24 @@ export default function OrderDetailPage() {
         </div>
       </div>
 
+      <CancelOrderDialog
+        orderId={order.id}
+        orderNumber={order.order_number}
+        isPaid={order.payment_status === "paid"}
+        open={cancelDialogOpen}
+        onOpenChange={setCancelDialogOpen}
+        onCancelled={handleCancelled}
+        onError={(message) => toast.error("Cancellation failed", message)}
+      />
+      <ReturnRequestDialog
+        orderId={order.id}
+        orderNumber={order.order_number}
+        open={returnDialogOpen}
+        onOpenChange={setReturnDialogOpen}
+        onSubmitted={handleReturnSubmitted}
+        onError={(message) => toast.error("Return request failed", message)}
+      />
+
       <Footer />
     </div>
   )
@@ -2,36 +2,24 @@
 
 import { useState, useEffect } from "react";
 import { useRouter, useParams } from "next/navigation";
-import { Truck, Package, CheckCircle, Clock, MapPin, ArrowLeft, User, AlertCircle } from 'lucide-react';
+import { Truck, Package, CheckCircle, Clock, ArrowLeft, AlertCircle, Store } from 'lucide-react';
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import ETrikeLoader from "@/components/ui/etrike-loader";
+import { OrderEventList, OrderProgress } from "@/components/orders/order-timeline";
 import { getCurrentUser } from "@/lib/auth";
-
-interface TrackingInfo {
-  order_number: string;
-  status: string;
-  tracking_number?: string;
-  events: Array<{
-    id: number;
-    status: string;
-    description: string;
-    location: string;
-    timestamp: string;
-    admin_notes?: string;
-    courier_name?: string;
-  }>;
-}
+import { getOrderStatusLabel } from "@/lib/order-status";
+import { getTrackingDescription, type OrderTracking } from "@/lib/order-tracking";
 
 export default function TrackOrderPage() {
   const router = useRouter();
   const params = useParams();
   const orderId = params.id as string;
 
-  const [tracking, setTracking] = useState<TrackingInfo | null>(null);
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -56,29 +44,16 @@ export default function TrackOrderPage() {
         return;
       }
 
-      const apiUrl =
-        process.env.NEXT_PUBLIC_LARAVEL_API_URL;
-      const response = await fetch(`${apiUrl}/orders/${orderId}/track`, {
+      const response = await fetch(`/api/orders/${orderId}/track`, {
         headers: {
           Authorization: `Bearer ${token}`,
-          "Content-Type": "application/json",
-          Accept: "application/json",
         },
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
       const data = await response.json();
-      console.log("Tracking API response:", data);
 
       if (data.success) {
-        const trackingData = {
-          ...data.data,
-          events: data.data?.events || [],
-        };
-        setTracking(trackingData);
+        setTracking(data.data);
       } else {
         throw new Error(data.message || "Failed to fetch tracking information");
       }
@@ -117,6 +92,8 @@ export default function TrackOrderPage() {
       case "shipped":
       case "out_for_delivery":
         return <Truck className="w-6 h-6 text-orange-600" />;
+      case "ready_for_pickup":
+        return <Store className="w-6 h-6 text-teal-600" />;
       case "processing":
         return <Package className="w-6 h-6 text-red-600" />;
       case "confirmed":
@@ -137,6 +114,8 @@ export default function TrackOrderPage() {
       case "shipped":
       case "out_for_delivery":
         return "bg-orange-100 text-orange-800 border-orange-200";
+      case "ready_for_pickup":
+        return "bg-teal-100 text-teal-800 border-teal-200";
       case "processing":
         return "bg-red-100 text-red-800 border-red-200";
       case "confirmed":
@@ -150,25 +129,6 @@ export default function TrackOrderPage() {
     }
   };
 
-  const getStatusDescription = (status: string) => {
-    switch (status.toLowerCase()) {
-      case "pending":
-        return "Your order has been received and is awaiting confirmation.";
-      case "confirmed":
-        return "Your order has been confirmed and is being prepared.";
-      case "processing":
-        return "Your order is being processed and prepared for shipment.";
-      case "shipped":
-        return "Your order has been shipped and is on its way to you.";
-      case "delivered":
-        return "Your order has been successfully delivered.";
-      case "cancelled":
-        return "Your order has been cancelled.";
-      default:
-        return "Order status is being updated.";
-    }
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -259,8 +219,7 @@ export default function TrackOrderPage() {
             <Badge
               className={`${getStatusColor(tracking.status)} text-lg px-4 py-2`}
             >
-              {tracking.status.replace("_", " ").charAt(0).toUpperCase() +
-                tracking.status.replace("_", " ").slice(1)}
+              {getOrderStatusLabel(tracking.status, tracking.fulfillment_method)}
             </Badge>
           </div>
         </div>
@@ -291,15 +250,27 @@ export default function TrackOrderPage() {
                   )}
                 </div>
                 <h3 className="text-xl font-bold text-gray-900 mb-2">
-                  {tracking.status.replace("_", " ").charAt(0).toUpperCase() +
-                    tracking.status.replace("_", " ").slice(1)}
+                  {getOrderStatusLabel(tracking.status, tracking.fulfillment_method)}
                 </h3>
                 <p className="text-gray-600 max-w-md">
-                  {getStatusDescription(tracking.status)}
+                  {getTrackingDescription(tracking.status, tracking.fulfillment_method)}
                 </p>
+                {tracking.estimated_delivery && tracking.status === "shipped" && (
+                  <p className="text-sm text-gray-600 mt-2">
+                    Estimated delivery:{" "}
+                    {new Date(tracking.estimated_delivery).toLocaleDateString("en-PH", {
+                      weekday: "long",
+                      month: "long",
+                      day: "numeric",
+                    })}
+                  </p>
+                )}
                 {tracking.tracking_number && (
                   <div className="mt-4 p-3 bg-gray-50 rounded-lg">
-                    <p className="text-sm text-gray-600">Tracking Number</p>
+                    <p className="text-sm text-gray-600">
+                      Tracking Number
+                      {tracking.courier_name && ` (${tracking.courier_name})`}
+                    </p>
                     <p className="font-mono font-semibold text-gray-900">
                       {tracking.tracking_number}
                     </p>
@@ -319,64 +290,7 @@ export default function TrackOrderPage() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="flex items-center justify-between">
-              {[
-                "pending",
-                "confirmed",
-                "processing",
-                "shipped",
-                "delivered",
-              ].map((status, index) => {
-                const isActive =
-                  [
-                    "pending",
-                    "confirmed",
-                    "processing",
-                    "shipped",
-                    "delivered",
-                  ].indexOf(tracking.status.toLowerCase()) >= index;
-                const isCurrent = tracking.status.toLowerCase() === status;
-
-                return (
-                  <div
-                    key={status}
-                    className="flex flex-col items-center flex-1"
-                  >
-                    <div
-                      className={`w-10 h-10 rounded-full flex items-center justify-center mb-2 ${
-                        isActive
-                          ? isCurrent
-                            ? "bg-orange-500 text-white"
-                            : "bg-green-500 text-white"
-                          : "bg-gray-200 text-gray-400"
-                      }`}
-                    >
-                      {getStatusIcon(status, isActive && !isCurrent)}
-                    </div>
-                    <span
-                      className={`text-xs font-medium ${isActive ? "text-gray-900" : "text-gray-400"}`}
-                    >
-                      {status.charAt(0).toUpperCase() + status.slice(1)}
-                    </span>
-                    {index < 4 && (
-                      <div
-                        className={`hidden sm:block w-full h-0.5 mt-5 -ml-full ${
-                          [
-                            "pending",
-                            "confirmed",
-                            "processing",
-                            "shipped",
-                            "delivered",
-                          ].indexOf(tracking.status.toLowerCase()) > index
-                            ? "bg-green-500"
-                            : "bg-gray-200"
-                        }`}
-                      />
-                    )}
-                  </div>
-                );
-              })}
-            </div>
+            <OrderProgress steps={tracking.steps} />
           </CardContent>
         </Card>
 
@@ -389,87 +303,7 @@ export default function TrackOrderPage() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            {tracking.events && tracking.events.length > 0 ? (
-              <div className="relative">
-                {tracking.events.map((event, index) => {
-                  const isCompleted =
-                    index < tracking.events.length - 1 ||
-                    tracking.status === "delivered";
-                  const isLast = index === tracking.events.length - 1;
-
-                  return (
-                    <div
-                      key={event.id}
-                      className="relative flex items-start gap-4 pb-8"
-                    >
-                      {/* Timeline Line */}
-                      {!isLast && (
-                        <div className="absolute left-3 top-8 w-0.5 h-full bg-gray-200"></div>
-                      )}
-
-                      {/* Status Icon */}
-                      <div className="flex-shrink-0">
-                        {getStatusIcon(event.status, isCompleted)}
-                      </div>
-
-                      {/* Event Details */}
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center justify-between mb-2">
-                          <h4 className="font-semibold text-gray-900">
-                            {event.description}
-                          </h4>
-                          <span className="text-sm text-gray-500">
-                            {new Date(event.timestamp).toLocaleDateString(
-                              "en-PH",
-                              {
-                                month: "short",
-                                day: "numeric",
-                                hour: "2-digit",
-                                minute: "2-digit",
-                              }
-                            )}
-                          </span>
-                        </div>
-
-                        {event.location && (
-                          <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
-                            <MapPin className="w-3 h-3" />
-                            <span>{event.location}</span>
-                          </div>
-                        )}
-
-                        {event.courier_name && (
-                          <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
-                            <User className="w-3 h-3" />
-                            <span>Handled by: {event.courier_name}</span>
-                          </div>
-                        )}
-
-                        {event.admin_notes && (
-                          <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 mt-2">
-                            <p className="text-sm text-orange-800">
-                              <strong>Note:</strong> {event.admin_notes}
-                            </p>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            ) : (
-              <div className="text-center py-8">
-                <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                  <Clock className="w-8 h-8 text-gray-400" />
-                </div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                  No Tracking Events Yet
-                </h3>
-                <p className="text-gray-600">
-                  Order history will appear here once your order is processed.
-                </p>
-              </div>
-            )}
+            <OrderEventList tracking={tracking} />
           </CardContent>
         </Card>
 
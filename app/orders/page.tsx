@@ -3,7 +3,7 @@ export const dynamic = "force-dynamic"
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import Image from "next/image"
-import { Package, Truck, Calendar, MapPin, Eye, ArrowLeft, Filter } from 'lucide-react'
+import { Package, Truck, Calendar, MapPin, Eye, ArrowLeft, Filter, Store } from 'lucide-react'
 import Header from "@/components/layout/header"
 import Footer from "@/components/layout/footer"
 import { Button } from "@/components/ui/button"
@@ -13,11 +13,14 @@ import { Input } from "@/components/ui/input"
 import ETrikeLoader from "@/components/ui/etrike-loader"
 import { getCurrentUser } from "@/lib/auth"
 import { useClientToast } from "@/hooks/use-client-toast"
+import { getOrderStatusLabel } from "@/lib/order-status"
+import { BuyAgainButton } from "@/components/orders/buy-again-button"
 
 interface Order {
   id: number
   order_number: string
   status: string
+  fulfillment_method?: string | null
   total: number
   created_at: string
   items: Array<{
@@ -126,6 +129,8 @@ export default function OrdersPage() {
         return "bg-red-100 text-red-800 border-red-200"
       case "shipped":
         return "bg-orange-100 text-orange-800 border-orange-200"
+      case "ready_for_pickup":
+        return "bg-teal-100 text-teal-800 border-teal-200"
       case "delivered":
         return "bg-green-100 text-green-800 border-green-200"
       case "cancelled":
@@ -145,6 +150,8 @@ export default function OrdersPage() {
       case "shipped":
       case "delivered":
         return <Truck className="w-4 h-4" />
+      case "ready_for_pickup":
+        return <Store className="w-4 h-4" />
       default:
         return <Package className="w-4 h-4" />
     }
@@ -221,6 +228,7 @@ export default function OrdersPage() {
                   <option value="confirmed">Confirmed</option>
                   <option value="processing">Processing</option>
                   <option value="shipped">Shipped</option>
+                  <option value="ready_for_pickup">Ready for Pickup</option>
                   <option value="delivered">Delivered</option>
                   <option value="cancelled">Cancelled</option>
                 </select>
@@ -263,7 +271,7 @@ export default function OrdersPage() {
                         <h3 className="text-lg font-semibold text-gray-900">Order #{order.order_number}</h3>
                         <Badge className={`${getStatusColor(order.status)} flex items-center gap-1`}>
                           {getStatusIcon(order.status)}
-                          {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                          {getOrderStatusLabel(order.status, order.fulfillment_method)}
                         </Badge>
                       </div>
 
@@ -321,6 +329,7 @@ export default function OrdersPage() {
                         <Eye className="w-4 h-4 mr-2" />
                         View Details
                       </Button>
+                      {order.items.length > 0 && <BuyAgainButton orderId={order.id} />}
                       {(order.status === "shipped" || order.status === "delivered") && (
                         <Button
                           onClick={() => router.push(`/orders/${order.id}/track`)}
@@ -0,0 +1,103 @@
+"use client"
+
+export const dynamic = "force-dynamic"
+
+import { useState } from "react"
+import { useSearchParams } from "next/navigation"
+import { CheckCircle, XCircle, ArrowLeft, FlaskConical } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+
+type MockOutcome = "approve" | "decline" | "cancel"
+
+// Same-origin paths only; "//host" and "/\host" would leave the site
+const toSitePath = (url: string | null) =>
+  url && url.startsWith("/") && !url.startsWith("//") && !url.startsWith("/\\") ? url : null
+
+// Stand-in for the hosted GCash/Maya/card page when the mock gateway is active
+export default function MockCheckoutPage() {
+  const searchParams = useSearchParams()
+  const intentId = searchParams.get("intent")
+  const returnUrl = toSitePath(searchParams.get("return_url"))
+  const cancelUrl = toSitePath(searchParams.get("cancel_url"))
+
+  const [submitting, setSubmitting] = useState<MockOutcome | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOutcome = async (outcome: MockOutcome) => {
+    if (!intentId) return
+
+    try {
+      setSubmitting(outcome)
+      setError(null)
+
+      const response = await fetch("/api/payment/mock", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ intentId, outcome }),
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.message || "Mock payment failed")
+      }
+
+      const target = outcome === "cancel" ? cancelUrl : returnUrl
+      window.location.href = target || "/orders"
+    } catch (error) {
+      console.error("Mock payment error:", error)
+      setError(error instanceof Error ? error.message : "Mock payment failed")
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <Badge className="w-fit mb-2 bg-yellow-100 text-yellow-800 border-yellow-200">
+            <FlaskConical className="w-3 h-3 mr-1" />
+            Test Mode
+          </Badge>
+          <CardTitle className="text-xl">Mock Payment Gateway</CardTitle>
+          <p className="text-sm text-gray-600">
+            No money is moved. Choose how the payment should end to test the checkout flow.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!intentId && <p className="text-sm text-red-600">Missing payment intent.</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <p className="text-xs text-gray-500 break-all">Intent: {intentId}</p>
+
+          <Button
+            onClick={() => handleOutcome("approve")}
+            disabled={!intentId || submitting !== null}
+            className="w-full bg-green-600 hover:bg-green-700"
+          >
+            <CheckCircle className="w-4 h-4 mr-2" />
+            {submitting === "approve" ? "Approving..." : "Approve Payment"}
+          </Button>
+          <Button
+            onClick={() => handleOutcome("decline")}
+            disabled={!intentId || submitting !== null}
+            variant="outline"
+            className="w-full border-red-200 text-red-600 hover:bg-red-50"
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            {submitting === "decline" ? "Declining..." : "Decline Payment"}
+          </Button>
+          <Button
+            onClick={() => handleOutcome("cancel")}
+            disabled={!intentId || submitting !== null}
+            variant="ghost"
+            className="w-full"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Cancel and Return to Shop
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
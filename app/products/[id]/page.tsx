@@ -25,10 +25,23 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import ETrikeLoader from "@/components/ui/etrike-loader"
 import { productApi, type ProductData } from "@/lib/api"
 import { addToCart } from "@/lib/cart"
+import {
+  findVariant,
+  getAvailableStock,
+  getLowStockThreshold,
+  getVariantImages,
+  getVariantPrice,
+  hasVariants,
+  isChoiceAvailable,
+  isProductInStock,
+  isStockCounted,
+} from "@/lib/variants"
 import { getCurrentUser } from "@/lib/auth"
 import { useETrikeToast } from "@/components/ui/toast-container"
 import { useCart } from "@/contexts/cart-context"
 import { useFlyingETrike } from "@/components/ui/flying-etrike-animation"
+import { AmortizationCalculator } from "@/components/financing/amortization-calculator"
+import ProductReviews from "@/components/product/product-reviews"
 
 export default function ProductDetailPage() {
   const params = useParams()
@@ -39,6 +52,7 @@ export default function ProductDetailPage() {
 
   const [product, setProduct] = useState<ProductData | null>(null)
   const [selectedColorIndex, setSelectedColorIndex] = useState(0)
+  const [selectedOption, setSelectedOption] = useState<string | null>(null)
   const [selectedImageIndex, setSelectedImageIndex] = useState(0)
   const [quantity, setQuantity] = useState(1)
   const [loading, setLoading] = useState(true)
@@ -57,6 +71,14 @@ export default function ProductDetailPage() {
       setError(null)
       const response = await productApi.getProduct(Number(params.id))
       setProduct(response)
+
+      // Start on the first color and option that can actually be bought
+      const firstInStock = response.variants?.find((variant) => getAvailableStock(variant) > 0)
+      const colorIndex = firstInStock
+        ? (response.colors || []).findIndex((color) => color.name === firstInStock.color)
+        : -1
+      setSelectedColorIndex(Math.max(0, colorIndex))
+      setSelectedOption(firstInStock?.option || response.sizes?.[0] || null)
     } catch (error) {
       console.error("Error fetching product:", error)
       setError("Failed to load product details")
@@ -87,8 +109,7 @@ export default function ProductDetailPage() {
         triggerAnimation(button, cartIcon)
       }
 
-      const selectedColor = product?.colors?.[selectedColorIndex]?.name
-      await addToCart(product!.id!, quantity, selectedColor)
+      await addToCart(product!.id!, quantity, selectedColor, selectedVariant?.id)
 
       // Refresh cart count in header
       await refreshCart()
@@ -123,15 +144,35 @@ export default function ProductDetailPage() {
     return Math.round(((originalPrice - price) / originalPrice) * 100)
   }
 
+  const selectedColor = product?.colors?.[selectedColorIndex]?.name
+  const variantMode = !!product && hasVariants(product)
+  const selectedVariant =
+    product && variantMode ? findVariant(product, { color: selectedColor, option: selectedOption }) : undefined
+  const images = product ? getVariantImages(product, selectedVariant) : []
+  // Units that can still be bought; null when the product's stock isn't counted
+  const available =
+    !product || (!variantMode && !isStockCounted(product))
+      ? null
+      : variantMode
+        ? selectedVariant
+          ? getAvailableStock(selectedVariant)
+          : 0
+        : getAvailableStock({ stock: product.stock_quantity!, reserved: product.reserved_quantity })
+  const maxQuantity = available === null ? 10 : Math.min(10, available)
+
+  // A different variant may have its own photos and less stock
+  useEffect(() => {
+    setSelectedImageIndex(0)
+    setQuantity((current) => Math.max(1, Math.min(current, maxQuantity)))
+  }, [selectedVariant?.sku, maxQuantity])
+
   const nextImage = () => {
-    const images = product?.images ?? []
     if (images.length > 1) {
       setSelectedImageIndex((prev) => (prev + 1) % images.length)
     }
   }
 
   const prevImage = () => {
-    const images = product?.images ?? []
     if (images.length > 1) {
       setSelectedImageIndex((prev) => (prev - 1 + images.length) % images.length)
     }
@@ -173,7 +214,12 @@ export default function ProductDetailPage() {
     )
   }
 
-  const discount = calculateDiscount(product.price, product.original_price)
+  // The variant's price difference applies to the list price too
+  const priceDelta = Number(selectedVariant?.price_delta || 0)
+  const price = variantMode ? getVariantPrice(product, selectedVariant) : product.price
+  const originalPrice = product.original_price ? product.original_price + priceDelta : undefined
+  const inStock = available === null ? isProductInStock(product) : available > 0
+  const discount = calculateDiscount(price, originalPrice)
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-orange-50 to-red-50">
@@ -207,7 +253,7 @@ export default function ProductDetailPage() {
             {/* Main Image Container - Enhanced */}
             <div className="relative w-full h-64 sm:h-80 lg:h-96 bg-white rounded-3xl overflow-hidden shadow-xl border-2 border-orange-200">
               <Image
-                src={product.images?.[selectedImageIndex] || "/placeholder.svg"}
+                src={images[selectedImageIndex] || "/placeholder.svg"}
                 alt={product.name}
                 fill
                 className="object-contain p-6"
@@ -216,7 +262,7 @@ export default function ProductDetailPage() {
               />
 
               {/* Navigation Arrows - Enhanced */}
-              {product.images && product.images.length > 1 && (
+              {images.length > 1 && (
                 <>
                   <Button
                     variant="ghost"
@@ -253,9 +299,9 @@ export default function ProductDetailPage() {
             </div>
 
             {/* Thumbnail Images - Enhanced */}
-            {product.images && product.images.length > 1 && (
+            {images.length > 1 && (
               <div className="flex space-x-2 sm:space-x-4 overflow-x-auto pb-3">
-                {product.images.map((image, index) => (
+                {images.map((image, index) => (
                   <button
                     key={index}
                     onClick={() => setSelectedImageIndex(index)}
@@ -327,22 +373,21 @@ export default function ProductDetailPage() {
                 <span className="text-lg font-bold text-orange-600 bg-orange-50 px-3 py-1 rounded-lg">
                   {product.model}
                 </span>
+                {selectedVariant && <span className="text-sm text-gray-500">SKU: {selectedVariant.sku}</span>}
               </div>
 
               {/* Enhanced Price Section */}
               <div className="bg-gradient-to-r from-orange-50 to-red-50 rounded-xl p-4 sm:p-6 border-2 border-orange-200 mb-6">
                 <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between mb-4 space-y-4 sm:space-y-0">
                   <div className="flex-1">
-                    <div className="text-2xl sm:text-3xl font-bold text-orange-600 mb-2">
-                      {formatPrice(product.price)}
-                    </div>
-                    {product.original_price && product.original_price > product.price && (
+                    <div className="text-2xl sm:text-3xl font-bold text-orange-600 mb-2">{formatPrice(price)}</div>
+                    {originalPrice && originalPrice > price && (
                       <div className="flex flex-wrap items-center gap-2">
                         <span className="text-lg text-gray-500 line-through font-medium">
-                          {formatPrice(product.original_price)}
+                          {formatPrice(originalPrice)}
                         </span>
                         <Badge className="bg-red-500 text-white text-sm font-bold px-3 py-1">
-                          Save {formatPrice(product.original_price - product.price)}
+                          Save {formatPrice(originalPrice - price)}
                         </Badge>
                       </div>
                     )}
@@ -352,12 +397,14 @@ export default function ProductDetailPage() {
                   <div className="flex flex-col items-start sm:items-end space-y-2">
                     <Badge
                       className={`text-sm font-bold px-4 py-2 ${
-                        product.in_stock
-                          ? "bg-green-500 text-white border-green-600"
-                          : "bg-red-500 text-white border-red-600"
+                        inStock ? "bg-green-500 text-white border-green-600" : "bg-red-500 text-white border-red-600"
                       }`}
                     >
-                      {product.in_stock ? "✓ In Stock" : "✗ Out of Stock"}
+                      {!inStock
+                        ? "✗ Out of Stock"
+                        : available !== null && available <= getLowStockThreshold(product)
+                          ? `Only ${available} left`
+                          : "✓ In Stock"}
                     </Badge>
                     {product.featured && (
                       <Badge className="bg-yellow-500 text-white text-sm px-3 py-1 font-bold border-yellow-600">
@@ -379,7 +426,7 @@ export default function ProductDetailPage() {
                       onChange={(e) => setQuantity(Number(e.target.value))}
                       className="border-2 border-orange-300 rounded-lg px-4 py-3 text-base bg-white focus:ring-2 focus:ring-orange-500 focus:border-orange-500 font-medium"
                     >
-                      {[...Array(10)].map((_, i) => (
+                      {[...Array(Math.max(1, maxQuantity))].map((_, i) => (
                         <option key={i + 1} value={i + 1}>
                           {i + 1}
                         </option>
@@ -389,17 +436,18 @@ export default function ProductDetailPage() {
 
                   <div className="flex flex-col sm:flex-row space-y-4 sm:space-y-0 sm:space-x-4">
                     <Button
-                      disabled={!product.in_stock || addingToCart}
+                      disabled={!inStock || addingToCart}
                       onClick={handleAddToCart}
                       className="flex-1 bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 shadow-lg font-bold text-base sm:text-lg py-4 px-4 sm:px-6"
                     >
                       <ShoppingCart className="w-6 h-6 mr-3" />
                       {addingToCart ? "Adding..." : "Add to Cart"}
                     </Button>
-
-                   
                   </div>
                 </div>
+
+                {/* Financing - Monthly amortization estimate */}
+                <AmortizationCalculator price={price * quantity} className="mt-6" />
               </div>
             </div>
 
@@ -422,23 +470,31 @@ export default function ProductDetailPage() {
                 <CardContent className="pt-0">
                   <div className="space-y-4">
                     <div className="flex flex-wrap gap-3">
-                      {product.colors.map((color, index) => (
-                        <button
-                          key={index}
-                          onClick={() => setSelectedColorIndex(index)}
-                          className={`flex items-center space-x-3 p-2 sm:p-3 rounded-xl border-2 transition-all hover:shadow-md ${
-                            selectedColorIndex === index
-                              ? "border-orange-500 bg-orange-50 shadow-lg"
-                              : "border-gray-300 hover:border-orange-300"
-                          }`}
-                        >
-                          <div
-                            className="w-6 h-6 rounded-full border-2 border-white shadow-md"
-                            style={{ backgroundColor: color.value }}
-                          />
-                          <span className="text-base font-semibold text-gray-900">{color.name}</span>
-                        </button>
-                      ))}
+                      {product.colors.map((color, index) => {
+                        const available = isChoiceAvailable(product, "color", color.name, selectedOption)
+                        return (
+                          <button
+                            key={index}
+                            onClick={() => setSelectedColorIndex(index)}
+                            title={available ? color.name : `${color.name} - sold out`}
+                            className={`flex items-center space-x-3 p-2 sm:p-3 rounded-xl border-2 transition-all hover:shadow-md ${
+                              selectedColorIndex === index
+                                ? "border-orange-500 bg-orange-50 shadow-lg"
+                                : "border-gray-300 hover:border-orange-300"
+                            } ${available ? "" : "opacity-50"}`}
+                          >
+                            <div
+                              className="w-6 h-6 rounded-full border-2 border-white shadow-md"
+                              style={{ backgroundColor: color.value }}
+                            />
+                            <span
+                              className={`text-base font-semibold text-gray-900 ${available ? "" : "line-through"}`}
+                            >
+                              {color.name}
+                            </span>
+                          </button>
+                        )
+                      })}
                     </div>
                     {selectedColorIndex !== null && product.colors[selectedColorIndex] && (
                       <div className="text-base text-gray-700 bg-orange-50 p-3 rounded-lg border border-orange-200">
@@ -450,6 +506,47 @@ export default function ProductDetailPage() {
               </Card>
             )}
 
+            {/* Size / Battery Options */}
+            {product.sizes && product.sizes.length > 0 && (
+              <Card className="shadow-lg border-2 border-orange-200">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-xl font-bold text-gray-900">Options</CardTitle>
+                </CardHeader>
+                <CardContent className="pt-0">
+                  <div className="flex flex-wrap gap-3">
+                    {product.sizes.map((option) => {
+                      const available = isChoiceAvailable(product, "option", option, selectedColor)
+                      const delta = findVariant(product, { color: selectedColor, option })?.price_delta || 0
+                      return (
+                        <button
+                          key={option}
+                          onClick={() => setSelectedOption(option)}
+                          className={`flex flex-col items-start p-2 sm:p-3 rounded-xl border-2 transition-all hover:shadow-md ${
+                            selectedOption === option
+                              ? "border-orange-500 bg-orange-50 shadow-lg"
+                              : "border-gray-300 hover:border-orange-300"
+                          } ${available ? "" : "opacity-50"}`}
+                        >
+                          <span className={`text-base font-semibold text-gray-900 ${available ? "" : "line-through"}`}>
+                            {option}
+                          </span>
+                          <span className="text-xs text-gray-600">
+                            {!available
+                              ? "Sold out"
+                              : delta > 0
+                                ? `+${formatPrice(delta)}`
+                                : delta < 0
+                                  ? `-${formatPrice(-delta)}`
+                                  : "Included"}
+                          </span>
+                        </button>
+                      )
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Ideal For - Enhanced */}
             {product.ideal_for && product.ideal_for.length > 0 && (
               <Card className="shadow-lg border-2 border-orange-200">
@@ -569,6 +666,9 @@ export default function ProductDetailPage() {
             </CardContent>
           </Card>
         )}
+
+        {/* Customer Reviews */}
+        {product.id && <ProductReviews productId={product.id} productName={product.name} />}
       </div>
 
       <Footer />
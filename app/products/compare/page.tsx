@@ -0,0 +1,318 @@
+"use client"
+
+export const dynamic = "force-dynamic"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { ArrowLeft, Award, Check, Scale, Share2, X } from "lucide-react"
+import Header from "@/components/layout/header"
+import Footer from "@/components/layout/footer"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent } from "@/components/ui/card"
+import ETrikeLoader from "@/components/ui/etrike-loader"
+import { useClientToast } from "@/hooks/use-client-toast"
+import { productApi, type ProductData } from "@/lib/api"
+import {
+  buildComparisonRows,
+  buildCompareUrl,
+  findBestIndexes,
+  getCompareIds,
+  MAX_COMPARE_PRODUCTS,
+  parseCompareIds,
+  setCompareIds,
+} from "@/lib/compare"
+import { getVariantPrice, hasVariants, isProductInStock } from "@/lib/variants"
+
+// Lowest price a buyer can pay, so products with cheaper variants compare fairly
+const getFromPrice = (product: ProductData) =>
+  hasVariants(product)
+    ? Math.min(...product.variants!.map((variant) => getVariantPrice(product, variant)))
+    : Number(product.price)
+
+export default function CompareProductsPage() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const toast = useClientToast()
+  const [products, setProducts] = useState<ProductData[]>([])
+  const [loading, setLoading] = useState(true)
+  const [onlyDifferences, setOnlyDifferences] = useState(false)
+
+  const ids = parseCompareIds(searchParams.get("ids"))
+  const idsKey = ids.join(",")
+
+  // Opened from the menu without ids: show the saved shortlist under a shareable URL
+  useEffect(() => {
+    if (ids.length === 0) {
+      const saved = getCompareIds()
+      if (saved.length > 0) {
+        router.replace(buildCompareUrl(saved))
+        return
+      }
+    }
+
+    setLoading(true)
+    Promise.allSettled(ids.map((id) => productApi.getProduct(id)))
+      .then((results) =>
+        setProducts(results.flatMap((result) => (result.status === "fulfilled" && result.value ? [result.value] : []))),
+      )
+      .finally(() => setLoading(false))
+  }, [idsKey])
+
+  const handleRemove = (productId: number) => {
+    const next = ids.filter((id) => id !== productId)
+    setCompareIds(getCompareIds().filter((id) => id !== productId))
+    router.replace(next.length > 0 ? buildCompareUrl(next) : "/products/compare")
+  }
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      toast.success("Link copied", "Anyone with the link sees this comparison")
+    } catch {
+      toast.error("Couldn't copy link", window.location.href)
+    }
+  }
+
+  const prices = products.map(getFromPrice)
+  const cheapest = findBestIndexes(prices, "lower")
+  const rows = buildComparisonRows(products).filter((row) => !onlyDifferences || row.differs)
+  const columns = `minmax(9rem, 1fr) repeat(${Math.max(products.length, 1)}, minmax(12rem, 1fr))`
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <div className="flex items-center justify-center py-20">
+          <ETrikeLoader />
+        </div>
+        <Footer />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 md:py-10">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between mb-6">
+          <div>
+            <Link
+              href="/products"
+              className="inline-flex items-center text-sm text-gray-600 hover:text-orange-600 mb-2"
+            >
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to products
+            </Link>
+            <h1 className="flex items-center gap-2 text-2xl md:text-3xl font-bold text-gray-900">
+              <Scale className="w-7 h-7 text-orange-500" />
+              Compare Products
+            </h1>
+          </div>
+          {products.length > 0 && (
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={onlyDifferences}
+                  onChange={(event) => setOnlyDifferences(event.target.checked)}
+                  className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
+                />
+                Only show differences
+              </label>
+              <Button variant="outline" onClick={handleShare} className="border-orange-200 text-orange-600">
+                <Share2 className="w-4 h-4 mr-2" />
+                Share
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {products.length === 0 ? (
+          <Card>
+            <CardContent className="py-16 text-center">
+              <Scale className="w-12 h-12 text-orange-300 mx-auto mb-4" />
+              <h2 className="text-xl font-bold text-gray-900 mb-2">Nothing to compare yet</h2>
+              <p className="text-gray-600 mb-6">
+                Use &quot;Add to compare&quot; on up to {MAX_COMPARE_PRODUCTS} products to see them side by side.
+              </p>
+              <Button asChild className="bg-gradient-to-r from-orange-600 to-red-600">
+                <Link href="/products">Browse products</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="overflow-hidden">
+            <div className="overflow-x-auto">
+              <div className="min-w-max">
+                {/* Product headers */}
+                <div
+                  className="grid border-b bg-gradient-to-r from-orange-50 to-red-50"
+                  style={{ gridTemplateColumns: columns }}
+                >
+                  <div className="p-4 text-sm text-gray-500 self-end">
+                    {products.length < 2 && "Add another product to compare"}
+                  </div>
+                  {products.map((product) => (
+                    <div key={product.id} className="relative p-4 border-l border-orange-100">
+                      <button
+                        type="button"
+                        onClick={() => product.id && handleRemove(product.id)}
+                        className="absolute top-2 right-2 rounded-full bg-white p-1 text-gray-400 shadow hover:text-red-600"
+                        aria-label={`Remove ${product.name}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                      <div className="relative h-32 mb-3">
+                        <Image
+                          src={product.images?.[0] || "/placeholder.svg?height=128&width=192"}
+                          alt={product.name}
+                          fill
+                          className="object-contain"
+                          sizes="12rem"
+                        />
+                      </div>
+                      <Link
+                        href={`/products/${product.id}`}
+                        className="font-bold text-gray-900 hover:text-orange-600 line-clamp-2"
+                      >
+                        {product.name}
+                      </Link>
+                      {product.model && <p className="text-xs text-gray-500">{product.model}</p>}
+                    </div>
+                  ))}
+                </div>
+
+                <CompareRow label="Price" columns={columns}>
+                  {products.map((product, index) => (
+                    <CompareCell key={product.id} best={cheapest.includes(index)} bestLabel="Lowest price">
+                      <span className="text-lg font-bold text-gray-900">
+                        {hasVariants(product) && "from "}₱{prices[index].toLocaleString()}
+                      </span>
+                      {product.original_price && product.original_price > prices[index] && (
+                        <span className="ml-2 text-sm text-gray-500 line-through">
+                          ₱{product.original_price.toLocaleString()}
+                        </span>
+                      )}
+                    </CompareCell>
+                  ))}
+                </CompareRow>
+
+                <CompareRow label="Availability" columns={columns}>
+                  {products.map((product) => (
+                    <CompareCell key={product.id}>
+                      {isProductInStock(product) ? (
+                        <Badge className="bg-green-100 text-green-700 border-green-200">In stock</Badge>
+                      ) : (
+                        <Badge className="bg-red-100 text-red-700 border-red-200">Out of stock</Badge>
+                      )}
+                    </CompareCell>
+                  ))}
+                </CompareRow>
+
+                <CompareRow label="Category" columns={columns}>
+                  {products.map((product) => (
+                    <CompareCell key={product.id}>{product.category || "—"}</CompareCell>
+                  ))}
+                </CompareRow>
+
+                <CompareRow label="Colors" columns={columns}>
+                  {products.map((product) => (
+                    <CompareCell key={product.id}>
+                      {(product.colors || []).length > 0 ? (
+                        <div className="flex flex-wrap gap-1">
+                          {product.colors!.map((color) => (
+                            <span
+                              key={color.name}
+                              title={color.name}
+                              className="w-5 h-5 rounded-full border-2 border-gray-200"
+                              style={{ backgroundColor: color.value }}
+                            />
+                          ))}
+                        </div>
+                      ) : (
+                        "—"
+                      )}
+                    </CompareCell>
+                  ))}
+                </CompareRow>
+
+                {products.some((product) => (product.sizes || []).length > 0) && (
+                  <CompareRow label="Options" columns={columns}>
+                    {products.map((product) => (
+                      <CompareCell key={product.id}>{(product.sizes || []).join(", ") || "—"}</CompareCell>
+                    ))}
+                  </CompareRow>
+                )}
+
+                {rows.map((row) => (
+                  <CompareRow key={row.name} label={row.name} columns={columns} differs={row.differs}>
+                    {row.values.map((value, index) => (
+                      <CompareCell key={products[index].id} best={row.best.includes(index)}>
+                        {value ?? <span className="text-gray-400">Not listed</span>}
+                      </CompareCell>
+                    ))}
+                  </CompareRow>
+                ))}
+
+                {rows.length === 0 && onlyDifferences && (
+                  <p className="p-4 text-sm text-gray-500">These products have the same specifications.</p>
+                )}
+              </div>
+            </div>
+          </Card>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
+
+function CompareRow({
+  label,
+  columns,
+  differs,
+  children,
+}: {
+  label: string
+  columns: string
+  differs?: boolean
+  children: React.ReactNode
+}) {
+  return (
+    <div className={`grid border-b ${differs ? "bg-amber-50/40" : ""}`} style={{ gridTemplateColumns: columns }}>
+      <div className="p-4 text-sm font-semibold text-gray-800">
+        {label}
+        {differs && <span className="ml-2 text-xs font-normal text-amber-700">differs</span>}
+      </div>
+      {children}
+    </div>
+  )
+}
+
+function CompareCell({
+  best,
+  bestLabel = "Best",
+  children,
+}: {
+  best?: boolean
+  bestLabel?: string
+  children: React.ReactNode
+}) {
+  return (
+    <div className={`p-4 border-l border-orange-100 text-sm text-gray-900 ${best ? "bg-green-50 font-semibold" : ""}`}>
+      {children}
+      {best && (
+        <span className="mt-1 flex items-center gap-1 text-xs font-medium text-green-700">
+          {bestLabel === "Best" ? <Award className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+          {bestLabel}
+        </span>
+      )}
+    </div>
+  )
+}
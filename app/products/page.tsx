@@ -3,206 +3,184 @@
 export const dynamic = "force-dynamic"
 
 import type React from "react"
-import { useState, useEffect } from "react"
-import { Filter, Search, Grid, List, ShoppingCart } from "lucide-react"
-import Image from "next/image"
-import Link from "next/link"
+import { useState, useEffect, useRef } from "react"
+import { Filter, Search, Grid, List } from "lucide-react"
 import { useSearchParams, useRouter } from "next/navigation"
 import Header from "@/components/layout/header"
 import Footer from "@/components/layout/footer"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
-import { Card, CardContent } from "@/components/ui/card"
 import ETrikeLoader from "@/components/ui/etrike-loader"
+import SpecFacets from "@/components/product/spec-facets"
+import CompareBar from "@/components/product/compare-bar"
+import ProductCard from "@/components/product/product-card"
 import { productApi, type ProductData } from "@/lib/api"
-import { addToCart } from "@/lib/cart"
+import {
+  appendFacetFilters,
+  FACET_PARAM_KEYS,
+  parseFacetFilters,
+  type FacetFilters,
+  type ProductFacets,
+} from "@/lib/product-facets"
+import {
+  clearProductListSnapshot,
+  parseProductSort,
+  PRODUCT_SORTS,
+  readProductListSnapshot,
+  saveProductListSnapshot,
+  type ProductSort,
+} from "@/lib/product-list"
 import { useClientToast } from "@/hooks/use-client-toast"
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll"
 
 export default function ProductsPage() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const toast = useClientToast()
+
+  // Category, search, sort and spec filters live in the URL so a filtered catalog can be bookmarked, shared
+  // and restored when coming back from a product page
+  const query = searchParams.toString()
+  const selectedCategory = searchParams.get("category") || "All Products"
+  const searchQuery = searchParams.get("search") || ""
+  const sortBy = parseProductSort(searchParams.get("sort"))
+  const specFilters = parseFacetFilters(new URLSearchParams(query))
+
   const [products, setProducts] = useState<ProductData[]>([])
-  const [filteredProducts, setFilteredProducts] = useState<ProductData[]>([])
+  const [facets, setFacets] = useState<ProductFacets>({ numeric: [], terms: [] })
+  const [page, setPage] = useState(1)
+  const [lastPage, setLastPage] = useState(1)
+  const [total, setTotal] = useState(0)
   const [loading, setLoading] = useState(true)
-  const [selectedCategory, setSelectedCategory] = useState("All Products")
-  const [sortBy, setSortBy] = useState("name")
-  const [searchTerm, setSearchTerm] = useState("")
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [searchTerm, setSearchTerm] = useState(searchQuery)
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid")
   const [showFilters, setShowFilters] = useState(false)
-  const [animatingProduct, setAnimatingProduct] = useState<number | null>(null)
-
-  const searchParams = useSearchParams()
-  const router = useRouter()
-  const toast = useClientToast()
+  // Responses from an older URL are dropped when they arrive late
+  const requestRef = useRef(0)
+  const restoreScrollRef = useRef<number | null>(null)
 
   const categories = ["All Products", "E-Bike", "E-Trike", "E-Scooter", "E-Motorcycle", "E-Dump"]
+  const hasMore = page < lastPage
 
-  // Get category from URL parameters
   useEffect(() => {
-    const categoryFromUrl = searchParams.get("category")
-    if (categoryFromUrl && categories.includes(categoryFromUrl)) {
-      setSelectedCategory(categoryFromUrl)
-    } else if (categoryFromUrl) {
-      // If category exists but not in our list, still set it
-      setSelectedCategory(categoryFromUrl)
+    const snapshot = readProductListSnapshot<ProductData>(query)
+    if (snapshot) {
+      requestRef.current += 1
+      setProducts(snapshot.products)
+      setFacets(snapshot.facets)
+      setPage(snapshot.page)
+      setLastPage(snapshot.lastPage)
+      setTotal(snapshot.total)
+      setLoading(false)
+      setLoadingMore(false)
+      restoreScrollRef.current = snapshot.scrollY
+      return
     }
-  }, [searchParams])
 
-  useEffect(() => {
-    fetchProducts()
-  }, [selectedCategory]) // Refetch when category changes
+    fetchProducts(1)
+  }, [query])
 
+  // Scroll back to where the shopper left once the restored pages are on screen
   useEffect(() => {
-    filterAndSortProducts()
-  }, [products, selectedCategory, sortBy, searchTerm])
+    if (restoreScrollRef.current === null || loading) return
+    window.scrollTo(0, restoreScrollRef.current)
+    restoreScrollRef.current = null
+    clearProductListSnapshot()
+  }, [products, loading])
 
-  const fetchProducts = async () => {
-    try {
-      setLoading(true)
+  // Back and forward restore the search box along with the list
+  useEffect(() => setSearchTerm(searchQuery), [searchQuery])
 
-      // Option 1: Server-side filtering (recommended)
-      // Pass category to API if it's not "All Products"
-      const categoryParam = selectedCategory !== "All Products" ? selectedCategory : undefined
-      const response = await productApi.getProducts({ category: categoryParam })
+  // Search runs on the server, once typing pauses
+  useEffect(() => {
+    if (searchTerm.trim() === searchQuery) return
+    const timer = setTimeout(() => updateParams({ search: searchTerm.trim() || null }, "replace"), 400)
+    return () => clearTimeout(timer)
+  }, [searchTerm])
 
-      // Option 2: Client-side filtering (fallback)
-      // const response = await productApi.getProducts()
+  const fetchProducts = async (nextPage: number) => {
+    const request = ++requestRef.current
+    const firstPage = nextPage === 1
 
-      const productsWithStock = response.map((product) => ({
+    try {
+      if (firstPage) setLoading(true)
+      else setLoadingMore(true)
+
+      const result = await productApi.getProductPage(
+        {
+          category: selectedCategory !== "All Products" ? selectedCategory : undefined,
+          search: searchQuery || undefined,
+          specs: specFilters,
+          sort_by: PRODUCT_SORTS[sortBy].sort_by,
+          sort_order: PRODUCT_SORTS[sortBy].sort_order,
+          page: nextPage,
+        },
+        firstPage,
+      )
+      if (request !== requestRef.current) return
+
+      const productsWithStock = result.products.map((product) => ({
         ...product,
         in_stock: Boolean(product.in_stock),
       }))
 
-      console.log("Fetched products:", productsWithStock)
-      setProducts(productsWithStock)
+      // A product can shift onto the next page when the catalog changes between requests
+      setProducts((current) =>
+        firstPage
+          ? productsWithStock
+          : [...current, ...productsWithStock.filter((product) => !current.some((item) => item.id === product.id))],
+      )
+      if (firstPage) setFacets(result.facets)
+      setPage(result.page)
+      setLastPage(result.lastPage)
+      setTotal(result.total)
     } catch (error) {
+      if (request !== requestRef.current) return
       console.error("Error fetching products:", error)
-      // Fallback: fetch all products if category filtering fails
-      try {
-        const response = await productApi.getProducts()
-        const productsWithStock = response.map((product) => ({
-          ...product,
-          in_stock: Boolean(product.in_stock),
-        }))
-        setProducts(productsWithStock)
-      } catch (fallbackError) {
-        console.error("Fallback fetch also failed:", fallbackError)
-      }
+      toast.error("Failed to Load", "Could not load products. Please try again.")
     } finally {
-      setLoading(false)
+      if (request === requestRef.current) {
+        setLoading(false)
+        setLoadingMore(false)
+      }
     }
   }
 
-  const filterAndSortProducts = () => {
-    let filtered = [...products]
+  const loadMore = () => {
+    if (hasMore && !loading && !loadingMore) fetchProducts(page + 1)
+  }
 
-    // Search filtering
-    if (searchTerm) {
-      filtered = filtered.filter(
-        (product) =>
-          product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          product.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          product.model.toLowerCase().includes(searchTerm.toLowerCase()),
-      )
-    }
+  const sentinelRef = useInfiniteScroll(loadMore, hasMore && !loading && !loadingMore)
 
-    // Category filtering (only if using client-side filtering)
-    if (selectedCategory !== "All Products") {
-      filtered = filtered.filter((product) => product.category === selectedCategory)
-    }
+  // Saved when a product is opened, so the back button returns to the same pages and scroll position
+  const rememberListPosition = () =>
+    saveProductListSnapshot({ query, products, facets, page, lastPage, total, scrollY: window.scrollY })
 
-    // Sorting
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case "price-low":
-          return a.price - b.price
-        case "price-high":
-          return b.price - a.price
-        case "featured":
-          return b.featured ? 1 : -1
-        case "name":
-        default:
-          return a.name.localeCompare(b.name)
-      }
-    })
+  const updateParams = (changes: Record<string, string | null>, mode: "push" | "replace" = "push") => {
+    const params = new URLSearchParams(searchParams.toString())
+    Object.entries(changes).forEach(([key, value]) => (value ? params.set(key, value) : params.delete(key)))
 
-    setFilteredProducts(filtered)
+    const newUrl = params.toString() ? `/products?${params.toString()}` : "/products"
+    router[mode](newUrl, { scroll: false })
   }
 
   const handleCategoryChange = (category: string) => {
-    setSelectedCategory(category)
+    updateParams({ category: category === "All Products" ? null : category })
+  }
 
-    // Update URL parameters
+  const handleSpecFiltersChange = (filters: FacetFilters) => {
     const params = new URLSearchParams(searchParams.toString())
-    if (category === "All Products") {
-      params.delete("category")
-    } else {
-      params.set("category", category)
-    }
+    FACET_PARAM_KEYS.forEach((key) => params.delete(key))
+    appendFacetFilters(params, filters)
 
     const newUrl = params.toString() ? `/products?${params.toString()}` : "/products"
     router.push(newUrl, { scroll: false })
   }
 
-  const formatPrice = (price: number) => {
-    if (!price || isNaN(price)) return "₱0.00"
-    return new Intl.NumberFormat("en-PH", {
-      style: "currency",
-      currency: "PHP",
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(price)
-  }
-
-  const calculateDiscount = (price: number, originalPrice?: number) => {
-    if (!originalPrice || originalPrice <= price || !price) return 0
-    return Math.round(((originalPrice - price) / originalPrice) * 100)
-  }
-
-  const handleAddToCart = async (product: ProductData, event: React.MouseEvent) => {
-    try {
-      setAnimatingProduct(product.id!)
-      const button = event.currentTarget as HTMLElement
-      const rect = button.getBoundingClientRect()
-      const cartIcon = document.querySelector("[data-cart-icon]")
-      const cartRect = cartIcon?.getBoundingClientRect()
-
-      if (cartRect) {
-        const animationEl = document.createElement("div")
-        animationEl.className = "fixed w-8 h-8 bg-orange-500 rounded-full z-50 pointer-events-none"
-        animationEl.style.left = `${rect.left + rect.width / 2 - 16}px`
-        animationEl.style.top = `${rect.top + rect.height / 2 - 16}px`
-        animationEl.style.transition = "all 0.8s cubic-bezier(0.25, 0.46, 0.45, 0.94)"
-        document.body.appendChild(animationEl)
-
-        setTimeout(() => {
-          animationEl.style.left = `${cartRect.left + cartRect.width / 2 - 16}px`
-          animationEl.style.top = `${cartRect.top + cartRect.height / 2 - 16}px`
-          animationEl.style.transform = "scale(0.5)"
-          animationEl.style.opacity = "0"
-        }, 100)
-
-        setTimeout(() => {
-          if (document.body.contains(animationEl)) {
-            document.body.removeChild(animationEl)
-          }
-        }, 900)
-      }
-
-      await addToCart(product.id!, 1)
-
-      // Show success toast
-      toast.cartAdded(product.name)
-
-      setAnimatingProduct(null)
-      console.log("Added to cart successfully!")
-    } catch (error) {
-      console.error("Error adding to cart:", error)
-      toast.error("Failed to Add", "Could not add item to cart. Please try again.")
-      setAnimatingProduct(null)
-    }
-  }
-
-  if (loading) {
+  // Only the first load blocks the page; refetches for new filters keep the current list on screen
+  if (loading && products.length === 0) {
     return (
       <div className="min-h-screen bg-gray-50">
         <Header />
@@ -318,118 +296,59 @@ export default function ProductsPage() {
                 </Button>
               ))}
             </div>
+
+            <div className="mt-4 md:mt-6 border-t border-orange-100 pt-4 md:pt-6">
+              <SpecFacets facets={facets} filters={specFilters} onChange={handleSpecFiltersChange} />
+            </div>
           </div>
 
           {/* Sort Options */}
           <div className="mt-4 flex flex-wrap gap-2">
             <select
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value)}
+              onChange={(e) => updateParams({ sort: e.target.value === "name" ? null : e.target.value })}
               className="px-3 py-2 border border-orange-200 rounded-lg text-sm focus:border-orange-500 focus:outline-none"
             >
-              <option value="name">Sort by Name</option>
-              <option value="price-low">Price: Low to High</option>
-              <option value="price-high">Price: High to Low</option>
-              <option value="featured">Featured First</option>
+              {(Object.keys(PRODUCT_SORTS) as ProductSort[]).map((sort) => (
+                <option key={sort} value={sort}>
+                  {PRODUCT_SORTS[sort].label}
+                </option>
+              ))}
             </select>
           </div>
         </div>
 
         {/* Results Summary */}
         <div className="mb-4 text-sm text-gray-600">
-          Showing {filteredProducts.length} product{filteredProducts.length !== 1 ? "s" : ""}
+          Showing {products.length} of {total} product{total !== 1 ? "s" : ""}
           {selectedCategory !== "All Products" && ` in ${selectedCategory}`}
-          {searchTerm && ` matching "${searchTerm}"`}
+          {searchQuery && ` matching "${searchQuery}"`}
         </div>
 
         {/* Product Grid/List */}
         <div
           className={`grid gap-4 md:gap-6 ${viewMode === "grid" ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4" : "grid-cols-1"}`}
         >
-          {filteredProducts.map((product) => (
-            <Card
-              key={product.id}
-              className={`border-2 border-orange-200 hover:border-orange-500 transition-all duration-300 hover:shadow-lg ${viewMode === "list" ? "flex flex-col sm:flex-row" : ""}`}
-            >
-              <CardContent className={`p-4 ${viewMode === "list" ? "flex flex-col sm:flex-row w-full gap-4" : ""}`}>
-                <Link href={`/products/${product.id}`} className={viewMode === "list" ? "flex-shrink-0" : ""}>
-                  <div className={`relative ${viewMode === "list" ? "w-full sm:w-32 h-48 sm:h-32" : "w-full h-48"}`}>
-                    <Image
-                      src={product.images?.[0] || "/placeholder.svg"}
-                      alt={product.name}
-                      fill
-                      className="object-cover rounded-lg"
-                      sizes={
-                        viewMode === "list"
-                          ? "(max-width: 640px) 100vw, 128px"
-                          : "(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-                      }
-                    />
-
-                    {/* Fixed Badge Positioning */}
-                    <div className="absolute top-2 left-2 right-2 flex flex-wrap gap-1 justify-between">
-                      <div className="flex flex-wrap gap-1">
-                        {product.featured && (
-                          <Badge className="bg-yellow-500 text-white text-xs px-2 py-1 shadow-sm">Featured</Badge>
-                        )}
-                      </div>
-                      <div className="flex flex-wrap gap-1">
-                        {product.in_stock ? (
-                          <Badge className="bg-green-500 text-white text-xs px-2 py-1 shadow-sm">In Stock</Badge>
-                        ) : (
-                          <Badge className="bg-red-500 text-white text-xs px-2 py-1 shadow-sm">Out of Stock</Badge>
-                        )}
-                      </div>
-                    </div>
-
-                    {/* Discount Badge - Bottom Right */}
-                    {product.original_price && calculateDiscount(product.price, product.original_price) > 0 && (
-                      <Badge className="absolute bottom-2 right-2 bg-orange-500 text-white text-xs px-2 py-1 shadow-sm">
-                        {calculateDiscount(product.price, product.original_price)}% Off
-                      </Badge>
-                    )}
-                  </div>
-                </Link>
-
-                <div className={`${viewMode === "list" ? "flex-1 flex flex-col justify-between" : "mt-3"}`}>
-                  <div>
-                    <Link href={`/products/${product.id}`}>
-                      <h2
-                        className={`font-bold hover:text-orange-600 transition-colors line-clamp-2 ${viewMode === "list" ? "text-lg" : "text-lg md:text-xl"}`}
-                      >
-                        {product.name}
-                      </h2>
-                    </Link>
-                  </div>
-
-                  <div className={`${viewMode === "list" ? "mt-2" : "mt-3"}`}>
-                    <div className="flex items-center justify-between mb-3">
-                      <div>
-                        <p className="text-lg font-bold text-orange-600">{formatPrice(product.price)}</p>
-                        {product.original_price && (
-                          <p className="text-sm line-through text-gray-400">{formatPrice(product.original_price)}</p>
-                        )}
-                      </div>
-                    </div>
-
-                    <Button
-                      variant="default"
-                      size="sm"
-                      onClick={(e) => handleAddToCart(product, e)}
-                      disabled={!product.in_stock || animatingProduct === product.id}
-                      className="w-full bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700 disabled:opacity-50 text-xs md:text-sm"
-                    >
-                      <ShoppingCart className="w-3 md:w-4 h-3 md:h-4 mr-1 md:mr-2" />
-                      {animatingProduct === product.id ? "Adding..." : "Add to Cart"}
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+          {products.map((product) => (
+            <ProductCard key={product.id} product={product} layout={viewMode} onOpen={rememberListPosition} />
           ))}
         </div>
 
-        {filteredProducts.length === 0 && !loading && (
+        {/* Next page loads as the sentinel nears the viewport; the button covers browsers without it */}
+        {hasMore && (
+          <div ref={sentinelRef} className="mt-8 flex justify-center">
+            <Button
+              variant="outline"
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="border-orange-200 hover:bg-orange-50"
+            >
+              {loadingMore ? "Loading..." : `Load more (${total - products.length} remaining)`}
+            </Button>
+          </div>
+        )}
+
+        {products.length === 0 && !loading && (
           <div className="text-center py-12 md:py-16">
             <div className="w-24 md:w-32 h-24 md:h-32 bg-orange-100 rounded-full flex items-center justify-center mx-auto mb-6">
               <Search className="w-12 md:w-16 h-12 md:h-16 text-orange-500" />
@@ -443,7 +362,7 @@ export default function ProductsPage() {
             <Button
               onClick={() => {
                 setSearchTerm("")
-                handleCategoryChange("All Products")
+                router.push("/products", { scroll: false })
               }}
               className="bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700"
             >
@@ -453,6 +372,7 @@ export default function ProductsPage() {
         )}
       </div>
 
+      <CompareBar />
       <Footer />
     </div>
   )
@@ -6,35 +6,9 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { MapPin, Phone, Clock, Wrench, Star } from 'lucide-react'
+import { serviceCenters } from "@/lib/service-centers"
 
 export default function ServiceCentersPage() {
-  const serviceCenters = [
-    {
-      name: "YAMAARAW Manila Service Center",
-      address: "123 EDSA, Makati City, Metro Manila",
-      phone: "09456754591",
-      hours: "Mon-Sat: 8AM-6PM",
-      services: ["Repair", "Maintenance", "Parts", "Warranty"],
-      rating: 4.8,
-    },
-    {
-      name: "YAMAARAW Quezon City Branch",
-      address: "456 Commonwealth Ave, Quezon City",
-      phone: "09456754592",
-      hours: "Mon-Fri: 9AM-5PM",
-      services: ["Repair", "Maintenance", "Consultation"],
-      rating: 4.7,
-    },
-    {
-      name: "YAMAARAW Cebu Service Hub",
-      address: "789 Colon Street, Cebu City",
-      phone: "09456754593",
-      hours: "Mon-Sat: 8AM-5PM",
-      services: ["Repair", "Parts", "Warranty", "Training"],
-      rating: 4.9,
-    },
-  ]
-
   const handleLocationClick = (address: string) => {
     const googleMapsUrl = `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(address)}`
     window.open(googleMapsUrl, "_blank")
@@ -63,8 +37,8 @@ export default function ServiceCentersPage() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
         {/* Service Centers List */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-12">
-          {serviceCenters.map((center, index) => (
-            <Card key={index} className="border-2 border-orange-200 hover:border-orange-400 transition-colors">
+          {serviceCenters.map((center) => (
+            <Card key={center.id} className="border-2 border-orange-200 hover:border-orange-400 transition-colors">
               <CardHeader>
                 <div className="flex items-start justify-between">
                   <CardTitle className="text-orange-600 text-lg">{center.name}</CardTitle>
@@ -0,0 +1,263 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams } from "next/navigation"
+import Link from "next/link"
+import { AlertCircle, MapPin, Package, Store, Truck, User } from "lucide-react"
+import Header from "@/components/layout/header"
+import Footer from "@/components/layout/footer"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import ETrikeLoader from "@/components/ui/etrike-loader"
+import { OrderEventList, OrderProgress } from "@/components/orders/order-timeline"
+import { getGuestOrder, type GuestOrder } from "@/lib/guest-orders"
+import { computeVat } from "@/lib/invoice"
+import { getOrderStatusLabel } from "@/lib/order-status"
+import type { OrderTracking } from "@/lib/order-tracking"
+import { getPaymentMethodLabel } from "@/lib/payments/methods"
+import { getServiceCenter } from "@/lib/service-centers"
+
+export default function GuestOrderPage() {
+  const params = useParams()
+  const token = params.token as string
+
+  const [order, setOrder] = useState<GuestOrder | null>(null)
+  const [tracking, setTracking] = useState<OrderTracking | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchOrder = async () => {
+      try {
+        const data = await getGuestOrder(token)
+        setOrder(data.order)
+        setTracking(data.tracking)
+      } catch (error) {
+        setError(error instanceof Error ? error.message : "This link is invalid or has expired")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchOrder()
+  }, [token])
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-PH", {
+      style: "currency",
+      currency: "PHP",
+    }).format(price)
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <div className="flex items-center justify-center py-20">
+          <ETrikeLoader />
+        </div>
+        <Footer />
+      </div>
+    )
+  }
+
+  if (error || !order || !tracking) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-20 text-center">
+          <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <AlertCircle className="w-8 h-8 text-red-600" />
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Link Not Valid</h1>
+          <p className="text-gray-600 mb-6">{error || "Order not found"}</p>
+          <Link href="/track-order">
+            <Button className="bg-orange-600 hover:bg-orange-700">Look Up Your Order</Button>
+          </Link>
+        </div>
+        <Footer />
+      </div>
+    )
+  }
+
+  const vat =
+    order.vatable_sales != null && order.vat_amount != null
+      ? { vatable_sales: order.vatable_sales, vat_amount: order.vat_amount }
+      : computeVat(order.total)
+  const pickupCenter = order.fulfillment_method === "pickup" ? getServiceCenter(order.pickup_center_id) : undefined
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      {/* Hero Section */}
+      <section className="bg-gradient-to-br from-slate-900 via-orange-900 to-red-900 text-white py-12">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl lg:text-4xl font-bold mb-2">Order #{order.order_number}</h1>
+            <p className="text-slate-300">
+              Placed {new Date(order.created_at).toLocaleDateString("en-PH", { dateStyle: "long" })}
+            </p>
+          </div>
+          <Badge className="bg-white/20 text-white border-white/30 text-base px-4 py-2">
+            {getOrderStatusLabel(order.status, order.fulfillment_method)}
+          </Badge>
+        </div>
+      </section>
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Package className="w-5 h-5" />
+                  Order Progress
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <OrderProgress steps={tracking.steps} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Order Items ({order.items.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="divide-y">
+                {order.items.map((item) => (
+                  <div key={item.id} className="flex items-center justify-between gap-4 py-3 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">{item.product?.name || "Item"}</p>
+                      <p className="text-gray-500">
+                        Qty {item.quantity}
+                        {item.color && ` · ${item.color}`}
+                      </p>
+                    </div>
+                    <span className="font-semibold text-orange-600">{formatPrice(item.price * item.quantity)}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Truck className="w-5 h-5" />
+                  Order History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {tracking.tracking_number && (
+                  <Badge variant="outline" className="text-xs mb-4">
+                    Tracking: {tracking.tracking_number}
+                    {tracking.courier_name && ` (${tracking.courier_name})`}
+                  </Badge>
+                )}
+                <OrderEventList tracking={tracking} />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Order Summary</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="flex justify-between">
+                  <span>Subtotal:</span>
+                  <span>
+                    {formatPrice(
+                      order.subtotal ?? order.items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+                    )}
+                  </span>
+                </div>
+                {!!order.discount_amount && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Discount{order.voucher_code ? ` (${order.voucher_code})` : ""}:</span>
+                    <span>-{formatPrice(order.discount_amount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>Shipping:</span>
+                  <span>{order.shipping_fee ? formatPrice(order.shipping_fee) : "Free"}</span>
+                </div>
+                <hr />
+                <div className="flex justify-between font-semibold text-base">
+                  <span>Total:</span>
+                  <span className="text-orange-600">{formatPrice(order.total)}</span>
+                </div>
+                <div className="space-y-1 text-xs text-gray-500">
+                  <div className="flex justify-between">
+                    <span>VATable Sales:</span>
+                    <span>{formatPrice(vat.vatable_sales)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>VAT (12%):</span>
+                    <span>{formatPrice(vat.vat_amount)}</span>
+                  </div>
+                </div>
+                <p className="text-gray-600">
+                  Paid with {getPaymentMethodLabel(order.payment_method)}
+                  {order.payment_status && <span className="capitalize"> · {order.payment_status}</span>}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <User className="w-5 h-5" />
+                  {pickupCenter ? "Pickup" : "Deliver To"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm text-gray-700">
+                <p className="font-medium">
+                  {order.first_name} {order.last_name}
+                </p>
+                <p>{order.phone}</p>
+                {pickupCenter ? (
+                  <div className="flex items-start gap-2">
+                    <Store className="w-4 h-4 text-gray-500 flex-shrink-0 mt-0.5" />
+                    <div>
+                      <p>{pickupCenter.name}</p>
+                      {order.pickup_date && (
+                        <p className="text-gray-500">
+                          {new Date(`${order.pickup_date}T00:00:00`).toLocaleDateString("en-PH", {
+                            weekday: "long",
+                            month: "long",
+                            day: "numeric",
+                          })}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start gap-2">
+                    <MapPin className="w-4 h-4 text-gray-500 flex-shrink-0 mt-0.5" />
+                    <p>
+                      {[order.address, order.barangay, order.city, order.province, order.zip_code]
+                        .filter(Boolean)
+                        .join(", ")}
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <p className="text-xs text-gray-500 text-center">
+              Questions about this order?{" "}
+              <Link href="/support/customer-support" className="text-orange-600 hover:underline">
+                Contact support
+              </Link>
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import Link from "next/link"
+import { Search, Package, Mail, Truck } from "lucide-react"
+import Header from "@/components/layout/header"
+import Footer from "@/components/layout/footer"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { OrderEventList, OrderProgress } from "@/components/orders/order-timeline"
+import { useClientToast } from "@/hooks/use-client-toast"
+import { lookupGuestOrder, type GuestLookupResult } from "@/lib/guest-orders"
+import { getOrderStatusLabel } from "@/lib/order-status"
+
+export default function TrackOrderLookupPage() {
+  const toast = useClientToast()
+  const [orderNumber, setOrderNumber] = useState("")
+  const [contact, setContact] = useState("")
+  const [searching, setSearching] = useState(false)
+  const [result, setResult] = useState<GuestLookupResult | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setSearching(true)
+      setResult(await lookupGuestOrder(orderNumber.trim(), contact.trim()))
+    } catch (error) {
+      setResult(null)
+      toast.error("Order Not Found", error instanceof Error ? error.message : "Failed to look up order")
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const summary = result?.summary
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      {/* Hero Section */}
+      <section className="bg-gradient-to-br from-slate-900 via-orange-900 to-red-900 text-white py-12">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <h1 className="text-3xl lg:text-4xl font-bold mb-2">Track Your Order</h1>
+          <p className="text-slate-300">
+            Checked out as a guest? Enter your order number and the email or phone number you used.
+          </p>
+        </div>
+      </section>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <Card>
+          <CardContent className="p-6">
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+              <div>
+                <label htmlFor="lookupOrderNumber" className="block text-sm font-medium text-gray-700 mb-1">
+                  Order Number
+                </label>
+                <Input
+                  id="lookupOrderNumber"
+                  value={orderNumber}
+                  onChange={(e) => setOrderNumber(e.target.value)}
+                  placeholder="Found in your order confirmation email"
+                  autoComplete="off"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="lookupContact" className="block text-sm font-medium text-gray-700 mb-1">
+                  Email or Phone
+                </label>
+                <Input
+                  id="lookupContact"
+                  value={contact}
+                  onChange={(e) => setContact(e.target.value)}
+                  placeholder="you@example.com or 09XX XXX XXXX"
+                  required
+                />
+              </div>
+              <Button
+                type="submit"
+                disabled={searching || !orderNumber.trim() || !contact.trim()}
+                className="bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700"
+              >
+                <Search className="w-4 h-4 mr-2" />
+                {searching ? "Searching..." : "Track"}
+              </Button>
+            </form>
+            <p className="text-xs text-gray-500 mt-4">
+              Have an account?{" "}
+              <Link href="/orders" className="text-orange-600 hover:underline">
+                See all your orders
+              </Link>
+            </p>
+          </CardContent>
+        </Card>
+
+        {summary && (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-4">
+                  <CardTitle className="flex items-center gap-2">
+                    <Package className="w-5 h-5" />
+                    Order #{summary.order_number}
+                  </CardTitle>
+                  <Badge className="bg-orange-100 text-orange-800 border-orange-200">
+                    {getOrderStatusLabel(summary.tracking.status, summary.tracking.fulfillment_method)}
+                  </Badge>
+                </div>
+                <p className="text-sm text-gray-500">
+                  Placed {new Date(summary.created_at).toLocaleDateString("en-PH", { dateStyle: "long" })}
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <OrderProgress steps={summary.tracking.steps} />
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {summary.items.map((item, index) => (
+                    <li key={index}>
+                      {item.quantity} × {item.name}
+                      {item.color && <span className="text-gray-500"> ({item.color})</span>}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex items-start gap-3 p-4 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800">
+                  <Mail className="w-5 h-5 flex-shrink-0" />
+                  <p>
+                    {result?.link_sent
+                      ? `We've sent a secure link with your full order details to ${result?.masked_email}.`
+                      : "Full order details are sent by email. Please contact support if you need them now."}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Truck className="w-5 h-5" />
+                  Order History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <OrderEventList tracking={summary.tracking} />
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  )
+}
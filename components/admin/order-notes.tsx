@@ -0,0 +1,343 @@
+"use client"
+
+import { useEffect, useRef, useState, type ChangeEvent, type KeyboardEvent } from "react"
+import { FileText, ImageIcon, Lock, MessageSquare, Paperclip, Send, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+import { getCurrentUser } from "@/lib/auth"
+import {
+  addOrderNote,
+  downloadNoteAttachment,
+  formatFileSize,
+  getOrderNotes,
+  getStaffMembers,
+  isAllowedNoteAttachment,
+  matchMentions,
+  MAX_NOTE_ATTACHMENT_BYTES,
+  MAX_NOTE_ATTACHMENTS,
+  MAX_NOTE_LENGTH,
+  NOTE_ATTACHMENT_ACCEPT,
+  type NoteAttachment,
+  type OrderNote,
+  type StaffMember,
+} from "@/lib/order-notes"
+
+interface OrderNotesProps {
+  orderId: number
+}
+
+// The "@word" being typed right before the caret, if any
+const MENTION_QUERY = /(?:^|\s)@([^\s@]*)$/
+
+function NoteBody({ note }: { note: OrderNote }) {
+  const parts: (string | { text: string; key: number })[] = []
+  let position = 0
+
+  matchMentions(note.body, note.mentions || []).forEach((match) => {
+    parts.push(note.body.slice(position, match.start))
+    parts.push({ text: note.body.slice(match.start, match.end), key: match.start })
+    position = match.end
+  })
+  parts.push(note.body.slice(position))
+
+  return (
+    <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+      {parts.map((part) =>
+        typeof part === "string" ? (
+          part
+        ) : (
+          <span key={part.key} className="rounded bg-orange-100 px-1 font-medium text-orange-700">
+            {part.text}
+          </span>
+        ),
+      )}
+    </p>
+  )
+}
+
+// Staff-only notes thread for an order. Typing "@" suggests other admins; mentioned admins get a
+// notification linking back to the order.
+export function OrderNotes({ orderId }: OrderNotesProps) {
+  const [notes, setNotes] = useState<OrderNote[]>([])
+  const [staff, setStaff] = useState<StaffMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+  const [body, setBody] = useState("")
+  const [files, setFiles] = useState<File[]>([])
+  const [submitting, setSubmitting] = useState(false)
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null)
+  const [highlighted, setHighlighted] = useState(0)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    const currentUserId = getCurrentUser()?.id
+
+    setLoading(true)
+    getOrderNotes(orderId)
+      .then(setNotes)
+      .catch((loadError) => setError(loadError instanceof Error ? loadError.message : "Failed to load notes"))
+      .finally(() => setLoading(false))
+
+    getStaffMembers().then((members) => setStaff(members.filter((member) => member.id !== currentUserId)))
+  }, [orderId])
+
+  const suggestions =
+    mentionQuery === null
+      ? []
+      : staff
+          .filter((member) =>
+            member.name
+              .toLowerCase()
+              .split(/\s+/)
+              .some((word) => word.startsWith(mentionQuery.toLowerCase())),
+          )
+          .slice(0, 6)
+
+  const updateMentionQuery = (text: string, caret: number) => {
+    const match = MENTION_QUERY.exec(text.slice(0, caret))
+    setMentionQuery(match ? match[1] : null)
+    setHighlighted(0)
+  }
+
+  const handleBodyChange = (event: ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(event.target.value)
+    updateMentionQuery(event.target.value, event.target.selectionStart)
+  }
+
+  const insertMention = (member: StaffMember) => {
+    const textarea = textareaRef.current
+    const caret = textarea?.selectionStart ?? body.length
+    const before = body.slice(0, caret).replace(/@([^\s@]*)$/, `@${member.name} `)
+    const next = before + body.slice(caret)
+
+    setBody(next)
+    setMentionQuery(null)
+    requestAnimationFrame(() => {
+      textarea?.focus()
+      textarea?.setSelectionRange(before.length, before.length)
+    })
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return
+
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault()
+      const step = event.key === "ArrowDown" ? 1 : -1
+      setHighlighted((current) => (current + step + suggestions.length) % suggestions.length)
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault()
+      insertMention(suggestions[highlighted] || suggestions[0])
+    } else if (event.key === "Escape") {
+      setMentionQuery(null)
+    }
+  }
+
+  const handleFilesSelected = (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || [])
+    event.target.value = ""
+
+    if (selected.some((file) => !isAllowedNoteAttachment(file) || file.size > MAX_NOTE_ATTACHMENT_BYTES)) {
+      setError("Attachments must be images or PDFs no larger than 10 MB each")
+      return
+    }
+
+    const next = [...files, ...selected]
+    if (next.length > MAX_NOTE_ATTACHMENTS) {
+      setError(`Attach at most ${MAX_NOTE_ATTACHMENTS} files per note`)
+      return
+    }
+
+    setError("")
+    setFiles(next)
+  }
+
+  const handleSubmit = async () => {
+    if (!body.trim() && files.length === 0) return
+
+    setSubmitting(true)
+    setError("")
+    try {
+      const note = await addOrderNote(orderId, { body: body.trim(), attachments: files })
+      setNotes((current) => [...current, note])
+      setBody("")
+      setFiles([])
+      setMentionQuery(null)
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Failed to add note")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDownload = async (attachment: NoteAttachment) => {
+    try {
+      await downloadNoteAttachment(orderId, attachment)
+    } catch (downloadError) {
+      setError(downloadError instanceof Error ? downloadError.message : "Failed to download attachment")
+    }
+  }
+
+  return (
+    <Card id="notes">
+      <CardHeader className="pb-3 sm:pb-6">
+        <CardTitle className="flex items-center space-x-2 text-base sm:text-lg">
+          <MessageSquare className="w-4 h-4 sm:w-5 sm:h-5" />
+          <span>Internal Notes ({notes.length})</span>
+        </CardTitle>
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <Lock className="w-3 h-3" />
+          Only staff can see these notes
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-800 text-sm">{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <p className="text-xs sm:text-sm text-gray-500">Loading notes...</p>
+        ) : notes.length === 0 ? (
+          <p className="text-xs sm:text-sm text-gray-500">
+            No notes yet. Record calls with the buyer, delivery issues or anything the team should know.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {notes.map((note) => (
+              <li key={note.id} className="rounded-lg border bg-gray-50 p-3">
+                <div className="mb-1 flex flex-col gap-1 text-xs sm:flex-row sm:items-center sm:justify-between">
+                  <span className="font-semibold text-gray-900">{note.author?.name || "Staff"}</span>
+                  <time dateTime={note.created_at} className="text-gray-500">
+                    {new Date(note.created_at).toLocaleString("en-PH", {
+                      year: "numeric",
+                      month: "short",
+                      day: "numeric",
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </time>
+                </div>
+                {note.body && <NoteBody note={note} />}
+                {note.attachments?.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {note.attachments.map((attachment) => (
+                      <button
+                        key={attachment.id}
+                        type="button"
+                        onClick={() => handleDownload(attachment)}
+                        className="flex items-center gap-1 rounded border bg-white px-2 py-1 text-xs text-blue-600 hover:bg-blue-50"
+                      >
+                        {attachment.type.startsWith("image/") ? (
+                          <ImageIcon className="w-3 h-3" />
+                        ) : (
+                          <FileText className="w-3 h-3" />
+                        )}
+                        <span className="max-w-[10rem] truncate">{attachment.name}</span>
+                        <span className="text-gray-400">{formatFileSize(attachment.size)}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-2">
+          <div className="relative">
+            <Textarea
+              ref={textareaRef}
+              value={body}
+              onChange={handleBodyChange}
+              onKeyDown={handleKeyDown}
+              onClick={(event) => updateMentionQuery(body, event.currentTarget.selectionStart)}
+              onBlur={() => setTimeout(() => setMentionQuery(null), 150)}
+              maxLength={MAX_NOTE_LENGTH}
+              placeholder="Add a note. Type @ to mention a teammate."
+              className="min-h-[80px] text-sm"
+            />
+            {suggestions.length > 0 && (
+              <ul className="absolute left-0 right-0 top-full z-10 mt-1 rounded-md border bg-white py-1 shadow-lg">
+                {suggestions.map((member, index) => (
+                  <li key={member.id}>
+                    <button
+                      type="button"
+                      onMouseDown={(event) => {
+                        event.preventDefault()
+                        insertMention(member)
+                      }}
+                      className={`flex w-full flex-col px-3 py-1.5 text-left text-sm ${
+                        index === highlighted ? "bg-orange-50" : "hover:bg-gray-50"
+                      }`}
+                    >
+                      <span className="font-medium text-gray-900">{member.name}</span>
+                      {member.email && <span className="text-xs text-gray-500">{member.email}</span>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {files.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {files.map((file, index) => (
+                <span
+                  key={`${file.name}-${index}`}
+                  className="flex items-center gap-1 rounded border bg-gray-50 px-2 py-1 text-xs text-gray-700"
+                >
+                  <Paperclip className="w-3 h-3" />
+                  <span className="max-w-[10rem] truncate">{file.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => setFiles((current) => current.filter((_, i) => i !== index))}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={`Remove ${file.name}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={NOTE_ATTACHMENT_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={submitting || files.length >= MAX_NOTE_ATTACHMENTS}
+            >
+              <Paperclip className="w-4 h-4 mr-1" />
+              Attach
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              onClick={handleSubmit}
+              disabled={submitting || (!body.trim() && files.length === 0)}
+              className="bg-orange-600 hover:bg-orange-700"
+            >
+              <Send className="w-4 h-4 mr-1" />
+              {submitting ? "Saving..." : "Add Note"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -22,6 +22,14 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import type { ProductData } from "@/lib/api";
+import {
+  buildVariantMatrix,
+  getVariantLabel,
+  isProductInStock,
+  isStockCounted,
+  LOW_STOCK_THRESHOLD,
+  type ProductVariant,
+} from "@/lib/variants";
 
 interface ProductFormProps {
   product?: ProductData | null;
@@ -131,13 +139,24 @@ export default function ProductForm({
       rear_tires: "",
     },
     colors: [],
+    sizes: [],
+    variants: [],
     in_stock: true,
+    stock_quantity: null,
+    low_stock_threshold: null,
     featured: false,
   });
+  const [newOption, setNewOption] = useState("");
 
   const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
   const [previewImages, setPreviewImages] = useState<string[]>([]);
 
+  // Once a product or variant has stock, its count only changes through
+  // adjustments and orders so every unit shows up in the movement ledger
+  const stockLocked = !!product && isStockCounted(product);
+  const tracksVariants = (formData.variants || []).length > 0;
+  const countsStock = tracksVariants || isStockCounted(formData);
+
   useEffect(() => {
     if (product) {
       setFormData({
@@ -145,6 +164,8 @@ export default function ProductForm({
         images: product.images || [],
         ideal_for: product.ideal_for || [],
         colors: product.colors || [],
+        sizes: product.sizes || [],
+        variants: product.variants || [],
         specifications: {
           dimensions: product.specifications?.dimensions || "",
           battery_type: product.specifications?.battery_type || "",
@@ -217,15 +238,81 @@ export default function ProductForm({
     }));
   };
 
+  // When stock is tracked per variant, the variant list follows the chosen
+  // colors and options
+  const withVariants = (data: ProductData): ProductData =>
+    (data.variants || []).length > 0
+      ? { ...data, variants: buildVariantMatrix(data) }
+      : data;
+
   const handleColorToggle = (color: { name: string; value: string }) => {
+    setFormData((prev) =>
+      withVariants({
+        ...prev,
+        colors: (prev.colors || []).some((c) => c.value === color.value)
+          ? (prev.colors || []).filter((c) => c.value !== color.value)
+          : [...(prev.colors || []), color],
+      })
+    );
+  };
+
+  const handleAddOption = () => {
+    const option = newOption.trim();
+    if (!option) return;
+    setFormData((prev) =>
+      (prev.sizes || []).some((s) => s.toLowerCase() === option.toLowerCase())
+        ? prev
+        : withVariants({ ...prev, sizes: [...(prev.sizes || []), option] })
+    );
+    setNewOption("");
+  };
+
+  const handleRemoveOption = (option: string) => {
+    setFormData((prev) =>
+      withVariants({
+        ...prev,
+        sizes: (prev.sizes || []).filter((s) => s !== option),
+      })
+    );
+  };
+
+  const handleTrackVariants = (enabled: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      variants: enabled ? buildVariantMatrix(prev) : [],
+      // Counted per variant from now on
+      stock_quantity: enabled ? null : prev.stock_quantity,
+    }));
+  };
+
+  const handleCountStock = (enabled: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      stock_quantity: enabled ? prev.stock_quantity ?? 0 : null,
+    }));
+  };
+
+  const handleVariantChange = (
+    index: number,
+    changes: Partial<ProductVariant>
+  ) => {
     setFormData((prev) => ({
       ...prev,
-      colors: (prev.colors || []).some((c) => c.value === color.value)
-        ? (prev.colors || []).filter((c) => c.value !== color.value)
-        : [...(prev.colors || []), color],
+      variants: (prev.variants || []).map((variant, i) =>
+        i === index ? { ...variant, ...changes } : variant
+      ),
     }));
   };
 
+  const handleVariantImageToggle = (index: number, image: string) => {
+    const images = formData.variants?.[index]?.images || [];
+    handleVariantChange(index, {
+      images: images.includes(image)
+        ? images.filter((img) => img !== image)
+        : [...images, image],
+    });
+  };
+
   const handleAddImages = async () => {
     if (selectedFiles) {
       try {
@@ -297,6 +384,25 @@ export default function ProductForm({
     }
   };
 
+  // Counts that already exist only change through adjustments and orders, so
+  // updates leave them out instead of overwriting units sold since the form
+  // was opened
+  const withoutLockedStock = (data: ProductData): ProductData => {
+    const payload: Partial<ProductData> = { ...data };
+    if (stockLocked) {
+      delete payload.stock_quantity;
+      delete payload.reserved_quantity;
+    }
+    payload.variants = (data.variants || []).map((variant) => {
+      if (!variant.id) return variant;
+      const existing: Partial<ProductVariant> = { ...variant };
+      delete existing.stock;
+      delete existing.reserved;
+      return existing as ProductVariant;
+    });
+    return payload as ProductData;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -304,11 +410,18 @@ export default function ProductForm({
     setIsSubmitting(true);
     console.log("Form submitted manually - Starting submission...");
 
+    // With counted stock, the product is in stock while any unit is available
+    const data = withoutLockedStock(
+      countsStock
+        ? { ...formData, in_stock: isProductInStock(formData) }
+        : formData
+    );
+
     try {
       if (selectedFiles && selectedFiles.length > 0) {
         const submitFormData = new FormData();
 
-        Object.entries(formData).forEach(([key, value]) => {
+        Object.entries(data).forEach(([key, value]) => {
           if (key === "images") {
             (value as string[]).forEach((img) => {
               submitFormData.append("existing_images[]", img);
@@ -322,6 +435,13 @@ export default function ProductForm({
           } else if (key === "ideal_for") {
             submitFormData.append(key, JSON.stringify(value));
             console.log("Ideal For JSON:", JSON.stringify(value));
+          } else if (key === "sizes" || key === "variants") {
+            submitFormData.append(key, JSON.stringify(value));
+          } else if (
+            key === "stock_quantity" ||
+            key === "low_stock_threshold"
+          ) {
+            submitFormData.append(key, value === null ? "" : String(value));
           } else {
             submitFormData.append(key, String(value));
           }
@@ -342,7 +462,7 @@ export default function ProductForm({
 
         await onSubmit(submitFormData as any);
       } else {
-        await onSubmit(formData);
+        await onSubmit(data);
       }
     } catch (error) {
       console.error("Submission error:", error);
@@ -363,7 +483,7 @@ export default function ProductForm({
     { number: 1, title: "Basic Info", description: "Product details" },
     { number: 2, title: "Images", description: "Product photos" },
     { number: 3, title: "Specifications", description: "Technical details" },
-    { number: 4, title: "Options", description: "Colors & features" },
+    { number: 4, title: "Options", description: "Variants & features" },
   ];
 
   // Filter options based on search term
@@ -879,6 +999,214 @@ export default function ProductForm({
                   </CardContent>
                 </Card>
 
+                {/* Size / Battery Options */}
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-orange-600 text-lg">
+                      Size & Battery Options
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex gap-2">
+                      <Input
+                        value={newOption}
+                        onChange={(e) => setNewOption(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") {
+                            e.preventDefault();
+                            handleAddOption();
+                          }
+                        }}
+                        disabled={isSubmitting}
+                        className="h-10 text-sm"
+                        placeholder='e.g. "60V 32Ah" or "Long Body"'
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleAddOption}
+                        disabled={isSubmitting || !newOption.trim()}
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {(formData.sizes || []).map((option) => (
+                        <Badge
+                          key={option}
+                          className="bg-orange-100 text-orange-700 border-orange-300 px-3 py-1"
+                        >
+                          {option}
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveOption(option)}
+                            disabled={isSubmitting}
+                            className="ml-2 hover:text-red-600"
+                            aria-label={`Remove ${option}`}
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Variants: SKU, price and stock per color x option */}
+                {((formData.colors || []).length > 0 ||
+                  (formData.sizes || []).length > 0) && (
+                  <Card>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-orange-600 text-lg">
+                        Variants
+                      </CardTitle>
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={(formData.variants || []).length > 0}
+                          onChange={(e) =>
+                            handleTrackVariants(e.target.checked)
+                          }
+                          disabled={isSubmitting}
+                          className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
+                        />
+                        <span>
+                          Track SKU, price and stock for each color and option
+                        </span>
+                      </label>
+                    </CardHeader>
+                    {(formData.variants || []).length > 0 && (
+                      <CardContent className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="border-b text-left text-gray-600">
+                              <th className="py-2 pr-3 font-medium">Variant</th>
+                              <th className="py-2 pr-3 font-medium">SKU</th>
+                              <th className="py-2 pr-3 font-medium">
+                                Price +/- (₱)
+                              </th>
+                              <th className="py-2 pr-3 font-medium">Stock</th>
+                              <th className="py-2 font-medium">Photos</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {(formData.variants || []).map(
+                              (variant, index) => (
+                                <tr
+                                  key={`${variant.color}-${variant.option}`}
+                                  className="border-b align-top"
+                                >
+                                  <td className="py-2 pr-3 font-medium text-gray-900 whitespace-nowrap">
+                                    {getVariantLabel(variant)}
+                                  </td>
+                                  <td className="py-2 pr-3">
+                                    <Input
+                                      value={variant.sku}
+                                      onChange={(e) =>
+                                        handleVariantChange(index, {
+                                          sku: e.target.value.toUpperCase(),
+                                        })
+                                      }
+                                      required
+                                      disabled={isSubmitting}
+                                      className="h-9 w-40 text-sm"
+                                    />
+                                  </td>
+                                  <td className="py-2 pr-3">
+                                    <Input
+                                      type="number"
+                                      step="0.01"
+                                      value={variant.price_delta}
+                                      onChange={(e) =>
+                                        handleVariantChange(index, {
+                                          price_delta:
+                                            Number.parseFloat(e.target.value) ||
+                                            0,
+                                        })
+                                      }
+                                      disabled={isSubmitting}
+                                      className="h-9 w-28 text-sm"
+                                    />
+                                  </td>
+                                  <td className="py-2 pr-3">
+                                    <Input
+                                      type="number"
+                                      min="0"
+                                      step="1"
+                                      value={variant.stock}
+                                      onChange={(e) =>
+                                        handleVariantChange(index, {
+                                          stock: Math.max(
+                                            0,
+                                            Number.parseInt(e.target.value) || 0
+                                          ),
+                                        })
+                                      }
+                                      disabled={isSubmitting || !!variant.id}
+                                      title={
+                                        variant.id
+                                          ? "Use Adjust stock on the product page"
+                                          : undefined
+                                      }
+                                      className="h-9 w-20 text-sm"
+                                    />
+                                  </td>
+                                  <td className="py-2">
+                                    {(formData.images || []).length === 0 ? (
+                                      <span className="text-xs text-gray-500">
+                                        Upload product images first
+                                      </span>
+                                    ) : (
+                                      <div className="flex flex-wrap gap-1">
+                                        {(formData.images || []).map(
+                                          (image) => (
+                                            <button
+                                              key={image}
+                                              type="button"
+                                              onClick={() =>
+                                                handleVariantImageToggle(
+                                                  index,
+                                                  image
+                                                )
+                                              }
+                                              disabled={isSubmitting}
+                                              className={`w-9 h-9 rounded border-2 overflow-hidden ${
+                                                (variant.images || []).includes(
+                                                  image
+                                                )
+                                                  ? "border-orange-500"
+                                                  : "border-gray-200 opacity-60"
+                                              }`}
+                                            >
+                                              <img
+                                                src={image}
+                                                alt=""
+                                                className="w-full h-full object-cover"
+                                              />
+                                            </button>
+                                          )
+                                        )}
+                                      </div>
+                                    )}
+                                  </td>
+                                </tr>
+                              )
+                            )}
+                          </tbody>
+                        </table>
+                        <p className="text-xs text-gray-500 mt-2">
+                          Variants without photos show all product images.
+                          The product shows as out of stock when no variant
+                          has units available. Stock entered here is the
+                          opening count; after saving, change it with Adjust
+                          stock on the product page.
+                        </p>
+                      </CardContent>
+                    )}
+                  </Card>
+                )}
+
                 {/* Enhanced Ideal For Section */}
                 <Card>
                   <CardHeader className="pb-3">
@@ -967,6 +1295,102 @@ export default function ProductForm({
                   </CardContent>
                 </Card>
 
+                {/* Inventory: on-hand count and low stock alert */}
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-orange-600 text-lg">
+                      Inventory
+                    </CardTitle>
+                    {!tracksVariants && (
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={isStockCounted(formData)}
+                          onChange={(e) => handleCountStock(e.target.checked)}
+                          disabled={isSubmitting || stockLocked}
+                          className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
+                        />
+                        <span>Count units on hand for this product</span>
+                      </label>
+                    )}
+                  </CardHeader>
+                  {countsStock && (
+                    <CardContent>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        {!tracksVariants && (
+                          <div className="space-y-2">
+                            <label
+                              htmlFor="stock_quantity"
+                              className="text-sm font-semibold text-gray-700"
+                            >
+                              Units on hand
+                            </label>
+                            <Input
+                              id="stock_quantity"
+                              type="number"
+                              min="0"
+                              step="1"
+                              value={formData.stock_quantity ?? 0}
+                              onChange={(e) =>
+                                setFormData((prev) => ({
+                                  ...prev,
+                                  stock_quantity: Math.max(
+                                    0,
+                                    Number.parseInt(e.target.value) || 0
+                                  ),
+                                }))
+                              }
+                              disabled={isSubmitting || stockLocked}
+                              className="h-10"
+                            />
+                            {stockLocked && (
+                              <p className="text-xs text-gray-500">
+                                Use Adjust stock on the product page so the
+                                change is recorded.
+                              </p>
+                            )}
+                          </div>
+                        )}
+                        <div className="space-y-2">
+                          <label
+                            htmlFor="low_stock_threshold"
+                            className="text-sm font-semibold text-gray-700"
+                          >
+                            Low stock alert at
+                          </label>
+                          <Input
+                            id="low_stock_threshold"
+                            type="number"
+                            min="0"
+                            step="1"
+                            value={formData.low_stock_threshold ?? ""}
+                            placeholder={String(LOW_STOCK_THRESHOLD)}
+                            onChange={(e) =>
+                              setFormData((prev) => ({
+                                ...prev,
+                                low_stock_threshold:
+                                  e.target.value === ""
+                                    ? null
+                                    : Math.max(
+                                        0,
+                                        Number.parseInt(e.target.value) || 0
+                                      ),
+                              }))
+                            }
+                            disabled={isSubmitting}
+                            className="h-10"
+                          />
+                          <p className="text-xs text-gray-500">
+                            Admins are notified when available units
+                            {tracksVariants ? " of any variant" : ""} drop to
+                            this number.
+                          </p>
+                        </div>
+                      </div>
+                    </CardContent>
+                  )}
+                </Card>
+
                 {/* Product Status & Submit */}
                 <Card className="border-2 border-green-500 bg-gradient-to-r from-green-50 to-blue-50">
                   <CardContent className="p-6">
@@ -983,9 +1407,13 @@ export default function ProductForm({
                           <input
                             type="checkbox"
                             name="in_stock"
-                            checked={formData.in_stock}
+                            checked={
+                              countsStock
+                                ? isProductInStock(formData)
+                                : formData.in_stock
+                            }
                             onChange={handleInputChange}
-                            disabled={isSubmitting}
+                            disabled={isSubmitting || countsStock}
                             className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500 disabled:opacity-50"
                           />
                           <span className="text-base text-gray-700 font-medium">
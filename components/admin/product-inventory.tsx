@@ -0,0 +1,292 @@
+"use client"
+
+import { useEffect, useState, type FormEvent } from "react"
+import { History, PackagePlus, Warehouse } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import type { ProductData } from "@/lib/api"
+import {
+  adjustStock,
+  getStockLines,
+  getStockMovements,
+  STOCK_ADJUSTMENT_REASONS,
+  STOCK_MOVEMENT_LABELS,
+  type StockMovement,
+} from "@/lib/stock"
+import { getLowStockThreshold } from "@/lib/variants"
+
+interface ProductInventoryProps {
+  product: ProductData
+  // Called after an adjustment so the page reloads the new levels
+  onAdjusted: () => void
+}
+
+type AdjustmentReason = (typeof STOCK_ADJUSTMENT_REASONS)[number]["code"]
+
+// Stock levels per variant, a form for deliveries and count corrections, and the movement ledger
+export function ProductInventory({ product, onAdjusted }: ProductInventoryProps) {
+  const lines = getStockLines(product)
+  const [movements, setMovements] = useState<StockMovement[]>([])
+  const [loadingMovements, setLoadingMovements] = useState(true)
+  const [lineIndex, setLineIndex] = useState(0)
+  const [reason, setReason] = useState<AdjustmentReason>("restock")
+  const [quantity, setQuantity] = useState("")
+  const [note, setNote] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState("")
+  const [message, setMessage] = useState("")
+
+  const loadMovements = () => {
+    if (!product.id) return
+    setLoadingMovements(true)
+    getStockMovements(product.id)
+      .then(setMovements)
+      .catch((loadError) => setError(loadError instanceof Error ? loadError.message : "Failed to load movements"))
+      .finally(() => setLoadingMovements(false))
+  }
+
+  useEffect(loadMovements, [product.id])
+
+  if (lines.length === 0) {
+    return (
+      <Card id="inventory" className="mt-6 sm:mt-8">
+        <CardHeader className="pb-3 sm:pb-6">
+          <CardTitle className="flex items-center space-x-2 text-lg sm:text-xl">
+            <Warehouse className="w-5 h-5" />
+            <span>Inventory</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-600">
+            Stock isn&apos;t counted for this product, so it can oversell. Edit the product and turn on unit counting or
+            variant tracking to reserve stock for orders.
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    const units = Number.parseInt(quantity)
+    const signed = reason === "adjust" ? units : Math.abs(units)
+
+    if (!product.id || !signed) {
+      setError("Enter the number of units")
+      return
+    }
+
+    setSubmitting(true)
+    setError("")
+    setMessage("")
+    try {
+      const result = await adjustStock({
+        product_id: product.id,
+        variant_id: lines[lineIndex]?.variant_id,
+        quantity: signed,
+        reason,
+        note: note.trim() || undefined,
+      })
+      setMessage(result)
+      setQuantity("")
+      setNote("")
+      loadMovements()
+      onAdjusted()
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : "Failed to adjust stock")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card id="inventory" className="mt-6 sm:mt-8">
+      <CardHeader className="pb-3 sm:pb-6">
+        <CardTitle className="flex items-center space-x-2 text-lg sm:text-xl">
+          <Warehouse className="w-5 h-5" />
+          <span>Inventory</span>
+        </CardTitle>
+        <p className="text-xs sm:text-sm text-gray-500">
+          Reserved units are held for open orders and leave on-hand stock when the order ships or is picked up. Alerts
+          go out at {getLowStockThreshold(product)} available.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2 pr-3 font-medium">Item</th>
+                <th className="py-2 pr-3 font-medium">SKU</th>
+                <th className="py-2 pr-3 font-medium text-right">On hand</th>
+                <th className="py-2 pr-3 font-medium text-right">Reserved</th>
+                <th className="py-2 font-medium text-right">Available</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map((line) => (
+                <tr key={line.variant_id ?? line.label} className="border-b">
+                  <td className="py-2 pr-3 font-medium text-gray-900">{line.label}</td>
+                  <td className="py-2 pr-3 text-gray-500">{line.sku || "—"}</td>
+                  <td className="py-2 pr-3 text-right">{line.on_hand}</td>
+                  <td className="py-2 pr-3 text-right">{line.reserved}</td>
+                  <td className="py-2 text-right">
+                    <span className={line.low ? "font-semibold text-red-600" : "font-semibold text-gray-900"}>
+                      {line.available}
+                    </span>
+                    {line.low && (
+                      <Badge className="ml-2 bg-red-50 text-red-600 border-red-200 text-xs">
+                        {line.available === 0 ? "Sold out" : "Low"}
+                      </Badge>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3 rounded-lg border bg-gray-50 p-3 sm:p-4">
+          <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+            <PackagePlus className="w-4 h-4" />
+            Adjust stock
+          </h4>
+          {error && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertDescription className="text-red-800 text-sm">{error}</AlertDescription>
+            </Alert>
+          )}
+          {message && (
+            <Alert className="border-green-200 bg-green-50">
+              <AlertDescription className="text-green-800 text-sm">{message}</AlertDescription>
+            </Alert>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {lines.length > 1 && (
+              <select
+                value={lineIndex}
+                onChange={(event) => setLineIndex(Number(event.target.value))}
+                disabled={submitting}
+                className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm"
+              >
+                {lines.map((line, index) => (
+                  <option key={line.variant_id ?? line.label} value={index}>
+                    {line.label}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={reason}
+              onChange={(event) => setReason(event.target.value as AdjustmentReason)}
+              disabled={submitting}
+              className="h-10 rounded-md border border-gray-300 bg-white px-3 text-sm"
+            >
+              {STOCK_ADJUSTMENT_REASONS.map((option) => (
+                <option key={option.code} value={option.code}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="number"
+              step="1"
+              min={reason === "adjust" ? undefined : 1}
+              value={quantity}
+              onChange={(event) => setQuantity(event.target.value)}
+              placeholder={reason === "adjust" ? "Units, e.g. -2 or 3" : "Units received"}
+              disabled={submitting}
+              className="h-10"
+            />
+          </div>
+          <Input
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            maxLength={500}
+            placeholder="Note, e.g. supplier delivery receipt number"
+            disabled={submitting}
+            className="h-10"
+          />
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              size="sm"
+              disabled={submitting || !quantity}
+              className="bg-orange-600 hover:bg-orange-700"
+            >
+              {submitting ? "Saving..." : "Record adjustment"}
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-2">
+          <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+            <History className="w-4 h-4" />
+            Stock movements
+          </h4>
+          {loadingMovements ? (
+            <p className="text-xs sm:text-sm text-gray-500">Loading movements...</p>
+          ) : movements.length === 0 ? (
+            <p className="text-xs sm:text-sm text-gray-500">No stock movements recorded yet.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <table className="w-full text-xs sm:text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-3 font-medium">When</th>
+                    <th className="py-2 pr-3 font-medium">Movement</th>
+                    <th className="py-2 pr-3 font-medium text-right">Change</th>
+                    <th className="py-2 pr-3 font-medium text-right">On hand / reserved</th>
+                    <th className="py-2 font-medium">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {movements.map((movement) => (
+                    <tr key={movement.id} className="border-b align-top">
+                      <td className="py-2 pr-3 whitespace-nowrap text-gray-500">
+                        {new Date(movement.created_at).toLocaleString("en-PH", {
+                          month: "short",
+                          day: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </td>
+                      <td className="py-2 pr-3">
+                        <div className="font-medium text-gray-900">
+                          {STOCK_MOVEMENT_LABELS[movement.type] || movement.type}
+                        </div>
+                        {movement.sku && <div className="text-gray-500">{movement.sku}</div>}
+                      </td>
+                      <td
+                        className={`py-2 pr-3 text-right font-semibold ${
+                          movement.quantity < 0 ? "text-red-600" : "text-green-600"
+                        }`}
+                      >
+                        {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                      </td>
+                      <td className="py-2 pr-3 text-right text-gray-700">
+                        {movement.on_hand_after} / {movement.reserved_after}
+                      </td>
+                      <td className="py-2 text-gray-600">
+                        {movement.order_id && (
+                          <a href={`/admin/orders/${movement.order_id}`} className="text-blue-600 hover:underline">
+                            {movement.order_number || `Order #${movement.order_id}`}
+                          </a>
+                        )}
+                        {movement.note && <div>{movement.note}</div>}
+                        {movement.actor_name && <div className="text-gray-400">by {movement.actor_name}</div>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -8,6 +8,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import ETrikeLoader from "@/components/ui/etrike-loader";
 import type { ProductData } from "@/lib/api";
+import { getStockTotals } from "@/lib/stock";
+import { isProductInStock } from "@/lib/variants";
 
 interface ProductTableProps {
   products: ProductData[];
@@ -122,6 +124,9 @@ export default function ProductTable({
               <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">
                 Price
               </th>
+              <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">
+                Stock
+              </th>
               <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">
                 Colors
               </th>
@@ -134,126 +139,154 @@ export default function ProductTable({
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-100">
-            {currentProducts.map((product) => (
-              <tr
-                key={product.id}
-                className="hover:bg-orange-50/30 transition-colors"
-              >
-                <td className="px-6 py-4">
-                  <div className="flex items-center space-x-4">
-                    <div className="relative w-16 h-16 flex-shrink-0">
-                      <Image
-                        src={
-                          product.images?.[0] ||
-                          "/placeholder.svg?height=64&width=64"
-                        }
-                        alt={product.name}
-                        fill
-                        className="object-cover rounded-lg"
-                      />
-                    </div>
-                    <div className="min-w-0 flex-1">
-                      <h3 className="text-sm font-semibold text-gray-900 truncate">
-                        {product.name}
-                      </h3>
-                      <p className="text-sm text-gray-500 truncate">
-                        {product.model}
-                      </p>
-                      <p className="text-xs text-gray-400 truncate max-w-xs">
-                        {product.description}
-                      </p>
-                    </div>
-                  </div>
-                </td>
-                <td className="px-6 py-4">
-                  <Badge className="bg-orange-100 text-orange-600 border-orange-200">
-                    {product.category}
-                  </Badge>
-                </td>
-                <td className="px-6 py-4">
-                  <div className="text-sm">
-                    <div className="font-semibold text-gray-900">
-                      ₱{product.price?.toLocaleString()}
+            {currentProducts.map((product) => {
+              const stock = getStockTotals(product);
+              const inStock = isProductInStock(product);
+
+              return (
+                <tr
+                  key={product.id}
+                  className="hover:bg-orange-50/30 transition-colors"
+                >
+                  <td className="px-6 py-4">
+                    <div className="flex items-center space-x-4">
+                      <div className="relative w-16 h-16 flex-shrink-0">
+                        <Image
+                          src={
+                            product.images?.[0] ||
+                            "/placeholder.svg?height=64&width=64"
+                          }
+                          alt={product.name}
+                          fill
+                          className="object-cover rounded-lg"
+                        />
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <h3 className="text-sm font-semibold text-gray-900 truncate">
+                          {product.name}
+                        </h3>
+                        <p className="text-sm text-gray-500 truncate">
+                          {product.model}
+                        </p>
+                        <p className="text-xs text-gray-400 truncate max-w-xs">
+                          {product.description}
+                        </p>
+                      </div>
                     </div>
-                    {product.original_price && (
-                      <div className="text-gray-500 line-through text-xs">
-                        ₱{product.original_price.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4">
+                    <Badge className="bg-orange-100 text-orange-600 border-orange-200">
+                      {product.category}
+                    </Badge>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="text-sm">
+                      <div className="font-semibold text-gray-900">
+                        ₱{product.price?.toLocaleString()}
                       </div>
-                    )}
-                  </div>
-                </td>
-                <td className="px-6 py-4">
-                  <div className="flex space-x-1">
-                    {product.colors
-                      ?.slice(0, 4)
-                      .map((color, index) => (
+                      {product.original_price && (
+                        <div className="text-gray-500 line-through text-xs">
+                          ₱{product.original_price.toLocaleString()}
+                        </div>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    {stock.counted ? (
+                      <div className="text-sm">
                         <div
-                          key={index}
-                          className="w-6 h-6 rounded-full border-2 border-gray-200"
-                          style={{ backgroundColor: color.value }}
-                          title={color.name}
-                        />
-                      ))}
-                    {product.colors && product.colors.length > 4 && (
-                      <div className="w-6 h-6 rounded-full bg-gray-100 border-2 border-gray-200 flex items-center justify-center">
-                        <span className="text-xs text-gray-600">
-                          +{product.colors.length - 4}
-                        </span>
+                          className={`font-semibold ${
+                            stock.low ? "text-red-600" : "text-gray-900"
+                          }`}
+                        >
+                          {stock.available} available
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {stock.reserved} reserved · {stock.on_hand} on hand
+                        </div>
+                        {stock.low && (
+                          <Badge className="mt-1 bg-red-50 text-red-600 border-red-200 text-xs">
+                            Low stock
+                          </Badge>
+                        )}
                       </div>
+                    ) : (
+                      <span className="text-xs text-gray-400">Not tracked</span>
                     )}
-                  </div>
-                </td>
-                <td className="px-6 py-4">
-                  <div className="flex flex-col space-y-1">
-                    <Badge
-                      className={
-                        product.in_stock
-                          ? "bg-green-100 text-green-600 border-green-200"
-                          : "bg-red-100 text-red-600 border-red-200"
-                      }
-                    >
-                      {product.in_stock ? "In Stock" : "Out of Stock"}
-                    </Badge>
-                    {product.featured && (
-                      <Badge className="bg-yellow-100 text-yellow-600 border-yellow-200 text-xs">
-                        Featured
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex space-x-1">
+                      {product.colors
+                        ?.slice(0, 4)
+                        .map((color, index) => (
+                          <div
+                            key={index}
+                            className="w-6 h-6 rounded-full border-2 border-gray-200"
+                            style={{ backgroundColor: color.value }}
+                            title={color.name}
+                          />
+                        ))}
+                      {product.colors && product.colors.length > 4 && (
+                        <div className="w-6 h-6 rounded-full bg-gray-100 border-2 border-gray-200 flex items-center justify-center">
+                          <span className="text-xs text-gray-600">
+                            +{product.colors.length - 4}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex flex-col space-y-1">
+                      <Badge
+                        className={
+                          inStock
+                            ? "bg-green-100 text-green-600 border-green-200"
+                            : "bg-red-100 text-red-600 border-red-200"
+                        }
+                      >
+                        {inStock ? "In Stock" : "Out of Stock"}
                       </Badge>
-                    )}
-                  </div>
-                </td>
-                <td className="px-6 py-4">
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => handleView(product)}
-                      className="border-blue-200 text-blue-600 hover:bg-blue-50"
-                      title="View Details"
-                    >
-                      <Eye className="w-4 h-4" />
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => onEdit(product)}
-                      className="border-orange-200 text-orange-600 hover:bg-orange-50"
-                      title="Edit Product"
-                    >
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => product.id && onDelete(product.id)}
-                      className="border-red-200 text-red-600 hover:bg-red-50"
-                      title="Delete Product"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  </div>
-                </td>
-              </tr>
-            ))}
+                      {product.featured && (
+                        <Badge className="bg-yellow-100 text-yellow-600 border-yellow-200 text-xs">
+                          Featured
+                        </Badge>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleView(product)}
+                        className="border-blue-200 text-blue-600 hover:bg-blue-50"
+                        title="View Details"
+                      >
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onEdit(product)}
+                        className="border-orange-200 text-orange-600 hover:bg-orange-50"
+                        title="Edit Product"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => product.id && onDelete(product.id)}
+                        className="border-red-200 text-red-600 hover:bg-red-50"
+                        title="Delete Product"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
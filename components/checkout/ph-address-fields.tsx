@@ -0,0 +1,177 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import {
+  findCity,
+  findProvince,
+  findRegion,
+  getBarangays,
+  getCities,
+  getRegions,
+  type PhAddress,
+} from "@/lib/ph-address"
+
+interface PhAddressFieldsProps {
+  value: PhAddress
+  onChange: (value: PhAddress) => void
+  disabled?: boolean
+}
+
+const selectClassName =
+  "h-12 w-full rounded-lg border-2 border-gray-200 focus:border-orange-500 px-3 bg-white text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+
+// Cascading region → province → city → barangay selects. Levels without bundled data become
+// free-text inputs; picking a listed city fills in its ZIP code.
+export function PhAddressFields({ value, onChange, disabled = false }: PhAddressFieldsProps) {
+  const region = findRegion(value.region)
+  const province = findProvince(value.region, value.province)
+  const cities = getCities(province)
+  const city = findCity(province, value.city)
+  const barangays = getBarangays(city)
+
+  const handleRegionChange = (regionName: string) => {
+    onChange({ ...value, region: regionName, province: "", city: "", barangay: "", zipCode: "" })
+  }
+
+  const handleProvinceChange = (provinceName: string) => {
+    onChange({ ...value, province: provinceName, city: "", barangay: "", zipCode: "" })
+  }
+
+  const handleCityChange = (cityName: string) => {
+    const selected = findCity(province, cityName)
+    onChange({ ...value, city: cityName, barangay: "", zipCode: selected ? selected.zip : value.zipCode })
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div>
+        <label htmlFor="address-region" className="block text-sm font-medium text-gray-700 mb-1">
+          Region <span className="text-red-500">*</span>
+        </label>
+        <select
+          id="address-region"
+          value={region?.name || ""}
+          onChange={(e) => handleRegionChange(e.target.value)}
+          disabled={disabled}
+          required
+          className={selectClassName}
+        >
+          <option value="">Select region</option>
+          {getRegions().map((r) => (
+            <option key={r.code} value={r.name}>
+              {r.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="address-province" className="block text-sm font-medium text-gray-700 mb-1">
+          Province <span className="text-red-500">*</span>
+        </label>
+        <select
+          id="address-province"
+          value={province?.name || ""}
+          onChange={(e) => handleProvinceChange(e.target.value)}
+          disabled={disabled || !region}
+          required
+          className={selectClassName}
+        >
+          <option value="">{region ? "Select province" : "Select a region first"}</option>
+          {region?.provinces.map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="address-city" className="block text-sm font-medium text-gray-700 mb-1">
+          City / Municipality <span className="text-red-500">*</span>
+        </label>
+        {!province || cities ? (
+          <select
+            id="address-city"
+            value={city?.name || ""}
+            onChange={(e) => handleCityChange(e.target.value)}
+            disabled={disabled || !province}
+            required
+            className={selectClassName}
+          >
+            <option value="">{province ? "Select city or municipality" : "Select a province first"}</option>
+            {cities?.map((c) => (
+              <option key={c.name} value={c.name}>
+                {c.type === "City" && !c.name.endsWith("City") ? `${c.name} City` : c.name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <Input
+            id="address-city"
+            value={value.city}
+            onChange={(e) => handleCityChange(e.target.value.replace(/[^a-zA-ZñÑ\s.'-]/g, ""))}
+            disabled={disabled}
+            required
+            className="h-12"
+            placeholder="City or municipality"
+          />
+        )}
+        {province && !cities && (
+          <p className="text-xs text-gray-500 mt-1">Type the full name; we can&apos;t check cities in this province yet.</p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="address-barangay" className="block text-sm font-medium text-gray-700 mb-1">
+          Barangay <span className="text-red-500">*</span>
+        </label>
+        {barangays ? (
+          <select
+            id="address-barangay"
+            value={value.barangay}
+            onChange={(e) => onChange({ ...value, barangay: e.target.value })}
+            disabled={disabled}
+            required
+            className={selectClassName}
+          >
+            <option value="">Select barangay</option>
+            {barangays.map((b) => (
+              <option key={b} value={b}>
+                {b}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <Input
+            id="address-barangay"
+            value={value.barangay}
+            onChange={(e) => onChange({ ...value, barangay: e.target.value })}
+            disabled={disabled || !value.city}
+            required
+            className="h-12"
+            placeholder="Barangay"
+          />
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="address-zip" className="block text-sm font-medium text-gray-700 mb-1">
+          ZIP Code <span className="text-red-500">*</span>
+        </label>
+        <Input
+          id="address-zip"
+          value={value.zipCode}
+          onChange={(e) => onChange({ ...value, zipCode: e.target.value.replace(/\D/g, "").slice(0, 4) })}
+          disabled={disabled}
+          required
+          inputMode="numeric"
+          maxLength={4}
+          className="h-12"
+          placeholder="ZIP"
+        />
+        {city && <p className="text-xs text-gray-500 mt-1">Filled in for {city.name}; edit if your area differs.</p>}
+      </div>
+    </div>
+  )
+}
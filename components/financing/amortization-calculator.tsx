@@ -0,0 +1,108 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Calculator } from "lucide-react"
+import { formatPrice } from "@/lib/cart"
+import { calculateAmortization, getFinancingPlans, isPlanAvailable, type FinancingPlan } from "@/lib/financing"
+
+interface AmortizationCalculatorProps {
+  price: number
+  // Controlled mode for checkout; the product page lets the component manage its own selection
+  selectedPlanId?: number | null
+  onPlanChange?: (plan: FinancingPlan) => void
+  className?: string
+}
+
+export function AmortizationCalculator({
+  price,
+  selectedPlanId,
+  onPlanChange,
+  className,
+}: AmortizationCalculatorProps) {
+  const [plans, setPlans] = useState<FinancingPlan[]>([])
+  const [internalPlanId, setInternalPlanId] = useState<number | null>(null)
+
+  useEffect(() => {
+    getFinancingPlans().then((result) => setPlans(result))
+  }, [])
+
+  const availablePlans = plans.filter((plan) => isPlanAvailable(plan, price))
+  const activePlanId = selectedPlanId !== undefined ? selectedPlanId : internalPlanId
+  const activePlan = availablePlans.find((plan) => plan.id === activePlanId) || availablePlans[0]
+
+  // Let the parent know which plan is shown by default
+  useEffect(() => {
+    if (activePlan && onPlanChange && activePlan.id !== selectedPlanId) {
+      onPlanChange(activePlan)
+    }
+  }, [activePlan, onPlanChange, selectedPlanId])
+
+  if (availablePlans.length === 0) {
+    return null
+  }
+
+  const breakdown = calculateAmortization(price, activePlan)
+
+  const handleSelect = (plan: FinancingPlan) => {
+    setInternalPlanId(plan.id)
+    onPlanChange?.(plan)
+  }
+
+  return (
+    <div className={`rounded-xl border-2 border-orange-200 bg-white p-4 ${className || ""}`}>
+      <div className="flex items-center mb-3">
+        <Calculator className="w-5 h-5 mr-2 text-orange-500" />
+        <h3 className="font-bold text-gray-900">Installment Calculator</h3>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {availablePlans.map((plan) => (
+          <button
+            key={plan.id}
+            type="button"
+            onClick={() => handleSelect(plan)}
+            className={`px-3 py-2 rounded-lg border-2 text-sm font-medium transition-colors ${
+              plan.id === activePlan.id
+                ? "border-orange-500 bg-orange-50 text-orange-700"
+                : "border-gray-200 text-gray-600 hover:border-orange-200"
+            }`}
+          >
+            {plan.term_months} mos
+            {Number(plan.annual_interest_rate) === 0 && <span className="ml-1 text-green-600">0%</span>}
+          </button>
+        ))}
+      </div>
+
+      <div className="text-center p-3 bg-gradient-to-r from-orange-50 to-red-50 rounded-lg mb-3">
+        <p className="text-sm text-gray-600">Estimated monthly payment</p>
+        <p className="text-2xl font-bold text-orange-600">{formatPrice(breakdown.monthlyPayment)}</p>
+        <p className="text-xs text-gray-500">
+          for {activePlan.term_months} months at {Number(activePlan.annual_interest_rate)}% per year
+        </p>
+      </div>
+
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-600">Down payment ({Number(activePlan.down_payment_percent)}%)</span>
+          <span className="font-medium">{formatPrice(breakdown.downPayment)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Amount financed</span>
+          <span className="font-medium">{formatPrice(breakdown.financedAmount)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600">Total interest</span>
+          <span className="font-medium">{formatPrice(breakdown.totalInterest)}</span>
+        </div>
+        <div className="flex justify-between border-t pt-1">
+          <span className="text-gray-900 font-semibold">Total payable</span>
+          <span className="font-bold">{formatPrice(breakdown.totalPayable)}</span>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-3">
+        Estimates only. Final terms are confirmed once your financing application is approved.
+      </p>
+    </div>
+  )
+}
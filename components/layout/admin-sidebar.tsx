@@ -17,6 +17,11 @@ import {
   X,
   LogOut,
   MessageSquare,
+  Landmark,
+  Truck,
+  Tag,
+  RotateCcw,
+  StarHalf,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
@@ -39,6 +44,26 @@ const sidebarItems = [
     href: "/admin/orders",
     icon: ShoppingCart,
   },
+  {
+    title: "Returns",
+    href: "/admin/returns",
+    icon: RotateCcw,
+  },
+  {
+    title: "Vouchers",
+    href: "/admin/vouchers",
+    icon: Tag,
+  },
+  {
+    title: "Shipping",
+    href: "/admin/shipping",
+    icon: Truck,
+  },
+  {
+    title: "Financing",
+    href: "/admin/financing",
+    icon: Landmark,
+  },
   {
     title: "Customers",
     href: "/admin/customers",
@@ -60,6 +85,11 @@ const sidebarItems = [
     href: "/admin/testimonials",
     icon: Star,
   },
+  {
+    title: "Reviews",
+    href: "/admin/reviews",
+    icon: StarHalf,
+  },
   {
     title: "Inquiries",
     href: "/admin/contact",
@@ -75,6 +75,14 @@ export default function Footer() {
                   Customer Support
                 </Link>
               </li>
+              <li>
+                <Link
+                  href="/track-order"
+                  className="text-gray-300 hover:text-orange-400 transition-colors duration-200"
+                >
+                  Track Order
+                </Link>
+              </li>
               <li>
                 <Link
                   href="/support/warranty"
@@ -20,6 +20,7 @@ import WishlistDropdown from "@/components/wishlist-dropdown"
 import ToastIntegration from "@/components/toast-integration"
 import type { User as UserType } from "@/lib/types"
 import { getCart, getCartItemsCount } from "@/lib/cart"
+import { useCompareIds } from "@/hooks/use-compare"
 import { useRouter } from "next/navigation"
 
 interface Product {
@@ -52,6 +53,7 @@ export default function Header() {
   const [mounted, setMounted] = useState(false)
   const [searchQuery, setSearchQuery] = useState("")
   const [cartCount, setCartCount] = useState(0)
+  const compareIds = useCompareIds()
 
   // Enhanced search states
   const [suggestions, setSuggestions] = useState<Product[]>([])
@@ -604,6 +606,13 @@ export default function Header() {
                 Products
                 <span className="absolute -bottom-1 left-0 w-0 h-0.5 bg-gradient-to-r from-orange-600 to-red-600 group-hover:w-full transition-all duration-300"></span>
               </Link>
+              <Link
+                href="/products/compare"
+                className="text-gray-700 hover:text-orange-600 font-medium transition-colors relative group"
+              >
+                Compare{compareIds.length > 0 && ` (${compareIds.length})`}
+                <span className="absolute -bottom-1 left-0 w-0 h-0.5 bg-gradient-to-r from-orange-600 to-red-600 group-hover:w-full transition-all duration-300"></span>
+              </Link>
               <Link
                 href="/about"
                 className="text-gray-700 hover:text-orange-600 font-medium transition-colors relative group"
@@ -775,6 +784,13 @@ export default function Header() {
                 >
                   Products
                 </Link>
+                <Link
+                  href="/products/compare"
+                  className="block text-gray-700 hover:text-orange-600 font-medium py-2 transition-colors"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  Compare{compareIds.length > 0 && ` (${compareIds.length})`}
+                </Link>
                 <Link
                   href="/about"
                   className="block text-gray-700 hover:text-orange-600 font-medium py-2 transition-colors"
@@ -1,17 +1,20 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Bell, Package, Truck, Tag, RefreshCw } from "lucide-react"
+import { useRouter } from "next/navigation"
+import { Bell, Package, Truck, Tag, RefreshCw, RotateCcw, MessageSquare, AlertTriangle } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { useNotifications } from "@/contexts/notification-context"
 import { getCurrentUser } from "@/lib/auth"
+import type { Notification } from "@/lib/notifications"
 import type { User } from "@/lib/types"
 
 export default function NotificationDropdown() {
   const [isOpen, setIsOpen] = useState(false)
   const [user, setUser] = useState<User | null>(null)
+  const router = useRouter()
   const {
     notifications,
     unreadCount,
@@ -32,6 +35,13 @@ export default function NotificationDropdown() {
         return <Package className="w-4 h-4 text-blue-500" />
       case "shipping":
         return <Truck className="w-4 h-4 text-orange-500" />
+      case "return":
+        return <RotateCcw className="w-4 h-4 text-purple-500" />
+      case "order_note":
+        return <MessageSquare className="w-4 h-4 text-orange-500" />
+      case "low_stock":
+      case "stock_write_failed":
+        return <AlertTriangle className="w-4 h-4 text-red-500" />
       case "promotion":
         return <Tag className="w-4 h-4 text-green-500" />
       default:
@@ -39,6 +49,21 @@ export default function NotificationDropdown() {
     }
   }
 
+  // Mentions in internal order notes open the note thread on the admin order page, low-stock alerts open the
+  // product's inventory, and failed stock writes open the order
+  const getLink = (notification: Notification) => {
+    if (notification.type === "order_note" && notification.data?.order_id) {
+      return `/admin/orders/${notification.data.order_id}#notes`
+    }
+    if (notification.type === "low_stock" && notification.data?.product_id) {
+      return `/admin/products/${notification.data.product_id}#inventory`
+    }
+    if (notification.type === "stock_write_failed" && notification.data?.order_id) {
+      return `/admin/orders/${notification.data.order_id}`
+    }
+    return null
+  }
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString)
     const now = new Date()
@@ -129,6 +154,11 @@ export default function NotificationDropdown() {
                     if (!notification.read_at) {
                       markNotificationAsRead(notification.id)
                     }
+                    const link = getLink(notification)
+                    if (link) {
+                      setIsOpen(false)
+                      router.push(link)
+                    }
                   }}
                 >
                   <div className="flex items-start space-x-2 sm:space-x-3">
@@ -1,35 +1,17 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import {
-  X,
-  Package,
-  CheckCircle,
-  Clock,
-  Truck,
-  MapPin,
-  Calendar,
-} from "lucide-react";
+import { X, Package, MapPin, Calendar } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import ETrikeLoader from "@/components/ui/etrike-loader";
-
-interface TrackingTimelineItem {
-  status: string;
-  title: string;
-  description: string;
-  date: string;
-  completed: boolean;
-  tracking_number?: string;
-}
-
-interface TrackingInfo {
-  order_number: string;
-  status: string;
-  timeline: TrackingTimelineItem[];
-  estimated_delivery?: string;
-}
+import {
+  OrderEventList,
+  OrderProgress,
+} from "@/components/orders/order-timeline";
+import { getOrderStatusLabel } from "@/lib/order-status";
+import type { OrderTracking } from "@/lib/order-tracking";
 
 interface OrderTrackingModalProps {
   isOpen: boolean;
@@ -42,7 +24,7 @@ export default function OrderTrackingModal({
   onClose,
   orderId,
 }: OrderTrackingModalProps) {
-  const [trackingInfo, setTrackingInfo] = useState<TrackingInfo | null>(null);
+  const [trackingInfo, setTrackingInfo] = useState<OrderTracking | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -89,27 +71,6 @@ export default function OrderTrackingModal({
     }
   };
 
-  const getStatusIcon = (status: string, completed: boolean) => {
-    if (!completed) {
-      return <Clock className="w-5 h-5 text-gray-400" />;
-    }
-
-    switch (status) {
-      case "pending":
-        return <Package className="w-5 h-5 text-blue-500" />;
-      case "confirmed":
-        return <CheckCircle className="w-5 h-5 text-green-500" />;
-      case "processing":
-        return <Package className="w-5 h-5 text-purple-500" />;
-      case "shipped":
-        return <Truck className="w-5 h-5 text-orange-500" />;
-      case "delivered":
-        return <CheckCircle className="w-5 h-5 text-green-500" />;
-      default:
-        return <Clock className="w-5 h-5 text-gray-400" />;
-    }
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case "pending":
@@ -120,8 +81,12 @@ export default function OrderTrackingModal({
         return "bg-purple-100 text-purple-800 border-purple-200";
       case "shipped":
         return "bg-orange-100 text-orange-800 border-orange-200";
+      case "ready_for_pickup":
+        return "bg-teal-100 text-teal-800 border-teal-200";
       case "delivered":
         return "bg-green-100 text-green-800 border-green-200";
+      case "cancelled":
+        return "bg-red-100 text-red-800 border-red-200";
       default:
         return "bg-gray-100 text-gray-800 border-gray-200";
     }
@@ -172,12 +137,16 @@ export default function OrderTrackingModal({
                 <Badge
                   className={`${getStatusColor(trackingInfo.status)} px-3 py-1`}
                 >
-                  <span className="capitalize">{trackingInfo.status}</span>
+                  {getOrderStatusLabel(
+                    trackingInfo.status,
+                    trackingInfo.fulfillment_method
+                  )}
                 </Badge>
               </div>
 
               {/* Estimated Delivery */}
-              {trackingInfo.estimated_delivery && (
+              {trackingInfo.estimated_delivery &&
+                trackingInfo.status === "shipped" && (
                 <Card>
                   <CardContent className="p-4">
                     <div className="flex items-center space-x-3">
@@ -204,6 +173,19 @@ export default function OrderTrackingModal({
                 </Card>
               )}
 
+              {/* Progress */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Package className="w-5 h-5" />
+                    <span>Order Progress</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <OrderProgress steps={trackingInfo.steps} />
+                </CardContent>
+              </Card>
+
               {/* Timeline */}
               <Card>
                 <CardHeader>
@@ -213,57 +195,14 @@ export default function OrderTrackingModal({
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-4">
-                    {trackingInfo.timeline.map((item, index) => (
-                      <div key={index} className="flex items-start space-x-4">
-                        <div className="flex flex-col items-center">
-                          <div
-                            className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                              item.completed
-                                ? "bg-white border-2 border-current"
-                                : "bg-gray-100"
-                            }`}
-                          >
-                            {getStatusIcon(item.status, item.completed)}
-                          </div>
-                          {index < trackingInfo.timeline.length - 1 && (
-                            <div
-                              className={`w-0.5 h-8 mt-2 ${item.completed ? "bg-green-300" : "bg-gray-200"}`}
-                            />
-                          )}
-                        </div>
-                        <div className="flex-1 pb-4">
-                          <div className="flex items-center justify-between">
-                            <h4
-                              className={`font-medium ${item.completed ? "text-gray-900" : "text-gray-500"}`}
-                            >
-                              {item.title}
-                            </h4>
-                            <span className="text-sm text-gray-500">
-                              {new Date(item.date).toLocaleDateString("en-PH", {
-                                month: "short",
-                                day: "numeric",
-                                hour: "2-digit",
-                                minute: "2-digit",
-                              })}
-                            </span>
-                          </div>
-                          <p
-                            className={`text-sm mt-1 ${item.completed ? "text-gray-600" : "text-gray-400"}`}
-                          >
-                            {item.description}
-                          </p>
-                          {item.tracking_number && (
-                            <div className="mt-2">
-                              <Badge variant="outline" className="text-xs">
-                                Tracking: {item.tracking_number}
-                              </Badge>
-                            </div>
-                          )}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
+                  {trackingInfo.tracking_number && (
+                    <Badge variant="outline" className="text-xs mb-4">
+                      Tracking: {trackingInfo.tracking_number}
+                      {trackingInfo.courier_name &&
+                        ` (${trackingInfo.courier_name})`}
+                    </Badge>
+                  )}
+                  <OrderEventList tracking={trackingInfo} />
                 </CardContent>
               </Card>
 
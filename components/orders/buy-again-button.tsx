@@ -0,0 +1,137 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useClientToast } from "@/hooks/use-client-toast"
+import { buyAgain, formatPrice, type BuyAgainLine } from "@/lib/cart"
+
+interface BuyAgainButtonProps {
+  orderId: number
+  className?: string
+}
+
+function LineNotice({ line }: { line: BuyAgainLine }) {
+  if (line.error) return <Badge className="bg-red-100 text-red-800 border-red-200">{line.error}</Badge>
+
+  switch (line.status) {
+    case "out_of_stock":
+      return <Badge className="bg-red-100 text-red-800 border-red-200">Out of stock</Badge>
+    case "unavailable":
+      return (
+        <Badge className="bg-gray-100 text-gray-800 border-gray-200">
+          {line.color ? "Color no longer available" : "No longer available"}
+        </Badge>
+      )
+    case "price_changed":
+      return (
+        <Badge
+          className={
+            line.price > line.previous_price
+              ? "bg-orange-100 text-orange-800 border-orange-200"
+              : "bg-green-100 text-green-800 border-green-200"
+          }
+        >
+          Now {formatPrice(line.price)} (was {formatPrice(line.previous_price)})
+        </Badge>
+      )
+    default:
+      return <Badge className="bg-green-100 text-green-800 border-green-200">Added</Badge>
+  }
+}
+
+// Puts the items of a past order back in the cart. When everything is added unchanged it goes straight
+// to the cart; otherwise it lists what is out of stock, gone or priced differently now.
+export function BuyAgainButton({ orderId, className }: BuyAgainButtonProps) {
+  const router = useRouter()
+  const toast = useClientToast()
+  const [loading, setLoading] = useState(false)
+  const [lines, setLines] = useState<BuyAgainLine[] | null>(null)
+
+  const handleClick = async () => {
+    setLoading(true)
+    try {
+      const result = await buyAgain(orderId)
+
+      if (result.every((line) => line.added && line.status === "available")) {
+        toast.success("Added to Cart", `${result.length} item${result.length === 1 ? "" : "s"} from this order`)
+        router.push("/cart")
+      } else {
+        setLines(result)
+      }
+    } catch (error) {
+      toast.error("Buy Again Failed", error instanceof Error ? error.message : "Please try again.")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addedCount = lines?.filter((line) => line.added).length || 0
+
+  return (
+    <>
+      <Button
+        onClick={handleClick}
+        disabled={loading}
+        variant="outline"
+        className={className || "border-orange-200 text-orange-600 hover:bg-orange-50"}
+      >
+        <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+        {loading ? "Adding..." : "Buy Again"}
+      </Button>
+
+      <Dialog open={lines !== null} onOpenChange={(open) => !open && setLines(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {addedCount > 0 ? `${addedCount} of ${lines?.length} items added to your cart` : "Nothing was added"}
+            </DialogTitle>
+            <DialogDescription>
+              Some items from this order have changed since you bought them. Prices in your cart are today&apos;s
+              prices.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ul className="divide-y text-sm">
+            {lines?.map((line, index) => (
+              <li key={index} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">{line.name}</p>
+                  <p className="text-gray-500">
+                    Qty {line.quantity}
+                    {line.color && ` · ${line.color}`}
+                  </p>
+                </div>
+                <LineNotice line={line} />
+              </li>
+            ))}
+          </ul>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLines(null)}>
+              Close
+            </Button>
+            {addedCount > 0 && (
+              <Button
+                onClick={() => router.push("/cart")}
+                className="bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700"
+              >
+                View Cart
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,106 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Textarea } from "@/components/ui/textarea"
+import { cancelOrder, CANCEL_REASONS } from "@/lib/returns"
+
+interface CancelOrderDialogProps {
+  orderId: number
+  orderNumber: string
+  isPaid: boolean
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCancelled: (message: string) => void
+  onError: (message: string) => void
+}
+
+export function CancelOrderDialog({
+  orderId,
+  orderNumber,
+  isPaid,
+  open,
+  onOpenChange,
+  onCancelled,
+  onError,
+}: CancelOrderDialogProps) {
+  const [reason, setReason] = useState("")
+  const [note, setNote] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    try {
+      const message = await cancelOrder(orderId, reason, note.trim() || undefined)
+      onOpenChange(false)
+      onCancelled(message)
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Failed to cancel order")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cancel order #{orderNumber}?</DialogTitle>
+          <DialogDescription>
+            {isPaid
+              ? "Your payment will be refunded to the original payment method."
+              : "Nothing has been charged for this order yet."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="cancelReason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason <span className="text-red-500">*</span>
+            </label>
+            <select
+              id="cancelReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="h-10 w-full rounded-lg border-2 border-gray-200 focus:border-orange-500 px-3 bg-white text-sm"
+            >
+              <option value="">Select a reason</option>
+              {CANCEL_REASONS.map((option) => (
+                <option key={option.code} value={option.code}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="cancelNote" className="block text-sm font-medium text-gray-700 mb-1">
+              Anything else we should know?
+            </label>
+            <Textarea id="cancelNote" value={note} onChange={(e) => setNote(e.target.value)} maxLength={500} rows={3} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Keep Order
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!reason || submitting}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            {submitting ? "Cancelling..." : "Cancel Order"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
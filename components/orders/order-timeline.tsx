@@ -0,0 +1,152 @@
+"use client"
+
+import { AlertCircle, CheckCircle, Clock, MapPin, Package, SkipForward, Store, Truck, User } from "lucide-react"
+import type { OrderTracking, TrackingStep } from "@/lib/order-tracking"
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString("en-PH", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+
+const STEP_STYLES: Record<TrackingStep["state"], string> = {
+  done: "bg-green-500 text-white",
+  current: "bg-orange-500 text-white",
+  upcoming: "bg-gray-200 text-gray-400",
+  skipped: "bg-gray-100 text-gray-400 border-2 border-dashed border-gray-300",
+  cancelled: "bg-red-500 text-white",
+}
+
+const getStepIcon = (step: TrackingStep) => {
+  if (step.state === "cancelled") return <AlertCircle className="w-5 h-5" />
+  if (step.state === "skipped") return <SkipForward className="w-4 h-4" />
+  if (step.state === "done") return <CheckCircle className="w-5 h-5" />
+
+  switch (step.status) {
+    case "shipped":
+      return <Truck className="w-5 h-5" />
+    case "ready_for_pickup":
+      return <Store className="w-5 h-5" />
+    case "processing":
+      return <Package className="w-5 h-5" />
+    default:
+      return <Clock className="w-5 h-5" />
+  }
+}
+
+export function OrderProgress({ steps }: { steps: TrackingStep[] }) {
+  return (
+    <ol className="flex items-start justify-between">
+      {steps.map((step, index) => (
+        <li key={step.status} className="relative flex flex-col items-center flex-1 text-center">
+          {index > 0 && (
+            <div
+              className={`absolute top-5 right-1/2 w-full h-0.5 ${
+                step.state === "upcoming" ? "bg-gray-200" : step.state === "cancelled" ? "bg-red-200" : "bg-green-400"
+              }`}
+            />
+          )}
+          <div
+            className={`relative z-10 w-10 h-10 rounded-full flex items-center justify-center mb-2 ${STEP_STYLES[step.state]}`}
+          >
+            {getStepIcon(step)}
+          </div>
+          <span
+            className={`text-xs font-medium ${
+              step.state === "cancelled"
+                ? "text-red-600"
+                : step.state === "upcoming" || step.state === "skipped"
+                  ? "text-gray-400"
+                  : "text-gray-900"
+            }`}
+          >
+            {step.label}
+          </span>
+          <span className="text-[11px] text-gray-500 mt-0.5">
+            {step.state === "skipped"
+              ? "Skipped"
+              : step.reached_at
+                ? new Date(step.reached_at).toLocaleDateString("en-PH", { month: "short", day: "numeric" })
+                : ""}
+          </span>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+export function OrderEventList({ tracking }: { tracking: OrderTracking }) {
+  if (tracking.events.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Clock className="w-8 h-8 text-gray-400" />
+        </div>
+        <p className="text-gray-600">Order history will appear here once your order is processed.</p>
+      </div>
+    )
+  }
+
+  return (
+    <ol className="relative">
+      {tracking.events.map((event, index) => {
+        const isLatest = index === 0
+        const isCancelled = event.type === "status" && event.status === "cancelled"
+
+        return (
+          <li key={event.id} className="relative flex items-start gap-4 pb-6 last:pb-0">
+            {index < tracking.events.length - 1 && (
+              <div className="absolute left-[11px] top-7 w-0.5 h-[calc(100%-1.5rem)] bg-gray-200" />
+            )}
+
+            <div className="flex-shrink-0 mt-0.5">
+              {isCancelled ? (
+                <AlertCircle className="w-6 h-6 text-red-600" />
+              ) : event.type === "checkpoint" ? (
+                <MapPin className={`w-6 h-6 ${isLatest ? "text-orange-600" : "text-gray-400"}`} />
+              ) : (
+                <CheckCircle className={`w-6 h-6 ${isLatest ? "text-orange-600" : "text-green-600"}`} />
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+                <h4 className={`font-semibold ${isCancelled ? "text-red-700" : "text-gray-900"}`}>{event.title}</h4>
+                <time dateTime={event.occurred_at} className="text-sm text-gray-500 whitespace-nowrap">
+                  {formatDateTime(event.occurred_at)}
+                </time>
+              </div>
+
+              {event.description && <p className="text-sm text-gray-600 mt-1">{event.description}</p>}
+
+              {event.location && (
+                <div className="flex items-center gap-2 text-sm text-gray-600 mt-1">
+                  <MapPin className="w-3 h-3" />
+                  <span>{event.location}</span>
+                </div>
+              )}
+
+              {event.courier_name && (
+                <div className="flex items-center gap-2 text-sm text-gray-600 mt-1">
+                  <User className="w-3 h-3" />
+                  <span>Handled by: {event.courier_name}</span>
+                </div>
+              )}
+
+              {event.note && (
+                <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 mt-2">
+                  <p className="text-sm text-orange-800">
+                    <strong>Note:</strong> {event.note}
+                  </p>
+                </div>
+              )}
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
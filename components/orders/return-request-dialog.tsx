@@ -0,0 +1,177 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Camera, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  createReturnRequest,
+  MAX_RETURN_PHOTO_BYTES,
+  MAX_RETURN_PHOTOS,
+  RETURN_REASONS,
+  RETURN_WINDOW_DAYS,
+  type ReturnRequest,
+} from "@/lib/returns"
+
+interface ReturnRequestDialogProps {
+  orderId: number
+  orderNumber: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmitted: (request: ReturnRequest) => void
+  onError: (message: string) => void
+}
+
+export function ReturnRequestDialog({
+  orderId,
+  orderNumber,
+  open,
+  onOpenChange,
+  onSubmitted,
+  onError,
+}: ReturnRequestDialogProps) {
+  const [reason, setReason] = useState("")
+  const [details, setDetails] = useState("")
+  const [photos, setPhotos] = useState<File[]>([])
+  const [previews, setPreviews] = useState<string[]>([])
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    const urls = photos.map((photo) => URL.createObjectURL(photo))
+    setPreviews(urls)
+    return () => urls.forEach((url) => URL.revokeObjectURL(url))
+  }, [photos])
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || [])
+    e.target.value = ""
+
+    if (selected.some((file) => !file.type.startsWith("image/") || file.size > MAX_RETURN_PHOTO_BYTES)) {
+      onError("Photos must be images no larger than 5 MB each")
+      return
+    }
+
+    setPhotos((prev) => [...prev, ...selected].slice(0, MAX_RETURN_PHOTOS))
+  }
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    try {
+      const request = await createReturnRequest(orderId, { reason, details: details.trim(), photos })
+      onOpenChange(false)
+      setReason("")
+      setDetails("")
+      setPhotos([])
+      onSubmitted(request)
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Failed to submit return request")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Return or refund for #{orderNumber}</DialogTitle>
+          <DialogDescription>
+            Returns are accepted within {RETURN_WINDOW_DAYS} days of delivery. We&apos;ll review your request and tell
+            you how to send the item back.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="returnReason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason <span className="text-red-500">*</span>
+            </label>
+            <select
+              id="returnReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="h-10 w-full rounded-lg border-2 border-gray-200 focus:border-orange-500 px-3 bg-white text-sm"
+            >
+              <option value="">Select a reason</option>
+              {RETURN_REASONS.map((option) => (
+                <option key={option.code} value={option.code}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="returnDetails" className="block text-sm font-medium text-gray-700 mb-1">
+              What went wrong? <span className="text-red-500">*</span>
+            </label>
+            <Textarea
+              id="returnDetails"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={2000}
+              rows={4}
+              placeholder="Describe the problem, e.g. the motor stops after a few minutes of riding"
+            />
+          </div>
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">
+              Photos <span className="text-red-500">*</span>{" "}
+              <span className="text-gray-500 font-normal">
+                ({photos.length}/{MAX_RETURN_PHOTOS})
+              </span>
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {previews.map((preview, index) => (
+                <div key={preview} className="relative w-20 h-20">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={preview}
+                    alt={`Return evidence ${index + 1}`}
+                    className="w-20 h-20 object-cover rounded-lg border"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setPhotos((prev) => prev.filter((_, i) => i !== index))}
+                    className="absolute -top-2 -right-2 bg-white rounded-full shadow p-0.5"
+                    aria-label="Remove photo"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_RETURN_PHOTOS && (
+                <label className="w-20 h-20 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg cursor-pointer text-gray-500 hover:border-orange-400">
+                  <Camera className="w-5 h-5" />
+                  <span className="text-xs mt-1">Add</span>
+                  <input type="file" accept="image/*" multiple onChange={handlePhotoChange} className="hidden" />
+                </label>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!reason || details.trim().length < 10 || photos.length === 0 || submitting}
+            className="bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700"
+          >
+            {submitting ? "Submitting..." : "Submit Request"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import Link from "next/link";
+import { Scale, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useCompareIds } from "@/hooks/use-compare";
+import {
+  buildCompareUrl,
+  clearCompare,
+  MAX_COMPARE_PRODUCTS,
+} from "@/lib/compare";
+
+// Floating shortcut to the comparison once products are picked
+export default function CompareBar() {
+  const ids = useCompareIds();
+
+  if (ids.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 z-40 -translate-x-1/2 flex items-center gap-3 rounded-full border border-orange-200 bg-white px-4 py-2 shadow-xl">
+      <span className="text-sm font-medium text-gray-700">
+        {ids.length} of {MAX_COMPARE_PRODUCTS} selected
+      </span>
+      <Button
+        asChild
+        size="sm"
+        className="rounded-full bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700"
+      >
+        <Link href={buildCompareUrl(ids)}>
+          <Scale className="w-4 h-4 mr-2" />
+          Compare
+        </Link>
+      </Button>
+      <button
+        type="button"
+        onClick={clearCompare}
+        className="text-gray-400 hover:text-red-600"
+        aria-label="Clear comparison"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -3,32 +3,41 @@
 import React, { useState } from "react"
 import { useRouter } from "next/navigation"
 import Image from "next/image"
-import { ShoppingCart, Heart, Star } from 'lucide-react'
+import { ShoppingCart, Heart, Star, Scale, Check } from 'lucide-react'
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { addToCart } from "@/lib/cart"
 import { useClientToast } from "@/hooks/use-client-toast"
+import { useCompareIds } from "@/hooks/use-compare"
+import { MAX_COMPARE_PRODUCTS, toggleCompare } from "@/lib/compare"
 
 interface ProductCardProps {
   product: {
-    id: string | number
+    id?: string | number
     name: string
     price: number
     original_price?: number
     description: string
-    images: string[]
+    images?: string[]
     category: string
     in_stock: boolean
     featured?: boolean
     model?: string
   }
+  // The catalog's list view lays the image beside the details
+  layout?: "grid" | "list"
+  // Runs before opening the product page, e.g. so the catalog can restore its scroll position on back
+  onOpen?: () => void
 }
 
-const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
+const ProductCard: React.FC<ProductCardProps> = ({ product, layout = "grid", onOpen }) => {
   const router = useRouter()
   const toast = useClientToast()
   const [isAdding, setIsAdding] = useState(false)
   const [imageError, setImageError] = useState(false)
+  const compareIds = useCompareIds()
+  const isComparing = compareIds.includes(Number(product.id))
+  const isList = layout === "list"
 
   const handleAddToCart = async (event: React.MouseEvent) => {
     // Prevent card click when clicking add to cart button
@@ -88,26 +97,50 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
   }
 
   const handleCardClick = () => {
+    onOpen?.()
     router.push(`/products/${product.id}`)
   }
 
+  // Enter on the focused card opens it too; keys pressed on its buttons are left to them
+  const handleCardKeyDown = (event: React.KeyboardEvent) => {
+    if (event.target === event.currentTarget && event.key === "Enter") handleCardClick()
+  }
+
   const handleWishlistClick = (event: React.MouseEvent) => {
     // Prevent card click when clicking wishlist button
     event.stopPropagation()
     // Add wishlist functionality here
   }
 
+  const handleCompareClick = (event: React.MouseEvent) => {
+    event.stopPropagation()
+
+    const result = toggleCompare(Number(product.id))
+    if (result.full) {
+      toast.warning("Compare list full", `You can compare up to ${MAX_COMPARE_PRODUCTS} products. Remove one first.`)
+    }
+  }
+
   const discountPercentage = product.original_price
     ? Math.round(((product.original_price - product.price) / product.original_price) * 100)
     : 0
 
   return (
     <div
+      role="link"
+      tabIndex={0}
       onClick={handleCardClick}
-      className="group bg-white rounded-3xl shadow-lg hover:shadow-2xl transition-all duration-500 overflow-hidden border border-orange-100 hover:border-orange-300 cursor-pointer"
+      onKeyDown={handleCardKeyDown}
+      className={`group bg-white rounded-3xl shadow-lg hover:shadow-2xl transition-all duration-500 overflow-hidden border border-orange-100 hover:border-orange-300 cursor-pointer ${
+        isList ? "sm:flex" : ""
+      }`}
     >
       {/* Image Container - Fixed aspect ratio with better image handling */}
-      <div className="relative h-64 overflow-hidden bg-gradient-to-br from-orange-50 to-orange-100">
+      <div
+        className={`relative h-64 overflow-hidden bg-gradient-to-br from-orange-50 to-orange-100 ${
+          isList ? "sm:h-auto sm:w-64 sm:flex-shrink-0" : ""
+        }`}
+      >
         <Image
           src={product.images?.[0] || "/placeholder.svg?height=256&width=320"}
           alt={product.name}
@@ -116,7 +149,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
             imageError ? "object-cover" : ""
           }`}
           onError={() => setImageError(true)}
-          sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+          sizes={isList ? "(max-width: 640px) 100vw, 256px" : "(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"}
         />
 
         {/* Enhanced Badges */}
@@ -144,7 +177,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
       </div>
 
       {/* Content Section */}
-      <div className="p-6">
+      <div className={`p-6 ${isList ? "sm:flex-1" : ""}`}>
         {/* Category Badge */}
         <Badge
           variant="outline"
@@ -214,6 +247,20 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
             "Out of Stock"
           )}
         </Button>
+
+        <Button
+          variant="outline"
+          onClick={handleCompareClick}
+          aria-pressed={isComparing}
+          className={`w-full h-10 mt-3 font-semibold ${
+            isComparing
+              ? "border-orange-500 bg-orange-50 text-orange-700 hover:bg-orange-100"
+              : "border-orange-200 text-gray-700 hover:bg-orange-50"
+          }`}
+        >
+          {isComparing ? <Check className="w-4 h-4 mr-2" /> : <Scale className="w-4 h-4 mr-2" />}
+          {isComparing ? "Added to compare" : "Add to compare"}
+        </Button>
       </div>
     </div>
   )
@@ -0,0 +1,245 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { BadgeCheck, MessageSquareQuote, PenLine, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useETrikeToast } from "@/components/ui/toast-container"
+import StarRating from "@/components/product/star-rating"
+import { ReviewFormDialog } from "@/components/product/review-form-dialog"
+import { getCurrentUser } from "@/lib/auth"
+import {
+  getProductReviews,
+  REVIEW_SORTS,
+  summarizeRatings,
+  type ProductReview,
+  type RatingSummary,
+  type ReviewSort,
+} from "@/lib/reviews"
+
+const REVIEWS_PER_PAGE = 5
+
+interface ProductReviewsProps {
+  productId: number
+  productName: string
+}
+
+// Published reviews with the rating histogram. Clicking a histogram row shows only that star rating.
+export default function ProductReviews({ productId, productName }: ProductReviewsProps) {
+  const router = useRouter()
+  const toast = useETrikeToast()
+  const [reviews, setReviews] = useState<ProductReview[]>([])
+  const [summary, setSummary] = useState<RatingSummary>(summarizeRatings([]))
+  const [sort, setSort] = useState<ReviewSort>("newest")
+  const [ratingFilter, setRatingFilter] = useState<number | null>(null)
+  const [visible, setVisible] = useState(REVIEWS_PER_PAGE)
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+
+  useEffect(() => {
+    setLoading(true)
+    getProductReviews(productId, sort)
+      .then((result) => {
+        setReviews(result.reviews)
+        setSummary(result.summary)
+      })
+      .finally(() => setLoading(false))
+  }, [productId, sort])
+
+  const handleWriteReview = () => {
+    if (!getCurrentUser()) {
+      toast.warning("Login Required", "Please log in to write a review")
+      router.push("/login")
+      return
+    }
+
+    setDialogOpen(true)
+  }
+
+  const handleRatingFilter = (rating: number) => {
+    setRatingFilter((current) => (current === rating ? null : rating))
+    setVisible(REVIEWS_PER_PAGE)
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    })
+  }
+
+  const shown = reviews.filter((review) => ratingFilter === null || review.rating === ratingFilter)
+
+  return (
+    <Card id="reviews" className="mt-12 shadow-xl border-2 border-orange-200">
+      <CardHeader className="bg-gradient-to-r from-orange-100 to-red-100">
+        <CardTitle className="text-2xl flex items-center font-bold text-gray-900">
+          <MessageSquareQuote className="w-8 h-8 mr-3 text-orange-500" />
+          Customer Reviews
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Rating Summary */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-4">
+              <span className="text-5xl font-bold text-gray-900">
+                {summary.count > 0 ? summary.average.toFixed(1) : "—"}
+              </span>
+              <div>
+                <StarRating rating={summary.average} className="w-5 h-5" />
+                <p className="text-sm text-gray-600">
+                  {summary.count} review{summary.count !== 1 ? "s" : ""}
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              {summary.histogram.map(({ rating, count }) => (
+                <button
+                  key={rating}
+                  type="button"
+                  onClick={() => handleRatingFilter(rating)}
+                  disabled={count === 0}
+                  aria-pressed={ratingFilter === rating}
+                  className={`w-full flex items-center gap-2 rounded px-1 py-0.5 text-sm disabled:cursor-default ${
+                    ratingFilter === rating ? "bg-orange-50" : "hover:bg-orange-50 disabled:hover:bg-transparent"
+                  }`}
+                >
+                  <span className="w-12 text-left text-gray-700">{rating} star</span>
+                  <span className="flex-1 h-2.5 rounded-full bg-gray-200 overflow-hidden">
+                    <span
+                      className="block h-full bg-yellow-400"
+                      style={{ width: `${summary.count > 0 ? (count / summary.count) * 100 : 0}%` }}
+                    />
+                  </span>
+                  <span className="w-8 text-right text-gray-500">{count}</span>
+                </button>
+              ))}
+            </div>
+
+            <Button
+              onClick={handleWriteReview}
+              className="w-full bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700"
+            >
+              <PenLine className="w-4 h-4 mr-2" />
+              Write a review
+            </Button>
+          </div>
+
+          {/* Review List */}
+          <div className="lg:col-span-2 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              {ratingFilter !== null ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRatingFilter(null)}
+                  className="text-orange-600 hover:bg-orange-50"
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Showing {ratingFilter}-star reviews
+                </Button>
+              ) : (
+                <span />
+              )}
+              <select
+                value={sort}
+                onChange={(e) => {
+                  setSort(e.target.value as ReviewSort)
+                  setVisible(REVIEWS_PER_PAGE)
+                }}
+                className="px-3 py-2 border border-orange-200 rounded-lg text-sm focus:border-orange-500 focus:outline-none"
+                aria-label="Sort reviews"
+              >
+                {REVIEW_SORTS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-500" />
+              </div>
+            ) : shown.length === 0 ? (
+              <p className="py-8 text-center text-gray-600">
+                {reviews.length === 0 ? "No reviews yet. Be the first to share your experience." : "No reviews match."}
+              </p>
+            ) : (
+              <>
+                {shown.slice(0, visible).map((review) => (
+                  <article key={review.id} className="border-b border-orange-100 pb-4 last:border-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <StarRating rating={review.rating} />
+                      <h3 className="font-bold text-gray-900">{review.title}</h3>
+                    </div>
+                    <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                      <span>{review.reviewer_name}</span>
+                      <span>·</span>
+                      <span>{formatDate(review.created_at)}</span>
+                      {review.verified_purchase && (
+                        <Badge className="bg-green-100 text-green-700 border-green-200 gap-1">
+                          <BadgeCheck className="w-3 h-3" />
+                          Verified purchase
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="mt-2 text-sm text-gray-700 whitespace-pre-line">{review.body}</p>
+                    {review.photos.length > 0 && (
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        {review.photos.map((photo, index) => (
+                          <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img
+                              src={photo}
+                              alt={`Attachment ${index + 1} from ${review.reviewer_name}`}
+                              className="w-20 h-20 object-cover rounded-lg border hover:opacity-80"
+                            />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </article>
+                ))}
+
+                {shown.length > visible && (
+                  <div className="flex justify-center">
+                    <Button
+                      variant="outline"
+                      onClick={() => setVisible((count) => count + REVIEWS_PER_PAGE)}
+                      className="border-orange-200 hover:bg-orange-50"
+                    >
+                      Show more reviews ({shown.length - visible} remaining)
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </CardContent>
+
+      <ReviewFormDialog
+        productId={productId}
+        productName={productName}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSubmitted={(review) =>
+          toast.success(
+            "Review Submitted",
+            review.verified_purchase
+              ? "Thanks! Your verified review will appear once it's approved."
+              : "Thanks! Your review will appear once it's approved.",
+          )
+        }
+        onError={(message) => toast.error("Review Not Submitted", message)}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,202 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Camera, Star, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  createProductReview,
+  MAX_REVIEW_PHOTO_BYTES,
+  MAX_REVIEW_PHOTOS,
+  MAX_REVIEW_TITLE_LENGTH,
+  MIN_REVIEW_BODY_LENGTH,
+  type ProductReview,
+} from "@/lib/reviews"
+
+interface ReviewFormDialogProps {
+  productId: number
+  productName: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmitted: (review: ProductReview) => void
+  onError: (message: string) => void
+}
+
+const RATING_LABELS = ["", "Poor", "Fair", "Good", "Very good", "Excellent"]
+
+export function ReviewFormDialog({
+  productId,
+  productName,
+  open,
+  onOpenChange,
+  onSubmitted,
+  onError,
+}: ReviewFormDialogProps) {
+  const [rating, setRating] = useState(0)
+  const [hoverRating, setHoverRating] = useState(0)
+  const [title, setTitle] = useState("")
+  const [body, setBody] = useState("")
+  const [photos, setPhotos] = useState<File[]>([])
+  const [previews, setPreviews] = useState<string[]>([])
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    const urls = photos.map((photo) => URL.createObjectURL(photo))
+    setPreviews(urls)
+    return () => urls.forEach((url) => URL.revokeObjectURL(url))
+  }, [photos])
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || [])
+    e.target.value = ""
+
+    if (selected.some((file) => !file.type.startsWith("image/") || file.size > MAX_REVIEW_PHOTO_BYTES)) {
+      onError("Photos must be images no larger than 5 MB each")
+      return
+    }
+
+    setPhotos((prev) => [...prev, ...selected].slice(0, MAX_REVIEW_PHOTOS))
+  }
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    try {
+      const review = await createProductReview(productId, { rating, title: title.trim(), body: body.trim(), photos })
+      onOpenChange(false)
+      setRating(0)
+      setTitle("")
+      setBody("")
+      setPhotos([])
+      onSubmitted(review)
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Failed to submit review")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Review {productName}</DialogTitle>
+          <DialogDescription>
+            Reviews are checked by our team before they appear. Reviews from customers with a delivered order are marked
+            as verified purchases.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">
+              Rating <span className="text-red-500">*</span>
+            </p>
+            <div className="flex items-center gap-1" onMouseLeave={() => setHoverRating(0)}>
+              {[1, 2, 3, 4, 5].map((star) => (
+                <button
+                  key={star}
+                  type="button"
+                  onClick={() => setRating(star)}
+                  onMouseEnter={() => setHoverRating(star)}
+                  aria-label={`${star} star${star > 1 ? "s" : ""}`}
+                  aria-pressed={rating === star}
+                >
+                  <Star
+                    className={`w-7 h-7 ${
+                      star <= (hoverRating || rating) ? "fill-yellow-400 text-yellow-400" : "text-gray-300"
+                    }`}
+                  />
+                </button>
+              ))}
+              <span className="ml-2 text-sm text-gray-600">{RATING_LABELS[hoverRating || rating]}</span>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="reviewTitle" className="block text-sm font-medium text-gray-700 mb-1">
+              Title <span className="text-red-500">*</span>
+            </label>
+            <Input
+              id="reviewTitle"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={MAX_REVIEW_TITLE_LENGTH}
+              placeholder="e.g. Great range for daily deliveries"
+            />
+          </div>
+          <div>
+            <label htmlFor="reviewBody" className="block text-sm font-medium text-gray-700 mb-1">
+              Your review <span className="text-red-500">*</span>
+            </label>
+            <Textarea
+              id="reviewBody"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              maxLength={5000}
+              rows={5}
+              placeholder="How do you use it? How is the battery, ride and build quality?"
+            />
+            <p className="mt-1 text-xs text-gray-500">At least {MIN_REVIEW_BODY_LENGTH} characters</p>
+          </div>
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">
+              Photos{" "}
+              <span className="text-gray-500 font-normal">
+                (optional, {photos.length}/{MAX_REVIEW_PHOTOS})
+              </span>
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {previews.map((preview, index) => (
+                <div key={preview} className="relative w-20 h-20">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={preview}
+                    alt={`Review attachment ${index + 1}`}
+                    className="w-20 h-20 object-cover rounded-lg border"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setPhotos((prev) => prev.filter((_, i) => i !== index))}
+                    className="absolute -top-2 -right-2 bg-white rounded-full shadow p-0.5"
+                    aria-label="Remove photo"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_REVIEW_PHOTOS && (
+                <label className="w-20 h-20 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg cursor-pointer text-gray-500 hover:border-orange-400">
+                  <Camera className="w-5 h-5" />
+                  <span className="text-xs mt-1">Add</span>
+                  <input type="file" accept="image/*" multiple onChange={handlePhotoChange} className="hidden" />
+                </label>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!rating || !title.trim() || body.trim().length < MIN_REVIEW_BODY_LENGTH || submitting}
+            className="bg-gradient-to-r from-orange-600 to-red-600 hover:from-orange-700 hover:to-red-700"
+          >
+            {submitting ? "Submitting..." : "Submit Review"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
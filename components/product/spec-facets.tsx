@@ -0,0 +1,158 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { hasFacetFilters, type FacetFilters, type NumericFacet, type ProductFacets } from "@/lib/product-facets"
+
+interface SpecFacetsProps {
+  facets: ProductFacets
+  filters: FacetFilters
+  onChange: (filters: FacetFilters) => void
+}
+
+const getStep = (facet: NumericFacet) => {
+  const span = facet.max - facet.min
+  return span > 1000 ? 50 : span > 100 ? 5 : 1
+}
+
+function RangeFacet({
+  facet,
+  range,
+  onCommit,
+}: {
+  facet: NumericFacet
+  range?: { min?: number; max?: number }
+  onCommit: (range?: { min?: number; max?: number }) => void
+}) {
+  const applied: [number, number] = [range?.min ?? facet.min, range?.max ?? facet.max]
+  // Follows the thumbs while dragging; the filter is only applied on release
+  const [draft, setDraft] = useState<number[]>(applied)
+
+  useEffect(() => setDraft(applied), [applied[0], applied[1]])
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline justify-between text-sm">
+        <span className="font-semibold text-gray-900">{facet.label}</span>
+        <span className="text-xs text-gray-500">{facet.count} products</span>
+      </div>
+      <Slider
+        min={facet.min}
+        max={facet.max}
+        step={getStep(facet)}
+        value={draft}
+        onValueChange={setDraft}
+        onValueCommit={([min, max]) =>
+          onCommit(
+            min <= facet.min && max >= facet.max
+              ? undefined
+              : { min: min > facet.min ? min : undefined, max: max < facet.max ? max : undefined },
+          )
+        }
+        minStepsBetweenThumbs={0}
+        aria-label={facet.label}
+      />
+      <div className="flex justify-between text-xs text-gray-600">
+        <span>
+          {draft[0].toLocaleString()} {facet.unit}
+        </span>
+        <span>
+          {draft[1].toLocaleString()} {facet.unit}
+        </span>
+      </div>
+    </div>
+  )
+}
+
+// Spec filters for the catalog: sliders for numbers read from the specifications and checkboxes with
+// counts for battery type and ideal use
+export default function SpecFacets({ facets, filters, onChange }: SpecFacetsProps) {
+  if (facets.numeric.length === 0 && facets.terms.length === 0) return null
+
+  const setRange = (key: string, range?: { min?: number; max?: number }) => {
+    const ranges = { ...filters.ranges }
+    if (range) ranges[key] = range
+    else delete ranges[key]
+    onChange({ ...filters, ranges })
+  }
+
+  const toggleTerm = (key: string, value: string) => {
+    const current = filters.terms[key] || []
+    const next = current.some((item) => item.toLowerCase() === value.toLowerCase())
+      ? current.filter((item) => item.toLowerCase() !== value.toLowerCase())
+      : [...current, value]
+    onChange({ ...filters, terms: { ...filters.terms, [key]: next } })
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-gray-900">Filter by specifications</h3>
+        {hasFacetFilters(filters) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ranges: {}, terms: {} })}
+            className="text-orange-600 hover:bg-orange-50"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+
+      {facets.numeric.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {facets.numeric
+            .filter((facet) => facet.max > facet.min)
+            .map((facet) => (
+              <RangeFacet
+                key={facet.key}
+                facet={facet}
+                range={filters.ranges[facet.key]}
+                onCommit={(range) => setRange(facet.key, range)}
+              />
+            ))}
+        </div>
+      )}
+
+      {facets.terms.map((facet) => (
+        <fieldset key={facet.key}>
+          <legend className="mb-2 text-sm font-semibold text-gray-900">{facet.label}</legend>
+          <div className="flex flex-wrap gap-2">
+            {facet.options.map((option) => {
+              const checked = (filters.terms[facet.key] || []).some(
+                (item) => item.toLowerCase() === option.value.toLowerCase(),
+              )
+
+              return (
+                <label
+                  key={option.value}
+                  className={`flex items-center gap-2 rounded-full border px-3 py-1 text-sm cursor-pointer ${
+                    checked
+                      ? "border-orange-500 bg-orange-50 text-orange-700"
+                      : option.count === 0
+                        ? "border-gray-200 text-gray-400"
+                        : "border-orange-200 text-gray-700 hover:bg-orange-50"
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={() => toggleTerm(facet.key, option.value)}
+                    disabled={!checked && option.count === 0}
+                    className="w-3.5 h-3.5 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
+                  />
+                  {option.value}
+                  <span className="text-xs text-gray-500">({option.count})</span>
+                </label>
+              )
+            })}
+          </div>
+        </fieldset>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,15 @@
+import { Star } from "lucide-react"
+
+// Read-only row of five stars, filled up to the rating
+export default function StarRating({ rating, className = "w-4 h-4" }: { rating: number; className?: string }) {
+  return (
+    <span className="inline-flex" role="img" aria-label={`${rating} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <Star
+          key={star}
+          className={`${className} ${star <= Math.round(rating) ? "fill-yellow-400 text-yellow-400" : "text-gray-300"}`}
+        />
+      ))}
+    </span>
+  )
+}
@@ -0,0 +1,23 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { COMPARE_UPDATED_EVENT, getCompareIds } from "@/lib/compare"
+
+// The compare shortlist, kept in sync across cards, the compare bar and other tabs
+export const useCompareIds = () => {
+  const [ids, setIds] = useState<number[]>([])
+
+  useEffect(() => {
+    const sync = () => setIds(getCompareIds())
+
+    sync()
+    window.addEventListener(COMPARE_UPDATED_EVENT, sync)
+    window.addEventListener("storage", sync)
+    return () => {
+      window.removeEventListener(COMPARE_UPDATED_EVENT, sync)
+      window.removeEventListener("storage", sync)
+    }
+  }, [])
+
+  return ids
+}
@@ -0,0 +1,28 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+// Calls onLoadMore when the returned sentinel element nears the viewport. Browsers without
+// IntersectionObserver get nothing here, so lists keep a "Load more" button as well.
+export const useInfiniteScroll = (onLoadMore: () => void, enabled: boolean) => {
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  const loadMoreRef = useRef(onLoadMore)
+  loadMoreRef.current = onLoadMore
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!enabled || !sentinel || typeof IntersectionObserver === "undefined") return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMoreRef.current()
+      },
+      { rootMargin: "600px 0px" },
+    )
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [enabled])
+
+  return sentinelRef
+}
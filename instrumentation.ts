@@ -0,0 +1,17 @@
+// Runs once when the server starts. Production refuses to boot with missing settings; dev only warns so the
+// storefront can run without gateway or carrier accounts.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+
+  const { getServerConfigErrors } = await import("@/lib/server-config")
+  const errors = getServerConfigErrors()
+  if (errors.length === 0) return
+
+  const message = `Server configuration is incomplete:\n- ${errors.join("\n- ")}`
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(message)
+  }
+
+  console.warn(`${message}\nSee .env.example, or set PAYMENT_GATEWAY_MODE=mock and COURIER_MODE=mock for local dev.`)
+}
@@ -1,3 +1,7 @@
+import { appendFacetFilters, type FacetFilters, type ProductFacets } from "./product-facets"
+import { PRODUCTS_PER_PAGE } from "./product-list"
+import type { ProductVariant } from "./variants"
+
 export interface ProductData {
   id?: number
   name: string
@@ -9,6 +13,14 @@ export interface ProductData {
   specifications?: any
   ideal_for?: string[]
   colors?: Array<{ name: string; value: string }>
+  // Size or battery options, e.g. "60V 32Ah"
+  sizes?: string[]
+  variants?: ProductVariant[]
+  // On-hand count for products without variants; null when stock isn't counted
+  stock_quantity?: number | null
+  reserved_quantity?: number
+  // Admins are notified when available stock falls to this level
+  low_stock_threshold?: number | null
   in_stock: boolean
   featured: boolean
   images?: string[]
@@ -20,6 +32,8 @@ export interface ProductFilters {
   min_price?: number
   max_price?: number
   in_stock?: boolean
+  // Range, battery, motor and passenger filters read from the specifications
+  specs?: FacetFilters
   sort_by?: string
   sort_order?: string
 }
@@ -31,6 +45,7 @@ interface GetProductsParams {
   min_price?: number
   max_price?: number
   in_stock?: boolean
+  specs?: FacetFilters
   sort_by?: string
   sort_order?: "asc" | "desc"
 }
@@ -70,6 +85,32 @@ class ProductApi {
   }
 
   async getProducts(params?: GetProductsParams): Promise<ProductData[]> {
+    return (await this.fetchProducts(params)).products
+  }
+
+  // One page of the catalog, searched and sorted by /api/products. Ask for facets with the first page only,
+  // they cover every page.
+  async getProductPage(params: GetProductsParams & { page: number; per_page?: number }, withFacets = false) {
+    const { page, per_page = PRODUCTS_PER_PAGE, ...filters } = params
+    const { products, facets, data } = await this.fetchProducts(filters, {
+      page: String(page),
+      per_page: String(per_page),
+      ...(withFacets ? { with_facets: "1" } : {}),
+    })
+
+    return {
+      products,
+      facets: (facets || { numeric: [], terms: [] }) as ProductFacets,
+      page: Number(data.current_page) || page,
+      lastPage: Number(data.last_page) || page,
+      total: Number(data.total) || products.length,
+    }
+  }
+
+  private async fetchProducts(
+    params?: GetProductsParams,
+    extra: Record<string, string> = {},
+  ): Promise<{ products: ProductData[]; facets?: ProductFacets; data: any }> {
     try {
       const searchParams = new URLSearchParams()
 
@@ -102,6 +143,12 @@ class ProductApi {
         searchParams.append("sort_order", params.sort_order)
       }
 
+      if (params?.specs) {
+        appendFacetFilters(searchParams, params.specs)
+      }
+
+      Object.entries(extra).forEach(([key, value]) => searchParams.append(key, value))
+
       const url = `${this.baseUrl}${searchParams.toString() ? `?${searchParams.toString()}` : ""}`
 
       console.log("Fetching products from:", url)
@@ -122,16 +169,16 @@ class ProductApi {
 
       // Handle both direct array response and Laravel API response structure
       if (Array.isArray(data)) {
-        return data
+        return { products: data, data }
       }
 
       // Handle Laravel API response structure
       if (data.success && data.data) {
-        return Array.isArray(data.data) ? data.data : [data.data]
+        return { products: Array.isArray(data.data) ? data.data : [data.data], facets: data.facets, data }
       }
 
       // Fallback for other response structures
-      return data.data || data || []
+      return { products: data.data || data || [], facets: data.facets, data }
     } catch (error) {
       console.error("Error fetching products:", error)
       throw error
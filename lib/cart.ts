@@ -1,10 +1,15 @@
 import { getAuthToken } from "./auth"
+import type { ReorderLine } from "./order-items"
 
 export interface CartItem {
   id: string
   product_id: number
   quantity: number
   color?: string
+  // Set when the product is sold in variants; price is then the variant's price
+  variant_id?: number | null
+  sku?: string | null
+  option?: string | null
   name: string
   price: number
   image_url: string
@@ -145,7 +150,12 @@ export async function getCart(): Promise<CartItem[]> {
   }
 }
 
-export async function addToCart(productId: number, quantity = 1, color?: string): Promise<CartItem | null> {
+export async function addToCart(
+  productId: number,
+  quantity = 1,
+  color?: string,
+  variantId?: number | null,
+): Promise<CartItem | null> {
   try {
     const safeQuantity = Math.max(1, safeNumber(quantity))
     const sessionId = GuestSession.getSessionId()
@@ -157,6 +167,7 @@ export async function addToCart(productId: number, quantity = 1, color?: string)
         product_id: productId,
         quantity: safeQuantity,
         color,
+        variant_id: variantId ?? undefined,
         session_id: sessionId,
       }),
     })
@@ -189,6 +200,44 @@ export async function addToCart(productId: number, quantity = 1, color?: string)
   }
 }
 
+export interface BuyAgainLine extends ReorderLine {
+  added: boolean
+  error?: string
+}
+
+// Adds the lines of a past order that can still be bought, at today's price. Lines that are out of stock
+// or no longer sold are left out and reported back together with any price changes.
+export async function buyAgain(orderId: number | string): Promise<BuyAgainLine[]> {
+  const response = await fetch(`/api/orders/${orderId}/reorder`, {
+    method: "GET",
+    headers: getRequestHeaders(),
+  })
+
+  const data: { success: boolean; message?: string; data?: ReorderLine[] } = await response.json()
+
+  if (!data.success || !Array.isArray(data.data)) {
+    throw new Error(data.message || "Failed to load the order items")
+  }
+
+  // One at a time so the cart sees each add before the next
+  const lines: BuyAgainLine[] = []
+  for (const line of data.data) {
+    if (line.status === "out_of_stock" || line.status === "unavailable") {
+      lines.push({ ...line, added: false })
+      continue
+    }
+
+    try {
+      await addToCart(Number(line.product_id), line.quantity, line.color || undefined, line.variant_id)
+      lines.push({ ...line, added: true })
+    } catch (error) {
+      lines.push({ ...line, added: false, error: error instanceof Error ? error.message : "Failed to add to cart" })
+    }
+  }
+
+  return lines
+}
+
 export async function updateCartQuantity(itemId: string, quantity: number): Promise<boolean> {
   try {
     const safeQuantity = Math.max(1, safeNumber(quantity))
@@ -0,0 +1,158 @@
+// Product comparison: the buyer's shortlist (kept in localStorage so it follows them between pages) and the
+// spec-by-spec table for /products/compare. The page URL carries the ids, so a comparison can be shared.
+
+export const MAX_COMPARE_PRODUCTS = 4
+
+const STORAGE_KEY = "compare_products"
+
+export const COMPARE_UPDATED_EVENT = "compareUpdated"
+
+export function getCompareIds(): number[] {
+  if (typeof window === "undefined") return []
+
+  try {
+    return parseCompareIds(JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]").join(","))
+  } catch {
+    return []
+  }
+}
+
+export function setCompareIds(ids: number[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(ids.slice(0, MAX_COMPARE_PRODUCTS)))
+  window.dispatchEvent(new CustomEvent(COMPARE_UPDATED_EVENT))
+}
+
+// Adds or removes a product. Adding a fifth is refused rather than dropping one the buyer picked.
+export function toggleCompare(productId: number): { ids: number[]; added: boolean; full: boolean } {
+  const ids = getCompareIds()
+
+  if (ids.includes(productId)) {
+    const next = ids.filter((id) => id !== productId)
+    setCompareIds(next)
+    return { ids: next, added: false, full: false }
+  }
+
+  if (ids.length >= MAX_COMPARE_PRODUCTS) {
+    return { ids, added: false, full: true }
+  }
+
+  const next = [...ids, productId]
+  setCompareIds(next)
+  return { ids: next, added: true, full: false }
+}
+
+export const clearCompare = () => setCompareIds([])
+
+// "3,7,12" from the URL, deduped and capped
+export function parseCompareIds(value: string | null | undefined): number[] {
+  const ids = (value || "")
+    .split(",")
+    .map((part) => Number(part.trim()))
+    .filter((id) => Number.isInteger(id) && id > 0)
+
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARE_PRODUCTS)
+}
+
+export const buildCompareUrl = (ids: number[]) => `/products/compare?ids=${ids.join(",")}`
+
+export interface SpecEntry {
+  name: string
+  value: string
+}
+
+// Labels for the fields the admin product form fills in
+const SPEC_LABELS: Record<string, string> = {
+  dimensions: "Dimensions",
+  battery_type: "Battery Type",
+  motor_power: "Motor Power",
+  main_features: "Main Features",
+  front_rear_suspension: "Suspension",
+  front_tires: "Front Tires",
+  rear_tires: "Rear Tires",
+}
+
+const toLabel = (key: string) =>
+  SPEC_LABELS[key] || key.replace(/[_-]+/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase())
+
+// Specifications arrive either as [{ name, value }] or as an object keyed by field
+export function normalizeSpecifications(specifications: unknown): SpecEntry[] {
+  if (Array.isArray(specifications)) {
+    return specifications
+      .filter((spec) => spec && spec.name && spec.value !== undefined && spec.value !== null && spec.value !== "")
+      .map((spec) => ({ name: String(spec.name).trim(), value: String(spec.value).trim() }))
+  }
+
+  if (specifications && typeof specifications === "object") {
+    return Object.entries(specifications as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined && value !== null && String(value).trim() !== "")
+      .map(([key, value]) => ({ name: toLabel(key), value: String(value).trim() }))
+  }
+
+  return []
+}
+
+// Specs where a bigger or smaller number is plainly better, and the unit to read it in. Everything else is
+// only checked for differences.
+const BEST_VALUE_RULES: { spec: RegExp; unit: RegExp; better: "higher" | "lower" }[] = [
+  { spec: /motor|power/i, unit: /(\d+(?:\.\d+)?)\s*(kw|w)\b/i, better: "higher" },
+  { spec: /battery|capacity/i, unit: /(\d+(?:\.\d+)?)\s*(ah)\b/i, better: "higher" },
+  { spec: /range/i, unit: /(\d+(?:\.\d+)?)\s*(km)\b(?!\s*\/\s*h)/i, better: "higher" },
+  { spec: /speed/i, unit: /(\d+(?:\.\d+)?)\s*(km\s*\/\s*h|kph)/i, better: "higher" },
+  { spec: /load|payload/i, unit: /(\d+(?:\.\d+)?)\s*(kg)\b/i, better: "higher" },
+  { spec: /weight/i, unit: /(\d+(?:\.\d+)?)\s*(kg)\b/i, better: "lower" },
+  { spec: /charg/i, unit: /(\d+(?:\.\d+)?)\s*(hours?|hrs?|h)\b/i, better: "lower" },
+]
+
+function readAmount(value: string, unit: RegExp): number | null {
+  const match = unit.exec(value.replace(/,/g, ""))
+  if (!match) return null
+  const amount = Number(match[1])
+  return match[2].toLowerCase() === "kw" ? amount * 1000 : amount
+}
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// Indexes holding the best number, when at least two products state one and they aren't all equal
+export function findBestIndexes(amounts: (number | null)[], better: "higher" | "lower"): number[] {
+  const stated = amounts.filter((amount): amount is number => amount !== null)
+  if (stated.length < 2 || stated.every((amount) => amount === stated[0])) return []
+
+  const best = better === "higher" ? Math.max(...stated) : Math.min(...stated)
+  return amounts.flatMap((amount, index) => (amount === best ? [index] : []))
+}
+
+export interface ComparisonRow {
+  name: string
+  // One per product, in column order; null when that product doesn't list the spec
+  values: (string | null)[]
+  differs: boolean
+  best: number[]
+}
+
+// Lines up every product's specifications by name (case-insensitive), keeping the order specs first appear in
+export function buildComparisonRows(products: { specifications?: unknown }[]): ComparisonRow[] {
+  const specs = products.map((product) => normalizeSpecifications(product.specifications))
+  const names: string[] = []
+
+  specs.flat().forEach((spec) => {
+    if (!names.some((name) => sameText(name, spec.name))) names.push(spec.name)
+  })
+
+  return names.map((name) => {
+    const values = specs.map((list) => list.find((spec) => sameText(spec.name, name))?.value ?? null)
+    const present = values.filter((value): value is string => value !== null)
+    const rule = BEST_VALUE_RULES.find((candidate) => candidate.spec.test(name))
+
+    return {
+      name,
+      values,
+      differs: present.length < values.length || present.some((value) => !sameText(value, present[0])),
+      best: rule
+        ? findBestIndexes(
+            values.map((value) => (value === null ? null : readAmount(value, rule.unit))),
+            rule.better,
+          )
+        : [],
+    }
+  })
+}
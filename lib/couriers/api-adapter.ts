@@ -0,0 +1,140 @@
+import {
+  CourierError,
+  type CourierAdapter,
+  type CreateWaybillParams,
+  type ShipmentCheckpoint,
+  type ShipmentStatus,
+  type ShipmentTracking,
+  type Waybill,
+} from "./types"
+
+interface CarrierApiConfig {
+  code: string
+  name: string
+  baseUrl: string
+  apiKey: string
+  // Shipper account the waybills are billed to
+  accountId: string
+}
+
+// Scan codes vary per carrier ("PICKED UP", "pickup_done", "DELIVERED"...); normalize before matching
+function mapCarrierStatus(status: string): ShipmentStatus {
+  const code = status.toLowerCase().replace(/[\s-]+/g, "_")
+
+  if (code.includes("cancel")) return "cancelled"
+  if (code.includes("return") || code.includes("rts")) return "returned"
+  if (code.includes("fail") || code.includes("undeliver") || code.includes("attempt")) return "failed_attempt"
+  if (code.includes("out_for_delivery") || code.includes("on_delivery") || code.includes("dispatch")) {
+    return "out_for_delivery"
+  }
+  if (code.includes("deliver") || code.includes("signed") || code.includes("pod")) return "delivered"
+  if (code.includes("pick")) return "picked_up"
+  if (code.includes("transit") || code.includes("hub") || code.includes("arriv") || code.includes("depart")) {
+    return "in_transit"
+  }
+  return "info_received"
+}
+
+// REST client for carriers with an LBC/J&T-style shipper API: book a waybill, poll its scans, void it
+// before pickup. Each carrier gets its own instance with its own base URL and credentials.
+export class CarrierApiAdapter implements CourierAdapter {
+  code: string
+  name: string
+  private baseUrl: string
+  private apiKey: string
+  private accountId: string
+
+  constructor(config: CarrierApiConfig) {
+    this.code = config.code
+    this.name = config.name
+    this.baseUrl = config.baseUrl.replace(/\/$/, "")
+    this.apiKey = config.apiKey
+    this.accountId = config.accountId
+  }
+
+  private async request(path: string, init?: { method?: string; body?: any }): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: init?.method || "GET",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: init?.body ? JSON.stringify(init.body) : undefined,
+      cache: "no-store",
+    })
+
+    const text = await response.text()
+    let data: any = {}
+
+    try {
+      data = text ? JSON.parse(text) : {}
+    } catch {
+      data = { message: text }
+    }
+
+    if (!response.ok) {
+      console.error(`Courier API error (${this.code}):`, response.status, text)
+      throw new CourierError(data.message || `${this.name} error: ${response.status}`, response.status)
+    }
+
+    return data.data || data
+  }
+
+  async createWaybill(params: CreateWaybillParams): Promise<Waybill> {
+    const data = await this.request("/waybills", {
+      method: "POST",
+      body: {
+        account_id: this.accountId,
+        reference: params.orderNumber,
+        recipient: params.recipient,
+        declared_value: params.declaredValue,
+        cod_amount: params.codAmount,
+        item_count: params.itemCount,
+        description: params.description,
+      },
+    })
+
+    if (!data.tracking_number) {
+      throw new CourierError(`${this.name} did not return a tracking number`)
+    }
+
+    return {
+      courier: this.code,
+      trackingNumber: String(data.tracking_number),
+      status: mapCarrierStatus(String(data.status || "")),
+      labelUrl: data.label_url || null,
+      estimatedDelivery: data.estimated_delivery || null,
+    }
+  }
+
+  async fetchTracking(trackingNumber: string): Promise<ShipmentTracking> {
+    const data = await this.request(`/waybills/${encodeURIComponent(trackingNumber)}/tracking`)
+    const scans: any[] = Array.isArray(data.events) ? data.events : []
+
+    const checkpoints: ShipmentCheckpoint[] = scans
+      .map((scan, index) => ({
+        externalId: String(scan.id ?? `${trackingNumber}-${scan.timestamp || index}`),
+        status: mapCarrierStatus(String(scan.status || "")),
+        description: scan.description || scan.status || "Shipment update",
+        location: scan.location || null,
+        occurredAt: scan.timestamp,
+      }))
+      .filter((checkpoint) => !!checkpoint.occurredAt)
+      .sort((a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime())
+
+    return {
+      courier: this.code,
+      trackingNumber,
+      status: data.status
+        ? mapCarrierStatus(String(data.status))
+        : checkpoints[checkpoints.length - 1]?.status || "info_received",
+      estimatedDelivery: data.estimated_delivery || null,
+      checkpoints,
+    }
+  }
+
+  async cancelWaybill(trackingNumber: string): Promise<void> {
+    await this.request(`/waybills/${encodeURIComponent(trackingNumber)}/cancel`, { method: "POST" })
+  }
+}
@@ -0,0 +1,78 @@
+import { CarrierApiAdapter } from "./api-adapter"
+import { MockCourierAdapter } from "./mock-adapter"
+import { getCourier } from "./options"
+import { CourierError, type CourierAdapter } from "./types"
+
+export * from "./types"
+export * from "./options"
+
+// Env prefix per integrated carrier, e.g. LBC_API_URL, LBC_API_KEY, LBC_ACCOUNT_ID
+const ENV_PREFIXES: Record<string, string> = {
+  lbc: "LBC",
+  jnt: "JNT",
+}
+
+const CARRIER_SETTINGS = ["API_URL", "API_KEY", "ACCOUNT_ID"]
+
+const adapters = new Map<string, CourierAdapter>()
+
+// The mock carrier is opt-in (COURIER_MODE=mock) for local dev and tests, and never runs in production
+export function isMockCourier(): boolean {
+  return process.env.COURIER_MODE === "mock" && process.env.NODE_ENV !== "production"
+}
+
+const missingCarrierSettings = (prefix: string) =>
+  CARRIER_SETTINGS.map((setting) => `${prefix}_${setting}`).filter((name) => !process.env[name])
+
+// Problems that keep waybills and tracking from running, checked once at startup
+export function getCourierConfigErrors(): string[] {
+  if (process.env.COURIER_MODE === "mock") {
+    return process.env.NODE_ENV === "production" ? ["COURIER_MODE=mock is not allowed in production"] : []
+  }
+
+  return Object.values(ENV_PREFIXES)
+    .flatMap(missingCarrierSettings)
+    .map((name) => `${name} is not set`)
+}
+
+// Pass the tracking number stored on the order to keep talking to the carrier API that issued it
+export function getCourierAdapter(
+  code: string | null | undefined,
+  trackingNumber?: string | null,
+): CourierAdapter | null {
+  const courier = getCourier(code)
+  if (!courier || !courier.integrated) return null
+
+  const useMock = trackingNumber ? trackingNumber.startsWith("MOCK") : isMockCourier()
+  const prefix = ENV_PREFIXES[courier.code]
+
+  if (useMock && !isMockCourier()) {
+    throw new CourierError("The mock carrier is disabled", 409)
+  }
+
+  if (!useMock && (!prefix || missingCarrierSettings(prefix).length > 0)) {
+    console.error(
+      `${courier.name} is not configured, missing:`,
+      prefix ? missingCarrierSettings(prefix).join(", ") : "env prefix",
+    )
+    throw new CourierError(`${courier.name} is not available right now`, 503)
+  }
+
+  const key = `${useMock ? "mock" : "api"}:${courier.code}`
+
+  let adapter = adapters.get(key)
+  if (!adapter) {
+    adapter = useMock
+      ? new MockCourierAdapter(courier.code, courier.name)
+      : new CarrierApiAdapter({
+          code: courier.code,
+          name: courier.name,
+          baseUrl: process.env[`${prefix}_API_URL`]!,
+          apiKey: process.env[`${prefix}_API_KEY`]!,
+          accountId: process.env[`${prefix}_ACCOUNT_ID`]!,
+        })
+    adapters.set(key, adapter)
+  }
+
+  return adapter
+}
@@ -0,0 +1,131 @@
+import {
+  CourierError,
+  type CourierAdapter,
+  type CreateWaybillParams,
+  type ShipmentCheckpoint,
+  type ShipmentTracking,
+  type Waybill,
+} from "./types"
+
+interface MockShipment {
+  trackingNumber: string
+  city: string
+  createdAt: number
+  // Steps revealed ahead of the clock by advanceMockShipment
+  advancedSteps: number
+  cancelledAt?: number
+}
+
+// How long each scripted scan takes to show up
+const MOCK_STEP_MS = 2 * 60 * 1000
+
+const SCRIPT: { status: ShipmentCheckpoint["status"]; description: string; location: (city: string) => string }[] = [
+  { status: "info_received", description: "Shipment information received", location: () => "YAMAARAW Warehouse" },
+  { status: "picked_up", description: "Parcel picked up by courier", location: () => "YAMAARAW Warehouse" },
+  { status: "in_transit", description: "Arrived at sorting hub", location: () => "Metro Manila Hub" },
+  { status: "in_transit", description: "Departed sorting hub", location: () => "Metro Manila Hub" },
+  { status: "out_for_delivery", description: "Out for delivery", location: (city) => `${city} Branch` },
+  { status: "delivered", description: "Delivered to recipient", location: (city) => city },
+]
+
+// Kept on globalThis so every route bundle sees the same shipments in dev
+const globalForMock = globalThis as unknown as { mockShipments?: Map<string, MockShipment> }
+const shipments = globalForMock.mockShipments ?? new Map<string, MockShipment>()
+globalForMock.mockShipments = shipments
+
+function findShipment(trackingNumber: string): MockShipment {
+  const shipment = shipments.get(trackingNumber)
+  if (!shipment) {
+    throw new CourierError(`Shipment ${trackingNumber} not found`, 404)
+  }
+  return shipment
+}
+
+function revealedSteps(shipment: MockShipment, now = Date.now()): number {
+  const until = shipment.cancelledAt ?? now
+  const elapsed = Math.floor((until - shipment.createdAt) / MOCK_STEP_MS) + 1
+  return Math.min(SCRIPT.length, elapsed + shipment.advancedSteps)
+}
+
+// Local stand-in for a carrier API. Scans appear on a timer so periodic sync has something to pick up,
+// and advanceMockShipment lets a tester move a parcel along without waiting.
+export class MockCourierAdapter implements CourierAdapter {
+  code: string
+  name: string
+
+  constructor(code: string, name: string) {
+    this.code = code
+    this.name = name
+  }
+
+  async createWaybill(params: CreateWaybillParams): Promise<Waybill> {
+    const trackingNumber = `MOCK${this.code.toUpperCase()}${Date.now().toString(36).toUpperCase()}${Math.random()
+      .toString(36)
+      .slice(2, 6)
+      .toUpperCase()}`
+
+    shipments.set(trackingNumber, {
+      trackingNumber,
+      city: params.recipient.city,
+      createdAt: Date.now(),
+      advancedSteps: 0,
+    })
+
+    return {
+      courier: this.code,
+      trackingNumber,
+      status: "info_received",
+      labelUrl: null,
+      estimatedDelivery: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(),
+    }
+  }
+
+  async fetchTracking(trackingNumber: string): Promise<ShipmentTracking> {
+    const shipment = findShipment(trackingNumber)
+
+    const checkpoints: ShipmentCheckpoint[] = SCRIPT.slice(0, revealedSteps(shipment)).map((step, index) => ({
+      externalId: `${trackingNumber}-${index}`,
+      status: step.status,
+      description: step.description,
+      location: step.location(shipment.city),
+      occurredAt: new Date(shipment.createdAt + index * MOCK_STEP_MS).toISOString(),
+    }))
+
+    if (shipment.cancelledAt) {
+      checkpoints.push({
+        externalId: `${trackingNumber}-cancelled`,
+        status: "cancelled",
+        description: "Shipment cancelled by sender",
+        location: null,
+        occurredAt: new Date(shipment.cancelledAt).toISOString(),
+      })
+    }
+
+    return {
+      courier: this.code,
+      trackingNumber,
+      status: checkpoints[checkpoints.length - 1].status,
+      checkpoints,
+    }
+  }
+
+  async cancelWaybill(trackingNumber: string): Promise<void> {
+    const shipment = findShipment(trackingNumber)
+    if (shipment.cancelledAt) return
+
+    if (revealedSteps(shipment) > 1) {
+      throw new CourierError("The parcel has already been picked up and can no longer be cancelled", 409)
+    }
+    shipment.cancelledAt = Date.now()
+  }
+}
+
+export function advanceMockShipment(trackingNumber: string, steps = 1): ShipmentTracking["status"] {
+  const shipment = findShipment(trackingNumber)
+  if (shipment.cancelledAt) {
+    throw new CourierError("Cannot advance a cancelled shipment", 409)
+  }
+
+  shipment.advancedSteps += steps
+  return SCRIPT[revealedSteps(shipment) - 1].status
+}
@@ -0,0 +1,21 @@
+export interface CourierOption {
+  code: string
+  name: string
+  // Carriers we book waybills with through their API; the rest are tracked by hand
+  integrated: boolean
+}
+
+// Couriers staff can hand delivery orders to, in display order
+export const COURIERS: CourierOption[] = [
+  { code: "lbc", name: "LBC Express", integrated: true },
+  { code: "jnt", name: "J&T Express", integrated: true },
+  { code: "in_house", name: "YAMAARAW Delivery Team", integrated: false },
+]
+
+export function getCourier(code: string | null | undefined): CourierOption | undefined {
+  return COURIERS.find((courier) => courier.code === code)
+}
+
+export function getCourierName(code: string | null | undefined): string {
+  return getCourier(code)?.name || code || "Unassigned"
+}
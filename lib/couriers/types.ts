@@ -0,0 +1,79 @@
+// Shared types for the courier adapter layer
+
+// Normalized checkpoint statuses; each adapter maps its carrier's scan codes onto these
+export type ShipmentStatus =
+  | "info_received"
+  | "picked_up"
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered"
+  | "failed_attempt"
+  | "returned"
+  | "cancelled"
+
+export interface ShipmentAddress {
+  name: string
+  phone: string
+  address: string
+  barangay?: string | null
+  city: string
+  province?: string | null
+  zip_code?: string | null
+}
+
+export interface CreateWaybillParams {
+  orderId: number | string
+  orderNumber: string
+  recipient: ShipmentAddress
+  // Declared value of the parcel, used for the carrier's insurance
+  declaredValue: number
+  // Amount the rider collects on delivery; 0 for prepaid orders
+  codAmount: number
+  itemCount: number
+  description: string
+}
+
+export interface Waybill {
+  courier: string
+  trackingNumber: string
+  status: ShipmentStatus
+  // Printable label from the carrier, when it provides one
+  labelUrl?: string | null
+  estimatedDelivery?: string | null
+}
+
+export interface ShipmentCheckpoint {
+  // Stable per carrier so repeated syncs don't store the same scan twice
+  externalId: string
+  status: ShipmentStatus
+  description: string
+  location?: string | null
+  occurredAt: string
+}
+
+export interface ShipmentTracking {
+  courier: string
+  trackingNumber: string
+  status: ShipmentStatus
+  estimatedDelivery?: string | null
+  // Oldest first
+  checkpoints: ShipmentCheckpoint[]
+}
+
+export interface CourierAdapter {
+  code: string
+  name: string
+  createWaybill(params: CreateWaybillParams): Promise<Waybill>
+  fetchTracking(trackingNumber: string): Promise<ShipmentTracking>
+  cancelWaybill(trackingNumber: string): Promise<void>
+}
+
+export class CourierError extends Error {
+  status: number
+
+  constructor(message: string, status = 502) {
+    super(message)
+    this.name = "CourierError"
+    this.status = status
+  }
+}
@@ -161,6 +161,48 @@ class EmailService {
     })
   }
 
+  async sendOrderAccessLink(order: { order_number: string; first_name: string; email: string }, link: string) {
+    const subject = `Your Yamaaraw order #${order.order_number}`
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #f97316, #dc2626); padding: 20px; text-align: center;">
+          <h1 style="color: white; margin: 0;">View Your Order</h1>
+        </div>
+        
+        <div style="padding: 20px; background: #f9fafb;">
+          <div style="background: white; padding: 20px; border-radius: 8px; box-shadow: 0 1px 3px rgba(0,0,0,0.1);">
+            <h2 style="color: #1f2937;">Hello ${order.first_name},</h2>
+            
+            <p style="color: #374151; line-height: 1.6;">
+              Someone looked up order <strong>#${order.order_number}</strong> on our website. Use the button below to see the full order details and tracking.
+            </p>
+            
+            <div style="margin-top: 30px; text-align: center;">
+              <a href="${link}" 
+                 style="background: #f97316; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+                View Order
+              </a>
+            </div>
+            
+            <p style="color: #6b7280; font-size: 13px; line-height: 1.6; margin-top: 30px;">
+              This link works for 72 hours. If you didn't request it, you can ignore this email.
+            </p>
+          </div>
+        </div>
+        
+        <div style="padding: 20px; text-align: center; color: #6b7280; font-size: 14px;">
+          <p>Best regards,<br>The Yamaaraw E-Trike Team</p>
+        </div>
+      </div>
+    `
+
+    return this.sendEmail({
+      to: order.email,
+      subject,
+      html,
+    })
+  }
+
   async sendReplyEmail(inquiry: ContactInquiry, replyMessage: string, replyFrom: string) {
     const subject = `Re: ${inquiry.subject}`
     const html = `
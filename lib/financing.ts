@@ -0,0 +1,296 @@
+import { getAuthToken } from "./auth"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+export interface FinancingPlan {
+  id: number
+  name: string
+  term_months: number
+  down_payment_percent: number
+  annual_interest_rate: number
+  min_amount?: number | null
+  description?: string | null
+  is_active: boolean
+}
+
+export type FinancingApplicationStatus = "pending" | "approved" | "rejected" | "cancelled"
+
+export interface FinancingApplication {
+  id: number
+  order_id: number
+  plan_id: number
+  plan?: FinancingPlan
+  status: FinancingApplicationStatus
+  amount: number
+  down_payment: number
+  // What the branch actually collected when the application was approved
+  down_payment_received?: number | null
+  financed_amount: number
+  monthly_payment: number
+  total_payable: number
+  term_months: number
+  annual_interest_rate: number
+  employment_status: string
+  employer?: string | null
+  monthly_income: number
+  admin_note?: string | null
+  reviewed_at?: string | null
+  created_at: string
+}
+
+export interface FinancingApplicantInfo {
+  employment_status: string
+  employer?: string
+  monthly_income: number
+}
+
+export interface AmortizationBreakdown {
+  downPayment: number
+  financedAmount: number
+  monthlyPayment: number
+  totalPayable: number
+  totalInterest: number
+}
+
+interface FinancingResponse<T> {
+  success: boolean
+  data?: T
+  message?: string
+}
+
+export const EMPLOYMENT_STATUSES = ["Employed", "Self-employed", "Business owner", "OFW", "Retired / Pensioner"]
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100
+
+// Standard fixed-payment amortization on the amount left after the down payment
+export function calculateAmortization(price: number, plan: FinancingPlan): AmortizationBreakdown {
+  const safePrice = Math.max(0, Number(price) || 0)
+  const months = Math.max(1, Math.round(Number(plan.term_months) || 1))
+  const downPayment = roundCurrency((safePrice * (Number(plan.down_payment_percent) || 0)) / 100)
+  const financedAmount = roundCurrency(safePrice - downPayment)
+  const monthlyRate = (Number(plan.annual_interest_rate) || 0) / 100 / 12
+
+  const monthlyPayment =
+    monthlyRate === 0
+      ? financedAmount / months
+      : (financedAmount * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months))
+
+  const roundedMonthly = roundCurrency(monthlyPayment)
+  const totalPayable = roundCurrency(downPayment + roundedMonthly * months)
+
+  return {
+    downPayment,
+    financedAmount,
+    monthlyPayment: roundedMonthly,
+    totalPayable,
+    totalInterest: roundCurrency(Math.max(0, totalPayable - safePrice)),
+  }
+}
+
+export function validateFinancingPlan(plan: any): string | null {
+  if (!plan.name || !String(plan.name).trim()) return "Plan name is required"
+
+  const term = Number(plan.term_months)
+  if (!Number.isInteger(term) || term < 1 || term > 60) return "Term must be between 1 and 60 months"
+
+  const downPayment = Number(plan.down_payment_percent)
+  if (isNaN(downPayment) || downPayment < 0 || downPayment >= 100) return "Down payment must be between 0% and 99%"
+
+  const rate = Number(plan.annual_interest_rate)
+  if (isNaN(rate) || rate < 0 || rate > 100) return "Interest rate must be between 0% and 100%"
+
+  return null
+}
+
+export function isPlanAvailable(plan: FinancingPlan, amount: number): boolean {
+  return plan.is_active && (!plan.min_amount || amount >= plan.min_amount)
+}
+
+export function validateFinancingApplicant(
+  applicant: Partial<FinancingApplicantInfo> | null | undefined,
+): string | null {
+  if (!applicant?.employment_status || !(Number(applicant.monthly_income) > 0)) {
+    return "Please provide your employment status and monthly income for financing"
+  }
+  return null
+}
+
+// Server side. Plans only ever come from Laravel so an application can't point at a plan it doesn't have.
+export async function fetchFinancingPlan(planId: number | string): Promise<FinancingPlan | undefined> {
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/financing-plans`, {
+    method: "GET",
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  })
+
+  const data = response.ok ? await response.json() : null
+  const plans: FinancingPlan[] = data?.success && Array.isArray(data.data) ? data.data : []
+
+  return plans.find((plan) => Number(plan.id) === Number(planId))
+}
+
+// Server side. The order's application, or null when none was filed
+export async function fetchOrderFinancingApplication(
+  orderId: number | string,
+  authHeader: string,
+): Promise<FinancingApplication | null> {
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/financing-applications?order_id=${orderId}`, {
+    method: "GET",
+    headers: { Authorization: authHeader, Accept: "application/json" },
+    cache: "no-store",
+  })
+
+  const data = response.ok ? await response.json() : null
+  const applications: FinancingApplication[] = data?.success && Array.isArray(data.data) ? data.data : []
+
+  return applications[0] ?? null
+}
+
+// Server side. Status of the order's application, or null when none was filed
+export async function fetchFinancingStatus(
+  orderId: number | string,
+  authHeader: string,
+): Promise<FinancingApplicationStatus | null> {
+  return (await fetchOrderFinancingApplication(orderId, authHeader))?.status ?? null
+}
+
+// Server side. Withdraws the application of a cancelled order so no installments are collected on it
+export async function cancelFinancingApplication(id: number, reason: string, authHeader: string): Promise<void> {
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/financing-applications/${id}`, {
+    method: "PUT",
+    headers: {
+      Authorization: authHeader,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ status: "cancelled", admin_note: reason }),
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.message || "Failed to cancel the financing application")
+  }
+}
+
+// The terms stored on an application, computed from the plan and the order total rather than the browser
+export function buildFinancingApplication(amount: number, plan: FinancingPlan, applicant: FinancingApplicantInfo) {
+  const breakdown = calculateAmortization(amount, plan)
+
+  return {
+    plan_id: plan.id,
+    amount,
+    down_payment: breakdown.downPayment,
+    financed_amount: breakdown.financedAmount,
+    monthly_payment: breakdown.monthlyPayment,
+    total_payable: breakdown.totalPayable,
+    term_months: plan.term_months,
+    annual_interest_rate: plan.annual_interest_rate,
+    employment_status: applicant.employment_status,
+    employer: applicant.employer || null,
+    monthly_income: Number(applicant.monthly_income),
+  }
+}
+
+function getHeaders(): HeadersInit {
+  const token = getAuthToken()
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  }
+
+  if (token) {
+    headers.Authorization = `Bearer ${token}`
+  }
+
+  return headers
+}
+
+export async function getFinancingPlans(includeInactive = false): Promise<FinancingPlan[]> {
+  try {
+    const response = await fetch(`/api/financing/plans${includeInactive ? "?include_inactive=true" : ""}`, {
+      method: "GET",
+      headers: getHeaders(),
+    })
+
+    const data: FinancingResponse<FinancingPlan[]> = await response.json()
+
+    return data.success && Array.isArray(data.data) ? data.data : []
+  } catch (error) {
+    console.error("Get financing plans error:", error)
+    return []
+  }
+}
+
+export async function saveFinancingPlan(plan: Omit<FinancingPlan, "id"> & { id?: number }): Promise<FinancingPlan> {
+  const response = await fetch(plan.id ? `/api/financing/plans/${plan.id}` : "/api/financing/plans", {
+    method: plan.id ? "PUT" : "POST",
+    headers: getHeaders(),
+    body: JSON.stringify(plan),
+  })
+
+  const data: FinancingResponse<FinancingPlan> = await response.json()
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || "Failed to save financing plan")
+  }
+
+  return data.data
+}
+
+export async function deleteFinancingPlan(id: number): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/financing/plans/${id}`, {
+      method: "DELETE",
+      headers: getHeaders(),
+    })
+
+    const data: FinancingResponse<null> = await response.json()
+    return data.success
+  } catch (error) {
+    console.error("Delete financing plan error:", error)
+    return false
+  }
+}
+
+export async function getFinancingApplications(filters?: {
+  order_id?: number | string
+  status?: FinancingApplicationStatus
+}): Promise<FinancingApplication[]> {
+  try {
+    const params = new URLSearchParams()
+    if (filters?.order_id) params.append("order_id", String(filters.order_id))
+    if (filters?.status) params.append("status", filters.status)
+
+    const response = await fetch(`/api/financing/applications${params.toString() ? `?${params.toString()}` : ""}`, {
+      method: "GET",
+      headers: getHeaders(),
+    })
+
+    const data: FinancingResponse<FinancingApplication[]> = await response.json()
+    return data.success && Array.isArray(data.data) ? data.data : []
+  } catch (error) {
+    console.error("Get financing applications error:", error)
+    return []
+  }
+}
+
+export async function reviewFinancingApplication(
+  id: number,
+  status: "approved" | "rejected",
+  adminNote?: string,
+  downPaymentReceived?: number,
+): Promise<FinancingApplication> {
+  const response = await fetch(`/api/financing/applications/${id}`, {
+    method: "PUT",
+    headers: getHeaders(),
+    body: JSON.stringify({ status, admin_note: adminNote, down_payment_received: downPaymentReceived }),
+  })
+
+  const data: FinancingResponse<FinancingApplication> = await response.json()
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || "Failed to update financing application")
+  }
+
+  return data.data
+}
@@ -0,0 +1,248 @@
+import crypto from "crypto"
+
+import type { StatusHistoryEntry } from "./order-status"
+import { buildOrderTracking, type CourierCheckpoint } from "./order-tracking"
+import { getServiceAuthHeader } from "./payments/orders"
+import type { GuestOrder, GuestOrderSummary } from "./guest-orders"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Order lookups for customers without an account. Orders are found with the service token, so the
+// order number plus matching contact details are the only thing standing between a caller and the order.
+
+const LOOKUP_WINDOW_SECONDS = 15 * 60
+// Per client, to slow down guessing across many orders
+const MAX_LOOKUPS_PER_CLIENT = 10
+// Failed attempts per order number, to slow down guessing the contact details of one order. Once reached,
+// the lookup stops answering for that order but still emails the link when the details match, so an
+// attacker can't lock the owner out.
+const MAX_FAILED_LOOKUPS_PER_ORDER = 5
+
+export const ORDER_LINK_TTL_SECONDS = 72 * 60 * 60
+
+export class GuestOrderError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "GuestOrderError"
+    this.status = status
+  }
+}
+
+function requireServiceAuth(): string {
+  const authHeader = getServiceAuthHeader()
+  if (!authHeader) {
+    throw new GuestOrderError("Order lookup is not available right now. Please contact support.", 503)
+  }
+  return authHeader
+}
+
+// Counters live in Laravel's cache-backed rate limiter so every server instance shares them. Returns how
+// many seconds to wait when the key is over its limit. With hit set, the attempt is counted first.
+async function rateLimit(key: string, maxAttempts: number, hit: boolean): Promise<number | null> {
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/rate-limits`, {
+    method: "POST",
+    headers: {
+      Authorization: requireServiceAuth(),
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      key: `guest-order-lookup:${key}`,
+      max_attempts: maxAttempts,
+      decay_seconds: LOOKUP_WINDOW_SECONDS,
+      hit,
+    }),
+    cache: "no-store",
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok || !data.success) {
+    throw new GuestOrderError("Order lookup is not available right now. Please contact support.", 503)
+  }
+
+  return data.data?.too_many_attempts ? Math.max(1, Number(data.data.available_in) || LOOKUP_WINDOW_SECONDS) : null
+}
+
+export const checkClientRateLimit = (clientKey: string) =>
+  rateLimit(`client:${clientKey}`, MAX_LOOKUPS_PER_CLIENT, true)
+
+export const checkOrderLookupLock = (orderNumber: string) =>
+  rateLimit(`order:${orderNumber.toUpperCase()}`, MAX_FAILED_LOOKUPS_PER_ORDER, false)
+
+export const recordFailedLookup = (orderNumber: string) =>
+  rateLimit(`order:${orderNumber.toUpperCase()}`, MAX_FAILED_LOOKUPS_PER_ORDER, true)
+
+// X-Forwarded-For entries left of the ones our own proxies appended come from the client and can be forged,
+// so count TRUSTED_PROXY_HOPS (default 1, e.g. Vercel or a single nginx) from the right
+export function getClientKey(headers: Headers): string {
+  const hops = Math.max(1, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS)) || 1)
+  const forwarded = (headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+
+  return forwarded[forwarded.length - hops] || "unknown"
+}
+
+const normalizePhone = (phone: string) => phone.replace(/\D/g, "").slice(-10)
+
+// Accepts the order email (any case) or the phone number in 09xx / +639xx form
+export function matchesOrderContact(order: Pick<GuestOrder, "email" | "phone">, contact: string): boolean {
+  const value = contact.trim()
+  if (value.includes("@")) return value.toLowerCase() === (order.email || "").trim().toLowerCase()
+
+  const phone = normalizePhone(value)
+  return phone.length === 10 && phone === normalizePhone(order.phone || "")
+}
+
+function getLinkSecret(): string | null {
+  return process.env.GUEST_ORDER_LINK_SECRET || null
+}
+
+const sign = (payload: string, secret: string) =>
+  crypto.createHmac("sha256", secret).update(payload).digest("base64url")
+
+// Token format: base64url(JSON { id, number, exp }) + "." + base64url(hmac-sha256)
+export function createOrderAccessToken(order: Pick<GuestOrder, "id" | "order_number">): string | null {
+  const secret = getLinkSecret()
+  if (!secret) return null
+
+  const payload = Buffer.from(
+    JSON.stringify({
+      id: order.id,
+      number: order.order_number,
+      exp: Math.floor(Date.now() / 1000) + ORDER_LINK_TTL_SECONDS,
+    }),
+  ).toString("base64url")
+
+  return `${payload}.${sign(payload, secret)}`
+}
+
+export function verifyOrderAccessToken(token: string): { id: number; number: string } | null {
+  const secret = getLinkSecret()
+  const [payload, signature] = token.split(".")
+  if (!secret || !payload || !signature) return null
+
+  const expected = Buffer.from(sign(payload, secret))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) return null
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, "base64url").toString())
+    if (!data.id || !data.number || data.exp < Math.floor(Date.now() / 1000)) return null
+    return { id: Number(data.id), number: String(data.number) }
+  } catch {
+    return null
+  }
+}
+
+async function laravelGet(path: string) {
+  return fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/${path}`, {
+    method: "GET",
+    headers: {
+      Authorization: requireServiceAuth(),
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    cache: "no-store",
+  })
+}
+
+export async function findOrderByNumber(orderNumber: string): Promise<GuestOrder | null> {
+  const response = await laravelGet(`orders/lookup?order_number=${encodeURIComponent(orderNumber)}`)
+  if (response.status === 404) return null
+
+  const data = await response.json()
+  if (!response.ok || !data.success) {
+    throw new GuestOrderError(data.message || "Failed to look up order", response.status)
+  }
+
+  return data.data || null
+}
+
+export async function loadGuestTracking(order: GuestOrder) {
+  const [trackResponse, historyResponse] = await Promise.all([
+    laravelGet(`orders/${order.id}/track`),
+    laravelGet(`orders/${order.id}/status-history`),
+  ])
+
+  let checkpoints: CourierCheckpoint[] = []
+  if (trackResponse.ok) {
+    const trackData = await trackResponse.json()
+    checkpoints = Array.isArray(trackData.data?.events) ? trackData.data.events : []
+  }
+
+  let history: StatusHistoryEntry[] = []
+  if (historyResponse.ok) {
+    const historyData = await historyResponse.json()
+    history = Array.isArray(historyData.data) ? historyData.data : []
+  }
+
+  return buildOrderTracking(order, history, checkpoints)
+}
+
+// What the signed link shows. Only the fields of GuestOrder are passed on, never the rest of Laravel's
+// order (staff notes, internal references, payment provider data).
+export function toGuestOrder(order: GuestOrder): GuestOrder {
+  return {
+    id: order.id,
+    order_number: order.order_number,
+    status: order.status,
+    payment_status: order.payment_status,
+    payment_method: order.payment_method,
+    fulfillment_method: order.fulfillment_method,
+    pickup_center_id: order.pickup_center_id,
+    pickup_date: order.pickup_date,
+    created_at: order.created_at,
+    first_name: order.first_name,
+    last_name: order.last_name,
+    email: order.email,
+    phone: order.phone,
+    address: order.address,
+    barangay: order.barangay,
+    city: order.city,
+    province: order.province,
+    zip_code: order.zip_code,
+    items: (order.items || []).map((item) => ({
+      id: item.id,
+      quantity: item.quantity,
+      price: item.price,
+      color: item.color,
+      product: item.product && {
+        id: item.product.id,
+        name: item.product.name,
+        image_url: item.product.image_url,
+        images: item.product.images,
+      },
+    })),
+    subtotal: order.subtotal,
+    shipping_fee: order.shipping_fee,
+    discount_amount: order.discount_amount,
+    voucher_code: order.voucher_code,
+    total: order.total,
+    vatable_sales: order.vatable_sales,
+    vat_amount: order.vat_amount,
+  }
+}
+
+// What anyone with the order number and contact details gets: progress and item names, but no address,
+// contact details, prices or staff notes
+export async function getGuestOrderSummary(order: GuestOrder): Promise<GuestOrderSummary> {
+  const tracking = await loadGuestTracking(order)
+
+  return {
+    order_number: order.order_number,
+    created_at: order.created_at,
+    items: (order.items || []).map((item) => ({
+      name: item.product?.name || "Item",
+      color: item.color,
+      quantity: item.quantity,
+    })),
+    tracking: {
+      ...tracking,
+      events: tracking.events.map((event) => ({ ...event, note: null })),
+    },
+  }
+}
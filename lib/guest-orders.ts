@@ -0,0 +1,99 @@
+import type { OrderTracking } from "./order-tracking"
+
+// Guest order lookup by order number plus email or phone. The lookup shows a limited view; the full
+// order is behind a signed link emailed to the address on the order.
+
+export interface GuestOrderItem {
+  id: number
+  quantity: number
+  price: number
+  color?: string | null
+  product?: { id?: number; name: string; image_url?: string | null; images?: string[] }
+}
+
+// The subset of a Laravel order shown on the guest order page
+export interface GuestOrder {
+  id: number
+  order_number: string
+  status: string
+  payment_status?: string | null
+  payment_method: string
+  fulfillment_method?: string | null
+  pickup_center_id?: string | null
+  pickup_date?: string | null
+  created_at: string
+  first_name: string
+  last_name: string
+  email: string
+  phone: string
+  address: string
+  barangay?: string | null
+  city: string
+  province?: string | null
+  zip_code?: string | null
+  items: GuestOrderItem[]
+  subtotal?: number | null
+  shipping_fee?: number | null
+  discount_amount?: number | null
+  voucher_code?: string | null
+  total: number
+  vatable_sales?: number | null
+  vat_amount?: number | null
+}
+
+export interface GuestOrderSummary {
+  order_number: string
+  created_at: string
+  items: { name: string; color?: string | null; quantity: number }[]
+  tracking: OrderTracking
+}
+
+export interface GuestLookupResult {
+  summary: GuestOrderSummary
+  link_sent: boolean
+  masked_email: string
+}
+
+interface GuestOrderResponse<T> {
+  success: boolean
+  data?: T
+  message?: string
+}
+
+// j***n@gmail.com, so the customer can tell which inbox to check without the lookup exposing the address
+export function maskEmail(email: string): string {
+  const [name, domain] = email.split("@")
+  if (!domain) return "your email"
+  return `${name.charAt(0)}***${name.length > 1 ? name.charAt(name.length - 1) : ""}@${domain}`
+}
+
+export async function lookupGuestOrder(orderNumber: string, contact: string): Promise<GuestLookupResult> {
+  const response = await fetch("/api/orders/lookup", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({ order_number: orderNumber, contact }),
+  })
+
+  const data: GuestOrderResponse<GuestLookupResult> = await response.json()
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || "Failed to look up order")
+  }
+
+  return data.data
+}
+
+export async function getGuestOrder(token: string): Promise<{ order: GuestOrder; tracking: OrderTracking }> {
+  const response = await fetch(`/api/orders/lookup/${encodeURIComponent(token)}`, {
+    method: "GET",
+    headers: { Accept: "application/json" },
+  })
+
+  const data: GuestOrderResponse<{ order: GuestOrder; tracking: OrderTracking }> = await response.json()
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || "This link is invalid or has expired")
+  }
+
+  return data.data
+}
@@ -0,0 +1,100 @@
+import crypto from "crypto"
+
+import { getServiceAuthHeader } from "./payments/orders"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+export const IDEMPOTENCY_HEADER = "idempotency-key"
+
+// Long enough to cover retries from a flaky connection and a customer coming back to the tab
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60
+// A claim with no response after this long belongs to a request that died, so the key can be taken again
+const IDEMPOTENCY_LOCK_SECONDS = 120
+
+export interface StoredResponse {
+  status: number
+  body: any
+}
+
+export type IdempotencyClaim =
+  | { state: "new" }
+  | { state: "replay"; response: StoredResponse }
+  | { state: "in_progress" }
+  | { state: "mismatch" }
+
+export function isValidIdempotencyKey(key: string | null): key is string {
+  return !!key && /^[A-Za-z0-9_-]{8,128}$/.test(key)
+}
+
+// Hash of who is asking and what they sent, so a key can't be replayed by someone else or for a different order
+export function requestFingerprint(scope: string | null, body: unknown): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${scope || "guest"}:${JSON.stringify(body)}`)
+    .digest("hex")
+}
+
+// Keys live in Laravel so every server instance, and a restarted one, sees the same claims
+async function idempotencyRequest(path: string, method: string, body?: unknown) {
+  const authHeader = getServiceAuthHeader()
+  if (!authHeader) {
+    throw new Error("LARAVEL_SERVICE_TOKEN is required to store idempotency keys")
+  }
+
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/${path}`, {
+    method,
+    headers: {
+      Authorization: authHeader,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    cache: "no-store",
+  })
+
+  const data = await response.json().catch(() => ({}))
+  return { response, data }
+}
+
+// Reserve a key. Laravel inserts it under a unique index, so of two concurrent requests only one gets a 201;
+// the other gets a 409 with the stored record.
+export async function claimIdempotencyKey(key: string, fingerprint: string): Promise<IdempotencyClaim> {
+  const { response, data } = await idempotencyRequest("idempotency-keys", "POST", {
+    key,
+    fingerprint,
+    ttl_seconds: IDEMPOTENCY_TTL_SECONDS,
+    lock_seconds: IDEMPOTENCY_LOCK_SECONDS,
+  })
+
+  if (response.status === 201) return { state: "new" }
+
+  if (response.status === 409 && data.data) {
+    const existing: { fingerprint: string; response_status?: number | null; response_body?: any } = data.data
+    if (existing.fingerprint !== fingerprint) return { state: "mismatch" }
+    return existing.response_status
+      ? { state: "replay", response: { status: existing.response_status, body: existing.response_body } }
+      : { state: "in_progress" }
+  }
+
+  throw new Error(data.message || `Idempotency key claim failed with status ${response.status}`)
+}
+
+export async function completeIdempotencyKey(key: string, response: StoredResponse) {
+  const { response: result, data } = await idempotencyRequest(`idempotency-keys/${encodeURIComponent(key)}`, "PUT", {
+    response_status: response.status,
+    response_body: response.body,
+  })
+
+  if (!result.ok) {
+    throw new Error(data.message || `Idempotency key update failed with status ${result.status}`)
+  }
+}
+
+// Forget a key after a failed attempt so the customer's retry gets a real second attempt
+export async function releaseIdempotencyKey(key: string) {
+  const { response, data } = await idempotencyRequest(`idempotency-keys/${encodeURIComponent(key)}`, "DELETE")
+
+  if (!response.ok && response.status !== 404) {
+    throw new Error(data.message || `Idempotency key release failed with status ${response.status}`)
+  }
+}
@@ -0,0 +1,238 @@
+import { getServiceAuthHeader } from "./payments/orders"
+import { getLowStockThreshold } from "./variants"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Server-side stock writes. Laravel holds the counts and applies each change in one transaction, writing a
+// stock movement for it: placing an order reserves units, cancelling releases them, and shipping (or
+// handing over a pickup order) takes them off the shelf for good.
+
+export class InventoryError extends Error {
+  status: number
+  details?: Record<string, any>
+
+  constructor(message: string, status = 409, details?: Record<string, any>) {
+    super(message)
+    this.name = "InventoryError"
+    this.status = status
+    this.details = details
+  }
+}
+
+export interface StockLevel {
+  product_id: number
+  variant_id?: number | null
+  name: string
+  sku?: string | null
+  on_hand: number
+  reserved: number
+  low_stock_threshold?: number | null
+}
+
+export interface StockReservation {
+  id: number
+  levels: StockLevel[]
+}
+
+interface ReservationItem {
+  product_id: number | string
+  variant_id?: number | null
+  quantity: number
+}
+
+interface StockShortage {
+  product_id: number
+  variant_id?: number | null
+  name: string
+  available: number
+}
+
+// The startup check in instrumentation.ts catches a missing token; this only guards a misconfigured dev server
+function requireServiceAuth(action: string): string {
+  const authHeader = getServiceAuthHeader()
+  if (!authHeader) {
+    console.error(`LARAVEL_SERVICE_TOKEN is required to ${action}`)
+    throw new InventoryError("Stock can't be updated right now. Please try again later.", 503)
+  }
+  return authHeader
+}
+
+async function inventoryRequest(path: string, method: string, authHeader: string, body?: unknown) {
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/${path}`, {
+    method,
+    headers: {
+      Authorization: authHeader,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+
+  const data = await response.json().catch(() => ({}))
+  return { response, data }
+}
+
+// Holds stock for an order about to be placed. Laravel checks every line against available stock under a
+// lock, so two buyers can't both take the last unit.
+export async function reserveStock(items: ReservationItem[], reference: string): Promise<StockReservation> {
+  const authHeader = requireServiceAuth("reserve stock")
+  const { response, data } = await inventoryRequest("inventory/reservations", "POST", authHeader, {
+    reference,
+    items: items.map((item) => ({
+      product_id: item.product_id,
+      variant_id: item.variant_id,
+      quantity: item.quantity,
+    })),
+  })
+
+  if (response.status === 409) {
+    const shortages: StockShortage[] = data.data?.shortages || []
+    const first = shortages[0]
+    throw new InventoryError(
+      first
+        ? first.available > 0
+          ? `Only ${first.available} left of ${first.name}`
+          : `${first.name} is out of stock`
+        : data.message || "Some items in your cart are no longer in stock",
+      409,
+      { shortages },
+    )
+  }
+
+  if (!response.ok || !data.success) {
+    throw new InventoryError(data.message || "Failed to reserve stock", response.ok ? 502 : response.status)
+  }
+
+  return data.data
+}
+
+// Drops a reservation whose order was never created
+export async function releaseReservation(reservationId: number) {
+  const authHeader = requireServiceAuth("release stock")
+  const { response, data } = await inventoryRequest(`inventory/reservations/${reservationId}`, "DELETE", authHeader)
+
+  if (!response.ok && response.status !== 404) {
+    throw new InventoryError(data.message || "Failed to release stock", response.status)
+  }
+}
+
+// Returns an order's reserved units to available stock. Laravel ignores orders with nothing reserved, so
+// this is safe to repeat.
+export async function releaseOrderStock(orderId: string | number, reason: string) {
+  const authHeader = requireServiceAuth("release stock")
+  const { response, data } = await inventoryRequest(`inventory/orders/${orderId}/release`, "POST", authHeader, {
+    reason,
+  })
+
+  if (!response.ok) {
+    throw new InventoryError(data.message || "Failed to release stock", response.status)
+  }
+}
+
+// Turns an order's reservation into a sale: on-hand and reserved both go down by the ordered quantity
+export async function commitOrderStock(orderId: string | number) {
+  const authHeader = requireServiceAuth("commit stock")
+  const { response, data } = await inventoryRequest(`inventory/orders/${orderId}/commit`, "POST", authHeader)
+
+  if (!response.ok) {
+    throw new InventoryError(data.message || "Failed to commit stock", response.status)
+  }
+}
+
+// What a status change means for the order's reserved stock
+export function getStockAction(status: string, fulfillmentMethod?: string | null): "release" | "commit" | null {
+  if (status === "cancelled") return "release"
+  if (status === "shipped") return "commit"
+  // Pickup orders never ship; the units leave the shelf when the customer collects them
+  if (status === "delivered" && fulfillmentMethod === "pickup") return "commit"
+  return null
+}
+
+export async function applyOrderStockAction(
+  orderId: string | number,
+  status: string,
+  fulfillmentMethod?: string | null,
+) {
+  const action = getStockAction(status, fulfillmentMethod)
+  if (action === "release") await releaseOrderStock(orderId, `Order ${status}`)
+  if (action === "commit") await commitOrderStock(orderId)
+}
+
+// Lines whose available stock dropped to or below their threshold after `taken` units went out. Lines
+// that were already low before are skipped so admins get one alert per crossing rather than one per order.
+export function findLowStockCrossings(levels: StockLevel[], taken: ReservationItem[]): StockLevel[] {
+  return levels.filter((level) => {
+    const units = taken
+      .filter(
+        (item) =>
+          String(item.product_id) === String(level.product_id) &&
+          String(item.variant_id ?? "") === String(level.variant_id ?? ""),
+      )
+      .reduce((sum, item) => sum + item.quantity, 0)
+    const threshold = getLowStockThreshold(level)
+    const available = level.on_hand - level.reserved
+
+    return units > 0 && available <= threshold && available + units > threshold
+  })
+}
+
+export async function notifyLowStock(levels: StockLevel[]) {
+  const authHeader = getServiceAuthHeader()
+  if (!authHeader || levels.length === 0) return
+
+  for (const level of levels) {
+    const available = Math.max(0, level.on_hand - level.reserved)
+    const label = level.sku ? `${level.name} (${level.sku})` : level.name
+
+    const { response, data } = await inventoryRequest("admin/notifications", "POST", authHeader, {
+      audience: "admins",
+      type: "low_stock",
+      title: available > 0 ? "Low stock" : "Out of stock",
+      message:
+        available > 0
+          ? `Only ${available} left of ${label}. Reorder threshold is ${getLowStockThreshold(level)}.`
+          : `${label} is sold out.`,
+      data: { product_id: level.product_id, variant_id: level.variant_id, available },
+    })
+
+    if (!response.ok) {
+      console.error("Low stock notification failed:", data)
+    }
+  }
+}
+
+// Tells admins about a stock write that failed where no staff member saw it, e.g. a customer cancelling
+export async function notifyStockWriteFailed(
+  orderId: string | number,
+  orderNumber: string | undefined,
+  action: string,
+) {
+  const authHeader = getServiceAuthHeader()
+  if (!authHeader) return
+
+  const { response, data } = await inventoryRequest("admin/notifications", "POST", authHeader, {
+    audience: "admins",
+    type: "stock_write_failed",
+    title: "Stock not updated",
+    message: `Stock could not be ${action} for order ${orderNumber || `#${orderId}`}. Please adjust it from the product's inventory panel.`,
+    data: { order_id: orderId },
+  })
+
+  if (!response.ok) {
+    console.error("Stock failure notification failed:", data)
+  }
+}
+
+export async function recordStockAdjustment(
+  adjustment: { product_id: number; variant_id?: number | null; quantity: number; reason: string; note?: string },
+  authHeader: string,
+): Promise<StockLevel> {
+  // The admin's own token, so the movement is attributed to them
+  const { response, data } = await inventoryRequest("admin/inventory/adjustments", "POST", authHeader, adjustment)
+
+  if (!response.ok || !data.success) {
+    throw new InventoryError(data.message || "Failed to adjust stock", response.ok ? 502 : response.status)
+  }
+
+  return data.data
+}
@@ -0,0 +1,258 @@
+import { computeVat, formatTin, isInvoiceAvailable, VAT_RATE, type InvoiceBuyer } from "./invoice"
+import { getPaymentMethodLabel } from "./payments/methods"
+import { PdfDocument } from "./pdf"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Seller block printed on every invoice. The TIN and registered address come from the environment
+// so they can differ between the BIR-registered entity and staging.
+export const SELLER = {
+  name: process.env.COMPANY_NAME || "YAMAARAW",
+  address: process.env.COMPANY_ADDRESS || "123 EDSA, Makati City, Metro Manila 1200",
+  tin: process.env.COMPANY_TIN || "",
+  email: "info@yamaaraw.com",
+  phone: "09456754591",
+}
+
+// The subset of a Laravel order the invoice needs
+export interface InvoiceOrder {
+  id: number
+  order_number: string
+  status: string
+  payment_status?: string | null
+  payment_method: string
+  created_at: string
+  invoice_number?: string | null
+  invoiced_at?: string | null
+  first_name: string
+  last_name: string
+  email: string
+  phone: string
+  address: string
+  barangay?: string | null
+  city: string
+  province?: string | null
+  zip_code?: string | null
+  postal_code?: string | null
+  items: {
+    quantity: number
+    price: number
+    color?: string | null
+    product?: { name: string; model?: string | null }
+  }[]
+  subtotal?: number | null
+  shipping_fee?: number | null
+  shipping_zone?: string | null
+  discount_amount?: number | null
+  voucher_code?: string | null
+  total: number
+  vatable_sales?: number | null
+  vat_amount?: number | null
+  invoice_info?: InvoiceBuyer | null
+}
+
+export class InvoiceError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "InvoiceError"
+    this.status = status
+  }
+}
+
+async function laravelRequest(path: string, authHeader: string, method = "GET") {
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/${path}`, {
+    method,
+    headers: {
+      Authorization: authHeader,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    cache: "no-store",
+  })
+
+  const data = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new InvoiceError(data.message || "Order not found", response.status === 200 ? 404 : response.status)
+  }
+
+  return data.data
+}
+
+// Loads the order and makes sure it has an invoice number. Laravel hands out the next number in the
+// sequence inside a transaction and returns the existing one on repeat calls, so numbers never skip or repeat.
+export async function issueInvoice(
+  orderId: string | number,
+  authHeader: string,
+  scope: "customer" | "admin" = "customer",
+): Promise<InvoiceOrder> {
+  const order: InvoiceOrder = await laravelRequest(
+    scope === "admin" ? `admin/orders/${orderId}` : `orders/${orderId}`,
+    authHeader,
+  )
+
+  if (!isInvoiceAvailable(order)) {
+    throw new InvoiceError(
+      order.status === "cancelled"
+        ? "Invoices are not issued for cancelled orders"
+        : "The invoice will be available once payment for this order is received",
+      409,
+    )
+  }
+
+  if (!order.invoice_number) {
+    const invoice = await laravelRequest(`orders/${order.id}/invoice`, authHeader, "POST")
+    order.invoice_number = invoice.invoice_number
+    order.invoiced_at = invoice.invoiced_at
+  }
+
+  return order
+}
+
+const formatAmount = (amount: number) =>
+  `PHP ${amount.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-PH", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "Asia/Manila",
+  })
+
+const GRAY: [number, number, number] = [0.4, 0.4, 0.4]
+const ORANGE: [number, number, number] = [0.92, 0.35, 0.05]
+
+export function renderInvoicePdf(order: InvoiceOrder): Buffer {
+  const doc = new PdfDocument()
+  const margin = 48
+  const right = doc.width - margin
+  let y = margin
+
+  // Seller and invoice header
+  doc.text(SELLER.name, margin, y, { size: 20, bold: true, color: ORANGE })
+  doc.text("SALES INVOICE", right, y, { size: 16, bold: true, align: "right" })
+  y += 26
+  doc.text(SELLER.address, margin, y, { size: 9, color: GRAY })
+  doc.text(`No. ${order.invoice_number}`, right, y, { size: 10, bold: true, align: "right" })
+  y += 13
+  if (SELLER.tin) doc.text(`VAT Reg. TIN: ${SELLER.tin}`, margin, y, { size: 9, color: GRAY })
+  doc.text(`Date: ${formatDate(order.invoiced_at || order.created_at)}`, right, y, { size: 9, align: "right" })
+  y += 13
+  doc.text(`${SELLER.email} | ${SELLER.phone}`, margin, y, { size: 9, color: GRAY })
+  doc.text(`Order: ${order.order_number}`, right, y, { size: 9, align: "right" })
+  y += 24
+  doc.line(margin, y, right, y, 1, ORANGE)
+  y += 14
+
+  // Buyer
+  const buyer = order.invoice_info
+  const customerName = `${order.first_name} ${order.last_name}`.trim()
+  const customerAddress = [
+    order.address,
+    order.barangay,
+    order.city,
+    order.province,
+    order.zip_code || order.postal_code,
+  ]
+    .filter(Boolean)
+    .join(", ")
+
+  doc.text("SOLD TO", margin, y, { size: 8, bold: true, color: GRAY })
+  y += 12
+  doc.text(buyer?.business_name || customerName, margin, y, { size: 11, bold: true })
+  y += 14
+  if (buyer) {
+    doc.text(`TIN: ${formatTin(buyer.tin)}`, margin, y, { size: 9 })
+    y += 12
+    for (const line of doc.wrap(buyer.business_address, 300, 9)) {
+      doc.text(line, margin, y, { size: 9 })
+      y += 12
+    }
+    doc.text(`Attn: ${customerName}`, margin, y, { size: 9, color: GRAY })
+    y += 12
+  } else {
+    for (const line of doc.wrap(customerAddress, 300, 9)) {
+      doc.text(line, margin, y, { size: 9 })
+      y += 12
+    }
+  }
+  doc.text(`${order.email} | ${order.phone}`, margin, y, { size: 9, color: GRAY })
+  y += 24
+
+  // Line items
+  const columns = { qty: right - 190, unit: right - 90, amount: right }
+  const drawTableHeader = () => {
+    doc.rect(margin, y - 4, right - margin, 18, [0.96, 0.96, 0.96])
+    doc.text("Description", margin + 6, y, { size: 9, bold: true })
+    doc.text("Qty", columns.qty, y, { size: 9, bold: true, align: "right" })
+    doc.text("Unit Price", columns.unit, y, { size: 9, bold: true, align: "right" })
+    doc.text("Amount", columns.amount - 6, y, { size: 9, bold: true, align: "right" })
+    y += 22
+  }
+  drawTableHeader()
+
+  for (const item of order.items) {
+    const name = [item.product?.name || "Item", item.color && `(${item.color})`].filter(Boolean).join(" ")
+    const lines = doc.wrap(name, columns.qty - margin - 50, 9)
+
+    if (y + lines.length * 12 > doc.height - 240) {
+      doc.addPage()
+      y = margin
+      drawTableHeader()
+    }
+
+    lines.forEach((line, index) => doc.text(line, margin + 6, y + index * 12, { size: 9 }))
+    doc.text(String(item.quantity), columns.qty, y, { size: 9, align: "right" })
+    doc.text(formatAmount(Number(item.price)), columns.unit, y, { size: 9, align: "right" })
+    doc.text(formatAmount(Number(item.price) * item.quantity), columns.amount - 6, y, { size: 9, align: "right" })
+    y += lines.length * 12 + 6
+    doc.line(margin, y - 3, right, y - 3, 0.25, [0.85, 0.85, 0.85])
+  }
+
+  // Totals
+  const total = Number(order.total)
+  const subtotal = Number(order.subtotal ?? order.items.reduce((sum, item) => sum + item.price * item.quantity, 0))
+  const discount = Number(order.discount_amount || 0)
+  const shipping = Number(order.shipping_fee || 0)
+  const vat =
+    order.vatable_sales != null && order.vat_amount != null
+      ? { vatable_sales: Number(order.vatable_sales), vat_amount: Number(order.vat_amount) }
+      : computeVat(total)
+
+  y += 10
+  const labelX = right - 200
+  const totalRow = (label: string, value: string, bold = false) => {
+    doc.text(label, labelX, y, { size: bold ? 11 : 9, bold })
+    doc.text(value, right - 6, y, { size: bold ? 11 : 9, bold, align: "right" })
+    y += bold ? 18 : 14
+  }
+
+  totalRow("Subtotal", formatAmount(subtotal))
+  if (discount > 0)
+    totalRow(`Discount${order.voucher_code ? ` (${order.voucher_code})` : ""}`, `-${formatAmount(discount)}`)
+  totalRow(
+    `Shipping${order.shipping_zone ? ` (${order.shipping_zone})` : ""}`,
+    shipping > 0 ? formatAmount(shipping) : "Free",
+  )
+  doc.line(labelX, y - 4, right, y - 4, 0.5)
+  y += 4
+  totalRow("Total Amount Due", formatAmount(total), true)
+
+  // VAT breakdown, as required on VAT-registered sales invoices
+  y += 8
+  doc.rect(labelX - 6, y - 6, right - labelX + 6, 52, [1, 0.96, 0.92])
+  totalRow("VATable Sales", formatAmount(vat.vatable_sales))
+  totalRow(`VAT (${Math.round(VAT_RATE * 100)}%)`, formatAmount(vat.vat_amount))
+  totalRow("Total (VAT Inclusive)", formatAmount(total))
+
+  // Footer
+  const footerY = doc.height - margin - 30
+  doc.line(margin, footerY - 8, right, footerY - 8, 0.5, [0.85, 0.85, 0.85])
+  doc.text(`Payment method: ${getPaymentMethodLabel(order.payment_method)}`, margin, footerY, { size: 8, color: GRAY })
+  doc.text("Thank you for choosing YAMAARAW electric vehicles.", margin, footerY + 12, { size: 8, color: GRAY })
+
+  return doc.toBuffer()
+}
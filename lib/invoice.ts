@@ -0,0 +1,78 @@
+import { getAuthToken } from "./auth"
+
+// Philippine VAT. Catalog prices are VAT-inclusive, so VAT is carved out of the total rather than added.
+export const VAT_RATE = 0.12
+
+export interface VatBreakdown {
+  vatable_sales: number
+  vat_amount: number
+}
+
+// Business details printed on the invoice when the buyer asks for one under their company
+export interface InvoiceBuyer {
+  business_name: string
+  tin: string
+  business_address: string
+}
+
+interface InvoiceResponse {
+  success: boolean
+  message?: string
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100
+
+export function computeVat(totalInclusive: number): VatBreakdown {
+  const vatableSales = roundCurrency(totalInclusive / (1 + VAT_RATE))
+  return {
+    vatable_sales: vatableSales,
+    vat_amount: roundCurrency(totalInclusive - vatableSales),
+  }
+}
+
+// TINs are 9 digits plus a 3 to 5 digit branch code, e.g. 123-456-789-000
+export function formatTin(tin: string): string {
+  const digits = tin.replace(/\D/g, "")
+  const groups = [digits.slice(0, 3), digits.slice(3, 6), digits.slice(6, 9), digits.slice(9, 14)]
+  return groups.filter(Boolean).join("-")
+}
+
+export function validateInvoiceBuyer(buyer: Partial<InvoiceBuyer>): string | null {
+  if (!buyer.business_name?.trim()) return "Business name is required for a business invoice"
+  if (!/^\d{3}-\d{3}-\d{3}(-\d{3,5})?$/.test(formatTin(buyer.tin || ""))) {
+    return "Please enter a valid TIN, e.g. 123-456-789-000"
+  }
+  if (!buyer.business_address?.trim()) return "Business address is required for a business invoice"
+  return null
+}
+
+// Invoices are issued once the sale is final: paid online, or COD handed over
+export function isInvoiceAvailable(order: { status: string; payment_status?: string | null }): boolean {
+  if (order.status === "cancelled") return false
+  return order.payment_status === "paid" || order.status === "delivered"
+}
+
+// Fetches the PDF with the session token (a plain link can't send it) and saves it through a temporary anchor
+export async function downloadInvoice(orderId: number | string, scope: "customer" | "admin" = "customer") {
+  const token = getAuthToken()
+  const response = await fetch(
+    scope === "admin" ? `/api/admin/orders/${orderId}/invoice` : `/api/orders/${orderId}/invoice`,
+    { headers: token ? { Authorization: `Bearer ${token}` } : {} },
+  )
+
+  if (!response.ok) {
+    const data: InvoiceResponse = await response.json().catch(() => ({ success: false }))
+    throw new Error(data.message || "Failed to download invoice")
+  }
+
+  const filename =
+    response.headers.get("content-disposition")?.match(/filename="([^"]+)"/)?.[1] || `invoice-${orderId}.pdf`
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
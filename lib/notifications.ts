@@ -1,7 +1,16 @@
 export interface Notification {
   id: number
   user_id: number
-  type: "order" | "order_status" | "shipping" | "promotion" | "system"
+  type:
+    | "order"
+    | "order_status"
+    | "shipping"
+    | "return"
+    | "order_note"
+    | "low_stock"
+    | "stock_write_failed"
+    | "promotion"
+    | "system"
   title: string
   message: string
   data?: {
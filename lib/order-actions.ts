@@ -0,0 +1,171 @@
+import { COURIERS, getCourier } from "./couriers"
+import { fetchFinancingStatus } from "./financing"
+import { applyOrderStockAction } from "./inventory"
+import { checkOrderTransition, getAllowedTransitions } from "./order-status"
+import { captureAuthorizedPayment, fetchOrder, reverseOrderPayment } from "./payments/orders"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Admin writes shared by the single-order routes and the bulk actions
+
+export class OrderActionError extends Error {
+  status: number
+  data?: Record<string, unknown>
+
+  constructor(message: string, status = 400, data?: Record<string, unknown>) {
+    super(message)
+    this.name = "OrderActionError"
+    this.status = status
+    this.data = data
+  }
+}
+
+export interface BulkOrderResult {
+  order_id: number
+  order_number?: string
+  success: boolean
+  message: string
+}
+
+export const MAX_BULK_ORDERS = 100
+
+async function laravelPut(path: string, body: unknown, authHeader: string) {
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/${path}`, {
+    method: "PUT",
+    headers: {
+      Authorization: authHeader,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  })
+
+  const data = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new OrderActionError(
+      data.message || "Failed to update order",
+      response.status === 200 ? 400 : response.status,
+    )
+  }
+
+  return data
+}
+
+// Checks the transition against the current order, then lets Laravel apply it. Laravel only applies the
+// change if the order is still in from_status, and writes the history entry with the actor from the token.
+// Cancelling releases the order's reserved stock; shipping or handing it over takes it off the shelf.
+// Confirming captures an authorized card first, so an order is never confirmed on a hold that fails to capture.
+// Cancelling reverses the payment the same way a customer cancellation does. Follow-up writes that fail don't
+// undo the status change; they come back as warnings for staff to act on.
+export async function changeOrderStatus(
+  orderId: string | number,
+  status: string,
+  note: string | undefined,
+  authHeader: string,
+) {
+  const order = await fetchOrder(orderId, authHeader, "admin")
+  const transitionOrder =
+    order.payment_method === "financing"
+      ? { ...order, financing_status: await fetchFinancingStatus(orderId, authHeader) }
+      : order
+  const rejection = checkOrderTransition(transitionOrder, status)
+  const warnings: string[] = []
+
+  if (rejection) {
+    throw new OrderActionError(rejection, 409, {
+      current_status: order.status,
+      allowed_statuses: getAllowedTransitions(order),
+    })
+  }
+
+  if (status === "confirmed") {
+    await captureAuthorizedPayment(order, authHeader)
+  }
+
+  const data = await laravelPut(
+    `orders/${orderId}/status`,
+    { status, from_status: order.status, note: note?.trim().slice(0, 500) || undefined },
+    authHeader,
+  )
+
+  // The status change stands even if the stock write fails; the ledger shows what's missing
+  try {
+    await applyOrderStockAction(orderId, status, order.fulfillment_method)
+  } catch (error) {
+    console.error(`Stock update failed for order ${orderId}:`, error)
+    warnings.push("The stock count could not be updated. Please adjust it from the product's inventory panel.")
+  }
+
+  if (status === "cancelled") {
+    try {
+      await reverseOrderPayment(
+        order,
+        { reason: note?.trim() ? `Cancelled by staff: ${note.trim().slice(0, 200)}` : "Cancelled by staff" },
+        authHeader,
+      )
+    } catch (error) {
+      console.error(`Payment reversal failed for cancelled order ${orderId}:`, error)
+      warnings.push("The payment could not be reversed. Please refund it from the payment panel.")
+    }
+  }
+
+  return { order, data, warnings }
+}
+
+export async function assignOrderCourier(orderId: string | number, courierCode: string, authHeader: string) {
+  const courier = getCourier(courierCode)
+  if (!courier) {
+    throw new OrderActionError(`Unknown courier. Choose one of: ${COURIERS.map((c) => c.name).join(", ")}`, 422)
+  }
+
+  const order = await fetchOrder(orderId, authHeader, "admin")
+
+  if (order.fulfillment_method === "pickup") {
+    throw new OrderActionError("Pickup orders don't need a courier", 409)
+  }
+  if (!["confirmed", "processing"].includes(order.status || "")) {
+    throw new OrderActionError("Only confirmed or processing orders can be assigned to a courier", 409)
+  }
+
+  await laravelPut(`orders/${orderId}/courier`, { courier: courier.code }, authHeader)
+
+  return { order, courier }
+}
+
+export function parseOrderIds(value: unknown): number[] | null {
+  if (!Array.isArray(value)) return null
+
+  const ids = Array.from(new Set(value.map(Number))).filter((id) => Number.isInteger(id) && id > 0)
+  return ids.length > 0 && ids.length <= MAX_BULK_ORDERS ? ids : null
+}
+
+// Runs the action for each order in turn so one failure doesn't stop the rest
+export async function runBulk<T extends { order_number?: string }>(
+  orderIds: number[],
+  action: (orderId: number) => Promise<{ order: T; warnings?: string[] }>,
+  successMessage: string,
+): Promise<BulkOrderResult[]> {
+  const results: BulkOrderResult[] = []
+
+  for (const orderId of orderIds) {
+    try {
+      const { order, warnings = [] } = await action(orderId)
+      results.push({
+        order_id: orderId,
+        order_number: order.order_number,
+        success: true,
+        message: [successMessage, ...warnings].join(". "),
+      })
+    } catch (error) {
+      if (!(error instanceof OrderActionError)) console.error(`Bulk action failed for order ${orderId}:`, error)
+      results.push({
+        order_id: orderId,
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to update order",
+      })
+    }
+  }
+
+  return results
+}
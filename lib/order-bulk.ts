@@ -0,0 +1,98 @@
+import { getAuthToken } from "./auth"
+import type { BulkOrderResult } from "./order-actions"
+import type { OrderExportFormat } from "./order-export"
+import { toOrderFilterParams, type OrderListFilters } from "./order-filters"
+import type { PackingDocumentType } from "./packing-documents"
+
+export type { BulkOrderResult }
+
+export type BulkOrderAction =
+  | { action: "status"; status: string; note?: string }
+  | { action: "assign_courier"; courier: string }
+
+interface BulkResponse {
+  success: boolean
+  message?: string
+  data?: BulkOrderResult[]
+}
+
+function getHeaders(): HeadersInit {
+  const token = getAuthToken()
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  }
+
+  if (token) {
+    headers.Authorization = `Bearer ${token}`
+  }
+
+  return headers
+}
+
+export async function bulkUpdateOrders(orderIds: number[], action: BulkOrderAction): Promise<BulkOrderResult[]> {
+  const response = await fetch("/api/admin/orders/bulk", {
+    method: "POST",
+    headers: getHeaders(),
+    body: JSON.stringify({ ...action, order_ids: orderIds }),
+  })
+
+  const data: BulkResponse = await response.json()
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || "Failed to update orders")
+  }
+
+  return data.data
+}
+
+// Saves the PDF through a temporary anchor and returns which orders made it into the document
+export async function downloadPackingDocument(
+  type: PackingDocumentType,
+  orderIds: number[],
+): Promise<{ results: BulkOrderResult[]; message?: string }> {
+  const response = await fetch("/api/admin/orders/documents", {
+    method: "POST",
+    headers: getHeaders(),
+    body: JSON.stringify({ type, order_ids: orderIds }),
+  })
+
+  if (!response.ok) {
+    const data: BulkResponse = await response.json().catch(() => ({ success: false }))
+    if (data.data) return { results: data.data, message: data.message }
+    throw new Error(data.message || "Failed to generate document")
+  }
+
+  const results: BulkOrderResult[] = JSON.parse(decodeURIComponent(response.headers.get("x-order-results") || "%5B%5D"))
+  await saveResponse(response, `${type}.pdf`)
+
+  return { results }
+}
+
+// Downloads every order matching the filters, not just the page loaded in the browser
+export async function downloadOrderExport(format: OrderExportFormat, filters: OrderListFilters): Promise<void> {
+  const params = toOrderFilterParams(filters)
+  params.set("format", format)
+
+  const response = await fetch(`/api/admin/orders/export?${params.toString()}`, { headers: getHeaders() })
+
+  if (!response.ok) {
+    const data: BulkResponse = await response.json().catch(() => ({ success: false }))
+    throw new Error(data.message || "Failed to export orders")
+  }
+
+  await saveResponse(response, `orders.${format}`)
+}
+
+// Saves a file response through a temporary anchor, using the server's filename when it sends one
+async function saveResponse(response: Response, fallbackName: string) {
+  const filename = response.headers.get("content-disposition")?.match(/filename="([^"]+)"/)?.[1] || fallbackName
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
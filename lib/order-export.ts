@@ -0,0 +1,276 @@
+import { getCourierName } from "./couriers/options"
+import { matchesOrderFilters, type OrderListFilters } from "./order-filters"
+import { getOrderStatusLabel } from "./order-status"
+import { getPaymentMethodLabel } from "./payments/methods"
+import { getServiceCenter } from "./service-centers"
+import { XlsxWriter, type XlsxCell, type XlsxColumn } from "./xlsx"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Admin order export. Orders are read from Laravel a page at a time and written out as they arrive, so a
+// large export never sits in memory and the download starts right away.
+
+export type OrderExportFormat = "csv" | "xlsx"
+
+export const ORDER_EXPORT_FORMATS: OrderExportFormat[] = ["csv", "xlsx"]
+
+export const ORDER_EXPORT_CONTENT_TYPES: Record<OrderExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+}
+
+const PAGE_SIZE = 100
+// Stops a runaway export at 20,000 orders
+const MAX_PAGES = 200
+
+export class OrderExportError extends Error {
+  status: number
+
+  constructor(message: string, status = 502) {
+    super(message)
+    this.name = "OrderExportError"
+    this.status = status
+  }
+}
+
+// The subset of a Laravel order the export needs
+interface ExportOrder {
+  id: number
+  order_number: string
+  status: string
+  created_at: string
+  first_name: string
+  last_name: string
+  email: string
+  phone: string
+  address: string
+  barangay?: string | null
+  city: string
+  province?: string | null
+  zip_code?: string | null
+  fulfillment_method?: string | null
+  pickup_center_id?: string | null
+  courier?: string | null
+  tracking_number?: string | null
+  payment_method: string
+  payment_status?: string | null
+  payment_reference?: string | null
+  voucher_code?: string | null
+  subtotal?: number | null
+  discount_amount?: number | null
+  shipping_fee?: number | null
+  total: number
+  items?: {
+    quantity: number
+    price: number
+    color?: string | null
+    product?: { name: string; model?: string | null }
+  }[]
+}
+
+const COLUMNS: XlsxColumn[] = [
+  { header: "Order Number", width: 18 },
+  { header: "Order Date", width: 17 },
+  { header: "Status", width: 16 },
+  { header: "Customer", width: 24 },
+  { header: "Email", width: 28 },
+  { header: "Phone", width: 16 },
+  { header: "Payment Method", width: 20 },
+  { header: "Payment Status", width: 14 },
+  { header: "Payment Reference", width: 24 },
+  { header: "Fulfillment", width: 12 },
+  { header: "Courier / Branch", width: 24 },
+  { header: "Tracking Number", width: 22 },
+  { header: "Address", width: 40 },
+  { header: "City", width: 18 },
+  { header: "Province", width: 18 },
+  { header: "ZIP", width: 8 },
+  { header: "Item", width: 32 },
+  { header: "Color", width: 12 },
+  { header: "Quantity", width: 9 },
+  { header: "Unit Price", width: 12, money: true },
+  { header: "Line Total", width: 12, money: true },
+  { header: "Subtotal", width: 12, money: true },
+  { header: "Voucher", width: 14 },
+  { header: "Discount", width: 12, money: true },
+  { header: "Shipping Fee", width: 12, money: true },
+  { header: "Order Total", width: 12, money: true },
+]
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString("sv-SE", { timeZone: "Asia/Manila" }).slice(0, 16)
+
+const toNumber = (value: number | null | undefined) => (value === null || value === undefined ? null : Number(value))
+
+// One row per line item. Order amounts only go on the order's first row, so summing a column in the
+// spreadsheet doesn't count an order once per item.
+function toRows(order: ExportOrder): XlsxCell[][] {
+  const pickup = order.fulfillment_method === "pickup"
+  const orderCells: XlsxCell[] = [
+    order.order_number,
+    formatDateTime(order.created_at),
+    getOrderStatusLabel(order.status, order.fulfillment_method),
+    `${order.first_name} ${order.last_name}`.trim(),
+    order.email,
+    order.phone,
+    getPaymentMethodLabel(order.payment_method),
+    order.payment_status || "pending",
+    order.payment_reference,
+    pickup ? "Pickup" : "Delivery",
+    pickup ? getServiceCenter(order.pickup_center_id)?.name || order.pickup_center_id : getCourierName(order.courier),
+    order.tracking_number,
+    [order.address, order.barangay].filter(Boolean).join(", "),
+    order.city,
+    order.province,
+    order.zip_code,
+  ]
+  const amountCells: XlsxCell[] = [
+    toNumber(order.subtotal),
+    order.voucher_code,
+    toNumber(order.discount_amount),
+    toNumber(order.shipping_fee),
+    toNumber(order.total),
+  ]
+  const items = order.items || []
+
+  if (items.length === 0) return [[...orderCells, null, null, null, null, null, ...amountCells]]
+
+  return items.map((item, index) => [
+    ...orderCells,
+    [item.product?.name || "Item", item.product?.model].filter(Boolean).join(" "),
+    item.color,
+    Number(item.quantity),
+    Number(item.price),
+    Number(item.price) * Number(item.quantity),
+    ...(index === 0 ? amountCells : amountCells.map(() => null)),
+  ])
+}
+
+// Quotes fields that need it, and prefixes values starting with = + - @ so spreadsheet apps treat
+// them as text instead of evaluating them as formulas
+function toCsvField(value: XlsxCell): string {
+  if (value === null || value === undefined) return ""
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : ""
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsvLine = (cells: XlsxCell[]) => `${cells.map(toCsvField).join(",")}\r\n`
+
+async function laravelGet(path: string, authHeader: string) {
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/${path}`, {
+    method: "GET",
+    headers: {
+      Authorization: authHeader,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    cache: "no-store",
+  })
+
+  const data = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new OrderExportError(data.message || "Failed to load orders", response.status === 200 ? 502 : response.status)
+  }
+
+  return data
+}
+
+async function fetchOrderPage(page: number, filters: OrderListFilters, authHeader: string) {
+  const params = new URLSearchParams({ page: String(page), per_page: String(PAGE_SIZE) })
+  if (filters.search) params.set("search", filters.search)
+  if (filters.status && filters.status !== "all") params.set("status", filters.status)
+  if (filters.from) params.set("date_from", filters.from)
+  if (filters.to) params.set("date_to", filters.to)
+
+  const data = await laravelGet(`admin/orders?${params.toString()}`, authHeader)
+  // Laravel paginates the list; an unpaginated array is a single page
+  const orders: ExportOrder[] = Array.isArray(data.data) ? data.data : data.data?.data || []
+  const lastPage = Array.isArray(data.data) ? page : Number(data.data?.last_page) || page
+
+  return {
+    // Filtered again here in case Laravel ignores a filter, so the export matches the orders page
+    orders: orders.filter((order) => matchesOrderFilters(order, filters)),
+    hasMore: page < lastPage && orders.length > 0 && page < MAX_PAGES,
+  }
+}
+
+// The list endpoint may leave line items out; those orders are loaded one by one
+async function withItems(order: ExportOrder, authHeader: string): Promise<ExportOrder> {
+  if (Array.isArray(order.items)) return order
+
+  try {
+    const data = await laravelGet(`admin/orders/${order.id}`, authHeader)
+    return { ...order, items: data.data?.items || [] }
+  } catch (error) {
+    console.error(`Order export could not load items for ${order.order_number}:`, error)
+    return order
+  }
+}
+
+async function* encodeOrders(
+  format: OrderExportFormat,
+  firstPage: Awaited<ReturnType<typeof fetchOrderPage>>,
+  filters: OrderListFilters,
+  authHeader: string,
+): AsyncGenerator<Buffer> {
+  const xlsx = format === "xlsx" ? new XlsxWriter(COLUMNS, "Orders") : null
+  // The BOM makes Excel read the CSV as UTF-8
+  yield xlsx ? xlsx.start() : Buffer.from(`\uFEFF${toCsvLine(COLUMNS.map((column) => column.header))}`)
+
+  let page = firstPage
+  let pageNumber = 1
+
+  while (true) {
+    for (const listed of page.orders) {
+      const order = await withItems(listed, authHeader)
+      for (const row of toRows(order)) {
+        yield xlsx ? xlsx.addRow(row) : Buffer.from(toCsvLine(row))
+      }
+    }
+
+    if (!page.hasMore) break
+    pageNumber += 1
+    page = await fetchOrderPage(pageNumber, filters, authHeader)
+  }
+
+  if (xlsx) yield xlsx.finish()
+}
+
+// Loads the first page before returning, so a bad token or a Laravel outage becomes an error response
+// instead of a broken download. Failures after that end the stream early and are logged.
+export async function createOrderExportStream(
+  format: OrderExportFormat,
+  filters: OrderListFilters,
+  authHeader: string,
+): Promise<ReadableStream<Uint8Array>> {
+  const firstPage = await fetchOrderPage(1, filters, authHeader)
+  const chunks = encodeOrders(format, firstPage, filters, authHeader)
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        // Skip empty chunks; pull isn't called again until something is enqueued
+        while (true) {
+          const { value, done } = await chunks.next()
+          if (done) {
+            controller.close()
+            return
+          }
+          if (value.length > 0) {
+            controller.enqueue(new Uint8Array(value))
+            return
+          }
+        }
+      } catch (error) {
+        console.error("Order export stream error:", error)
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+}
@@ -0,0 +1,67 @@
+// Admin order list filters. The orders page and the server export both match orders with
+// matchesOrderFilters, so an export contains exactly what the page would show.
+
+export interface OrderListFilters {
+  search?: string
+  status?: string
+  // Inclusive calendar dates (YYYY-MM-DD) in Philippine time
+  from?: string
+  to?: string
+}
+
+interface FilterableOrder {
+  order_number: string
+  first_name: string
+  last_name: string
+  email: string
+  status: string
+  created_at: string
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// The order's calendar date in Manila, as YYYY-MM-DD
+export const toManilaDate = (date: string) => new Date(date).toLocaleDateString("en-CA", { timeZone: "Asia/Manila" })
+
+export function matchesOrderFilters(order: FilterableOrder, filters: OrderListFilters): boolean {
+  const search = filters.search?.trim().toLowerCase()
+  if (
+    search &&
+    ![order.order_number, order.first_name, order.last_name, order.email].some((value) =>
+      (value || "").toLowerCase().includes(search),
+    )
+  ) {
+    return false
+  }
+
+  if (filters.status && filters.status !== "all" && order.status !== filters.status) return false
+
+  if (filters.from || filters.to) {
+    const date = toManilaDate(order.created_at)
+    if (filters.from && date < filters.from) return false
+    if (filters.to && date > filters.to) return false
+  }
+
+  return true
+}
+
+export function toOrderFilterParams(filters: OrderListFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.search?.trim()) params.set("search", filters.search.trim())
+  if (filters.status && filters.status !== "all") params.set("status", filters.status)
+  if (filters.from) params.set("from", filters.from)
+  if (filters.to) params.set("to", filters.to)
+  return params
+}
+
+export function parseOrderFilterParams(params: URLSearchParams): OrderListFilters {
+  const from = params.get("from") || ""
+  const to = params.get("to") || ""
+
+  return {
+    search: params.get("search")?.trim() || undefined,
+    status: params.get("status") || undefined,
+    from: DATE_PATTERN.test(from) ? from : undefined,
+    to: DATE_PATTERN.test(to) ? to : undefined,
+  }
+}
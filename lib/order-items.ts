@@ -0,0 +1,146 @@
+import { findVariant, getAvailableStock, getVariantPrice, hasVariants, isStockCounted } from "./variants"
+
+// Server-side helpers for the items in an incoming order or cart payload
+
+export interface ResolvedOrderItem {
+  product_id: number | string
+  quantity: number
+  // Current catalog price; what the browser sent is kept in client_price
+  price: number
+  client_price: number
+  color?: string
+  // The variant bought, for products sold in variants
+  variant_id?: number
+  sku?: string
+  option?: string
+  // Units available to sell (on hand less reserved); undefined when stock isn't counted
+  stock?: number
+  name?: string
+  category?: string
+  in_stock: boolean
+  colors: string[]
+  found: boolean
+}
+
+// Look up each product so pricing rules (catalog price, shipping class, voucher restrictions) use
+// the stored product rather than whatever the browser sent. For products sold in variants the price and
+// stock come from the variant; lines without a variant_id are matched on color and option.
+export async function resolveOrderItems(items: any[]): Promise<ResolvedOrderItem[]> {
+  return Promise.all(
+    items.map(async (item) => {
+      const resolved: ResolvedOrderItem = {
+        product_id: item.product_id,
+        quantity: Number(item.quantity) || 0,
+        price: Number(item.price) || 0,
+        client_price: Number(item.price) || 0,
+        color: item.color || undefined,
+        in_stock: false,
+        colors: [],
+        found: false,
+      }
+
+      try {
+        const response = await fetch(`${process.env.NEXT_PUBLIC_LARAVEL_API_URL}/products/${item.product_id}`, {
+          headers: { Accept: "application/json" },
+          cache: "no-store",
+        })
+        if (response.ok) {
+          const data = await response.json()
+          const product = data.data
+          if (product) {
+            resolved.found = true
+            resolved.price = Number(product.price) || 0
+            resolved.name = product.name
+            resolved.category = product.category
+            resolved.in_stock = product.in_stock !== false && product.in_stock !== 0
+            resolved.colors = Array.isArray(product.colors)
+              ? product.colors.map((c: any) => (typeof c === "string" ? c : c?.name)).filter(Boolean)
+              : []
+
+            if (hasVariants(product)) {
+              const variant = findVariant(product, {
+                variantId: item.variant_id,
+                color: item.color,
+                option: item.option,
+              })
+              // A variant that was removed makes the line unavailable, like a removed product
+              resolved.found = !!variant
+              if (variant) {
+                resolved.variant_id = variant.id
+                resolved.sku = variant.sku
+                resolved.option = variant.option || undefined
+                resolved.color = variant.color || resolved.color
+                resolved.price = getVariantPrice(product, variant)
+                resolved.stock = getAvailableStock(variant)
+                resolved.in_stock = resolved.stock > 0
+              }
+            } else if (isStockCounted(product)) {
+              resolved.stock = getAvailableStock({
+                stock: Number(product.stock_quantity),
+                reserved: Number(product.reserved_quantity) || 0,
+              })
+              resolved.in_stock = resolved.stock > 0
+            }
+          }
+        }
+      } catch (error) {
+        console.error("Order item product lookup error:", error)
+      }
+
+      return resolved
+    }),
+  )
+}
+
+export type ReorderLineStatus = "available" | "price_changed" | "out_of_stock" | "unavailable"
+
+export interface ReorderLine {
+  product_id: number | string
+  name: string
+  color?: string | null
+  variant_id?: number | null
+  option?: string | null
+  quantity: number
+  // What the customer paid last time and what the product costs now
+  previous_price: number
+  price: number
+  status: ReorderLineStatus
+}
+
+// Compares each line of a past order with the catalog as it is today
+export async function checkReorderItems(
+  items: {
+    product_id: number | string
+    quantity: number
+    price: number
+    color?: string | null
+    variant_id?: number | null
+    option?: string | null
+    product?: { name?: string }
+  }[],
+): Promise<ReorderLine[]> {
+  const resolved = await resolveOrderItems(items)
+
+  return resolved.map((item, index) => {
+    let status: ReorderLineStatus = "available"
+    if (!item.found || (item.color && item.colors.length > 0 && !item.colors.includes(item.color))) {
+      status = "unavailable"
+    } else if (!item.in_stock) {
+      status = "out_of_stock"
+    } else if (Math.abs(item.price - item.client_price) >= 0.01) {
+      status = "price_changed"
+    }
+
+    return {
+      product_id: item.product_id,
+      name: item.name || items[index].product?.name || "Item",
+      color: item.color,
+      variant_id: item.variant_id,
+      option: item.option,
+      quantity: item.quantity,
+      previous_price: item.client_price,
+      price: item.price,
+      status,
+    }
+  })
+}
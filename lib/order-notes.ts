@@ -0,0 +1,200 @@
+import { getAuthToken } from "./auth"
+
+// Internal notes on an order: calls with the buyer, delivery issues, anything staff should know. Notes
+// live on a Laravel admin-only endpoint and are never part of the customer's order. Laravel creates an
+// "order_note" notification for every admin mentioned in a note, except its author. Attachments are kept
+// on Laravel's private disk and only served to admins through the notes endpoint, never by public URL.
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+export interface StaffMember {
+  id: number
+  name: string
+  email?: string
+}
+
+export interface NoteAttachment {
+  id: number
+  name: string
+  size: number
+  type: string
+}
+
+export interface OrderNote {
+  id: number
+  order_id: number
+  body: string
+  author: StaffMember
+  mentions: StaffMember[]
+  attachments: NoteAttachment[]
+  created_at: string
+}
+
+interface OrderNotesResponse<T> {
+  success: boolean
+  data?: T
+  message?: string
+}
+
+export const MAX_NOTE_LENGTH = 5000
+export const MAX_NOTE_ATTACHMENTS = 5
+export const MAX_NOTE_ATTACHMENT_BYTES = 10 * 1024 * 1024
+export const NOTE_ATTACHMENT_ACCEPT = "image/*,application/pdf"
+
+export const isAllowedNoteAttachment = (file: { type: string }) =>
+  file.type.startsWith("image/") || file.type === "application/pdf"
+
+export class OrderNoteError extends Error {
+  status: number
+
+  constructor(message: string, status = 502) {
+    super(message)
+    this.name = "OrderNoteError"
+    this.status = status
+  }
+}
+
+// Admin accounts that can be mentioned in notes. Server-side: pass the caller's Authorization header.
+export async function fetchStaff(authHeader: string): Promise<StaffMember[]> {
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/admin/users?role=admin&per_page=200`, {
+    method: "GET",
+    headers: {
+      Authorization: authHeader,
+      Accept: "application/json",
+    },
+    cache: "no-store",
+  })
+
+  const data = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new OrderNoteError(data.message || "Failed to load staff", response.ok ? 502 : response.status)
+  }
+
+  const users: StaffMember[] = Array.isArray(data.data) ? data.data : data.data?.data || []
+  return users.map((user) => ({ id: user.id, name: user.name, email: user.email }))
+}
+
+export interface MentionMatch {
+  start: number
+  end: number
+  member: StaffMember
+}
+
+// Finds "@Full Name" mentions of the given people in a note. Longer names are matched first so that
+// "@Ana Cruz" isn't also read as a mention of an "Ana".
+export function matchMentions(body: string, people: StaffMember[]): MentionMatch[] {
+  const lowerBody = body.toLowerCase()
+  const matches: MentionMatch[] = []
+  const sorted = [...people].filter((member) => member.name.trim()).sort((a, b) => b.name.length - a.name.length)
+
+  for (const member of sorted) {
+    const token = `@${member.name.trim().toLowerCase()}`
+    let index = lowerBody.indexOf(token)
+
+    while (index !== -1) {
+      const end = index + token.length
+      const boundary = end === body.length || !/[\w\u00C0-\u024F]/.test(body[end])
+      const overlaps = matches.some((match) => index < match.end && end > match.start)
+
+      if (boundary && !overlaps) matches.push({ start: index, end, member })
+      index = lowerBody.indexOf(token, end)
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start)
+}
+
+export function findMentionedStaff(body: string, staff: StaffMember[]): StaffMember[] {
+  const mentioned = new Map<number, StaffMember>()
+  matchMentions(body, staff).forEach((match) => mentioned.set(match.member.id, match.member))
+  return [...mentioned.values()]
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function getHeaders(): HeadersInit {
+  const token = getAuthToken()
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  }
+
+  if (token) {
+    headers.Authorization = `Bearer ${token}`
+  }
+
+  return headers
+}
+
+export async function getOrderNotes(orderId: number | string): Promise<OrderNote[]> {
+  const response = await fetch(`/api/admin/orders/${orderId}/notes`, { method: "GET", headers: getHeaders() })
+  const data: OrderNotesResponse<OrderNote[]> = await response.json()
+
+  if (!data.success || !Array.isArray(data.data)) {
+    throw new Error(data.message || "Failed to load notes")
+  }
+
+  return data.data
+}
+
+export async function getStaffMembers(): Promise<StaffMember[]> {
+  try {
+    const response = await fetch("/api/admin/staff", { method: "GET", headers: getHeaders() })
+    const data: OrderNotesResponse<StaffMember[]> = await response.json()
+    return data.success && Array.isArray(data.data) ? data.data : []
+  } catch (error) {
+    console.error("Get staff members error:", error)
+    return []
+  }
+}
+
+export async function addOrderNote(
+  orderId: number | string,
+  note: { body: string; attachments: File[] },
+): Promise<OrderNote> {
+  const formData = new FormData()
+  formData.append("body", note.body)
+  note.attachments.forEach((file) => formData.append("attachments[]", file))
+
+  const token = getAuthToken()
+  const response = await fetch(`/api/admin/orders/${orderId}/notes`, {
+    method: "POST",
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: formData,
+  })
+
+  const data: OrderNotesResponse<OrderNote> = await response.json()
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || "Failed to add note")
+  }
+
+  return data.data
+}
+
+// Fetches the file with the session token (a plain link can't send it) and saves it through a temporary anchor
+export async function downloadNoteAttachment(orderId: number | string, attachment: NoteAttachment) {
+  const token = getAuthToken()
+  const response = await fetch(`/api/admin/orders/${orderId}/notes/attachments/${attachment.id}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  })
+
+  if (!response.ok) {
+    const data: OrderNotesResponse<never> = await response.json().catch(() => ({ success: false }))
+    throw new Error(data.message || "Failed to download attachment")
+  }
+
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement("a")
+  link.href = url
+  link.download = attachment.name
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,179 @@
+import { computeVat } from "./invoice"
+import { resolveOrderItems, type ResolvedOrderItem } from "./order-items"
+import type { FulfillmentMethod } from "./order-status"
+import { getServiceCenter, validatePickup } from "./service-centers"
+import { calculateShipping, loadShippingRules } from "./shipping"
+import { checkVoucher } from "./vouchers"
+
+const MAX_QUANTITY_PER_ITEM = 99
+
+export interface PricedOrder {
+  items: {
+    product_id: number | string
+    quantity: number
+    price: number
+    color?: string
+    variant_id?: number
+    sku?: string
+    line_total: number
+    // Whether Laravel keeps a stock count for the line; only those lines are reserved
+    stock_counted: boolean
+  }[]
+  subtotal: number
+  fulfillment_method: FulfillmentMethod
+  pickup_center_id?: string
+  pickup_date?: string
+  shipping_fee: number
+  shipping_zone: string
+  voucher_code?: string
+  discount_amount: number
+  total: number
+  vatable_sales: number
+  vat_amount: number
+}
+
+export interface PriceChange {
+  product_id: number | string
+  // Variants of one product can be priced differently, so a change names the variant too
+  variant_id?: number | null
+  name?: string
+  client_price: number
+  current_price: number
+}
+
+export class OrderPricingError extends Error {
+  status: number
+  details?: Record<string, any>
+
+  constructor(message: string, status = 422, details?: Record<string, any>) {
+    super(message)
+    this.name = "OrderPricingError"
+    this.status = status
+    this.details = details
+  }
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100
+
+function assertValidItems(items: ResolvedOrderItem[]) {
+  if (items.length === 0) {
+    throw new OrderPricingError("Your cart is empty")
+  }
+
+  for (const item of items) {
+    if (!Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > MAX_QUANTITY_PER_ITEM) {
+      throw new OrderPricingError(`Quantity must be between 1 and ${MAX_QUANTITY_PER_ITEM}`)
+    }
+
+    if (!item.found) {
+      throw new OrderPricingError("One of the products in your cart is no longer available", 409, {
+        product_id: item.product_id,
+      })
+    }
+
+    const label = [item.name, item.option || (item.variant_id ? item.color : undefined)].filter(Boolean).join(" ")
+
+    if (!item.in_stock) {
+      throw new OrderPricingError(`${label} is out of stock`, 409, { product_id: item.product_id })
+    }
+
+    if (item.stock !== undefined && item.quantity > item.stock) {
+      throw new OrderPricingError(`Only ${item.stock} left of ${label}`, 409, {
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        stock: item.stock,
+      })
+    }
+
+    if (item.color && item.colors.length > 0 && !item.colors.includes(item.color)) {
+      throw new OrderPricingError(`${item.color} is not available for ${item.name}`)
+    }
+  }
+}
+
+// Recomputes every amount on an order from the catalog, shipping rules and voucher.
+// Nothing monetary from the request body is trusted.
+export async function priceOrder(body: any, authHeader: string | null): Promise<PricedOrder> {
+  const items = await resolveOrderItems(Array.isArray(body.items) ? body.items : [])
+  assertValidItems(items)
+
+  const isPickup = body.fulfillment_method === "pickup"
+  let shippingFee = 0
+  let shippingZone: string
+
+  if (isPickup) {
+    // Branch pickup never carries a shipping fee
+    const pickupError = validatePickup(body.pickup_center_id, body.pickup_date)
+    if (pickupError) throw new OrderPricingError(pickupError)
+    shippingZone = `Pickup: ${getServiceCenter(body.pickup_center_id)!.name}`
+  } else {
+    const quote = calculateShipping(await loadShippingRules(), items, body.shipping_info?.province)
+    if (!quote.zone) {
+      throw new OrderPricingError("We don't deliver to this province yet. Please contact us for a quote.")
+    }
+    shippingFee = quote.fee
+    shippingZone = quote.zone.name
+  }
+
+  let discount = 0
+  let voucherCode: string | undefined
+  if (body.voucher_code) {
+    if (!authHeader) {
+      throw new OrderPricingError("Please sign in to use a promo code", 401)
+    }
+
+    const voucher = await checkVoucher(String(body.voucher_code), items, authHeader)
+    if (!voucher.valid) {
+      throw new OrderPricingError(voucher.message)
+    }
+
+    voucherCode = voucher.code
+    discount = voucher.discount
+  }
+
+  const pricedItems = items.map((item) => ({
+    product_id: item.product_id,
+    quantity: item.quantity,
+    price: item.price,
+    color: item.color,
+    variant_id: item.variant_id,
+    sku: item.sku,
+    line_total: roundCurrency(item.price * item.quantity),
+    stock_counted: item.stock !== undefined,
+  }))
+  const subtotal = roundCurrency(pricedItems.reduce((sum, item) => sum + item.line_total, 0))
+  const total = roundCurrency(subtotal - discount + shippingFee)
+
+  return {
+    items: pricedItems,
+    subtotal,
+    fulfillment_method: isPickup ? "pickup" : "delivery",
+    pickup_center_id: isPickup ? body.pickup_center_id : undefined,
+    pickup_date: isPickup ? body.pickup_date : undefined,
+    shipping_fee: shippingFee,
+    shipping_zone: shippingZone,
+    voucher_code: voucherCode,
+    discount_amount: discount,
+    total,
+    ...computeVat(total),
+  }
+}
+
+// Items whose price in the request differs from the catalog, e.g. a cart added before a price change
+export function findPriceChanges(clientItems: any[], priced: PricedOrder): PriceChange[] {
+  return priced.items
+    .map((item, index) => ({
+      product_id: item.product_id,
+      variant_id: item.variant_id ?? null,
+      client_price: Number(clientItems[index]?.price) || 0,
+      current_price: item.price,
+    }))
+    .filter((change) => Math.abs(change.client_price - change.current_price) >= 0.01)
+}
+
+// Order-level amounts the client sent that don't match the recomputed ones
+export function findTotalMismatches(body: any, priced: PricedOrder): string[] {
+  return (["subtotal", "shipping_fee", "discount_amount", "total"] as const).filter(
+    (field) => body[field] !== undefined && Math.abs((Number(body[field]) || 0) - priced[field]) >= 0.01,
+  )
+}
@@ -0,0 +1,110 @@
+export type FulfillmentMethod = "delivery" | "pickup"
+
+export type OrderStatus =
+  | "pending"
+  | "confirmed"
+  | "processing"
+  | "shipped"
+  | "ready_for_pickup"
+  | "delivered"
+  | "cancelled"
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  "pending",
+  "confirmed",
+  "processing",
+  "shipped",
+  "ready_for_pickup",
+  "delivered",
+  "cancelled",
+]
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  processing: "Processing",
+  shipped: "Shipped",
+  ready_for_pickup: "Ready for Pickup",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+}
+
+export function getOrderStatusLabel(status: string | null | undefined, fulfillment?: string | null): string {
+  if (status === "delivered" && fulfillment === "pickup") return "Picked Up"
+  return STATUS_LABELS[status as OrderStatus] || (status ? status.charAt(0).toUpperCase() + status.slice(1) : "")
+}
+
+// Pickup orders are never shipped and delivery orders are never ready for pickup
+export function getStatusesForFulfillment(fulfillment: string | null | undefined): OrderStatus[] {
+  return ORDER_STATUSES.filter((status) =>
+    fulfillment === "pickup" ? status !== "shipped" : status !== "ready_for_pickup",
+  )
+}
+
+// Where each status can go next. Fulfillment-specific steps are filtered by getAllowedTransitions.
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["processing", "cancelled"],
+  processing: ["shipped", "ready_for_pickup", "cancelled"],
+  shipped: ["delivered"],
+  // Unclaimed pickups can still be cancelled and the unit restocked
+  ready_for_pickup: ["delivered", "cancelled"],
+  delivered: [],
+  cancelled: [],
+}
+
+// Steps that hand the unit over to a courier or the customer
+const RELEASE_STATUSES: OrderStatus[] = ["shipped", "ready_for_pickup", "delivered"]
+
+export interface TransitionOrder {
+  status?: string
+  fulfillment_method?: string | null
+  payment_method?: string | null
+  payment_status?: string | null
+  // Status of the order's financing application, for financing orders
+  financing_status?: string | null
+}
+
+export interface StatusHistoryEntry {
+  id: number
+  from_status: string | null
+  to_status: string
+  note?: string | null
+  actor_id?: number | null
+  actor_name?: string | null
+  actor_role?: string | null
+  created_at: string
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return ORDER_STATUSES.includes(value as OrderStatus)
+}
+
+export function getAllowedTransitions(order: TransitionOrder): OrderStatus[] {
+  const allowedForFulfillment = getStatusesForFulfillment(order.fulfillment_method)
+  return (ORDER_STATUS_TRANSITIONS[order.status as OrderStatus] || []).filter((status) =>
+    allowedForFulfillment.includes(status),
+  )
+}
+
+// Returns why the move isn't allowed, or null when it is
+export function checkOrderTransition(order: TransitionOrder, to: string): string | null {
+  if (!isOrderStatus(to)) return `Unknown order status "${to}"`
+
+  const fromLabel = getOrderStatusLabel(order.status || "unknown", order.fulfillment_method)
+  const toLabel = getOrderStatusLabel(to, order.fulfillment_method)
+
+  if (order.status === to) return `Order is already ${toLabel}`
+  if (!getAllowedTransitions(order).includes(to)) return `Can't move an order from ${fromLabel} to ${toLabel}`
+
+  // COD is collected on hand-over and approved financing through the installments; every other method has
+  // to be paid before the unit leaves
+  const paidLater =
+    order.payment_method === "cod" || (order.payment_method === "financing" && order.financing_status === "approved")
+
+  if (RELEASE_STATUSES.includes(to) && !paidLater && order.payment_status !== "paid") {
+    return `Can't mark the order ${toLabel} until payment is received`
+  }
+
+  return null
+}
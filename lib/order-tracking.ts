@@ -0,0 +1,192 @@
+import { getOrderStatusLabel, type OrderStatus, type StatusHistoryEntry } from "./order-status"
+
+// Builds the customer-facing timeline from the recorded status history plus any courier checkpoints,
+// instead of guessing progress from where the current status sits in a fixed list.
+
+export type TrackingStepState = "done" | "current" | "upcoming" | "skipped" | "cancelled"
+
+export interface TrackingStep {
+  status: OrderStatus
+  label: string
+  state: TrackingStepState
+  reached_at?: string | null
+}
+
+export interface TrackingEvent {
+  id: string
+  type: "status" | "checkpoint"
+  status: string
+  title: string
+  description?: string | null
+  location?: string | null
+  courier_name?: string | null
+  note?: string | null
+  occurred_at: string
+}
+
+// Courier scans as Laravel's track endpoint returns them
+export interface CourierCheckpoint {
+  id: number | string
+  status: string
+  description: string
+  location?: string | null
+  timestamp: string
+  admin_notes?: string | null
+  courier_name?: string | null
+}
+
+export interface TrackableOrder {
+  order_number: string
+  status: string
+  fulfillment_method?: string | null
+  created_at?: string | null
+  tracking_number?: string | null
+  courier_name?: string | null
+  estimated_delivery?: string | null
+}
+
+export interface OrderTracking {
+  order_number: string
+  status: string
+  fulfillment_method?: string | null
+  tracking_number?: string | null
+  courier_name?: string | null
+  estimated_delivery?: string | null
+  steps: TrackingStep[]
+  // Newest first
+  events: TrackingEvent[]
+}
+
+export function getTrackingDescription(status: string, fulfillment?: string | null): string {
+  switch (status) {
+    case "pending":
+      return "Your order has been received and is awaiting confirmation."
+    case "confirmed":
+      return "Your order has been confirmed and is being prepared."
+    case "processing":
+      return fulfillment === "pickup"
+        ? "Your order is being prepared at the branch."
+        : "Your order is being processed and prepared for shipment."
+    case "shipped":
+      return "Your order has been handed to the courier and is on its way to you."
+    case "ready_for_pickup":
+      return "Your order is ready. Bring a valid ID when you pick it up at the branch."
+    case "delivered":
+      return fulfillment === "pickup" ? "You picked up your order." : "Your order has been delivered."
+    case "cancelled":
+      return "Your order has been cancelled."
+    default:
+      return "Order status is being updated."
+  }
+}
+
+const getStepPath = (fulfillment?: string | null): OrderStatus[] => [
+  "pending",
+  "confirmed",
+  "processing",
+  fulfillment === "pickup" ? "ready_for_pickup" : "shipped",
+  "delivered",
+]
+
+const byTime = (a: string, b: string) => new Date(a).getTime() - new Date(b).getTime()
+
+export function buildOrderTracking(
+  order: TrackableOrder,
+  history: StatusHistoryEntry[],
+  checkpoints: CourierCheckpoint[] = [],
+): OrderTracking {
+  const fulfillment = order.fulfillment_method
+  const sortedHistory = [...history].sort((a, b) => byTime(a.created_at, b.created_at))
+
+  // First time each status was reached; an order reopened by staff keeps its original dates
+  const reachedAt = new Map<string, string>()
+  for (const entry of sortedHistory) {
+    if (!reachedAt.has(entry.to_status)) reachedAt.set(entry.to_status, entry.created_at)
+  }
+  if (!reachedAt.has("pending") && order.created_at) reachedAt.set("pending", order.created_at)
+
+  const path = getStepPath(fulfillment)
+  const cancelled = order.status === "cancelled"
+  // Orders from before history was recorded have no entries, so earlier steps are assumed done
+  const hasHistory = sortedHistory.length > 0
+
+  let currentIndex = path.indexOf(order.status as OrderStatus)
+  if (cancelled) {
+    const cancelEntry = sortedHistory.find((entry) => entry.to_status === "cancelled")
+    currentIndex = cancelEntry?.from_status
+      ? path.indexOf(cancelEntry.from_status as OrderStatus)
+      : path.reduce((last, status, index) => (reachedAt.has(status) ? index : last), 0)
+  }
+
+  const steps: TrackingStep[] = []
+  path.forEach((status, index) => {
+    if (cancelled && index > currentIndex) return
+
+    let state: TrackingStepState
+    if (index < currentIndex || (index === currentIndex && (cancelled || status === "delivered"))) {
+      state = reachedAt.has(status) || !hasHistory ? "done" : "skipped"
+    } else if (index === currentIndex) {
+      state = "current"
+    } else {
+      state = "upcoming"
+    }
+
+    steps.push({ status, label: getOrderStatusLabel(status, fulfillment), state, reached_at: reachedAt.get(status) })
+  })
+
+  if (cancelled) {
+    steps.push({
+      status: "cancelled",
+      label: getOrderStatusLabel("cancelled"),
+      state: "cancelled",
+      reached_at: reachedAt.get("cancelled"),
+    })
+  }
+
+  const events: TrackingEvent[] = sortedHistory.map((entry) => ({
+    id: `status-${entry.id}`,
+    type: "status",
+    status: entry.to_status,
+    title: getOrderStatusLabel(entry.to_status, fulfillment),
+    description: getTrackingDescription(entry.to_status, fulfillment),
+    note: entry.note,
+    occurred_at: entry.created_at,
+  }))
+
+  if (!sortedHistory.some((entry) => entry.to_status === "pending") && order.created_at) {
+    events.push({
+      id: "status-placed",
+      type: "status",
+      status: "pending",
+      title: "Order Placed",
+      description: getTrackingDescription("pending", fulfillment),
+      occurred_at: order.created_at,
+    })
+  }
+
+  for (const checkpoint of checkpoints) {
+    events.push({
+      id: `checkpoint-${checkpoint.id}`,
+      type: "checkpoint",
+      status: checkpoint.status,
+      title: checkpoint.description,
+      location: checkpoint.location,
+      courier_name: checkpoint.courier_name,
+      note: checkpoint.admin_notes,
+      occurred_at: checkpoint.timestamp,
+    })
+  }
+
+  events.sort((a, b) => byTime(b.occurred_at, a.occurred_at))
+
+  return {
+    order_number: order.order_number,
+    status: order.status,
+    fulfillment_method: fulfillment,
+    tracking_number: order.tracking_number,
+    courier_name: order.courier_name,
+    estimated_delivery: order.estimated_delivery,
+    steps,
+    events,
+  }
+}
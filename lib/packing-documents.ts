@@ -0,0 +1,307 @@
+import { getCourierName } from "./couriers"
+import { SELLER } from "./invoice-pdf"
+import type { BulkOrderResult } from "./order-actions"
+import { getPaymentMethodLabel } from "./payments/methods"
+import { PdfDocument } from "./pdf"
+import { getServiceCenter } from "./service-centers"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+export type PackingDocumentType = "packing_slips" | "pick_list"
+
+export const PACKING_DOCUMENT_TYPES: PackingDocumentType[] = ["packing_slips", "pick_list"]
+
+// The subset of a Laravel order the warehouse paperwork needs
+export interface PackingOrder {
+  id: number
+  order_number: string
+  status: string
+  created_at: string
+  first_name: string
+  last_name: string
+  phone: string
+  address: string
+  barangay?: string | null
+  city: string
+  province?: string | null
+  zip_code?: string | null
+  fulfillment_method?: string | null
+  pickup_center_id?: string | null
+  pickup_date?: string | null
+  courier?: string | null
+  tracking_number?: string | null
+  payment_method: string
+  payment_status?: string | null
+  total: number
+  items: {
+    quantity: number
+    color?: string | null
+    option?: string | null
+    sku?: string | null
+    product?: { name: string; model?: string | null }
+  }[]
+}
+
+// Loads each order through the admin endpoint. Orders that can't be loaded or shouldn't be packed
+// are reported back instead of failing the whole batch.
+export async function fetchPackingOrders(
+  orderIds: number[],
+  authHeader: string,
+): Promise<{ orders: PackingOrder[]; failures: BulkOrderResult[] }> {
+  const orders: PackingOrder[] = []
+  const failures: BulkOrderResult[] = []
+
+  for (const orderId of orderIds) {
+    try {
+      const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/admin/orders/${orderId}`, {
+        method: "GET",
+        headers: {
+          Authorization: authHeader,
+          Accept: "application/json",
+          "Content-Type": "application/json",
+        },
+        cache: "no-store",
+      })
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        failures.push({ order_id: orderId, success: false, message: data.message || "Order not found" })
+      } else if (data.data.status === "cancelled") {
+        failures.push({
+          order_id: orderId,
+          order_number: data.data.order_number,
+          success: false,
+          message: "Cancelled orders are not packed",
+        })
+      } else {
+        orders.push(data.data)
+      }
+    } catch (error) {
+      console.error(`Packing document fetch failed for order ${orderId}:`, error)
+      failures.push({ order_id: orderId, success: false, message: "Failed to load order" })
+    }
+  }
+
+  return { orders, failures }
+}
+
+const formatAmount = (amount: number) =>
+  `PHP ${amount.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-PH", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "Asia/Manila",
+  })
+
+const itemName = (item: PackingOrder["items"][number]) =>
+  [
+    item.product?.name || "Item",
+    item.product?.model,
+    (item.color || item.option) && `(${[item.color, item.option].filter(Boolean).join(", ")})`,
+    item.sku && `[${item.sku}]`,
+  ]
+    .filter(Boolean)
+    .join(" ")
+
+const GRAY: [number, number, number] = [0.4, 0.4, 0.4]
+const LIGHT: [number, number, number] = [0.85, 0.85, 0.85]
+const ORANGE: [number, number, number] = [0.92, 0.35, 0.05]
+const MARGIN = 48
+
+function drawCheckbox(doc: PdfDocument, x: number, y: number, size = 10) {
+  doc.line(x, y, x + size, y, 0.75)
+  doc.line(x + size, y, x + size, y + size, 0.75)
+  doc.line(x + size, y + size, x, y + size, 0.75)
+  doc.line(x, y + size, x, y, 0.75)
+}
+
+// One page per order, packed into the box with the unit
+export function renderPackingSlips(orders: PackingOrder[]): Buffer {
+  const doc = new PdfDocument()
+  const right = doc.width - MARGIN
+
+  orders.forEach((order, index) => {
+    if (index > 0) doc.addPage()
+    let y = MARGIN
+
+    doc.text(SELLER.name, MARGIN, y, { size: 18, bold: true, color: ORANGE })
+    doc.text("PACKING SLIP", right, y, { size: 16, bold: true, align: "right" })
+    y += 24
+    doc.text(`${SELLER.email} | ${SELLER.phone}`, MARGIN, y, { size: 9, color: GRAY })
+    doc.text(`Order #${order.order_number}`, right, y, { size: 10, bold: true, align: "right" })
+    y += 13
+    doc.text(`Ordered ${formatDate(order.created_at)}`, right, y, { size: 9, align: "right" })
+    y += 20
+    doc.line(MARGIN, y, right, y, 1, ORANGE)
+    y += 14
+
+    // Recipient and hand-over
+    const pickupCenter = order.fulfillment_method === "pickup" ? getServiceCenter(order.pickup_center_id) : undefined
+    doc.text(pickupCenter ? "RELEASE TO" : "SHIP TO", MARGIN, y, { size: 8, bold: true, color: GRAY })
+    doc.text(pickupCenter ? "PICKUP BRANCH" : "COURIER", right - 200, y, { size: 8, bold: true, color: GRAY })
+    y += 12
+    doc.text(`${order.first_name} ${order.last_name}`.trim(), MARGIN, y, { size: 11, bold: true })
+    doc.text(pickupCenter?.name || getCourierName(order.courier), right - 200, y, { size: 11, bold: true })
+    y += 14
+
+    const address = pickupCenter
+      ? [`Phone: ${order.phone}`]
+      : [
+          ...doc.wrap(
+            [order.address, order.barangay, order.city, order.province, order.zip_code].filter(Boolean).join(", "),
+            260,
+            9,
+          ),
+          `Phone: ${order.phone}`,
+        ]
+    const handover = pickupCenter
+      ? [pickupCenter.address, order.pickup_date ? `Pickup date: ${formatDate(`${order.pickup_date}T00:00:00`)}` : ""]
+      : [order.tracking_number ? `Tracking: ${order.tracking_number}` : ""]
+
+    const detailRows = Math.max(address.length, handover.length)
+    for (let row = 0; row < detailRows; row++) {
+      if (address[row]) doc.text(address[row], MARGIN, y, { size: 9 })
+      if (handover[row]) doc.text(handover[row], right - 200, y, { size: 9 })
+      y += 12
+    }
+    y += 16
+
+    // Items with a box to tick while packing
+    doc.rect(MARGIN, y - 4, right - MARGIN, 18, [0.96, 0.96, 0.96])
+    doc.text("Packed", MARGIN + 6, y, { size: 9, bold: true })
+    doc.text("Item", MARGIN + 56, y, { size: 9, bold: true })
+    doc.text("Qty", right - 6, y, { size: 9, bold: true, align: "right" })
+    y += 22
+
+    for (const item of order.items) {
+      const lines = doc.wrap(itemName(item), right - MARGIN - 120, 10)
+      if (y + lines.length * 13 > doc.height - 200) {
+        doc.addPage()
+        y = MARGIN
+      }
+      drawCheckbox(doc, MARGIN + 14, y)
+      lines.forEach((line, lineIndex) => doc.text(line, MARGIN + 56, y + lineIndex * 13, { size: 10 }))
+      doc.text(String(item.quantity), right - 6, y, { size: 10, bold: true, align: "right" })
+      y += lines.length * 13 + 8
+      doc.line(MARGIN, y - 4, right, y - 4, 0.25, LIGHT)
+    }
+
+    const units = order.items.reduce((sum, item) => sum + item.quantity, 0)
+    y += 6
+    doc.text(`Total units: ${units}`, right - 6, y, { size: 10, bold: true, align: "right" })
+    y += 24
+
+    // Cash the courier or branch has to collect
+    if (order.payment_method === "cod" && order.payment_status !== "paid") {
+      doc.rect(MARGIN, y - 6, right - MARGIN, 28, [1, 0.96, 0.92])
+      doc.text(
+        `COLLECT ON ${pickupCenter ? "PICKUP" : "DELIVERY"}: ${formatAmount(Number(order.total))}`,
+        MARGIN + 8,
+        y,
+        {
+          size: 12,
+          bold: true,
+        },
+      )
+      y += 36
+    } else {
+      doc.text(
+        `Payment: ${getPaymentMethodLabel(order.payment_method)} (${order.payment_status || "pending"})`,
+        MARGIN,
+        y,
+        {
+          size: 9,
+          color: GRAY,
+        },
+      )
+      y += 24
+    }
+
+    // Sign-off
+    const footerY = doc.height - MARGIN - 40
+    doc.line(MARGIN, footerY, MARGIN + 180, footerY, 0.5)
+    doc.line(right - 180, footerY, right, footerY, 0.5)
+    doc.text("Packed by / date", MARGIN, footerY + 6, { size: 8, color: GRAY })
+    doc.text("Checked by / date", right - 180, footerY + 6, { size: 8, color: GRAY })
+  })
+
+  return doc.toBuffer()
+}
+
+interface PickListLine {
+  name: string
+  quantity: number
+  orders: string[]
+}
+
+function buildPickList(orders: PackingOrder[]): PickListLine[] {
+  const lines = new Map<string, PickListLine>()
+
+  for (const order of orders) {
+    for (const item of order.items) {
+      const name = itemName(item)
+      const line = lines.get(name) || { name, quantity: 0, orders: [] }
+      line.quantity += item.quantity
+      if (!line.orders.includes(order.order_number)) line.orders.push(order.order_number)
+      lines.set(name, line)
+    }
+  }
+
+  return Array.from(lines.values()).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Everything to pull from the shelves for the batch, one line per product and variant
+export function renderPickList(orders: PackingOrder[]): Buffer {
+  const doc = new PdfDocument()
+  const right = doc.width - MARGIN
+  const lines = buildPickList(orders)
+  let y = MARGIN
+
+  doc.text(SELLER.name, MARGIN, y, { size: 18, bold: true, color: ORANGE })
+  doc.text("PICK LIST", right, y, { size: 16, bold: true, align: "right" })
+  y += 24
+  doc.text(`Generated ${formatDate(new Date().toISOString())}`, MARGIN, y, { size: 9, color: GRAY })
+  doc.text(
+    `${orders.length} order${orders.length === 1 ? "" : "s"}, ${lines.reduce((sum, line) => sum + line.quantity, 0)} units`,
+    right,
+    y,
+    { size: 9, align: "right" },
+  )
+  y += 20
+  doc.line(MARGIN, y, right, y, 1, ORANGE)
+  y += 14
+
+  const drawTableHeader = () => {
+    doc.rect(MARGIN, y - 4, right - MARGIN, 18, [0.96, 0.96, 0.96])
+    doc.text("Picked", MARGIN + 6, y, { size: 9, bold: true })
+    doc.text("Item", MARGIN + 56, y, { size: 9, bold: true })
+    doc.text("Qty", MARGIN + 320, y, { size: 9, bold: true, align: "right" })
+    doc.text("Orders", MARGIN + 340, y, { size: 9, bold: true })
+    y += 22
+  }
+  drawTableHeader()
+
+  for (const line of lines) {
+    const nameLines = doc.wrap(line.name, 250, 10)
+    const orderLines = doc.wrap(line.orders.join(", "), right - MARGIN - 340, 8)
+    const height = Math.max(nameLines.length * 13, orderLines.length * 11) + 8
+
+    if (y + height > doc.height - MARGIN) {
+      doc.addPage()
+      y = MARGIN
+      drawTableHeader()
+    }
+
+    drawCheckbox(doc, MARGIN + 14, y)
+    nameLines.forEach((text, index) => doc.text(text, MARGIN + 56, y + index * 13, { size: 10 }))
+    doc.text(String(line.quantity), MARGIN + 320, y, { size: 10, bold: true, align: "right" })
+    orderLines.forEach((text, index) => doc.text(text, MARGIN + 340, y + 1 + index * 11, { size: 8, color: GRAY }))
+    y += height
+    doc.line(MARGIN, y - 4, right, y - 4, 0.25, LIGHT)
+  }
+
+  return doc.toBuffer()
+}
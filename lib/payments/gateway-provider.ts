@@ -0,0 +1,156 @@
+import {
+  PaymentProviderError,
+  type CreateIntentParams,
+  type PaymentFlow,
+  type PaymentIntent,
+  type PaymentIntentStatus,
+  type PaymentMethodCode,
+  type PaymentProvider,
+  type RefundParams,
+} from "./types"
+
+interface GatewayProviderConfig {
+  code: string
+  method: PaymentMethodCode
+  flow: PaymentFlow
+  // Payment method type understood by the gateway, e.g. "gcash", "paymaya", "card"
+  gatewayMethod: string
+  baseUrl: string
+  secretKey: string
+}
+
+// Gateway amounts are expressed in centavos
+const toMinorUnits = (amount: number) => Math.round(amount * 100)
+const fromMinorUnits = (amount: any) => (Number(amount) || 0) / 100
+
+function mapGatewayStatus(status: string): PaymentIntentStatus {
+  switch (status) {
+    case "requires_capture":
+    case "authorized":
+      return "authorized"
+    case "succeeded":
+    case "paid":
+      return "succeeded"
+    case "failed":
+    case "expired":
+      return "failed"
+    case "cancelled":
+    case "canceled":
+      return "cancelled"
+    case "refunded":
+      return "refunded"
+    case "partially_refunded":
+      return "partially_refunded"
+    default:
+      return "awaiting_payment"
+  }
+}
+
+// Hosted-checkout gateway client. E-wallets (GCash/Maya) capture as soon as the
+// customer authorizes on the wallet page; cards are authorized first and captured
+// by us once the order is confirmed.
+export class GatewayPaymentProvider implements PaymentProvider {
+  code: string
+  method: PaymentMethodCode
+  flow: PaymentFlow
+  private gatewayMethod: string
+  private baseUrl: string
+  private secretKey: string
+
+  constructor(config: GatewayProviderConfig) {
+    this.code = config.code
+    this.method = config.method
+    this.flow = config.flow
+    this.gatewayMethod = config.gatewayMethod
+    this.baseUrl = config.baseUrl.replace(/\/$/, "")
+    this.secretKey = config.secretKey
+  }
+
+  private async request(path: string, init?: { method?: string; body?: any }): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: init?.method || "GET",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.secretKey}:`).toString("base64")}`,
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: init?.body ? JSON.stringify(init.body) : undefined,
+      cache: "no-store",
+    })
+
+    const text = await response.text()
+    let data: any = {}
+
+    try {
+      data = text ? JSON.parse(text) : {}
+    } catch {
+      data = { message: text }
+    }
+
+    if (!response.ok) {
+      console.error(`Payment gateway error (${this.code}):`, response.status, text)
+      throw new PaymentProviderError(data.message || `Payment gateway error: ${response.status}`, response.status)
+    }
+
+    return data.data || data
+  }
+
+  private toIntent(data: any): PaymentIntent {
+    return {
+      id: String(data.id),
+      provider: this.code,
+      method: this.method,
+      status: mapGatewayStatus(String(data.status || "")),
+      amount: fromMinorUnits(data.amount),
+      currency: data.currency || "PHP",
+      amountRefunded: fromMinorUnits(data.amount_refunded),
+      redirectUrl: data.redirect_url || data.checkout_url || undefined,
+      metadata: data.metadata,
+    }
+  }
+
+  async createIntent(params: CreateIntentParams): Promise<PaymentIntent> {
+    const data = await this.request("/payment_intents", {
+      method: "POST",
+      body: {
+        amount: toMinorUnits(params.amount),
+        currency: params.currency,
+        payment_method_type: this.gatewayMethod,
+        capture_type: this.flow === "card" ? "manual" : "automatic",
+        description: params.description,
+        billing: params.customer,
+        return_url: params.returnUrl,
+        cancel_url: params.cancelUrl,
+        metadata: {
+          order_id: String(params.orderId),
+          order_number: params.orderNumber,
+        },
+      },
+    })
+
+    return this.toIntent(data)
+  }
+
+  async capture(intentId: string): Promise<PaymentIntent> {
+    const data = await this.request(`/payment_intents/${encodeURIComponent(intentId)}/capture`, { method: "POST" })
+    return this.toIntent(data)
+  }
+
+  async refund(intentId: string, params?: RefundParams): Promise<PaymentIntent> {
+    await this.request("/refunds", {
+      method: "POST",
+      body: {
+        payment_intent_id: intentId,
+        amount: params?.amount !== undefined ? toMinorUnits(params.amount) : undefined,
+        reason: params?.reason,
+      },
+    })
+
+    return this.getStatus(intentId)
+  }
+
+  async getStatus(intentId: string): Promise<PaymentIntent> {
+    const data = await this.request(`/payment_intents/${encodeURIComponent(intentId)}`)
+    return this.toIntent(data)
+  }
+}
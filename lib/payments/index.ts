@@ -0,0 +1,71 @@
+import { GatewayPaymentProvider } from "./gateway-provider"
+import { getPaymentMethod, isOnlinePayment } from "./methods"
+import { MockPaymentProvider } from "./mock-provider"
+import { PaymentProviderError, type PaymentProvider } from "./types"
+
+export * from "./types"
+export * from "./methods"
+
+// Payment method type names as the hosted gateway knows them
+const GATEWAY_METHODS: Record<string, string> = {
+  gcash: "gcash",
+  maya: "paymaya",
+  card: "card",
+}
+
+const GATEWAY_SETTINGS = ["PAYMENT_GATEWAY_URL", "PAYMENT_GATEWAY_SECRET_KEY", "PAYMENT_WEBHOOK_SECRET"]
+
+const providers = new Map<string, PaymentProvider>()
+
+// The mock gateway is opt-in (PAYMENT_GATEWAY_MODE=mock) for local dev and tests, and never runs in production
+export function isMockPaymentGateway(): boolean {
+  return process.env.PAYMENT_GATEWAY_MODE === "mock" && process.env.NODE_ENV !== "production"
+}
+
+const missingGatewaySettings = () => GATEWAY_SETTINGS.filter((name) => !process.env[name])
+
+// Problems that keep online payments from running, checked once at startup
+export function getPaymentConfigErrors(): string[] {
+  if (process.env.PAYMENT_GATEWAY_MODE === "mock") {
+    return process.env.NODE_ENV === "production" ? ["PAYMENT_GATEWAY_MODE=mock is not allowed in production"] : []
+  }
+
+  return missingGatewaySettings().map((name) => `${name} is not set`)
+}
+
+// Resolve the provider for a checkout payment method. Pass the provider code stored on
+// the order to keep talking to the gateway that created the intent.
+export function getPaymentProvider(methodCode: string, providerCode?: string | null): PaymentProvider | null {
+  const method = getPaymentMethod(methodCode)
+  if (!method || !isOnlinePayment(method.code)) return null
+
+  const useMock = providerCode ? providerCode.startsWith("mock_") : isMockPaymentGateway()
+
+  if (useMock && !isMockPaymentGateway()) {
+    throw new PaymentProviderError("The mock payment gateway is disabled", 409)
+  }
+
+  if (!useMock && missingGatewaySettings().length > 0) {
+    console.error("Payment gateway is not configured, missing:", missingGatewaySettings().join(", "))
+    throw new PaymentProviderError("Online payment is not available right now", 503)
+  }
+
+  const key = `${useMock ? "mock" : "gateway"}:${method.code}`
+
+  let provider = providers.get(key)
+  if (!provider) {
+    provider = useMock
+      ? new MockPaymentProvider(method.code, method.flow)
+      : new GatewayPaymentProvider({
+          code: method.code,
+          method: method.code,
+          flow: method.flow,
+          gatewayMethod: GATEWAY_METHODS[method.code],
+          baseUrl: process.env.PAYMENT_GATEWAY_URL || "",
+          secretKey: process.env.PAYMENT_GATEWAY_SECRET_KEY || "",
+        })
+    providers.set(key, provider)
+  }
+
+  return provider
+}
@@ -0,0 +1,104 @@
+import type { OrderPaymentStatus, PaymentFlow, PaymentIntentStatus, PaymentMethodCode } from "./types"
+
+export interface PaymentMethodOption {
+  code: PaymentMethodCode
+  label: string
+  description: string
+  flow: PaymentFlow
+}
+
+// Payment options offered at checkout, in display order
+export const paymentMethods: PaymentMethodOption[] = [
+  {
+    code: "cod",
+    label: "Cash on Delivery",
+    description: "Pay when you receive your order",
+    flow: "offline",
+  },
+  {
+    code: "gcash",
+    label: "GCash",
+    description: "You'll be redirected to GCash to authorize the payment",
+    flow: "redirect",
+  },
+  {
+    code: "maya",
+    label: "Maya",
+    description: "You'll be redirected to Maya to authorize the payment",
+    flow: "redirect",
+  },
+  {
+    code: "card",
+    label: "Credit/Debit Card",
+    description: "Visa and Mastercard, secured with 3-D Secure",
+    flow: "card",
+  },
+  {
+    code: "financing",
+    label: "Pay via Financing",
+    description: "Pay a down payment and the rest in monthly installments, subject to approval",
+    flow: "financing",
+  },
+]
+
+export function getPaymentMethod(code: string | null | undefined): PaymentMethodOption | undefined {
+  return paymentMethods.find((method) => method.code === code)
+}
+
+export function getPaymentMethodLabel(code: string | null | undefined): string {
+  return getPaymentMethod(code)?.label || code || "Unknown"
+}
+
+export function isOnlinePayment(code: string | null | undefined): boolean {
+  const method = getPaymentMethod(code)
+  return !!method && (method.flow === "redirect" || method.flow === "card")
+}
+
+// Translate a provider intent status into the order-level payment_status. An abandoned intent counts as
+// failed so the customer can retry; the order's own "cancelled" is only set when the order is cancelled.
+export function toOrderPaymentStatus(status: PaymentIntentStatus): OrderPaymentStatus {
+  switch (status) {
+    case "succeeded":
+    case "partially_refunded":
+      return "paid"
+    case "refunded":
+      return "refunded"
+    case "failed":
+    case "cancelled":
+      return "failed"
+    default:
+      return "pending"
+  }
+}
+
+// Allowed payment_status moves. Anything else (e.g. a late "pending" after "paid")
+// comes from a stale or out-of-order provider event and is ignored. Cancelled is final: it
+// belongs to a cancelled order, and a payment that completes after that is refunded instead.
+const PAYMENT_STATUS_TRANSITIONS: Record<OrderPaymentStatus, OrderPaymentStatus[]> = {
+  pending: ["paid", "failed", "cancelled"],
+  failed: ["pending", "paid", "cancelled"],
+  cancelled: [],
+  paid: ["refunded"],
+  refunded: [],
+}
+
+export function canTransitionPaymentStatus(from: string | null | undefined, to: OrderPaymentStatus): boolean {
+  const current = (from || "pending") as OrderPaymentStatus
+  if (current === to) return true
+  return (PAYMENT_STATUS_TRANSITIONS[current] || []).includes(to)
+}
+
+// Statuses staff may set by hand. Only cash on delivery is collected outside a provider or lender, so it is
+// the only method whose payment_status staff record themselves.
+const MANUAL_PAYMENT_STATUSES: OrderPaymentStatus[] = ["paid", "failed"]
+
+export function getManualPaymentStatuses(order: {
+  payment_method?: string | null
+  payment_status?: string | null
+}): OrderPaymentStatus[] {
+  if (getPaymentMethod(order.payment_method)?.flow !== "offline") return []
+  return MANUAL_PAYMENT_STATUSES.filter(
+    (status) =>
+      status !== (order.payment_status || "pending") && canTransitionPaymentStatus(order.payment_status, status),
+  )
+}
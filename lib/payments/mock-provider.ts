@@ -0,0 +1,118 @@
+import {
+  PaymentProviderError,
+  type CreateIntentParams,
+  type PaymentFlow,
+  type PaymentIntent,
+  type PaymentMethodCode,
+  type PaymentProvider,
+  type RefundParams,
+} from "./types"
+
+export type MockOutcome = "approve" | "decline" | "cancel"
+
+// Kept on globalThis so every route bundle sees the same intents in dev
+const globalForMock = globalThis as unknown as { mockPaymentIntents?: Map<string, PaymentIntent> }
+const intents = globalForMock.mockPaymentIntents ?? new Map<string, PaymentIntent>()
+globalForMock.mockPaymentIntents = intents
+
+function findIntent(intentId: string): PaymentIntent {
+  const intent = intents.get(intentId)
+  if (!intent) {
+    throw new PaymentProviderError(`Payment intent ${intentId} not found`, 404)
+  }
+  return intent
+}
+
+// The mock checkout page only ever redirects within the site, so keep just the path of each URL
+function toSitePath(url: string): string {
+  const parsed = new URL(url, "http://localhost")
+  return `${parsed.pathname}${parsed.search}`
+}
+
+// Local stand-in for the real gateway. Redirects go to /payment/mock-checkout,
+// where the tester approves, declines or cancels the payment.
+export class MockPaymentProvider implements PaymentProvider {
+  code: string
+  method: PaymentMethodCode
+  flow: PaymentFlow
+
+  constructor(method: PaymentMethodCode, flow: PaymentFlow) {
+    this.code = `mock_${method}`
+    this.method = method
+    this.flow = flow
+  }
+
+  async createIntent(params: CreateIntentParams): Promise<PaymentIntent> {
+    const id = `mock_pi_${Math.random().toString(36).slice(2, 14)}${Date.now().toString(36)}`
+    const query = new URLSearchParams({
+      intent: id,
+      return_url: toSitePath(params.returnUrl),
+      cancel_url: toSitePath(params.cancelUrl),
+    })
+
+    const intent: PaymentIntent = {
+      id,
+      provider: this.code,
+      method: this.method,
+      status: "awaiting_payment",
+      amount: params.amount,
+      currency: params.currency,
+      amountRefunded: 0,
+      redirectUrl: `/payment/mock-checkout?${query.toString()}`,
+      metadata: {
+        order_id: String(params.orderId),
+        order_number: params.orderNumber,
+      },
+    }
+
+    intents.set(id, intent)
+    return { ...intent }
+  }
+
+  async capture(intentId: string): Promise<PaymentIntent> {
+    const intent = findIntent(intentId)
+    if (intent.status !== "authorized") {
+      throw new PaymentProviderError(`Cannot capture a payment that is ${intent.status}`, 409)
+    }
+
+    intent.status = "succeeded"
+    return { ...intent }
+  }
+
+  async refund(intentId: string, params?: RefundParams): Promise<PaymentIntent> {
+    const intent = findIntent(intentId)
+    if (intent.status !== "succeeded" && intent.status !== "partially_refunded") {
+      throw new PaymentProviderError(`Cannot refund a payment that is ${intent.status}`, 409)
+    }
+
+    const refundable = intent.amount - intent.amountRefunded
+    const amount = params?.amount !== undefined ? Math.min(params.amount, refundable) : refundable
+
+    intent.amountRefunded += amount
+    intent.status = intent.amountRefunded >= intent.amount ? "refunded" : "partially_refunded"
+    return { ...intent }
+  }
+
+  async getStatus(intentId: string): Promise<PaymentIntent> {
+    return { ...findIntent(intentId) }
+  }
+}
+
+// Called by the mock checkout page to simulate the customer's action
+export function completeMockPayment(intentId: string, outcome: MockOutcome): PaymentIntent {
+  const intent = findIntent(intentId)
+  if (intent.status !== "awaiting_payment") {
+    throw new PaymentProviderError(`Payment is already ${intent.status}`, 409)
+  }
+
+  if (outcome === "approve") {
+    // Cards stop at authorization until captured, like the real gateway
+    intent.status = intent.method === "card" ? "authorized" : "succeeded"
+  } else if (outcome === "decline") {
+    intent.status = "failed"
+  } else {
+    intent.status = "cancelled"
+  }
+
+  return { ...intent }
+}
@@ -0,0 +1,343 @@
+import { cancelFinancingApplication, fetchOrderFinancingApplication } from "../financing"
+import { getPaymentProvider } from "./index"
+import { canTransitionPaymentStatus, toOrderPaymentStatus } from "./methods"
+import { PaymentProviderError, type OrderPaymentStatus, type PaymentIntent } from "./types"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// The subset of a Laravel order the payment layer needs
+export interface PayableOrder {
+  id: number
+  order_number: string
+  status?: string
+  fulfillment_method?: string | null
+  total: number
+  payment_method: string
+  payment_status?: string
+  payment_provider?: string | null
+  payment_reference?: string | null
+  amount_refunded?: number | null
+  first_name: string
+  last_name: string
+  email: string
+  phone: string
+}
+
+export interface OrderPaymentUpdate {
+  payment_status: OrderPaymentStatus
+  payment_provider?: string
+  payment_reference?: string
+  amount_refunded?: number
+}
+
+export interface PaymentEventRecord {
+  event_id: string
+  type: string
+  provider?: string
+  intent_id: string
+  payment_status: OrderPaymentStatus
+  previous_payment_status?: string
+  applied: boolean
+  amount?: number
+  amount_refunded?: number
+  payload: any
+  occurred_at: string
+}
+
+export function getServiceAuthHeader(): string | null {
+  const serviceToken = process.env.LARAVEL_SERVICE_TOKEN
+  return serviceToken ? `Bearer ${serviceToken}` : null
+}
+
+// Server-to-server writes use the service token when configured so that callbacks
+// without a user session (gateway returns, webhooks) can still update the order
+function getWriteAuthHeader(authHeader?: string | null): string | null {
+  return getServiceAuthHeader() || authHeader || null
+}
+
+export async function fetchOrder(
+  orderId: string | number,
+  authHeader: string,
+  scope: "customer" | "admin" = "customer",
+): Promise<PayableOrder> {
+  const path = scope === "admin" ? `admin/orders/${orderId}` : `orders/${orderId}`
+
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/${path}`, {
+    method: "GET",
+    headers: {
+      Authorization: authHeader,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    cache: "no-store",
+  })
+
+  const data = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new PaymentProviderError(data.message || "Order not found", response.status === 200 ? 404 : response.status)
+  }
+
+  return data.data
+}
+
+export async function updateOrderPaymentStatus(
+  orderId: string | number,
+  update: OrderPaymentUpdate,
+  authHeader?: string | null,
+): Promise<any> {
+  const writeAuth = getWriteAuthHeader(authHeader)
+  if (!writeAuth) {
+    throw new PaymentProviderError("No credentials available to update the order", 500)
+  }
+
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/orders/${orderId}/payment-status`, {
+    method: "PUT",
+    headers: {
+      Authorization: writeAuth,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(update),
+  })
+
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new PaymentProviderError(data.message || "Failed to update payment status", response.status)
+  }
+
+  return data
+}
+
+function requireIntent(order: PayableOrder) {
+  const provider = getPaymentProvider(order.payment_method, order.payment_provider)
+  if (!provider) {
+    throw new PaymentProviderError("This order is not paid through an online provider", 400)
+  }
+  if (!order.payment_reference) {
+    throw new PaymentProviderError("No payment has been started for this order", 409)
+  }
+  return { provider, intentId: order.payment_reference }
+}
+
+// A payment that completes after its order was cancelled (a slow e-wallet, a late webhook) is handed
+// straight back. The order stays cancelled with the refund recorded against it.
+async function refundLatePayment(order: PayableOrder, intent: PaymentIntent, authHeader?: string | null) {
+  const provider = getPaymentProvider(order.payment_method, intent.provider)
+  if (!provider) {
+    throw new PaymentProviderError("This order is not paid through an online provider", 400)
+  }
+
+  const refunded = await provider.refund(intent.id, { reason: "Order was cancelled before the payment completed" })
+  await updateOrderPaymentStatus(
+    order.id,
+    {
+      payment_status: "cancelled",
+      payment_provider: refunded.provider,
+      payment_reference: refunded.id,
+      amount_refunded: refunded.amountRefunded,
+    },
+    authHeader,
+  )
+
+  return { intent: refunded, payment_status: "cancelled" as OrderPaymentStatus, applied: false }
+}
+
+export async function applyIntent(
+  order: PayableOrder,
+  intent: PaymentIntent,
+  authHeader?: string | null,
+  force = false,
+) {
+  const paymentStatus = toOrderPaymentStatus(intent.status)
+
+  if (paymentStatus === "paid" && (order.status === "cancelled" || order.payment_status === "cancelled")) {
+    return refundLatePayment(order, intent, authHeader)
+  }
+
+  if (!canTransitionPaymentStatus(order.payment_status, paymentStatus)) {
+    return { intent, payment_status: (order.payment_status || "pending") as OrderPaymentStatus, applied: false }
+  }
+
+  if (force || paymentStatus !== order.payment_status) {
+    await updateOrderPaymentStatus(
+      order.id,
+      {
+        payment_status: paymentStatus,
+        payment_provider: intent.provider,
+        payment_reference: intent.id,
+        amount_refunded: intent.amountRefunded,
+      },
+      authHeader,
+    )
+  }
+
+  return { intent, payment_status: paymentStatus, applied: true }
+}
+
+// Pull the latest state from the provider and mirror it onto the order. Authorized cards
+// stay on hold; they are captured when the order is confirmed (see changeOrderStatus).
+export async function syncOrderPayment(order: PayableOrder, authHeader?: string | null) {
+  const { provider, intentId } = requireIntent(order)
+  const intent = await provider.getStatus(intentId)
+  return applyIntent(order, intent, authHeader)
+}
+
+export async function captureOrderPayment(order: PayableOrder, authHeader?: string | null) {
+  const { provider, intentId } = requireIntent(order)
+  const intent = await provider.capture(intentId)
+  return applyIntent(order, intent, authHeader)
+}
+
+// Capture the card hold of an order that is being confirmed. Orders keep payment_status "pending"
+// while authorized, so the provider is asked; anything not on hold is left alone.
+export async function captureAuthorizedPayment(order: PayableOrder, authHeader?: string | null) {
+  const provider = getPaymentProvider(order.payment_method, order.payment_provider)
+  if (!provider || provider.flow !== "card" || !order.payment_reference || order.payment_status === "paid") {
+    return null
+  }
+
+  const intent = await provider.getStatus(order.payment_reference)
+  if (intent.status !== "authorized") return null
+
+  return applyIntent(order, await provider.capture(order.payment_reference), authHeader)
+}
+
+export async function refundOrderPayment(
+  order: PayableOrder,
+  params: { amount?: number; reason?: string },
+  authHeader?: string | null,
+) {
+  const { provider, intentId } = requireIntent(order)
+  const intent = await provider.refund(intentId, params)
+  // Partial refunds keep the order "paid", but the refunded amount still has to be recorded
+  return applyIntent(order, intent, authHeader, true)
+}
+
+// What is left to refund on a paid order
+export const getRefundableAmount = (order: Pick<PayableOrder, "total" | "amount_refunded">) =>
+  Math.max(0, Math.round((Number(order.total) - (Number(order.amount_refunded) || 0)) * 100) / 100)
+
+// Financed orders stay unpaid; the branch only holds the down payment. Cancelling one withdraws the
+// application and records the down payment actually received as the amount to hand back.
+async function reverseFinancedOrder(order: PayableOrder, reason: string | undefined, authHeader?: string | null) {
+  const writeAuth = getWriteAuthHeader(authHeader)
+  if (!writeAuth) {
+    throw new PaymentProviderError("No credentials available to update the order", 500)
+  }
+
+  const application = await fetchOrderFinancingApplication(order.id, writeAuth)
+  if (application && (application.status === "pending" || application.status === "approved")) {
+    try {
+      await cancelFinancingApplication(application.id, reason || "Order cancelled", writeAuth)
+    } catch (error) {
+      throw new PaymentProviderError(
+        error instanceof Error ? error.message : "Failed to cancel the financing application",
+        502,
+      )
+    }
+  }
+
+  const received = application?.status === "approved" ? Number(application.down_payment_received) || 0 : 0
+  const amountRefunded = Math.max(received, Number(order.amount_refunded) || 0)
+
+  if (!canTransitionPaymentStatus(order.payment_status, "cancelled")) {
+    return (order.payment_status || "pending") as OrderPaymentStatus
+  }
+
+  await updateOrderPaymentStatus(
+    order.id,
+    { payment_status: "cancelled", ...(amountRefunded > 0 && { amount_refunded: amountRefunded }) },
+    authHeader,
+  )
+  return "cancelled"
+}
+
+// Money side of a cancellation or return. Online payments are refunded through the provider; cash on
+// delivery only gets the refund recorded since the cash goes back by hand, and financed orders are handed
+// to reverseFinancedOrder. Like the provider, a partial refund keeps the order "paid" with the running
+// amount_refunded. Unpaid orders are marked cancelled, which is final; a payment that still completes
+// afterwards is refunded by applyIntent rather than marking the order paid.
+export async function reverseOrderPayment(
+  order: PayableOrder,
+  params: { amount?: number; reason?: string },
+  authHeader?: string | null,
+): Promise<OrderPaymentStatus> {
+  if (order.payment_method === "financing") {
+    return reverseFinancedOrder(order, params.reason, authHeader)
+  }
+
+  if (order.payment_status === "paid") {
+    if (getPaymentProvider(order.payment_method, order.payment_provider) && order.payment_reference) {
+      return (await refundOrderPayment(order, params, authHeader)).payment_status
+    }
+
+    const refundable = getRefundableAmount(order)
+    const amountRefunded = (Number(order.amount_refunded) || 0) + Math.min(params.amount ?? refundable, refundable)
+    const paymentStatus = amountRefunded >= Number(order.total) ? "refunded" : "paid"
+
+    await updateOrderPaymentStatus(
+      order.id,
+      { payment_status: paymentStatus, amount_refunded: Math.round(amountRefunded * 100) / 100 },
+      authHeader,
+    )
+    return paymentStatus
+  }
+
+  if (canTransitionPaymentStatus(order.payment_status, "cancelled")) {
+    await updateOrderPaymentStatus(order.id, { payment_status: "cancelled" }, authHeader)
+    return "cancelled"
+  }
+
+  return (order.payment_status || "pending") as OrderPaymentStatus
+}
+
+// Append to the per-order payment event log kept by Laravel. Laravel enforces a unique
+// event_id, so a 409 means another delivery of the same event got there first.
+export async function recordPaymentEvent(
+  orderId: string | number,
+  event: PaymentEventRecord,
+): Promise<{ duplicate: boolean }> {
+  const authHeader = getWriteAuthHeader()
+  if (!authHeader) {
+    throw new PaymentProviderError("LARAVEL_SERVICE_TOKEN is required to record payment events", 500)
+  }
+
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/orders/${orderId}/payment-events`, {
+    method: "POST",
+    headers: {
+      Authorization: authHeader,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(event),
+  })
+
+  if (response.status === 409) {
+    return { duplicate: true }
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new PaymentProviderError(data.message || "Failed to record payment event", response.status)
+  }
+
+  return { duplicate: false }
+}
+
+export async function findPaymentEvent(eventId: string): Promise<boolean> {
+  const authHeader = getWriteAuthHeader()
+  if (!authHeader) return false
+
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/payment-events/${encodeURIComponent(eventId)}`, {
+    method: "GET",
+    headers: {
+      Authorization: authHeader,
+      Accept: "application/json",
+    },
+    cache: "no-store",
+  })
+
+  return response.ok
+}
@@ -0,0 +1,71 @@
+// Shared types for the payment provider layer
+
+export type PaymentMethodCode = "cod" | "gcash" | "maya" | "card" | "financing"
+
+export type PaymentFlow = "offline" | "redirect" | "card" | "financing"
+
+// Mirrors the `payment_status` values stored on Laravel orders
+export type OrderPaymentStatus = "pending" | "paid" | "failed" | "refunded" | "cancelled"
+
+export type PaymentIntentStatus =
+  | "awaiting_payment"
+  | "authorized"
+  | "succeeded"
+  | "failed"
+  | "cancelled"
+  | "refunded"
+  | "partially_refunded"
+
+export interface PaymentCustomer {
+  name: string
+  email: string
+  phone?: string
+}
+
+export interface CreateIntentParams {
+  orderId: number | string
+  orderNumber: string
+  amount: number
+  currency: string
+  description: string
+  customer: PaymentCustomer
+  returnUrl: string
+  cancelUrl: string
+}
+
+export interface PaymentIntent {
+  id: string
+  provider: string
+  method: PaymentMethodCode
+  status: PaymentIntentStatus
+  amount: number
+  currency: string
+  amountRefunded: number
+  redirectUrl?: string
+  metadata?: Record<string, any>
+}
+
+export interface RefundParams {
+  amount?: number
+  reason?: string
+}
+
+export interface PaymentProvider {
+  code: string
+  method: PaymentMethodCode
+  flow: PaymentFlow
+  createIntent(params: CreateIntentParams): Promise<PaymentIntent>
+  capture(intentId: string): Promise<PaymentIntent>
+  refund(intentId: string, params?: RefundParams): Promise<PaymentIntent>
+  getStatus(intentId: string): Promise<PaymentIntent>
+}
+
+export class PaymentProviderError extends Error {
+  status: number
+
+  constructor(message: string, status = 502) {
+    super(message)
+    this.name = "PaymentProviderError"
+    this.status = status
+  }
+}
@@ -0,0 +1,100 @@
+import crypto from "crypto"
+
+import type { PaymentIntentStatus } from "./types"
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-payment-signature"
+
+// Reject signatures older than this to stop captured requests from being replayed
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+export interface PaymentWebhookEvent {
+  id: string
+  type: string
+  created_at: string
+  data: {
+    intent_id: string
+    order_id?: string | number
+    provider?: string
+    amount?: number
+    amount_refunded?: number
+  }
+}
+
+const EVENT_STATUSES: Record<string, PaymentIntentStatus> = {
+  "payment.authorized": "authorized",
+  "payment.succeeded": "succeeded",
+  "payment.paid": "succeeded",
+  "payment.failed": "failed",
+  "payment.expired": "failed",
+  "payment.cancelled": "cancelled",
+  "payment.refunded": "refunded",
+  "payment.partially_refunded": "partially_refunded",
+}
+
+export function getEventIntentStatus(type: string): PaymentIntentStatus | null {
+  return EVENT_STATUSES[type] || null
+}
+
+function computeSignature(payload: string, timestamp: number | string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex")
+}
+
+// Header format: "t=<unix seconds>,v1=<hex hmac-sha256 of `${t}.${rawBody}`>"
+export function signWebhookPayload(payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${computeSignature(payload, timestamp, secret)}`
+}
+
+export function verifyWebhookSignature(payload: string, header: string | null, secret: string): boolean {
+  if (!header) return false
+
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => {
+      const [key, ...value] = part.trim().split("=")
+      return [key, value.join("=")]
+    }),
+  )
+
+  const timestamp = Number(parts.t)
+  if (!timestamp || !parts.v1) return false
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false
+  }
+
+  const expected = Buffer.from(computeSignature(payload, timestamp, secret), "hex")
+  const received = Buffer.from(parts.v1, "hex")
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+}
+
+// Recently processed event IDs. The Laravel event log is the durable record; this only
+// short-circuits the burst of retries gateways send when a response is slow.
+const globalForWebhooks = globalThis as unknown as { processedPaymentEvents?: Map<string, number> }
+const processedEvents = globalForWebhooks.processedPaymentEvents ?? new Map<string, number>()
+globalForWebhooks.processedPaymentEvents = processedEvents
+
+const PROCESSED_EVENT_TTL_MS = 24 * 60 * 60 * 1000
+
+export function hasProcessedEvent(eventId: string): boolean {
+  const processedAt = processedEvents.get(eventId)
+  if (!processedAt) return false
+
+  if (Date.now() - processedAt > PROCESSED_EVENT_TTL_MS) {
+    processedEvents.delete(eventId)
+    return false
+  }
+
+  return true
+}
+
+export function markEventProcessed(eventId: string): void {
+  processedEvents.set(eventId, Date.now())
+
+  // Drop expired entries so long-running servers don't grow the map forever
+  if (processedEvents.size > 5000) {
+    const cutoff = Date.now() - PROCESSED_EVENT_TTL_MS
+    processedEvents.forEach((processedAt, id) => {
+      if (processedAt < cutoff) processedEvents.delete(id)
+    })
+  }
+}
@@ -0,0 +1,163 @@
+// Minimal PDF writer for server-rendered documents (invoices, packing slips). Uses the
+// standard Helvetica fonts so nothing has to be embedded. Coordinates are in points from the
+// top-left corner of an A4 page.
+
+export interface PdfTextOptions {
+  size?: number
+  bold?: boolean
+  align?: "left" | "right" | "center"
+  color?: [number, number, number]
+}
+
+// Advance widths per 1000 units for ASCII 32-126, from the Adobe core font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+]
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+]
+
+const CHAR_REPLACEMENTS: Record<string, string> = {
+  "₱": "PHP ",
+  "–": "-",
+  "—": "-",
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "•": "-",
+}
+
+// The standard fonts only cover WinAnsi, which matches Latin-1 for everything we print
+function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map((char) => CHAR_REPLACEMENTS[char] ?? (char.charCodeAt(0) <= 255 ? char : "?"))
+    .join("")
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)")
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString()
+
+export class PdfDocument {
+  readonly width = 595.28
+  readonly height = 841.89
+  private pages: string[][] = []
+
+  constructor() {
+    this.addPage()
+  }
+
+  get pageCount() {
+    return this.pages.length
+  }
+
+  addPage() {
+    this.pages.push([])
+  }
+
+  private get current() {
+    return this.pages[this.pages.length - 1]
+  }
+
+  measure(text: string, size = 10, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+    let total = 0
+    for (const char of toWinAnsi(text)) {
+      const code = char.charCodeAt(0)
+      total += code >= 32 && code <= 126 ? widths[code - 32] : 556
+    }
+    return (total * size) / 1000
+  }
+
+  // Greedy word wrap; words longer than the width are left to overflow
+  wrap(text: string, maxWidth: number, size = 10, bold = false): string[] {
+    const lines: string[] = []
+    for (const paragraph of text.split("\n")) {
+      let line = ""
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word
+        if (line && this.measure(candidate, size, bold) > maxWidth) {
+          lines.push(line)
+          line = word
+        } else {
+          line = candidate
+        }
+      }
+      lines.push(line)
+    }
+    return lines
+  }
+
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}) {
+    const { size = 10, bold = false, align = "left", color = [0, 0, 0] } = options
+    const width = this.measure(text, size, bold)
+    const left = align === "right" ? x - width : align === "center" ? x - width / 2 : x
+
+    this.current.push(
+      `BT ${color.map(formatNumber).join(" ")} rg /${bold ? "F2" : "F1"} ${size} Tf ` +
+        `${formatNumber(left)} ${formatNumber(this.height - y - size)} Td (${escapePdfString(toWinAnsi(text))}) Tj ET`,
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, color: [number, number, number] = [0, 0, 0]) {
+    this.current.push(
+      `${color.map(formatNumber).join(" ")} RG ${formatNumber(width)} w ` +
+        `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`,
+    )
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: [number, number, number]) {
+    this.current.push(
+      `${fill.map(formatNumber).join(" ")} rg ` +
+        `${formatNumber(x)} ${formatNumber(this.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f`,
+    )
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "", // Pages, filled in once the page object numbers are known
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    ]
+
+    const pageRefs: string[] = []
+    for (const operations of this.pages) {
+      const content = operations.join("\n")
+      objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`)
+      const contentRef = objects.length
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} 0 R >>`,
+      )
+      pageRefs.push(`${objects.length} 0 R`)
+    }
+    objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pageRefs.length} >>`
+
+    let output = "%PDF-1.4\n"
+    const offsets: number[] = []
+    objects.forEach((object, index) => {
+      offsets.push(Buffer.byteLength(output, "latin1"))
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`
+    })
+
+    const xrefOffset = Buffer.byteLength(output, "latin1")
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("")
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(output, "latin1")
+  }
+}
@@ -0,0 +1,417 @@
+// Philippine address hierarchy following the PSGC region → province → city/municipality → barangay
+// structure. This is NOT the full PSGC dataset. Coverage:
+// - regions and provinces: all 18 regions and every province
+// - cities/municipalities: only Metro Manila, Bulacan, Pampanga, Cavite, Laguna and Rizal
+// - barangays: only Mandaluyong, Pateros and San Juan
+// Where a level is missing the checkout form falls back to free text, the server only checks that it is
+// filled in, and no ZIP check is possible. Extend a province or city here to tighten validation for it.
+
+export type LguType = "City" | "Municipality"
+
+export interface PhCity {
+  name: string
+  type: LguType
+  zip: string
+  barangays?: string[]
+}
+
+export interface PhProvince {
+  name: string
+  cities?: PhCity[]
+}
+
+export interface PhRegion {
+  code: string
+  name: string
+  provinces: PhProvince[]
+}
+
+const city = (name: string, zip: string, barangays?: string[]): PhCity => ({ name, type: "City", zip, barangays })
+const municipality = (name: string, zip: string, barangays?: string[]): PhCity => ({
+  name,
+  type: "Municipality",
+  zip,
+  barangays,
+})
+
+export const PH_REGIONS: PhRegion[] = [
+  {
+    code: "NCR",
+    name: "National Capital Region (NCR)",
+    provinces: [
+      {
+        name: "Metro Manila",
+        cities: [
+          city("Caloocan", "1400"),
+          city("Las Piñas", "1740"),
+          city("Makati", "1200"),
+          city("Malabon", "1470"),
+          city("Mandaluyong", "1550", [
+            "Addition Hills",
+            "Bagong Silang",
+            "Barangka Drive",
+            "Barangka Ibaba",
+            "Barangka Ilaya",
+            "Barangka Itaas",
+            "Buayang Bato",
+            "Burol",
+            "Daang Bakal",
+            "Hagdang Bato Itaas",
+            "Hagdang Bato Libis",
+            "Harapin ang Bukas",
+            "Highway Hills",
+            "Hulo",
+            "Mabini-J. Rizal",
+            "Malamig",
+            "Mauway",
+            "Namayan",
+            "New Zañiga",
+            "Old Zañiga",
+            "Pag-asa",
+            "Plainview",
+            "Pleasant Hills",
+            "Poblacion",
+            "San Jose",
+            "Vergara",
+            "Wack-Wack Greenhills",
+          ]),
+          city("Manila", "1000"),
+          city("Marikina", "1800"),
+          city("Muntinlupa", "1770"),
+          city("Navotas", "1485"),
+          city("Parañaque", "1700"),
+          city("Pasay", "1300"),
+          city("Pasig", "1600"),
+          municipality("Pateros", "1620", [
+            "Aguho",
+            "Magtanggol",
+            "Martires del 96",
+            "Poblacion",
+            "San Pedro",
+            "San Roque",
+            "Santa Ana",
+            "Santo Rosario-Kanluran",
+            "Santo Rosario-Silangan",
+            "Tabacalera",
+          ]),
+          city("Quezon City", "1100"),
+          city("San Juan", "1500", [
+            "Addition Hills",
+            "Balong-Bato",
+            "Batis",
+            "Corazon de Jesus",
+            "Ermitaño",
+            "Greenhills",
+            "Isabelita",
+            "Kabayanan",
+            "Little Baguio",
+            "Maytunas",
+            "Onse",
+            "Pasadeña",
+            "Pedro Cruz",
+            "Progreso",
+            "Rivera",
+            "Saint Joseph",
+            "Salapan",
+            "San Perfecto",
+            "Santa Lucia",
+            "Tibagan",
+            "West Crame",
+          ]),
+          city("Taguig", "1630"),
+          city("Valenzuela", "1440"),
+        ],
+      },
+    ],
+  },
+  {
+    code: "CAR",
+    name: "Cordillera Administrative Region (CAR)",
+    provinces: [
+      { name: "Abra" },
+      { name: "Apayao" },
+      { name: "Benguet" },
+      { name: "Ifugao" },
+      { name: "Kalinga" },
+      { name: "Mountain Province" },
+    ],
+  },
+  {
+    code: "I",
+    name: "Region I (Ilocos Region)",
+    provinces: [{ name: "Ilocos Norte" }, { name: "Ilocos Sur" }, { name: "La Union" }, { name: "Pangasinan" }],
+  },
+  {
+    code: "II",
+    name: "Region II (Cagayan Valley)",
+    provinces: [
+      { name: "Batanes" },
+      { name: "Cagayan" },
+      { name: "Isabela" },
+      { name: "Nueva Vizcaya" },
+      { name: "Quirino" },
+    ],
+  },
+  {
+    code: "III",
+    name: "Region III (Central Luzon)",
+    provinces: [
+      { name: "Aurora" },
+      { name: "Bataan" },
+      {
+        name: "Bulacan",
+        cities: [
+          municipality("Angat", "3012"),
+          municipality("Balagtas", "3016"),
+          city("Baliwag", "3006"),
+          municipality("Bocaue", "3018"),
+          municipality("Bulakan", "3017"),
+          municipality("Bustos", "3007"),
+          municipality("Calumpit", "3003"),
+          municipality("Doña Remedios Trinidad", "3009"),
+          municipality("Guiguinto", "3015"),
+          municipality("Hagonoy", "3002"),
+          city("Malolos", "3000"),
+          municipality("Marilao", "3019"),
+          city("Meycauayan", "3020"),
+          municipality("Norzagaray", "3013"),
+          municipality("Obando", "3021"),
+          municipality("Pandi", "3014"),
+          municipality("Paombong", "3001"),
+          municipality("Plaridel", "3004"),
+          municipality("Pulilan", "3005"),
+          municipality("San Ildefonso", "3010"),
+          city("San Jose del Monte", "3023"),
+          municipality("San Miguel", "3011"),
+          municipality("San Rafael", "3008"),
+          municipality("Santa Maria", "3022"),
+        ],
+      },
+      { name: "Nueva Ecija" },
+      {
+        name: "Pampanga",
+        cities: [
+          city("Angeles", "2009"),
+          municipality("Apalit", "2016"),
+          municipality("Arayat", "2012"),
+          municipality("Bacolor", "2001"),
+          municipality("Candaba", "2013"),
+          municipality("Floridablanca", "2006"),
+          municipality("Guagua", "2003"),
+          municipality("Lubao", "2005"),
+          city("Mabalacat", "2010"),
+          municipality("Macabebe", "2018"),
+          municipality("Magalang", "2011"),
+          municipality("Masantol", "2017"),
+          municipality("Mexico", "2021"),
+          municipality("Minalin", "2019"),
+          municipality("Porac", "2008"),
+          city("San Fernando", "2000"),
+          municipality("San Luis", "2014"),
+          municipality("San Simon", "2015"),
+          municipality("Santa Ana", "2022"),
+          municipality("Santa Rita", "2002"),
+          municipality("Santo Tomas", "2020"),
+          municipality("Sasmuan", "2004"),
+        ],
+      },
+      { name: "Tarlac" },
+      { name: "Zambales" },
+    ],
+  },
+  {
+    code: "IV-A",
+    name: "Region IV-A (CALABARZON)",
+    provinces: [
+      { name: "Batangas" },
+      {
+        name: "Cavite",
+        cities: [
+          municipality("Alfonso", "4123"),
+          municipality("Amadeo", "4119"),
+          city("Bacoor", "4102"),
+          city("Carmona", "4116"),
+          city("Cavite City", "4100"),
+          city("Dasmariñas", "4114"),
+          municipality("General Emilio Aguinaldo", "4124"),
+          municipality("General Mariano Alvarez", "4117"),
+          city("General Trias", "4107"),
+          city("Imus", "4103"),
+          municipality("Indang", "4122"),
+          municipality("Kawit", "4104"),
+          municipality("Magallanes", "4113"),
+          municipality("Maragondon", "4112"),
+          municipality("Mendez", "4121"),
+          municipality("Naic", "4110"),
+          municipality("Noveleta", "4105"),
+          municipality("Rosario", "4106"),
+          municipality("Silang", "4118"),
+          city("Tagaytay", "4120"),
+          municipality("Tanza", "4108"),
+          municipality("Ternate", "4111"),
+          city("Trece Martires", "4109"),
+        ],
+      },
+      {
+        name: "Laguna",
+        cities: [
+          municipality("Alaminos", "4001"),
+          municipality("Bay", "4033"),
+          city("Biñan", "4024"),
+          city("Cabuyao", "4025"),
+          city("Calamba", "4027"),
+          municipality("Calauan", "4012"),
+          municipality("Cavinti", "4013"),
+          municipality("Famy", "4021"),
+          municipality("Kalayaan", "4015"),
+          municipality("Liliw", "4004"),
+          municipality("Los Baños", "4030"),
+          municipality("Luisiana", "4032"),
+          municipality("Lumban", "4014"),
+          municipality("Mabitac", "4020"),
+          municipality("Magdalena", "4007"),
+          municipality("Majayjay", "4005"),
+          municipality("Nagcarlan", "4002"),
+          municipality("Paete", "4016"),
+          municipality("Pagsanjan", "4008"),
+          municipality("Pakil", "4017"),
+          municipality("Pangil", "4018"),
+          municipality("Pila", "4010"),
+          municipality("Rizal", "4003"),
+          city("San Pablo", "4000"),
+          city("San Pedro", "4023"),
+          municipality("Santa Cruz", "4009"),
+          municipality("Santa Maria", "4022"),
+          city("Santa Rosa", "4026"),
+          municipality("Siniloan", "4019"),
+          municipality("Victoria", "4011"),
+        ],
+      },
+      { name: "Quezon" },
+      {
+        name: "Rizal",
+        cities: [
+          municipality("Angono", "1930"),
+          city("Antipolo", "1870"),
+          municipality("Baras", "1970"),
+          municipality("Binangonan", "1940"),
+          municipality("Cainta", "1900"),
+          municipality("Cardona", "1950"),
+          municipality("Jala-Jala", "1990"),
+          municipality("Morong", "1960"),
+          municipality("Pililla", "1910"),
+          municipality("Rodriguez", "1860"),
+          municipality("San Mateo", "1850"),
+          municipality("Tanay", "1980"),
+          municipality("Taytay", "1920"),
+          municipality("Teresa", "1880"),
+        ],
+      },
+    ],
+  },
+  {
+    code: "MIMAROPA",
+    name: "MIMAROPA Region",
+    provinces: [
+      { name: "Marinduque" },
+      { name: "Occidental Mindoro" },
+      { name: "Oriental Mindoro" },
+      { name: "Palawan" },
+      { name: "Romblon" },
+    ],
+  },
+  {
+    code: "V",
+    name: "Region V (Bicol Region)",
+    provinces: [
+      { name: "Albay" },
+      { name: "Camarines Norte" },
+      { name: "Camarines Sur" },
+      { name: "Catanduanes" },
+      { name: "Masbate" },
+      { name: "Sorsogon" },
+    ],
+  },
+  {
+    code: "VI",
+    name: "Region VI (Western Visayas)",
+    provinces: [{ name: "Aklan" }, { name: "Antique" }, { name: "Capiz" }, { name: "Guimaras" }, { name: "Iloilo" }],
+  },
+  {
+    code: "NIR",
+    name: "Negros Island Region (NIR)",
+    provinces: [{ name: "Negros Occidental" }, { name: "Negros Oriental" }, { name: "Siquijor" }],
+  },
+  {
+    code: "VII",
+    name: "Region VII (Central Visayas)",
+    provinces: [{ name: "Bohol" }, { name: "Cebu" }],
+  },
+  {
+    code: "VIII",
+    name: "Region VIII (Eastern Visayas)",
+    provinces: [
+      { name: "Biliran" },
+      { name: "Eastern Samar" },
+      { name: "Leyte" },
+      { name: "Northern Samar" },
+      { name: "Samar" },
+      { name: "Southern Leyte" },
+    ],
+  },
+  {
+    code: "IX",
+    name: "Region IX (Zamboanga Peninsula)",
+    provinces: [{ name: "Zamboanga del Norte" }, { name: "Zamboanga del Sur" }, { name: "Zamboanga Sibugay" }],
+  },
+  {
+    code: "X",
+    name: "Region X (Northern Mindanao)",
+    provinces: [
+      { name: "Bukidnon" },
+      { name: "Camiguin" },
+      { name: "Lanao del Norte" },
+      { name: "Misamis Occidental" },
+      { name: "Misamis Oriental" },
+    ],
+  },
+  {
+    code: "XI",
+    name: "Region XI (Davao Region)",
+    provinces: [
+      { name: "Davao de Oro" },
+      { name: "Davao del Norte" },
+      { name: "Davao del Sur" },
+      { name: "Davao Occidental" },
+      { name: "Davao Oriental" },
+    ],
+  },
+  {
+    code: "XII",
+    name: "Region XII (SOCCSKSARGEN)",
+    provinces: [{ name: "Cotabato" }, { name: "Sarangani" }, { name: "South Cotabato" }, { name: "Sultan Kudarat" }],
+  },
+  {
+    code: "XIII",
+    name: "Region XIII (Caraga)",
+    provinces: [
+      { name: "Agusan del Norte" },
+      { name: "Agusan del Sur" },
+      { name: "Dinagat Islands" },
+      { name: "Surigao del Norte" },
+      { name: "Surigao del Sur" },
+    ],
+  },
+  {
+    code: "BARMM",
+    name: "Bangsamoro Autonomous Region in Muslim Mindanao (BARMM)",
+    provinces: [
+      { name: "Basilan" },
+      { name: "Lanao del Sur" },
+      { name: "Maguindanao del Norte" },
+      { name: "Maguindanao del Sur" },
+      { name: "Sulu" },
+      { name: "Tawi-Tawi" },
+    ],
+  },
+]
@@ -0,0 +1,83 @@
+import { PH_REGIONS, type PhCity, type PhProvince, type PhRegion } from "./data"
+
+export * from "./data"
+
+export interface PhAddress {
+  region: string
+  province: string
+  city: string
+  barangay: string
+  zipCode: string
+}
+
+// Case- and accent-insensitive so "Paranaque" from an older saved address still matches "Parañaque"
+const normalize = (value: string | null | undefined) =>
+  (value || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase()
+
+const sameName = (a: string | null | undefined, b: string | null | undefined) => normalize(a) === normalize(b)
+
+export function getRegions(): PhRegion[] {
+  return PH_REGIONS
+}
+
+export function findRegion(name: string | null | undefined): PhRegion | undefined {
+  return PH_REGIONS.find((region) => sameName(region.name, name) || sameName(region.code, name))
+}
+
+export function findProvince(regionName: string | null | undefined, provinceName: string | null | undefined) {
+  return findRegion(regionName)?.provinces.find((province) => sameName(province.name, provinceName))
+}
+
+// Looks a province up across every region, for addresses saved before region was captured
+export function findRegionForProvince(provinceName: string | null | undefined): PhRegion | undefined {
+  return PH_REGIONS.find((region) => region.provinces.some((province) => sameName(province.name, provinceName)))
+}
+
+// Returns null when the dataset has no city list for the province, meaning any city is accepted
+export function getCities(province: PhProvince | undefined): PhCity[] | null {
+  return province?.cities?.length ? province.cities : null
+}
+
+export function findCity(province: PhProvince | undefined, cityName: string | null | undefined) {
+  return getCities(province)?.find((city) => sameName(city.name, cityName))
+}
+
+export function getBarangays(city: PhCity | undefined): string[] | null {
+  return city?.barangays?.length ? city.barangays : null
+}
+
+// Checks that each level belongs to the one above it. Levels the dataset doesn't cover are only
+// checked for presence. Returns an error message, or null when the address is consistent.
+export function validatePhAddress(address: Partial<PhAddress>): string | null {
+  const region = findRegion(address.region)
+  if (!region) return "Please select a valid region"
+
+  const province = region.provinces.find((p) => sameName(p.name, address.province))
+  if (!province) return `${address.province || "The province"} is not part of ${region.name}`
+
+  if (!address.city || !address.city.trim()) return "Please select a city or municipality"
+
+  const cities = getCities(province)
+  const city = findCity(province, address.city)
+  if (cities && !city) return `${address.city} is not a city or municipality of ${province.name}`
+
+  if (!address.barangay || !address.barangay.trim()) return "Please select a barangay"
+
+  const barangays = getBarangays(city)
+  if (barangays && !barangays.some((b) => sameName(b, address.barangay))) {
+    return `${address.barangay} is not a barangay of ${city?.name}`
+  }
+
+  if (!/^\d{4}$/.test(address.zipCode || "")) return "ZIP code must be 4 digits"
+
+  // Large cities span several ZIP codes that share the first two digits (e.g. Quezon City 1100-1138)
+  if (city && address.zipCode!.slice(0, 2) !== city.zip.slice(0, 2)) {
+    return `ZIP code ${address.zipCode} doesn't match ${city.name}`
+  }
+
+  return null
+}
@@ -0,0 +1,257 @@
+import { normalizeSpecifications } from "./compare"
+
+// Catalog facets read from free-text specifications ("60V 32Ah Lithium", "1200W") and ideal_for. Laravel
+// can't search inside the spec text, so /api/products filters and counts them after fetching the products.
+
+export interface NumericFacetDefinition {
+  key: string
+  label: string
+  unit: string
+  // Spec names to read first; other specs are only tried when none of these has the number
+  specs: RegExp
+  read: (text: string) => number | null
+}
+
+export interface TermFacetDefinition {
+  key: string
+  label: string
+  read: (product: FacetProduct) => string[]
+}
+
+interface FacetProduct {
+  specifications?: unknown
+  ideal_for?: string[]
+}
+
+export interface NumericFacet {
+  key: string
+  label: string
+  unit: string
+  // Bounds across every product in the current category and search, so sliders don't jump while filtering
+  min: number
+  max: number
+  // Products that state this spec and match the other active filters
+  count: number
+}
+
+export interface TermFacet {
+  key: string
+  label: string
+  options: { value: string; count: number }[]
+}
+
+export interface ProductFacets {
+  numeric: NumericFacet[]
+  terms: TermFacet[]
+}
+
+export interface FacetFilters {
+  ranges: Record<string, { min?: number; max?: number }>
+  terms: Record<string, string[]>
+}
+
+// Largest number before the unit, so "60-80 km" reads as 80
+const readNumber = (pattern: RegExp) => (text: string) => {
+  const match = pattern.exec(text.replace(/,/g, ""))
+  if (!match) return null
+  return Math.max(...match.slice(1).filter(Boolean).map(Number))
+}
+
+export const NUMERIC_FACETS: NumericFacetDefinition[] = [
+  {
+    key: "range_km",
+    label: "Range",
+    unit: "km",
+    specs: /range|feature/i,
+    read: readNumber(/(\d+(?:\.\d+)?)(?:\s*(?:-|to)\s*(\d+(?:\.\d+)?))?\s*km\b(?!\s*\/\s*h)/i),
+  },
+  {
+    key: "battery_ah",
+    label: "Battery capacity",
+    unit: "Ah",
+    specs: /battery/i,
+    read: readNumber(/(\d+(?:\.\d+)?)\s*ah\b/i),
+  },
+  {
+    key: "battery_v",
+    label: "Battery voltage",
+    unit: "V",
+    specs: /battery/i,
+    read: readNumber(/(\d+(?:\.\d+)?)\s*v\b/i),
+  },
+  {
+    key: "motor_w",
+    label: "Motor power",
+    unit: "W",
+    specs: /motor|power/i,
+    read: (text) => {
+      const match = /(\d+(?:\.\d+)?)\s*(kw|w)\b/i.exec(text.replace(/,/g, ""))
+      if (!match) return null
+      return Number(match[1]) * (match[2].toLowerCase() === "kw" ? 1000 : 1)
+    },
+  },
+  {
+    key: "passengers",
+    label: "Passenger capacity",
+    unit: "seats",
+    specs: /passenger|seat|capacity|feature/i,
+    read: readNumber(/(\d+)(?:\s*(?:-|to|\+)\s*(\d+))?\s*(?:passengers?|pax|seaters?|seats?|persons?|people)\b/i),
+  },
+]
+
+function readBatteryTypes(product: FacetProduct): string[] {
+  const text = normalizeSpecifications(product.specifications)
+    .filter((spec) => /battery/i.test(spec.name))
+    .map((spec) => spec.value)
+    .join(" ")
+
+  const types: string[] = []
+  if (/lithium|li-?ion|lifepo4/i.test(text)) types.push("Lithium")
+  if (/lead|acid|\bsla\b|\bgel\b/i.test(text)) types.push("Lead-acid")
+  if (/graphene/i.test(text)) types.push("Graphene")
+  return types
+}
+
+export const TERM_FACETS: TermFacetDefinition[] = [
+  { key: "battery_type", label: "Battery type", read: readBatteryTypes },
+  {
+    key: "ideal_for",
+    label: "Ideal for",
+    read: (product) => (Array.isArray(product.ideal_for) ? product.ideal_for.filter(Boolean) : []),
+  },
+]
+
+// Query parameters owned by the facets, kept out of the request forwarded to Laravel
+export const FACET_PARAM_KEYS = [
+  ...NUMERIC_FACETS.flatMap((facet) => [`min_${facet.key}`, `max_${facet.key}`]),
+  ...TERM_FACETS.map((facet) => facet.key),
+]
+
+export interface FacetValues {
+  numbers: Record<string, number | null>
+  terms: Record<string, string[]>
+}
+
+export function getFacetValues(product: FacetProduct): FacetValues {
+  const specs = normalizeSpecifications(product.specifications)
+  const numbers: Record<string, number | null> = {}
+
+  for (const facet of NUMERIC_FACETS) {
+    const preferred = specs.filter((spec) => facet.specs.test(spec.name))
+    const others = specs.filter((spec) => !facet.specs.test(spec.name))
+    numbers[facet.key] = null
+
+    for (const spec of [...preferred, ...others]) {
+      const value = facet.read(spec.value)
+      if (value !== null && Number.isFinite(value)) {
+        numbers[facet.key] = value
+        break
+      }
+    }
+  }
+
+  const terms: Record<string, string[]> = {}
+  for (const facet of TERM_FACETS) terms[facet.key] = facet.read(product)
+
+  return { numbers, terms }
+}
+
+export function parseFacetFilters(params: URLSearchParams): FacetFilters {
+  const filters: FacetFilters = { ranges: {}, terms: {} }
+
+  for (const facet of NUMERIC_FACETS) {
+    const min = Number.parseFloat(params.get(`min_${facet.key}`) || "")
+    const max = Number.parseFloat(params.get(`max_${facet.key}`) || "")
+    if (Number.isFinite(min) || Number.isFinite(max)) {
+      filters.ranges[facet.key] = {
+        min: Number.isFinite(min) ? min : undefined,
+        max: Number.isFinite(max) ? max : undefined,
+      }
+    }
+  }
+
+  for (const facet of TERM_FACETS) {
+    const values = params.getAll(facet.key).filter(Boolean)
+    if (values.length > 0) filters.terms[facet.key] = Array.from(new Set(values))
+  }
+
+  return filters
+}
+
+export function appendFacetFilters(params: URLSearchParams, filters: FacetFilters) {
+  Object.entries(filters.ranges).forEach(([key, range]) => {
+    if (range.min !== undefined) params.set(`min_${key}`, String(range.min))
+    if (range.max !== undefined) params.set(`max_${key}`, String(range.max))
+  })
+  Object.entries(filters.terms).forEach(([key, values]) => values.forEach((value) => params.append(key, value)))
+}
+
+export const hasFacetFilters = (filters: FacetFilters) =>
+  Object.keys(filters.ranges).length > 0 || Object.values(filters.terms).some((values) => values.length > 0)
+
+// Numbers must fall inside every active range; terms match any picked value within a facet and every facet
+// across facets. `skip` leaves one facet out, for counting its own options.
+export function matchesFacetFilters(values: FacetValues, filters: FacetFilters, skip?: string): boolean {
+  for (const [key, range] of Object.entries(filters.ranges)) {
+    if (key === skip) continue
+    const value = values.numbers[key]
+    if (value === null || value === undefined) return false
+    if (range.min !== undefined && value < range.min) return false
+    if (range.max !== undefined && value > range.max) return false
+  }
+
+  for (const [key, picked] of Object.entries(filters.terms)) {
+    if (key === skip || picked.length === 0) continue
+    const lower = (values.terms[key] || []).map((value) => value.toLowerCase())
+    if (!picked.some((value) => lower.includes(value.toLowerCase()))) return false
+  }
+
+  return true
+}
+
+export function filterByFacets<T extends FacetProduct>(products: T[], filters: FacetFilters): T[] {
+  if (!hasFacetFilters(filters)) return products
+  return products.filter((product) => matchesFacetFilters(getFacetValues(product), filters))
+}
+
+// Facets for the product list, each counted against the other active filters so picking one option
+// doesn't zero out its siblings. Facets no product states are left out.
+export function buildFacets(products: FacetProduct[], filters: FacetFilters): ProductFacets {
+  const values = products.map(getFacetValues)
+
+  const numeric = NUMERIC_FACETS.flatMap((facet) => {
+    const stated = values.map((value) => value.numbers[facet.key]).filter((value): value is number => value !== null)
+    if (stated.length === 0) return []
+
+    return [
+      {
+        key: facet.key,
+        label: facet.label,
+        unit: facet.unit,
+        min: Math.min(...stated),
+        max: Math.max(...stated),
+        count: values.filter(
+          (value) => value.numbers[facet.key] !== null && matchesFacetFilters(value, filters, facet.key),
+        ).length,
+      },
+    ]
+  })
+
+  const terms = TERM_FACETS.flatMap((facet) => {
+    const counts = new Map<string, { value: string; count: number }>()
+
+    values.forEach((value) => {
+      const matches = matchesFacetFilters(value, filters, facet.key)
+      value.terms[facet.key].forEach((term) => {
+        const entry = counts.get(term.toLowerCase()) || { value: term, count: 0 }
+        if (matches) entry.count += 1
+        counts.set(term.toLowerCase(), entry)
+      })
+    })
+
+    const options = Array.from(counts.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    return options.length > 0 ? [{ key: facet.key, label: facet.label, options }] : []
+  })
+
+  return { numeric, terms }
+}
@@ -0,0 +1,122 @@
+import type { ProductFacets } from "./product-facets"
+
+// The catalog is served a page at a time by /api/products. Laravel sorts and pages the list when no spec
+// filter is set; spec filters and facet counts need every product, so those run on the full list, which
+// /api/products caches briefly.
+
+export const PRODUCTS_PER_PAGE = 12
+export const MAX_PRODUCTS_PER_PAGE = 48
+
+// Next data cache tag for the full product list; product writes revalidate it
+export const PRODUCTS_CACHE_TAG = "products"
+export const PRODUCTS_CACHE_SECONDS = 60
+
+export const PRODUCT_SORTS = {
+  name: { label: "Sort by Name", sort_by: "name", sort_order: "asc" },
+  "price-low": { label: "Price: Low to High", sort_by: "price", sort_order: "asc" },
+  "price-high": { label: "Price: High to Low", sort_by: "price", sort_order: "desc" },
+  featured: { label: "Featured First", sort_by: "featured", sort_order: "desc" },
+} as const
+
+export type ProductSort = keyof typeof PRODUCT_SORTS
+
+export const parseProductSort = (value: string | null): ProductSort =>
+  value && Object.keys(PRODUCT_SORTS).includes(value) ? (value as ProductSort) : "name"
+
+interface ListedProduct {
+  name: string
+  description?: string
+  model?: string
+  price: number | string
+  featured?: boolean | number
+}
+
+export function matchesProductSearch(product: ListedProduct, search?: string | null): boolean {
+  const term = search?.trim().toLowerCase()
+  if (!term) return true
+  return [product.name, product.description, product.model].some((field) => field?.toLowerCase().includes(term))
+}
+
+// Name breaks ties so every page request sees the same order
+export function sortProducts<T extends ListedProduct>(
+  products: T[],
+  sortBy?: string | null,
+  sortOrder?: string | null,
+) {
+  const direction = sortOrder === "desc" ? -1 : 1
+
+  return [...products].sort((a, b) => {
+    let result = 0
+    if (sortBy === "price") result = (Number(a.price) - Number(b.price)) * direction
+    if (sortBy === "featured") result = (Number(Boolean(a.featured)) - Number(Boolean(b.featured))) * direction
+    if (sortBy === "name") result = a.name.localeCompare(b.name) * direction
+    return result || a.name.localeCompare(b.name)
+  })
+}
+
+// Page numbers are 1-based, as in Laravel's paginator. Null when the request didn't ask for a page.
+export function parsePagination(params: URLSearchParams): { page: number; perPage: number } | null {
+  const page = Number.parseInt(params.get("page") || "", 10)
+  if (!Number.isFinite(page) || page < 1) return null
+
+  const perPage = Number.parseInt(params.get("per_page") || "", 10)
+  return {
+    page,
+    perPage: Number.isFinite(perPage) && perPage > 0 ? Math.min(perPage, MAX_PRODUCTS_PER_PAGE) : PRODUCTS_PER_PAGE,
+  }
+}
+
+export function paginate<T>(items: T[], page: number, perPage: number) {
+  return {
+    data: items.slice((page - 1) * perPage, page * perPage),
+    current_page: page,
+    per_page: perPage,
+    total: items.length,
+    last_page: Math.max(1, Math.ceil(items.length / perPage)),
+  }
+}
+
+// What the catalog had on screen, so coming back from a product page shows the same pages at the same spot
+export interface ProductListSnapshot<T> {
+  query: string
+  products: T[]
+  facets: ProductFacets
+  page: number
+  lastPage: number
+  total: number
+  scrollY: number
+}
+
+const SNAPSHOT_KEY = "product_list_snapshot"
+// Marks the history entry the snapshot was taken on. A fresh visit gets a new entry without the mark, so only
+// back (or forward) navigation to that entry restores the list.
+const SNAPSHOT_HISTORY_KEY = "productListSnapshot"
+
+export function saveProductListSnapshot<T>(snapshot: ProductListSnapshot<T>) {
+  if (typeof window === "undefined") return
+  try {
+    const key = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+    sessionStorage.setItem(SNAPSHOT_KEY, JSON.stringify({ ...snapshot, key }))
+    window.history.replaceState({ ...window.history.state, [SNAPSHOT_HISTORY_KEY]: key }, "")
+  } catch {
+    // Storage full or disabled: the list just reloads from the first page
+  }
+}
+
+export function readProductListSnapshot<T>(query: string): ProductListSnapshot<T> | null {
+  if (typeof window === "undefined") return null
+  try {
+    const saved = sessionStorage.getItem(SNAPSHOT_KEY)
+    const snapshot = saved ? (JSON.parse(saved) as ProductListSnapshot<T> & { key?: string }) : null
+    if (!snapshot?.key || window.history.state?.[SNAPSHOT_HISTORY_KEY] !== snapshot.key) return null
+    return snapshot.query === query && Array.isArray(snapshot.products) ? snapshot : null
+  } catch {
+    return null
+  }
+}
+
+// Cleared once restored, so a later visit to the catalog starts from the top
+export function clearProductListSnapshot() {
+  if (typeof window === "undefined") return
+  sessionStorage.removeItem(SNAPSHOT_KEY)
+}
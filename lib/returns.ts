@@ -0,0 +1,194 @@
+import { getAuthToken } from "./auth"
+
+// Customer cancellations and return merchandise authorizations (RMA). Laravel stores the requests and
+// creates a "return" notification for the customer on every status change.
+
+export interface ReasonOption {
+  code: string
+  label: string
+}
+
+export const CANCEL_REASONS: ReasonOption[] = [
+  { code: "changed_mind", label: "I changed my mind" },
+  { code: "ordered_by_mistake", label: "I ordered by mistake" },
+  { code: "found_better_price", label: "I found a better price elsewhere" },
+  { code: "delivery_too_long", label: "Delivery or pickup takes too long" },
+  { code: "payment_issue", label: "Problem with payment" },
+  { code: "other", label: "Other" },
+]
+
+export const RETURN_REASONS: ReasonOption[] = [
+  { code: "defective", label: "Defective or not working" },
+  { code: "damaged_in_transit", label: "Arrived damaged" },
+  { code: "wrong_item", label: "Wrong item or color delivered" },
+  { code: "missing_parts", label: "Missing parts or accessories" },
+  { code: "not_as_described", label: "Not as described" },
+  { code: "other", label: "Other" },
+]
+
+export type ReturnStatus = "requested" | "approved" | "rejected" | "received" | "refunded"
+
+export interface ReturnRequest {
+  id: number
+  order_id: number
+  order_number?: string
+  customer_name?: string
+  reason: string
+  details?: string | null
+  photos: string[]
+  status: ReturnStatus
+  admin_note?: string | null
+  refund_amount?: number | null
+  order_total?: number
+  payment_method?: string
+  created_at: string
+  updated_at: string
+}
+
+interface ReturnsResponse<T> {
+  success: boolean
+  data?: T
+  message?: string
+}
+
+export const RETURN_WINDOW_DAYS = 7
+export const MAX_RETURN_PHOTOS = 5
+export const MAX_RETURN_PHOTO_BYTES = 5 * 1024 * 1024
+
+// Each status lists where it can go next; rejected and refunded are final
+const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ["approved", "rejected"],
+  approved: ["received", "rejected"],
+  received: ["refunded"],
+  rejected: [],
+  refunded: [],
+}
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: "Requested",
+  approved: "Approved - send it back",
+  rejected: "Rejected",
+  received: "Received",
+  refunded: "Refunded",
+}
+
+export function canTransitionReturn(from: ReturnStatus, to: ReturnStatus): boolean {
+  return RETURN_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+export function getReasonLabel(code: string, reasons: ReasonOption[] = RETURN_REASONS): string {
+  return reasons.find((reason) => reason.code === code)?.label || code
+}
+
+// Orders can be cancelled until they leave the warehouse or are set aside for pickup
+export function canCancelOrder(order: { status?: string }): boolean {
+  return ["pending", "confirmed", "processing"].includes(order.status || "")
+}
+
+export function canRequestReturn(
+  order: { status?: string; delivered_at?: string | null; updated_at?: string },
+  returns: Pick<ReturnRequest, "status">[] = [],
+): boolean {
+  if (order.status !== "delivered") return false
+  if (returns.some((request) => request.status !== "rejected")) return false
+
+  const deliveredAt = new Date(order.delivered_at || order.updated_at || 0).getTime()
+  return Date.now() - deliveredAt <= RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000
+}
+
+function getHeaders(): HeadersInit {
+  const token = getAuthToken()
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  }
+
+  if (token) {
+    headers.Authorization = `Bearer ${token}`
+  }
+
+  return headers
+}
+
+export async function cancelOrder(orderId: number | string, reason: string, note?: string): Promise<string> {
+  const response = await fetch(`/api/orders/${orderId}/cancel`, {
+    method: "POST",
+    headers: getHeaders(),
+    body: JSON.stringify({ reason, note }),
+  })
+
+  const data: ReturnsResponse<null> = await response.json()
+
+  if (!data.success) {
+    throw new Error(data.message || "Failed to cancel order")
+  }
+
+  return data.message || "Your order has been cancelled"
+}
+
+export async function getOrderReturns(orderId: number | string): Promise<ReturnRequest[]> {
+  try {
+    const response = await fetch(`/api/orders/${orderId}/returns`, { method: "GET", headers: getHeaders() })
+    const data: ReturnsResponse<ReturnRequest[]> = await response.json()
+    return data.success && Array.isArray(data.data) ? data.data : []
+  } catch (error) {
+    console.error("Get order returns error:", error)
+    return []
+  }
+}
+
+export async function createReturnRequest(
+  orderId: number | string,
+  request: { reason: string; details: string; photos: File[] },
+): Promise<ReturnRequest> {
+  const formData = new FormData()
+  formData.append("reason", request.reason)
+  formData.append("details", request.details)
+  request.photos.forEach((photo) => formData.append("photos[]", photo))
+
+  const token = getAuthToken()
+  const response = await fetch(`/api/orders/${orderId}/returns`, {
+    method: "POST",
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: formData,
+  })
+
+  const data: ReturnsResponse<ReturnRequest> = await response.json()
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || "Failed to submit return request")
+  }
+
+  return data.data
+}
+
+export async function getReturnRequests(status?: ReturnStatus | "all"): Promise<ReturnRequest[]> {
+  try {
+    const query = status && status !== "all" ? `?status=${status}` : ""
+    const response = await fetch(`/api/admin/returns${query}`, { method: "GET", headers: getHeaders() })
+    const data: ReturnsResponse<ReturnRequest[]> = await response.json()
+    return data.success && Array.isArray(data.data) ? data.data : []
+  } catch (error) {
+    console.error("Get return requests error:", error)
+    return []
+  }
+}
+
+export async function updateReturnRequest(
+  id: number,
+  update: { status: ReturnStatus; admin_note?: string; refund_amount?: number },
+): Promise<ReturnRequest> {
+  const response = await fetch(`/api/admin/returns/${id}`, {
+    method: "PUT",
+    headers: getHeaders(),
+    body: JSON.stringify(update),
+  })
+
+  const data: ReturnsResponse<ReturnRequest> = await response.json()
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || "Failed to update return request")
+  }
+
+  return data.data
+}
@@ -0,0 +1,188 @@
+import { getAuthToken } from "./auth"
+
+// Product reviews. Laravel stores them as pending; only approved reviews are shown on the product page.
+// Laravel also decides "Verified purchase" itself, from the reviewer's delivered orders.
+
+export type ReviewStatus = "pending" | "approved" | "rejected"
+
+export interface ProductReview {
+  id: number
+  product_id: number
+  product_name?: string
+  reviewer_name: string
+  rating: number
+  title: string
+  body: string
+  photos: string[]
+  verified_purchase: boolean
+  // The delivered order that verified the purchase
+  order_id?: number | null
+  status: ReviewStatus
+  admin_note?: string | null
+  created_at: string
+}
+
+export interface RatingSummary {
+  average: number
+  count: number
+  // Five stars first
+  histogram: { rating: number; count: number }[]
+}
+
+interface ReviewsResponse<T> {
+  success: boolean
+  data?: T
+  summary?: RatingSummary
+  message?: string
+}
+
+export const MAX_REVIEW_PHOTOS = 5
+export const MAX_REVIEW_PHOTO_BYTES = 5 * 1024 * 1024
+export const MAX_REVIEW_TITLE_LENGTH = 120
+export const MIN_REVIEW_BODY_LENGTH = 20
+
+export const REVIEW_SORTS = [
+  { value: "newest", label: "Most recent" },
+  { value: "highest", label: "Highest rated" },
+  { value: "lowest", label: "Lowest rated" },
+  { value: "verified", label: "Verified purchases first" },
+] as const
+
+export type ReviewSort = (typeof REVIEW_SORTS)[number]["value"]
+
+// Approved reviews can be taken down and rejected ones reinstated; nothing goes back to pending
+const REVIEW_TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  pending: ["approved", "rejected"],
+  approved: ["rejected"],
+  rejected: ["approved"],
+}
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: "Awaiting moderation",
+  approved: "Published",
+  rejected: "Rejected",
+}
+
+export function canTransitionReview(from: ReviewStatus, to: ReviewStatus): boolean {
+  return REVIEW_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+export const parseReviewSort = (value: string | null): ReviewSort =>
+  REVIEW_SORTS.find((sort) => sort.value === value)?.value || "newest"
+
+export function summarizeRatings(reviews: Pick<ProductReview, "rating">[]): RatingSummary {
+  const ratings = reviews
+    .map((review) => Math.round(Number(review.rating)))
+    .filter((rating) => rating >= 1 && rating <= 5)
+  const total = ratings.reduce((sum, rating) => sum + rating, 0)
+
+  return {
+    average: ratings.length > 0 ? Math.round((total / ratings.length) * 10) / 10 : 0,
+    count: ratings.length,
+    histogram: [5, 4, 3, 2, 1].map((rating) => ({
+      rating,
+      count: ratings.filter((value) => value === rating).length,
+    })),
+  }
+}
+
+// Newest breaks ties so each sort is stable between requests
+export function sortReviews<T extends Pick<ProductReview, "rating" | "verified_purchase" | "created_at">>(
+  reviews: T[],
+  sort: ReviewSort,
+): T[] {
+  const newest = (a: T, b: T) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+
+  return [...reviews].sort((a, b) => {
+    if (sort === "highest") return b.rating - a.rating || newest(a, b)
+    if (sort === "lowest") return a.rating - b.rating || newest(a, b)
+    if (sort === "verified") return Number(b.verified_purchase) - Number(a.verified_purchase) || newest(a, b)
+    return newest(a, b)
+  })
+}
+
+function getHeaders(): HeadersInit {
+  const token = getAuthToken()
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  }
+
+  if (token) {
+    headers.Authorization = `Bearer ${token}`
+  }
+
+  return headers
+}
+
+export async function getProductReviews(
+  productId: number | string,
+  sort: ReviewSort = "newest",
+): Promise<{ reviews: ProductReview[]; summary: RatingSummary }> {
+  try {
+    const response = await fetch(`/api/products/${productId}/reviews?sort=${sort}`, { method: "GET" })
+    const data: ReviewsResponse<ProductReview[]> = await response.json()
+    const reviews = data.success && Array.isArray(data.data) ? data.data : []
+    return { reviews, summary: data.summary || summarizeRatings(reviews) }
+  } catch (error) {
+    console.error("Get product reviews error:", error)
+    return { reviews: [], summary: summarizeRatings([]) }
+  }
+}
+
+export async function createProductReview(
+  productId: number | string,
+  review: { rating: number; title: string; body: string; photos: File[] },
+): Promise<ProductReview> {
+  const formData = new FormData()
+  formData.append("rating", String(review.rating))
+  formData.append("title", review.title)
+  formData.append("body", review.body)
+  review.photos.forEach((photo) => formData.append("photos[]", photo))
+
+  const token = getAuthToken()
+  const response = await fetch(`/api/products/${productId}/reviews`, {
+    method: "POST",
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: formData,
+  })
+
+  const data: ReviewsResponse<ProductReview> = await response.json()
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || "Failed to submit review")
+  }
+
+  return data.data
+}
+
+export async function getAdminReviews(status?: ReviewStatus | "all"): Promise<ProductReview[]> {
+  try {
+    const query = status && status !== "all" ? `?status=${status}` : ""
+    const response = await fetch(`/api/admin/reviews${query}`, { method: "GET", headers: getHeaders() })
+    const data: ReviewsResponse<ProductReview[]> = await response.json()
+    return data.success && Array.isArray(data.data) ? data.data : []
+  } catch (error) {
+    console.error("Get reviews error:", error)
+    return []
+  }
+}
+
+export async function moderateReview(
+  id: number,
+  update: { status: ReviewStatus; admin_note?: string },
+): Promise<ProductReview> {
+  const response = await fetch(`/api/admin/reviews/${id}`, {
+    method: "PUT",
+    headers: getHeaders(),
+    body: JSON.stringify(update),
+  })
+
+  const data: ReviewsResponse<ProductReview> = await response.json()
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || "Failed to update review")
+  }
+
+  return data.data
+}
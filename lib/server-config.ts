@@ -0,0 +1,14 @@
+import { getCourierConfigErrors } from "./couriers"
+import { getPaymentConfigErrors } from "./payments"
+
+// Settings the server can't run without. instrumentation.ts checks them once at startup, so a missing key
+// fails the deploy instead of a customer's checkout.
+export function getServerConfigErrors(): string[] {
+  const errors = [...getPaymentConfigErrors(), ...getCourierConfigErrors()]
+  // Stock, idempotency keys, rate limits and the shipment sync all write to Laravel with the service token
+  if (!process.env.LARAVEL_SERVICE_TOKEN) errors.push("LARAVEL_SERVICE_TOKEN is not set")
+  if (!process.env.CRON_SECRET) errors.push("CRON_SECRET is not set")
+  // Signs the order links emailed to guests; the lookup form is their only way back to an order
+  if (!process.env.GUEST_ORDER_LINK_SECRET) errors.push("GUEST_ORDER_LINK_SECRET is not set")
+  return errors
+}
@@ -0,0 +1,106 @@
+// Branches and authorized service centers. Also the list of pickup points offered at checkout.
+
+export interface ServiceCenter {
+  id: string
+  name: string
+  address: string
+  city: string
+  province: string
+  region: string
+  zipCode: string
+  phone: string
+  hours: string
+  services: string[]
+  rating: number
+  // Days of the week the branch releases units, 0 = Sunday
+  pickupDays: number[]
+  pickupAvailable: boolean
+}
+
+export const serviceCenters: ServiceCenter[] = [
+  {
+    id: "manila",
+    name: "YAMAARAW Manila Service Center",
+    address: "123 EDSA, Makati City, Metro Manila",
+    city: "Makati",
+    province: "Metro Manila",
+    region: "National Capital Region (NCR)",
+    zipCode: "1200",
+    phone: "09456754591",
+    hours: "Mon-Sat: 8AM-6PM",
+    services: ["Repair", "Maintenance", "Parts", "Warranty"],
+    rating: 4.8,
+    pickupDays: [1, 2, 3, 4, 5, 6],
+    pickupAvailable: true,
+  },
+  {
+    id: "quezon-city",
+    name: "YAMAARAW Quezon City Branch",
+    address: "456 Commonwealth Ave, Quezon City",
+    city: "Quezon City",
+    province: "Metro Manila",
+    region: "National Capital Region (NCR)",
+    zipCode: "1121",
+    phone: "09456754592",
+    hours: "Mon-Fri: 9AM-5PM",
+    services: ["Repair", "Maintenance", "Consultation"],
+    rating: 4.7,
+    pickupDays: [1, 2, 3, 4, 5],
+    pickupAvailable: true,
+  },
+  {
+    id: "cebu",
+    name: "YAMAARAW Cebu Service Hub",
+    address: "789 Colon Street, Cebu City",
+    city: "Cebu City",
+    province: "Cebu",
+    region: "Region VII (Central Visayas)",
+    zipCode: "6000",
+    phone: "09456754593",
+    hours: "Mon-Sat: 8AM-5PM",
+    services: ["Repair", "Parts", "Warranty", "Training"],
+    rating: 4.9,
+    pickupDays: [1, 2, 3, 4, 5, 6],
+    pickupAvailable: true,
+  },
+]
+
+// Units need a couple of days for PDI and paperwork before release
+export const PICKUP_LEAD_DAYS = 2
+export const PICKUP_WINDOW_DAYS = 30
+
+export function getServiceCenter(id: string | null | undefined): ServiceCenter | undefined {
+  return serviceCenters.find((center) => center.id === id)
+}
+
+export function getPickupCenters(): ServiceCenter[] {
+  return serviceCenters.filter((center) => center.pickupAvailable)
+}
+
+// Dates as YYYY-MM-DD in Philippine time, the timezone every branch runs on
+function toManilaDateString(date: Date): string {
+  return date.toLocaleDateString("en-CA", { timeZone: "Asia/Manila" })
+}
+
+export function getPickupDates(center: ServiceCenter, from = new Date()): string[] {
+  const dates: string[] = []
+  const today = new Date(`${toManilaDateString(from)}T00:00:00Z`)
+
+  for (let offset = PICKUP_LEAD_DAYS; offset <= PICKUP_WINDOW_DAYS; offset++) {
+    const day = new Date(today)
+    day.setUTCDate(today.getUTCDate() + offset)
+    if (center.pickupDays.includes(day.getUTCDay())) {
+      dates.push(day.toISOString().slice(0, 10))
+    }
+  }
+
+  return dates
+}
+
+export function validatePickup(centerId: string | null | undefined, date: string | null | undefined): string | null {
+  const center = getServiceCenter(centerId)
+  if (!center || !center.pickupAvailable) return "Please choose a pickup branch"
+  if (!date) return "Please choose a pickup date"
+  if (!getPickupDates(center).includes(date)) return `${center.name} can't release orders on that date`
+  return null
+}
@@ -0,0 +1,267 @@
+import {
+  CourierError,
+  getCourier,
+  getCourierAdapter,
+  type ShipmentAddress,
+  type ShipmentStatus,
+  type ShipmentTracking,
+} from "./couriers"
+import { changeOrderStatus, OrderActionError, type BulkOrderResult } from "./order-actions"
+
+const NEXT_PUBLIC_LARAVEL_API_URL = process.env.NEXT_PUBLIC_LARAVEL_API_URL
+
+// Waybill booking and tracking sync. The carrier is the source of truth for the parcel; Laravel keeps
+// the tracking number and the checkpoints on the order so the track endpoint can serve them.
+
+// The subset of a Laravel order shipping needs
+export interface ShipmentOrder {
+  id: number
+  order_number: string
+  status: string
+  fulfillment_method?: string | null
+  courier?: string | null
+  tracking_number?: string | null
+  shipment_status?: ShipmentStatus | null
+  first_name: string
+  last_name: string
+  phone: string
+  address: string
+  barangay?: string | null
+  city: string
+  province?: string | null
+  zip_code?: string | null
+  payment_method: string
+  payment_status?: string | null
+  total: number
+  items?: { quantity: number; product?: { name: string } }[]
+}
+
+// Scans after which the parcel is no longer moving, so there's nothing left to sync
+const FINAL_SHIPMENT_STATUSES: ShipmentStatus[] = ["delivered", "returned", "cancelled"]
+
+const IN_TRANSIT_STATUSES: ShipmentStatus[] = ["picked_up", "in_transit", "out_for_delivery", "failed_attempt"]
+
+async function laravelRequest(path: string, authHeader: string, init?: { method?: string; body?: unknown }) {
+  const response = await fetch(`${NEXT_PUBLIC_LARAVEL_API_URL}/${path}`, {
+    method: init?.method || "GET",
+    headers: {
+      Authorization: authHeader,
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: init?.body ? JSON.stringify(init.body) : undefined,
+    cache: "no-store",
+  })
+
+  const data = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new OrderActionError(
+      data.message || "Failed to update shipment",
+      response.status === 200 ? 400 : response.status,
+    )
+  }
+
+  return data
+}
+
+export async function fetchShipmentOrder(orderId: string | number, authHeader: string): Promise<ShipmentOrder> {
+  const data = await laravelRequest(`admin/orders/${orderId}`, authHeader)
+  return data.data
+}
+
+function requireAdapter(order: ShipmentOrder) {
+  const adapter = getCourierAdapter(order.courier, order.tracking_number)
+  if (!adapter) {
+    throw new OrderActionError(
+      `${getCourier(order.courier)?.name || "This courier"} is not connected for tracking`,
+      409,
+    )
+  }
+  return adapter
+}
+
+const hasActiveWaybill = (order: ShipmentOrder) => !!order.tracking_number && order.shipment_status !== "cancelled"
+
+export async function createOrderWaybill(orderId: string | number, courierCode: string, authHeader: string) {
+  const courier = getCourier(courierCode)
+  if (!courier?.integrated) {
+    throw new OrderActionError("Choose a courier that supports waybill booking", 422)
+  }
+
+  const order = await fetchShipmentOrder(orderId, authHeader)
+
+  if (order.fulfillment_method === "pickup") {
+    throw new OrderActionError("Pickup orders don't need a courier", 409)
+  }
+  if (!["confirmed", "processing"].includes(order.status)) {
+    throw new OrderActionError("Only confirmed or processing orders can be booked with a courier", 409)
+  }
+  if (hasActiveWaybill(order)) {
+    throw new OrderActionError(`This order already has waybill ${order.tracking_number}`, 409)
+  }
+
+  const adapter = getCourierAdapter(courier.code)!
+  const recipient: ShipmentAddress = {
+    name: `${order.first_name} ${order.last_name}`.trim(),
+    phone: order.phone,
+    address: order.address,
+    barangay: order.barangay,
+    city: order.city,
+    province: order.province,
+    zip_code: order.zip_code,
+  }
+  const items = order.items || []
+
+  const waybill = await adapter.createWaybill({
+    orderId: order.id,
+    orderNumber: order.order_number,
+    recipient,
+    declaredValue: Number(order.total),
+    codAmount: order.payment_method === "cod" && order.payment_status !== "paid" ? Number(order.total) : 0,
+    itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+    description: items.map((item) => item.product?.name || "Item").join(", ") || `Order ${order.order_number}`,
+  })
+
+  try {
+    await laravelRequest(`orders/${order.id}/shipment`, authHeader, {
+      method: "PUT",
+      body: {
+        courier: waybill.courier,
+        tracking_number: waybill.trackingNumber,
+        shipment_status: waybill.status,
+        label_url: waybill.labelUrl,
+        estimated_delivery: waybill.estimatedDelivery,
+      },
+    })
+  } catch (error) {
+    // Don't leave a booked parcel the order doesn't know about
+    await adapter
+      .cancelWaybill(waybill.trackingNumber)
+      .catch((cancelError) => console.error(`Failed to void waybill ${waybill.trackingNumber}:`, cancelError))
+    throw error
+  }
+
+  return { order, waybill }
+}
+
+export async function cancelOrderWaybill(orderId: string | number, authHeader: string) {
+  const order = await fetchShipmentOrder(orderId, authHeader)
+
+  if (!hasActiveWaybill(order)) {
+    throw new OrderActionError("This order has no waybill to cancel", 409)
+  }
+
+  await requireAdapter(order).cancelWaybill(order.tracking_number!)
+  await laravelRequest(`orders/${order.id}/shipment`, authHeader, {
+    method: "PUT",
+    body: { courier: order.courier, tracking_number: null, shipment_status: "cancelled" },
+  })
+
+  return { order }
+}
+
+// The order status the parcel's progress implies, if the order hasn't caught up yet
+function getImpliedStatus(order: ShipmentOrder, tracking: ShipmentTracking): string | null {
+  if (tracking.status !== "delivered" && !IN_TRANSIT_STATUSES.includes(tracking.status)) return null
+
+  if (order.status === "confirmed") return "processing"
+  if (order.status === "processing") return "shipped"
+  if (order.status === "shipped" && tracking.status === "delivered") return "delivered"
+  return null
+}
+
+// Pulls the carrier's scans onto the order. Laravel ignores checkpoints it already has by external_id,
+// so overlapping syncs are harmless. The order follows the parcel: on to shipped once it's picked up,
+// shipped → delivered once the carrier confirms delivery, through the normal transition checks.
+export async function syncOrderShipment(order: ShipmentOrder, authHeader: string) {
+  if (!order.tracking_number) {
+    throw new OrderActionError("This order has no waybill to track", 409)
+  }
+
+  const tracking = await requireAdapter(order).fetchTracking(order.tracking_number)
+
+  await laravelRequest(`orders/${order.id}/tracking-events`, authHeader, {
+    method: "POST",
+    body: {
+      tracking_number: tracking.trackingNumber,
+      shipment_status: tracking.status,
+      estimated_delivery: tracking.estimatedDelivery,
+      events: tracking.checkpoints.map((checkpoint) => ({
+        external_id: checkpoint.externalId,
+        status: checkpoint.status,
+        description: checkpoint.description,
+        location: checkpoint.location,
+        timestamp: checkpoint.occurredAt,
+      })),
+    },
+  })
+
+  const statusChanges: string[] = []
+  let current = order
+  let next = getImpliedStatus(current, tracking)
+
+  while (next) {
+    try {
+      await changeOrderStatus(current.id, next, `Updated from ${getCourier(order.courier)?.name} tracking`, authHeader)
+    } catch (error) {
+      // A blocked transition (e.g. unpaid order) leaves the order for staff; the checkpoints are still stored
+      console.error(`Shipment sync could not move order ${order.order_number} to ${next}:`, error)
+      break
+    }
+    statusChanges.push(next)
+    current = { ...current, status: next }
+    next = getImpliedStatus(current, tracking)
+  }
+
+  return { order, tracking, status_changes: statusChanges }
+}
+
+// Orders with a waybill the carrier may still have news about. Waybills can be booked from "confirmed", so those
+// are included too; their first pickup scan moves them along.
+export async function fetchActiveShipmentOrders(authHeader: string): Promise<ShipmentOrder[]> {
+  const data = await laravelRequest(
+    "admin/orders?status=confirmed,processing,shipped&has_tracking_number=1&per_page=200",
+    authHeader,
+  )
+  const orders: ShipmentOrder[] = Array.isArray(data.data) ? data.data : data.data?.data || []
+
+  return orders.filter(
+    (order) =>
+      !!order.tracking_number &&
+      !FINAL_SHIPMENT_STATUSES.includes(order.shipment_status as ShipmentStatus) &&
+      !!getCourier(order.courier)?.integrated,
+  )
+}
+
+// Syncs every active shipment one at a time so a carrier outage for one order doesn't stop the rest
+export async function syncActiveShipments(authHeader: string): Promise<BulkOrderResult[]> {
+  const orders = await fetchActiveShipmentOrders(authHeader)
+  const results: BulkOrderResult[] = []
+
+  for (const order of orders) {
+    try {
+      const { tracking, status_changes } = await syncOrderShipment(order, authHeader)
+      results.push({
+        order_id: order.id,
+        order_number: order.order_number,
+        success: true,
+        message:
+          `${tracking.checkpoints.length} checkpoint${tracking.checkpoints.length === 1 ? "" : "s"}, ${tracking.status}` +
+          (status_changes.length > 0 ? `; order moved to ${status_changes.join(" → ")}` : ""),
+      })
+    } catch (error) {
+      if (!(error instanceof OrderActionError || error instanceof CourierError)) {
+        console.error(`Shipment sync failed for order ${order.order_number}:`, error)
+      }
+      results.push({
+        order_id: order.id,
+        order_number: order.order_number,
+        success: false,
+        message: error instanceof Error ? error.message : "Failed to sync shipment",
+      })
+    }
+  }
+
+  return results
+}
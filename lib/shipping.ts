@@ -0,0 +1,294 @@
+import { getAuthToken } from "./auth"
+
+// Rough handling size of a unit, used to pick the base rate
+export type FreightClass = "small" | "standard" | "oversize"
+
+export const FREIGHT_CLASSES: { value: FreightClass; label: string }[] = [
+  { value: "small", label: "Small (e-bikes, e-scooters)" },
+  { value: "standard", label: "Standard (e-motorcycles)" },
+  { value: "oversize", label: "Oversize (e-trikes, e-dumps)" },
+]
+
+export interface ShippingZone {
+  id: string
+  name: string
+  // Provinces covered by the zone. A zone with no provinces catches every address not matched elsewhere.
+  provinces: string[]
+  rates: Record<FreightClass, number>
+  per_kg_rate: number
+  free_shipping_threshold: number | null
+}
+
+export interface ProductShippingProfile {
+  product_id: number
+  freight_class: FreightClass
+  weight_kg?: number | null
+}
+
+export interface ShippingRules {
+  zones: ShippingZone[]
+  category_classes: Record<string, FreightClass>
+  products: ProductShippingProfile[]
+}
+
+export interface ShippableItem {
+  product_id: number | string
+  quantity: number
+  price: number
+  category?: string
+}
+
+export interface ShippingQuote {
+  fee: number
+  zone: ShippingZone | null
+  isFree: boolean
+  freeShippingThreshold: number | null
+}
+
+interface ShippingResponse<T> {
+  success: boolean
+  data?: T
+  message?: string
+}
+
+const VISAYAS_PROVINCES = [
+  "Aklan",
+  "Antique",
+  "Biliran",
+  "Bohol",
+  "Capiz",
+  "Cebu",
+  "Eastern Samar",
+  "Guimaras",
+  "Iloilo",
+  "Leyte",
+  "Negros Occidental",
+  "Negros Oriental",
+  "Northern Samar",
+  "Samar",
+  "Siquijor",
+  "Southern Leyte",
+]
+
+const MINDANAO_PROVINCES = [
+  "Agusan del Norte",
+  "Agusan del Sur",
+  "Basilan",
+  "Bukidnon",
+  "Camiguin",
+  "Cotabato",
+  "Davao de Oro",
+  "Davao del Norte",
+  "Davao del Sur",
+  "Davao Occidental",
+  "Davao Oriental",
+  "Dinagat Islands",
+  "Lanao del Norte",
+  "Lanao del Sur",
+  "Maguindanao del Norte",
+  "Maguindanao del Sur",
+  "Misamis Occidental",
+  "Misamis Oriental",
+  "Sarangani",
+  "South Cotabato",
+  "Sultan Kudarat",
+  "Sulu",
+  "Surigao del Norte",
+  "Surigao del Sur",
+  "Tawi-Tawi",
+  "Zamboanga del Norte",
+  "Zamboanga del Sur",
+  "Zamboanga Sibugay",
+]
+
+// Used until an admin saves rules. Fees are charged per unit, so only a single standard unit in Metro Manila
+// costs the old flat ₱500; Metro Manila orders over ₱50,000 still ship free.
+export const DEFAULT_SHIPPING_RULES: ShippingRules = {
+  zones: [
+    {
+      id: "metro-manila",
+      name: "Metro Manila",
+      provinces: ["Metro Manila", "NCR", "National Capital Region"],
+      rates: { small: 300, standard: 500, oversize: 500 },
+      per_kg_rate: 0,
+      free_shipping_threshold: 50000,
+    },
+    {
+      id: "visayas",
+      name: "Visayas",
+      provinces: VISAYAS_PROVINCES,
+      rates: { small: 1200, standard: 2500, oversize: 6500 },
+      per_kg_rate: 0,
+      free_shipping_threshold: null,
+    },
+    {
+      id: "mindanao",
+      name: "Mindanao",
+      provinces: MINDANAO_PROVINCES,
+      rates: { small: 1500, standard: 3000, oversize: 8000 },
+      per_kg_rate: 0,
+      free_shipping_threshold: null,
+    },
+    {
+      id: "luzon",
+      name: "Rest of Luzon",
+      provinces: [],
+      rates: { small: 600, standard: 1200, oversize: 2500 },
+      per_kg_rate: 0,
+      free_shipping_threshold: 100000,
+    },
+  ],
+  category_classes: {
+    "E-Bike": "small",
+    "E-Scooter": "small",
+    "E-Motorcycle": "standard",
+    "E-Trike": "oversize",
+    "E-Dump": "oversize",
+  },
+  products: [],
+}
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+export function findShippingZone(rules: ShippingRules, province: string | null | undefined): ShippingZone | null {
+  if (province && province.trim()) {
+    const target = normalize(province)
+    const zone = rules.zones.find((z) => z.provinces.some((p) => normalize(p) === target))
+    if (zone) return zone
+  }
+
+  return rules.zones.find((z) => z.provinces.length === 0) || null
+}
+
+export function getFreightProfile(
+  rules: ShippingRules,
+  item: Pick<ShippableItem, "product_id" | "category">,
+): { freightClass: FreightClass; weightKg: number } {
+  const profile = rules.products.find((p) => String(p.product_id) === String(item.product_id))
+  const freightClass = profile?.freight_class || (item.category && rules.category_classes[item.category]) || "standard"
+
+  return { freightClass, weightKg: Number(profile?.weight_kg) || 0 }
+}
+
+// Each unit is charged its zone base rate plus the per-kg rate on its weight.
+// The quote has no zone when nothing covers the address, so callers can block checkout.
+export function calculateShipping(
+  rules: ShippingRules,
+  items: ShippableItem[],
+  province: string | null | undefined,
+): ShippingQuote {
+  const zone = findShippingZone(rules, province)
+  if (!zone) {
+    return { fee: 0, zone: null, isFree: false, freeShippingThreshold: null }
+  }
+
+  const subtotal = items.reduce((sum, item) => sum + Number(item.price) * Number(item.quantity), 0)
+  const threshold = zone.free_shipping_threshold
+
+  if (items.length === 0 || (threshold !== null && threshold > 0 && subtotal >= threshold)) {
+    return { fee: 0, zone, isFree: items.length > 0, freeShippingThreshold: threshold }
+  }
+
+  const fee = items.reduce((sum, item) => {
+    const { freightClass, weightKg } = getFreightProfile(rules, item)
+    const unitFee = (Number(zone.rates[freightClass]) || 0) + (Number(zone.per_kg_rate) || 0) * weightKg
+    return sum + unitFee * Number(item.quantity)
+  }, 0)
+
+  return { fee: Math.round(fee * 100) / 100, zone, isFree: fee === 0, freeShippingThreshold: threshold }
+}
+
+export function validateShippingRules(rules: any): string | null {
+  if (!rules || !Array.isArray(rules.zones) || rules.zones.length === 0) return "At least one shipping zone is required"
+
+  const ids = new Set<string>()
+  for (const zone of rules.zones) {
+    if (!zone.id || !zone.name || !String(zone.name).trim()) return "Every zone needs a name"
+    if (ids.has(zone.id)) return `Duplicate zone "${zone.name}"`
+    ids.add(zone.id)
+
+    if (!Array.isArray(zone.provinces)) return `Provinces for ${zone.name} must be a list`
+
+    for (const { value } of FREIGHT_CLASSES) {
+      const rate = Number(zone.rates?.[value])
+      if (isNaN(rate) || rate < 0) return `${zone.name} needs a non-negative ${value} rate`
+    }
+
+    if (isNaN(Number(zone.per_kg_rate)) || Number(zone.per_kg_rate) < 0) {
+      return `${zone.name} per-kg rate cannot be negative`
+    }
+
+    if (zone.free_shipping_threshold !== null && !(Number(zone.free_shipping_threshold) >= 0)) {
+      return `${zone.name} free shipping threshold cannot be negative`
+    }
+  }
+
+  if (rules.zones.filter((zone: ShippingZone) => zone.provinces.length === 0).length > 1) {
+    return "Only one zone can be the catch-all (no provinces)"
+  }
+
+  const classes = FREIGHT_CLASSES.map((c) => c.value)
+  for (const profile of rules.products || []) {
+    if (!classes.includes(profile.freight_class)) return `Invalid freight class for product #${profile.product_id}`
+    if (profile.weight_kg != null && !(Number(profile.weight_kg) >= 0)) {
+      return `Weight for product #${profile.product_id} cannot be negative`
+    }
+  }
+
+  return null
+}
+
+// Server-side lookup for the order create path; falls back to the defaults if Laravel has none stored
+export async function loadShippingRules(): Promise<ShippingRules> {
+  try {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_LARAVEL_API_URL}/shipping-rules`, {
+      headers: { Accept: "application/json" },
+      cache: "no-store",
+    })
+
+    if (response.ok) {
+      const data: ShippingResponse<ShippingRules> = await response.json()
+      if (data.success && data.data?.zones?.length) return data.data
+    }
+  } catch (error) {
+    console.error("Load shipping rules error:", error)
+  }
+
+  return DEFAULT_SHIPPING_RULES
+}
+
+export async function getShippingRules(): Promise<ShippingRules> {
+  try {
+    const response = await fetch("/api/shipping/rules", {
+      method: "GET",
+      headers: { Accept: "application/json" },
+    })
+
+    const data: ShippingResponse<ShippingRules> = await response.json()
+    return data.success && data.data?.zones?.length ? data.data : DEFAULT_SHIPPING_RULES
+  } catch (error) {
+    console.error("Get shipping rules error:", error)
+    return DEFAULT_SHIPPING_RULES
+  }
+}
+
+export async function saveShippingRules(rules: ShippingRules): Promise<ShippingRules> {
+  const token = getAuthToken()
+  const response = await fetch("/api/shipping/rules", {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(rules),
+  })
+
+  const data: ShippingResponse<ShippingRules> = await response.json()
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || "Failed to save shipping rules")
+  }
+
+  return data.data
+}
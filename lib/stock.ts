@@ -0,0 +1,159 @@
+import { getAuthToken } from "./auth"
+import {
+  getAvailableStock,
+  getLowStockThreshold,
+  getVariantLabel,
+  hasVariants,
+  isStockCounted,
+  type ProductVariant,
+} from "./variants"
+
+// Stock levels and the movement ledger as the admin sees them. Laravel keeps the counts and writes a
+// movement for every change; the server side of reservations is in lib/inventory.ts.
+
+export type StockMovementType = "initial" | "reserve" | "release" | "commit" | "restock" | "adjust" | "return"
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  initial: "Initial count",
+  reserve: "Reserved for order",
+  release: "Released",
+  commit: "Shipped / picked up",
+  restock: "Restocked",
+  adjust: "Adjusted",
+  return: "Returned",
+}
+
+export interface StockMovement {
+  id: number
+  product_id: number
+  variant_id?: number | null
+  sku?: string | null
+  type: StockMovementType
+  // Signed change to on-hand (restock, adjust, commit) or reserved (reserve, release) units
+  quantity: number
+  on_hand_after: number
+  reserved_after: number
+  order_id?: number | null
+  order_number?: string | null
+  note?: string | null
+  actor_name?: string | null
+  created_at: string
+}
+
+// Manual changes an admin can record against on-hand stock
+export const STOCK_ADJUSTMENT_REASONS: { code: "restock" | "adjust" | "return"; label: string }[] = [
+  { code: "restock", label: "Delivery from supplier" },
+  { code: "return", label: "Customer return put back on the shelf" },
+  { code: "adjust", label: "Count correction, damage or loss" },
+]
+
+export interface StockLine {
+  label: string
+  variant_id?: number | null
+  sku?: string | null
+  on_hand: number
+  reserved: number
+  available: number
+  low: boolean
+}
+
+interface StockProduct {
+  model?: string
+  sizes?: string[]
+  variants?: ProductVariant[]
+  stock_quantity?: number | null
+  reserved_quantity?: number
+  low_stock_threshold?: number | null
+  price: number
+}
+
+// One line per variant, or a single line for a product counted as a whole. Empty when stock isn't counted.
+export function getStockLines(product: StockProduct): StockLine[] {
+  const threshold = getLowStockThreshold(product)
+
+  if (hasVariants(product)) {
+    return product.variants!.map((variant) => {
+      const available = getAvailableStock(variant)
+      return {
+        label: getVariantLabel(variant) || variant.sku,
+        variant_id: variant.id,
+        sku: variant.sku,
+        on_hand: Number(variant.stock || 0),
+        reserved: Number(variant.reserved || 0),
+        available,
+        low: available <= threshold,
+      }
+    })
+  }
+
+  if (!isStockCounted(product)) return []
+
+  const onHand = Number(product.stock_quantity)
+  const reserved = Number(product.reserved_quantity || 0)
+  const available = getAvailableStock({ stock: onHand, reserved })
+  return [{ label: product.model || "All units", on_hand: onHand, reserved, available, low: available <= threshold }]
+}
+
+export function getStockTotals(product: StockProduct) {
+  const lines = getStockLines(product)
+  return {
+    counted: lines.length > 0,
+    on_hand: lines.reduce((sum, line) => sum + line.on_hand, 0),
+    reserved: lines.reduce((sum, line) => sum + line.reserved, 0),
+    available: lines.reduce((sum, line) => sum + line.available, 0),
+    low: lines.some((line) => line.low),
+  }
+}
+
+function getHeaders(): HeadersInit {
+  const token = getAuthToken()
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  }
+
+  if (token) {
+    headers.Authorization = `Bearer ${token}`
+  }
+
+  return headers
+}
+
+export async function getStockMovements(productId: number, variantId?: number | null): Promise<StockMovement[]> {
+  const params = new URLSearchParams({ product_id: String(productId) })
+  if (variantId) params.set("variant_id", String(variantId))
+
+  const response = await fetch(`/api/admin/inventory/movements?${params.toString()}`, {
+    method: "GET",
+    headers: getHeaders(),
+  })
+  const data: { success: boolean; message?: string; data?: StockMovement[] } = await response.json()
+
+  if (!data.success || !Array.isArray(data.data)) {
+    throw new Error(data.message || "Failed to load stock movements")
+  }
+
+  return data.data
+}
+
+export async function adjustStock(adjustment: {
+  product_id: number
+  variant_id?: number | null
+  quantity: number
+  reason: "restock" | "adjust" | "return"
+  note?: string
+}): Promise<string> {
+  const response = await fetch("/api/admin/inventory/adjustments", {
+    method: "POST",
+    headers: getHeaders(),
+    body: JSON.stringify(adjustment),
+  })
+
+  const data: { success: boolean; message?: string } = await response.json()
+
+  if (!data.success) {
+    throw new Error(data.message || "Failed to adjust stock")
+  }
+
+  return data.message || "Stock updated"
+}
@@ -1,3 +1,5 @@
+import type { ProductVariant } from "./variants";
+
 export interface ProductColor {
   name: string;
   code: string;  // 'code' is required here
@@ -24,6 +26,7 @@ export interface Product {
   
   specifications: Specification[];  // Keep it as an array of objects
   colors: ProductColor[];  // Using ProductColor type for colors
+  variants?: ProductVariant[];
   in_stock: boolean;
   featured:boolean;
 }
@@ -49,6 +52,9 @@ export interface CartItem {
   product_id: number;
   quantity: number;
   color?: string;
+  variant_id?: number | null;
+  sku?: string | null;
+  option?: string | null;
   price: number;
   product: {
     id: string;
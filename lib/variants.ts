@@ -0,0 +1,143 @@
+// Product variants: one SKU per color × option (size or battery pack), each with its own stock, price
+// difference and photos. A product without variants is sold as before, on its own price and in_stock flag.
+
+export interface ProductVariant {
+  id?: number
+  sku: string
+  // A name from the product's colors and one of its options; null when the product has no such choice
+  color?: string | null
+  option?: string | null
+  // Added to the product price; negative for a cheaper variant
+  price_delta: number
+  // Units on hand, and how many of those are held for open orders
+  stock: number
+  reserved?: number
+  // Subset of the product images showing this variant
+  images?: string[]
+}
+
+interface VariantProduct {
+  price: number
+  model?: string
+  images?: string[]
+  in_stock?: boolean | number
+  // On-hand count for products without variants; null or missing when stock isn't counted
+  stock_quantity?: number | null
+  reserved_quantity?: number
+  low_stock_threshold?: number | null
+  colors?: ({ name: string } | string)[]
+  sizes?: string[]
+  variants?: ProductVariant[]
+}
+
+// For products without their own threshold: at or below it the product page shows "Only N left" and
+// admins are alerted
+export const LOW_STOCK_THRESHOLD = 5
+
+export const getLowStockThreshold = (product: { low_stock_threshold?: number | null }) =>
+  product.low_stock_threshold ?? LOW_STOCK_THRESHOLD
+
+const sameChoice = (a?: string | null, b?: string | null) => (a || "").toLowerCase() === (b || "").toLowerCase()
+
+export const hasVariants = (product: VariantProduct) => Array.isArray(product.variants) && product.variants.length > 0
+
+export function findVariant(
+  product: VariantProduct,
+  choice: { variantId?: number | string | null; color?: string | null; option?: string | null },
+): ProductVariant | undefined {
+  const variants = product.variants || []
+
+  if (choice.variantId !== undefined && choice.variantId !== null && choice.variantId !== "") {
+    return variants.find((variant) => String(variant.id) === String(choice.variantId))
+  }
+
+  return variants.find(
+    (variant) => sameChoice(variant.color, choice.color) && sameChoice(variant.option, choice.option),
+  )
+}
+
+// What can still be sold: on hand less what open orders hold
+export const getAvailableStock = (variant: Pick<ProductVariant, "stock" | "reserved">) =>
+  Math.max(0, Number(variant.stock || 0) - Number(variant.reserved || 0))
+
+export const isStockCounted = (product: VariantProduct) =>
+  product.stock_quantity !== null && product.stock_quantity !== undefined
+
+export const getVariantPrice = (product: VariantProduct, variant?: ProductVariant | null) =>
+  Math.max(0, Number(product.price) + Number(variant?.price_delta || 0))
+
+export function isProductInStock(product: VariantProduct): boolean {
+  if (hasVariants(product)) return product.variants!.some((variant) => getAvailableStock(variant) > 0)
+  if (isStockCounted(product)) {
+    return getAvailableStock({ stock: product.stock_quantity!, reserved: product.reserved_quantity }) > 0
+  }
+  return product.in_stock !== false && product.in_stock !== 0
+}
+
+// Whether a color (or option) can still be bought, given what is picked on the other axis
+export function isChoiceAvailable(
+  product: VariantProduct,
+  axis: "color" | "option",
+  value: string,
+  other?: string | null,
+): boolean {
+  if (!hasVariants(product)) return isProductInStock(product)
+
+  const otherAxis = axis === "color" ? "option" : "color"
+  return product.variants!.some(
+    (variant) =>
+      sameChoice(variant[axis], value) &&
+      (!other || sameChoice(variant[otherAxis], other)) &&
+      getAvailableStock(variant) > 0,
+  )
+}
+
+export function getVariantImages(product: VariantProduct, variant?: ProductVariant | null): string[] {
+  return variant?.images && variant.images.length > 0 ? variant.images : product.images || []
+}
+
+export const getVariantLabel = (variant: Pick<ProductVariant, "color" | "option">) =>
+  [variant.color, variant.option].filter(Boolean).join(" / ")
+
+const skuPart = (value: string) =>
+  value
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "")
+    .slice(0, 8)
+
+export function buildSku(model: string | undefined, color?: string | null, option?: string | null): string {
+  return [model || "SKU", color, option]
+    .filter((part): part is string => !!part)
+    .map(skuPart)
+    .filter(Boolean)
+    .join("-")
+}
+
+// Every color × option pair the product offers. Existing variants keep their SKU, stock, price and
+// photos; pairs that no longer exist are dropped.
+export function buildVariantMatrix(product: VariantProduct): ProductVariant[] {
+  const colors = (product.colors || []).map((color) => (typeof color === "string" ? color : color.name))
+  const options = product.sizes || []
+  const existing = product.variants || []
+
+  if (colors.length === 0 && options.length === 0) return []
+
+  const pairs: { color: string | null; option: string | null }[] = []
+  for (const color of colors.length > 0 ? colors : [null]) {
+    for (const option of options.length > 0 ? options : [null]) {
+      pairs.push({ color, option })
+    }
+  }
+
+  return pairs.map(
+    (pair) =>
+      existing.find((variant) => sameChoice(variant.color, pair.color) && sameChoice(variant.option, pair.option)) || {
+        sku: buildSku(product.model, pair.color, pair.option),
+        color: pair.color,
+        option: pair.option,
+        price_delta: 0,
+        stock: 0,
+        images: [],
+      },
+  )
+}
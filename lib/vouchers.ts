@@ -0,0 +1,263 @@
+import { getAuthToken } from "./auth"
+
+export type VoucherDiscountType = "percent" | "fixed"
+
+export interface Voucher {
+  id: number
+  code: string
+  description?: string | null
+  discount_type: VoucherDiscountType
+  discount_value: number
+  // Caps percent discounts, e.g. 10% off up to ₱5,000
+  max_discount?: number | null
+  min_spend?: number | null
+  // When set, only matching items count toward min spend and the discount
+  categories?: string[]
+  product_ids?: number[]
+  usage_limit?: number | null
+  per_user_limit?: number | null
+  starts_at?: string | null
+  ends_at?: string | null
+  is_active: boolean
+  times_redeemed?: number
+}
+
+export interface VoucherRedemption {
+  id: number
+  voucher_id: number
+  order_id: number
+  order_number?: string
+  user_id?: number | null
+  customer_name?: string | null
+  discount_amount: number
+  created_at: string
+}
+
+export interface VoucherItem {
+  product_id: number | string
+  quantity: number
+  price: number
+  category?: string
+}
+
+export interface VoucherUsage {
+  total: number
+  byUser: number
+}
+
+export interface VoucherResult {
+  valid: boolean
+  discount: number
+  message: string
+  code?: string
+}
+
+interface VoucherResponse<T> {
+  success: boolean
+  data?: T
+  message?: string
+}
+
+// Also what Laravel reports (data.voucher_limit) when a cap is hit while it records the redemption
+export const VOUCHER_LIMIT_MESSAGES = {
+  usage_limit: "This promo code has reached its usage limit",
+  per_user_limit: "You have already used this promo code",
+} as const
+
+export type VoucherLimit = keyof typeof VOUCHER_LIMIT_MESSAGES
+
+export const normalizeVoucherCode = (code: string) => code.trim().toUpperCase()
+
+const formatAmount = (amount: number) =>
+  new Intl.NumberFormat("en-PH", { style: "currency", currency: "PHP" }).format(amount)
+
+function isEligibleItem(voucher: Voucher, item: VoucherItem): boolean {
+  const categories = voucher.categories || []
+  const productIds = (voucher.product_ids || []).map(String)
+
+  if (categories.length === 0 && productIds.length === 0) return true
+
+  return productIds.includes(String(item.product_id)) || (!!item.category && categories.includes(item.category))
+}
+
+// Checks every rule on the voucher against the cart. Shared by the validate route and order creation.
+// The caps are only advisory here; Laravel enforces them when it records the redemption.
+export function evaluateVoucher(
+  voucher: Voucher,
+  items: VoucherItem[],
+  usage: VoucherUsage,
+  now = new Date(),
+): VoucherResult {
+  const invalid = (message: string): VoucherResult => ({ valid: false, discount: 0, message })
+
+  if (!voucher.is_active) return invalid("This promo code is no longer active")
+  if (voucher.starts_at && now < new Date(voucher.starts_at)) return invalid("This promo code is not active yet")
+  if (voucher.ends_at && now > new Date(voucher.ends_at)) return invalid("This promo code has expired")
+
+  if (voucher.usage_limit && usage.total >= voucher.usage_limit) {
+    return invalid(VOUCHER_LIMIT_MESSAGES.usage_limit)
+  }
+  if (voucher.per_user_limit && usage.byUser >= voucher.per_user_limit) {
+    return invalid(VOUCHER_LIMIT_MESSAGES.per_user_limit)
+  }
+
+  const eligibleSubtotal = items
+    .filter((item) => isEligibleItem(voucher, item))
+    .reduce((sum, item) => sum + Number(item.price) * Number(item.quantity), 0)
+
+  if (eligibleSubtotal <= 0) return invalid("This promo code doesn't apply to the items in your cart")
+
+  if (voucher.min_spend && eligibleSubtotal < voucher.min_spend) {
+    return invalid(`Spend at least ${formatAmount(voucher.min_spend)} on eligible items to use this code`)
+  }
+
+  let discount =
+    voucher.discount_type === "percent"
+      ? (eligibleSubtotal * Number(voucher.discount_value)) / 100
+      : Number(voucher.discount_value)
+
+  if (voucher.discount_type === "percent" && voucher.max_discount) {
+    discount = Math.min(discount, voucher.max_discount)
+  }
+
+  discount = Math.round(Math.min(discount, eligibleSubtotal) * 100) / 100
+
+  return {
+    valid: true,
+    discount,
+    code: voucher.code,
+    message: `${voucher.code} applied: ${formatAmount(discount)} off`,
+  }
+}
+
+export function validateVoucherInput(voucher: any): string | null {
+  if (!voucher.code || !/^[A-Z0-9_-]{3,32}$/.test(normalizeVoucherCode(String(voucher.code)))) {
+    return "Code must be 3-32 letters, numbers, dashes or underscores"
+  }
+
+  if (!["percent", "fixed"].includes(voucher.discount_type)) return "Discount type must be percent or fixed"
+
+  const value = Number(voucher.discount_value)
+  if (isNaN(value) || value <= 0) return "Discount value must be greater than zero"
+  if (voucher.discount_type === "percent" && value > 100) return "Percent discount cannot exceed 100%"
+
+  for (const field of ["max_discount", "min_spend", "usage_limit", "per_user_limit"]) {
+    if (voucher[field] != null && voucher[field] !== "" && !(Number(voucher[field]) >= 0)) {
+      return `${field.replace(/_/g, " ")} cannot be negative`
+    }
+  }
+
+  if (voucher.starts_at && voucher.ends_at && new Date(voucher.starts_at) > new Date(voucher.ends_at)) {
+    return "End date must be after the start date"
+  }
+
+  return null
+}
+
+// Server-side: fetch the voucher with its redemption counts for the signed-in customer and evaluate it
+export async function checkVoucher(code: string, items: VoucherItem[], authHeader: string): Promise<VoucherResult> {
+  const response = await fetch(
+    `${process.env.NEXT_PUBLIC_LARAVEL_API_URL}/vouchers/lookup?code=${encodeURIComponent(normalizeVoucherCode(code))}`,
+    {
+      headers: { Authorization: authHeader, Accept: "application/json" },
+      cache: "no-store",
+    },
+  )
+
+  if (response.status === 404) {
+    return { valid: false, discount: 0, message: "Invalid promo code" }
+  }
+
+  if (!response.ok) {
+    throw new Error(`Voucher lookup failed with status ${response.status}`)
+  }
+
+  const data: VoucherResponse<Voucher & { user_redemptions?: number }> = await response.json()
+  if (!data.success || !data.data) {
+    return { valid: false, discount: 0, message: "Invalid promo code" }
+  }
+
+  return evaluateVoucher(data.data, items, {
+    total: Number(data.data.times_redeemed) || 0,
+    byUser: Number(data.data.user_redemptions) || 0,
+  })
+}
+
+function getHeaders(): HeadersInit {
+  const token = getAuthToken()
+  const headers: HeadersInit = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  }
+
+  if (token) {
+    headers.Authorization = `Bearer ${token}`
+  }
+
+  return headers
+}
+
+export async function validateVoucherCode(code: string, items: VoucherItem[]): Promise<VoucherResult> {
+  try {
+    const response = await fetch("/api/vouchers/validate", {
+      method: "POST",
+      headers: getHeaders(),
+      body: JSON.stringify({ code, items }),
+    })
+
+    const data: VoucherResponse<VoucherResult> = await response.json()
+    return data.data || { valid: false, discount: 0, message: data.message || "Invalid promo code" }
+  } catch (error) {
+    console.error("Validate voucher error:", error)
+    return { valid: false, discount: 0, message: "Unable to check this promo code right now" }
+  }
+}
+
+export async function getVouchers(): Promise<Voucher[]> {
+  try {
+    const response = await fetch("/api/admin/vouchers", { method: "GET", headers: getHeaders() })
+    const data: VoucherResponse<Voucher[]> = await response.json()
+    return data.success && Array.isArray(data.data) ? data.data : []
+  } catch (error) {
+    console.error("Get vouchers error:", error)
+    return []
+  }
+}
+
+export async function saveVoucher(voucher: Omit<Voucher, "id"> & { id?: number }): Promise<Voucher> {
+  const response = await fetch(voucher.id ? `/api/admin/vouchers/${voucher.id}` : "/api/admin/vouchers", {
+    method: voucher.id ? "PUT" : "POST",
+    headers: getHeaders(),
+    body: JSON.stringify(voucher),
+  })
+
+  const data: VoucherResponse<Voucher> = await response.json()
+
+  if (!data.success || !data.data) {
+    throw new Error(data.message || "Failed to save voucher")
+  }
+
+  return data.data
+}
+
+export async function deleteVoucher(id: number): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/admin/vouchers/${id}`, { method: "DELETE", headers: getHeaders() })
+    const data: VoucherResponse<null> = await response.json()
+    return data.success
+  } catch (error) {
+    console.error("Delete voucher error:", error)
+    return false
+  }
+}
+
+export async function getVoucherRedemptions(id: number): Promise<VoucherRedemption[]> {
+  try {
+    const response = await fetch(`/api/admin/vouchers/${id}/redemptions`, { method: "GET", headers: getHeaders() })
+    const data: VoucherResponse<VoucherRedemption[]> = await response.json()
+    return data.success && Array.isArray(data.data) ? data.data : []
+  } catch (error) {
+    console.error("Get voucher redemptions error:", error)
+    return []
+  }
+}
@@ -0,0 +1,256 @@
+import zlib from "zlib"
+
+// Minimal streaming XLSX writer for server-side exports. Writes a single worksheet with inline strings
+// into a zip whose entries use data descriptors, so rows can be sent as soon as they are added instead of
+// holding the whole workbook in memory.
+
+export type XlsxCell = string | number | null | undefined
+
+export interface XlsxColumn {
+  header: string
+  // Approximate width in characters
+  width?: number
+  // Numbers shown with thousands separators and two decimals
+  money?: boolean
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function crc32(data: Uint8Array, crc = 0): number {
+  let c = crc ^ 0xffffffff
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+// A final, empty fixed-Huffman block; ends a deflate stream made of sync-flushed chunks
+const DEFLATE_END = Buffer.from([0x03, 0x00])
+
+// Bit 3: sizes and CRC follow the data. Bit 11: UTF-8 names.
+const ZIP_FLAGS = 0x0808
+
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+interface ZipEntry {
+  name: Buffer
+  offset: number
+  crc: number
+  compressedSize: number
+  size: number
+}
+
+class ZipStream {
+  private entries: ZipEntry[] = []
+  private offset = 0
+  private current: ZipEntry | null = null
+  private stamp = dosDateTime(new Date())
+
+  private emit(chunk: Buffer): Buffer {
+    this.offset += chunk.length
+    return chunk
+  }
+
+  startEntry(name: string): Buffer {
+    const nameBytes = Buffer.from(name)
+    const header = Buffer.alloc(30)
+    header.writeUInt32LE(0x04034b50, 0)
+    header.writeUInt16LE(20, 4)
+    header.writeUInt16LE(ZIP_FLAGS, 6)
+    header.writeUInt16LE(8, 8)
+    header.writeUInt16LE(this.stamp.time, 10)
+    header.writeUInt16LE(this.stamp.date, 12)
+    header.writeUInt16LE(nameBytes.length, 26)
+
+    this.current = { name: nameBytes, offset: this.offset, crc: 0, compressedSize: 0, size: 0 }
+    return this.emit(Buffer.concat([header, nameBytes]))
+  }
+
+  // Each call compresses independently with a sync flush, so the pieces join into one valid deflate stream
+  write(text: string): Buffer {
+    const entry = this.current!
+    const data = Buffer.from(text)
+    const compressed = zlib.deflateRawSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH })
+
+    entry.crc = crc32(data, entry.crc)
+    entry.size += data.length
+    entry.compressedSize += compressed.length
+    return this.emit(compressed)
+  }
+
+  endEntry(): Buffer {
+    const entry = this.current!
+    entry.compressedSize += DEFLATE_END.length
+
+    const descriptor = Buffer.alloc(16)
+    descriptor.writeUInt32LE(0x08074b50, 0)
+    descriptor.writeUInt32LE(entry.crc, 4)
+    descriptor.writeUInt32LE(entry.compressedSize, 8)
+    descriptor.writeUInt32LE(entry.size, 12)
+
+    this.entries.push(entry)
+    this.current = null
+    return this.emit(Buffer.concat([DEFLATE_END, descriptor]))
+  }
+
+  addEntry(name: string, text: string): Buffer {
+    return Buffer.concat([this.startEntry(name), this.write(text), this.endEntry()])
+  }
+
+  finish(): Buffer {
+    const directoryOffset = this.offset
+    const records = this.entries.map((entry) => {
+      const record = Buffer.alloc(46)
+      record.writeUInt32LE(0x02014b50, 0)
+      record.writeUInt16LE(20, 4)
+      record.writeUInt16LE(20, 6)
+      record.writeUInt16LE(ZIP_FLAGS, 8)
+      record.writeUInt16LE(8, 10)
+      record.writeUInt16LE(this.stamp.time, 12)
+      record.writeUInt16LE(this.stamp.date, 14)
+      record.writeUInt32LE(entry.crc, 16)
+      record.writeUInt32LE(entry.compressedSize, 20)
+      record.writeUInt32LE(entry.size, 24)
+      record.writeUInt16LE(entry.name.length, 28)
+      record.writeUInt32LE(entry.offset, 42)
+      return Buffer.concat([record, entry.name])
+    })
+    const directory = Buffer.concat(records)
+
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(0x06054b50, 0)
+    end.writeUInt16LE(this.entries.length, 8)
+    end.writeUInt16LE(this.entries.length, 10)
+    end.writeUInt32LE(directory.length, 12)
+    end.writeUInt32LE(directoryOffset, 16)
+
+    return this.emit(Buffer.concat([directory, end]))
+  }
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main"
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships"
+const PACKAGE_REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships"
+
+const CONTENT_TYPES = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`
+
+const ROOT_RELS = `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+
+const WORKBOOK_RELS = `${XML_HEADER}<Relationships xmlns="${PACKAGE_REL_NS}"><Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`
+
+// Style 0: default, 1: bold header, 2: #,##0.00
+const STYLES = `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs><cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles></styleSheet>`
+
+// Characters XML 1.0 can't carry at all, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function columnName(index: number): string {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Rows are buffered and compressed in batches of about this many bytes
+const FLUSH_BYTES = 64 * 1024
+
+export class XlsxWriter {
+  private zip = new ZipStream()
+  private columns: XlsxColumn[]
+  private sheetName: string
+  private rowCount = 0
+  private pending = ""
+
+  constructor(columns: XlsxColumn[], sheetName = "Sheet1") {
+    this.columns = columns
+    // Sheet names are limited to 31 characters and can't contain []:*?/\
+    this.sheetName = sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31)
+  }
+
+  // Package parts plus the opening of the worksheet and its header row
+  start(): Buffer {
+    const workbook = `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets><sheet name="${escapeXml(this.sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+    const cols = this.columns
+      .map(
+        (column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width || 14}" customWidth="1"/>`,
+      )
+      .join("")
+
+    const parts = [
+      this.zip.addEntry("[Content_Types].xml", CONTENT_TYPES),
+      this.zip.addEntry("_rels/.rels", ROOT_RELS),
+      this.zip.addEntry("xl/workbook.xml", workbook),
+      this.zip.addEntry("xl/_rels/workbook.xml.rels", WORKBOOK_RELS),
+      this.zip.addEntry("xl/styles.xml", STYLES),
+      this.zip.startEntry("xl/worksheets/sheet1.xml"),
+    ]
+
+    this.pending = `${XML_HEADER}<worksheet xmlns="${MAIN_NS}"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><cols>${cols}</cols><sheetData>`
+    this.appendRow(
+      this.columns.map((column) => column.header),
+      true,
+    )
+
+    return Buffer.concat(parts)
+  }
+
+  private appendRow(values: XlsxCell[], header = false) {
+    const row = ++this.rowCount
+    const cells = values
+      .map((value, index) => {
+        if (value === null || value === undefined || value === "") return ""
+        const ref = `${columnName(index)}${row}`
+
+        if (typeof value === "number" && !header) {
+          if (!Number.isFinite(value)) return ""
+          const style = this.columns[index]?.money ? ' s="2"' : ""
+          return `<c r="${ref}"${style}><v>${value}</v></c>`
+        }
+
+        const style = header ? ' s="1"' : ""
+        return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+      })
+      .join("")
+
+    this.pending += `<row r="${row}">${cells}</row>`
+  }
+
+  // Returns compressed bytes once enough rows are buffered, otherwise an empty buffer
+  addRow(values: XlsxCell[]): Buffer {
+    this.appendRow(values)
+    return this.pending.length >= FLUSH_BYTES ? this.flush() : Buffer.alloc(0)
+  }
+
+  private flush(): Buffer {
+    const chunk = this.zip.write(this.pending)
+    this.pending = ""
+    return chunk
+  }
+
+  finish(): Buffer {
+    this.pending += "</sheetData></worksheet>"
+    return Buffer.concat([this.flush(), this.zip.endEntry(), this.zip.finish()])
+  }
+}